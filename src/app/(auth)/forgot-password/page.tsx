@@ -3,6 +3,7 @@
 import { useState } from "react";
 import Link from "next/link";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/contexts/LocaleContext";
 import { ArrowLeft } from "lucide-react";
 
 export default function ForgotPasswordPage() {
@@ -11,6 +12,7 @@ export default function ForgotPasswordPage() {
   const [message, setMessage] = useState("");
   const [loading, setLoading] = useState(false);
   const { resetPassword } = useAuth();
+  const { t } = useLocale();
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -20,14 +22,14 @@ export default function ForgotPasswordPage() {
       setMessage("");
       setLoading(true);
       await resetPassword(email);
-      setMessage("Check your email for further instructions");
+      setMessage(t("auth.resetPasswordSent"));
     } catch (error: unknown) {
       if (error instanceof Error) {
         setError(
-          error.message || "Failed to reset password. Please try again."
+          error.message || t("auth.resetPasswordFailed")
         );
       } else {
-        setError("Failed to reset password. An unknown error occurred.");
+        setError(t("auth.resetPasswordUnknownError"));
       }
     } finally {
       setLoading(false);
@@ -38,9 +40,9 @@ export default function ForgotPasswordPage() {
     <div className="min-h-screen flex items-center justify-center bg-background px-4">
       <div className="w-full max-w-md">
         <div className="text-center mb-8">
-          <h1 className="text-3xl font-bold">Reset Password</h1>
+          <h1 className="text-3xl font-bold">{t("auth.resetPassword")}</h1>
           <p className="text-muted-foreground mt-2">
-            Enter your email to receive a password reset link
+            {t("auth.resetPasswordHint")}
           </p>
         </div>
         
@@ -60,7 +62,7 @@ export default function ForgotPasswordPage() {
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <label htmlFor="email" className="block text-sm font-medium mb-1">
-                Email
+                {t("common.email")}
               </label>
               <input
                 id="email"
@@ -77,7 +79,7 @@ export default function ForgotPasswordPage() {
               disabled={loading}
               className="w-full bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 disabled:opacity-50 disabled:pointer-events-none"
             >
-              {loading ? "Sending..." : "Reset Password"}
+              {loading ? t("auth.sending") : t("auth.resetPassword")}
             </button>
           </form>
           
@@ -87,7 +89,7 @@ export default function ForgotPasswordPage() {
               className="inline-flex items-center text-sm text-primary hover:underline"
             >
               <ArrowLeft className="h-4 w-4 mr-1" />
-              Back to login
+              {t("auth.backToLogin")}
             </Link>
           </div>
         </div>
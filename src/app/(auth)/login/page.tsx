@@ -4,6 +4,7 @@ import { useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/contexts/LocaleContext";
 import { Eye, EyeOff, LogIn } from "lucide-react";
 
 export default function LoginPage() {
@@ -13,6 +14,7 @@ export default function LoginPage() {
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const { login } = useAuth();
+  const { t } = useLocale();
   const router = useRouter();
 
   async function handleSubmit(e: React.FormEvent) {
@@ -25,7 +27,7 @@ export default function LoginPage() {
       router.push("/dashboard");
     } catch (error: unknown) {
       setError(
-        error instanceof Error ? error.message : "Failed to sign in. Please check your credentials."
+        error instanceof Error ? error.message : t("auth.signInFailed")
       );
     } finally {
       setLoading(false);
@@ -36,8 +38,8 @@ export default function LoginPage() {
     <div className="min-h-screen flex items-center justify-center bg-background px-4">
       <div className="w-full max-w-md">
         <div className="text-center mb-8">
-          <h1 className="text-3xl font-bold">Meshwar Admin</h1>
-          <p className="text-muted-foreground mt-2">Sign in to your account</p>
+          <h1 className="text-3xl font-bold">{t("auth.appName")}</h1>
+          <p className="text-muted-foreground mt-2">{t("auth.signInTitle")}</p>
         </div>
         
         <div className="bg-card border rounded-lg shadow-sm p-6">
@@ -50,7 +52,7 @@ export default function LoginPage() {
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <label htmlFor="email" className="block text-sm font-medium mb-1">
-                Email
+                {t("common.email")}
               </label>
               <input
                 id="email"
@@ -64,7 +66,7 @@ export default function LoginPage() {
             
             <div>
               <label htmlFor="password" className="block text-sm font-medium mb-1">
-                Password
+                {t("common.password")}
               </label>
               <div className="relative">
                 <input
@@ -97,13 +99,13 @@ export default function LoginPage() {
                   className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
                 />
                 <label htmlFor="remember-me" className="ml-2 block text-sm">
-                  Remember me
+                  {t("auth.rememberMe")}
                 </label>
               </div>
               
               <div className="text-sm">
                 <Link href="/forgot-password" className="text-primary hover:underline">
-                  Forgot password?
+                  {t("auth.forgotPassword")}
                 </Link>
               </div>
             </div>
@@ -116,12 +118,12 @@ export default function LoginPage() {
               {loading ? (
                 <>
                   <div className="h-4 w-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin"></div>
-                  <span>Signing in...</span>
+                  <span>{t("auth.signingIn")}</span>
                 </>
               ) : (
                 <>
                   <LogIn className="h-4 w-4" />
-                  <span>Sign in</span>
+                  <span>{t("auth.signIn")}</span>
                 </>
               )}
             </button>
@@ -129,9 +131,9 @@ export default function LoginPage() {
           
           <div className="mt-6 text-center text-sm">
             <p>
-              Don&apos;t have an account?{" "}
+              {t("auth.noAccount")}{" "}
               <Link href="/signup" className="text-primary hover:underline">
-                Sign up
+                {t("auth.signUp")}
               </Link>
             </p>
           </div>
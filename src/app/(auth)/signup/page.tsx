@@ -4,6 +4,7 @@ import { useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/contexts/LocaleContext";
 import { Eye, EyeOff, UserPlus } from "lucide-react";
 
 export default function SignupPage() {
@@ -15,13 +16,14 @@ export default function SignupPage() {
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const { signup } = useAuth();
+  const { t } = useLocale();
   const router = useRouter();
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     
     if (password !== confirmPassword) {
-      return setError("Passwords do not match");
+      return setError(t("auth.passwordsDoNotMatch"));
     }
     
     try {
@@ -32,7 +34,7 @@ export default function SignupPage() {
       router.push("/dashboard");
     } catch (error: unknown) {
       setError(
-        error instanceof Error ? error.message : "Failed to create an account. Please try again."
+        error instanceof Error ? error.message : t("auth.signUpFailed")
       );
     } finally {
       setLoading(false);
@@ -43,8 +45,8 @@ export default function SignupPage() {
     <div className="min-h-screen flex items-center justify-center bg-background px-4">
       <div className="w-full max-w-md">
         <div className="text-center mb-8">
-          <h1 className="text-3xl font-bold">Meshwar Admin</h1>
-          <p className="text-muted-foreground mt-2">Create Admin Account</p>
+          <h1 className="text-3xl font-bold">{t("auth.appName")}</h1>
+          <p className="text-muted-foreground mt-2">{t("auth.createAdminAccount")}</p>
         </div>
         
         <div className="bg-card border rounded-lg shadow-sm p-6">
@@ -57,7 +59,7 @@ export default function SignupPage() {
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <label htmlFor="name" className="block text-sm font-medium mb-1">
-                Full Name
+                {t("auth.fullName")}
               </label>
               <input
                 id="name"
@@ -71,7 +73,7 @@ export default function SignupPage() {
             
             <div>
               <label htmlFor="email" className="block text-sm font-medium mb-1">
-                Email
+                {t("common.email")}
               </label>
               <input
                 id="email"
@@ -85,7 +87,7 @@ export default function SignupPage() {
             
             <div>
               <label htmlFor="password" className="block text-sm font-medium mb-1">
-                Password
+                {t("common.password")}
               </label>
               <div className="relative">
                 <input
@@ -113,7 +115,7 @@ export default function SignupPage() {
             
             <div>
               <label htmlFor="confirm-password" className="block text-sm font-medium mb-1">
-                Confirm Password
+                {t("auth.confirmPassword")}
               </label>
               <div className="relative">
                 <input
@@ -135,12 +137,12 @@ export default function SignupPage() {
               {loading ? (
                 <>
                   <div className="h-4 w-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin"></div>
-                  <span>Creating admin account...</span>
+                  <span>{t("auth.creatingAdminAccount")}</span>
                 </>
               ) : (
                 <>
                   <UserPlus className="h-4 w-4" />
-                  <span>Create Admin Account</span>
+                  <span>{t("auth.createAdminAccount")}</span>
                 </>
               )}
             </button>
@@ -148,9 +150,9 @@ export default function SignupPage() {
           
           <div className="mt-6 text-center text-sm">
             <p>
-              Already have an account?{" "}
+              {t("auth.haveAccount")}{" "}
               <Link href="/login" className="text-primary hover:underline">
-                Sign in
+                {t("auth.signIn")}
               </Link>
             </p>
           </div>
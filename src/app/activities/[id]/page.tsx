@@ -2,13 +2,32 @@
 
 import { useState, useEffect } from "react";
 import { useRouter, useParams } from "next/navigation";
-import { Save, ArrowLeft, Loader2, Plus, AlertCircle, X, MapPin } from "lucide-react";
+import { Save, ArrowLeft, Loader2, AlertCircle, MapPin } from "lucide-react";
 import dynamic from "next/dynamic";
 import MainLayout from "@/layouts/MainLayout";
-import { activityService } from "@/services/activityService";
+import { activityService, OccurrenceScope } from "@/services/activityService";
 import { locationService } from "@/services/locationService";
+import { tagService } from "@/services/tagService";
+import { userService } from "@/services/userService";
 import { Location } from "@/types/location";
-import { Activity } from "@/types/activity";
+import { Tag } from "@/types/tag";
+import { User } from "@/types/user";
+import ItineraryEditor from "@/components/activities/ItineraryEditor";
+import PriceTiersEditor from "@/components/activities/PriceTiersEditor";
+import TagInput from "@/components/activities/TagInput";
+import StaffEditor from "@/components/activities/StaffEditor";
+import LocationConflicts from "@/components/activities/LocationConflicts";
+import EquipmentEditor from "@/components/activities/EquipmentEditor";
+import TranslationFields from "@/components/TranslationFields";
+import { Translations } from "@/types/locale";
+import { Activity, ActivityStaff, EquipmentItem, ItineraryStop, LocationConflict, PriceTiers, StaffConflict, TravelMode } from "@/types/activity";
+import { ageGroupOptions, getAgeGroupRangeLabel } from "@/utils/ageGroupUtils";
+import { travelModeOptions } from "@/utils/routeUtils";
+import { createItineraryStop, getItinerary, getItineraryLocations } from "@/utils/itineraryUtils";
+import { canBeStaff, emptyStaff } from "@/utils/staffUtils";
+import { cleanTranslations } from "@/utils/localeUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+import { translate } from "@/locales/messages";
 
 // Dynamically import the ActivityMap to avoid SSR issues with Leaflet
 const ActivityMap = dynamic(
@@ -24,29 +43,43 @@ export default function EditActivityPage() {
   const [activity, setActivity] = useState<Activity | null>(null);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [translations, setTranslations] = useState<Translations<"title" | "description">>({});
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [startTime, setStartTime] = useState("");
   const [endTime, setEndTime] = useState("");
-  const [selectedLocationIds, setSelectedLocationIds] = useState<string[]>([]);
+  const [itinerary, setItinerary] = useState<ItineraryStop[]>([]);
+  const [travelMode, setTravelMode] = useState<TravelMode>("walking");
   const [availableLocations, setAvailableLocations] = useState<Location[]>([]);
   const [selectedLocations, setSelectedLocations] = useState<Location[]>([]);
   const [difficulty, setDifficulty] = useState<"easy" | "moderate" | "hard">("moderate");
   const [ageGroup, setAgeGroup] = useState<"all" | "adults" | "children" | "seniors">("all");
   const [estimatedDuration, setEstimatedDuration] = useState<number>(0);
   const [estimatedCost, setEstimatedCost] = useState<number>(0);
+  const [priceTiers, setPriceTiers] = useState<PriceTiers | null>(null);
   const [tags, setTags] = useState<string[]>([]);
-  const [tagInput, setTagInput] = useState("");
-  const [isActive, setIsActive] = useState(true);
+  const [availableTags, setAvailableTags] = useState<Tag[]>([]);
+  const [staff, setStaff] = useState<ActivityStaff>(emptyStaff());
+  const [equipment, setEquipment] = useState<EquipmentItem[]>([]);
+  const [staffMembers, setStaffMembers] = useState<User[]>([]);
+  const [staffConflicts, setStaffConflicts] = useState<StaffConflict[]>([]);
+  const [locationConflicts, setLocationConflicts] = useState<LocationConflict[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [pageLoading, setPageLoading] = useState(true);
   const [showMap, setShowMap] = useState(true);
   const [participantLimit, setParticipantLimit] = useState<number>(0);
+  const [hasCancellationPolicy, setHasCancellationPolicy] = useState(false);
+  const [freeCancellationHours, setFreeCancellationHours] = useState<number>(24);
+  const [lateCancellationFeePercent, setLateCancellationFeePercent] = useState<number>(0);
+  const [noShowCharged, setNoShowCharged] = useState(false);
+  const [occurrenceScope, setOccurrenceScope] = useState<OccurrenceScope>("this");
   
   const router = useRouter();
+  const { t } = useLocale();
   const params = useParams();
   const id = params.id as string;
+  const selectedLocationIds = itinerary.map(stop => stop.locationId);
 
   // Load activity and locations on component mount
   useEffect(() => {
@@ -59,7 +92,8 @@ export default function EditActivityPage() {
         // Load activity
         const activityData = await activityService.getActivityById(id);
         if (!activityData) {
-          setError("Activity not found");
+          // Read the message directly so switching the language does not reload the form
+          setError(translate("activity.notFound"));
           setPageLoading(false);
           return;
         }
@@ -67,21 +101,31 @@ export default function EditActivityPage() {
         setActivity(activityData);
         setTitle(activityData.title);
         setDescription(activityData.description || "");
+        setTranslations(activityData.translations || {});
         setStartDate(activityData.startDate.toISOString().split('T')[0]);
         setEndDate(activityData.endDate.toISOString().split('T')[0]);
         setStartTime(activityData.startTime);
         setEndTime(activityData.endTime);
-        setSelectedLocationIds(activityData.locations || []);
+        setItinerary(getItinerary(activityData));
+        setTravelMode(activityData.travelMode || "walking");
         setDifficulty(activityData.difficulty);
         setAgeGroup(activityData.ageGroup);
         setEstimatedDuration(activityData.estimatedDuration);
         setEstimatedCost(activityData.estimatedCost);
+        setPriceTiers(activityData.priceTiers || null);
         setTags(activityData.tags || []);
-        setIsActive(activityData.isActive);
+        setStaff(activityData.staff || emptyStaff());
+        setEquipment(activityData.equipment || []);
         setParticipantLimit(activityData.participantLimit || 0);
+        if (activityData.cancellationPolicy) {
+          setHasCancellationPolicy(true);
+          setFreeCancellationHours(activityData.cancellationPolicy.freeCancellationHours);
+          setLateCancellationFeePercent(activityData.cancellationPolicy.lateCancellationFeePercent);
+          setNoShowCharged(activityData.cancellationPolicy.noShowCharged);
+        }
       } catch (err) {
         console.error("Error loading data:", err);
-        setError("Failed to load activity details. Please try again.");
+        setError(translate("activityForm.loadFailed"));
       } finally {
         setPageLoading(false);
       }
@@ -90,13 +134,70 @@ export default function EditActivityPage() {
     loadData();
   }, [id]);
 
-  // Update selected locations whenever selectedLocationIds changes
+  // Managed tags power the tag autocomplete
   useEffect(() => {
-    const locations = availableLocations.filter(loc => 
-      selectedLocationIds.includes(loc.id)
-    );
-    setSelectedLocations(locations);
-  }, [selectedLocationIds, availableLocations]);
+    tagService.getTags()
+      .then(setAvailableTags)
+      .catch(err => console.error("Error loading tags:", err));
+  }, []);
+
+  useEffect(() => {
+    userService.getUsers()
+      .then(users => setStaffMembers(users.filter(canBeStaff)))
+      .catch(err => console.error("Error loading staff:", err));
+  }, []);
+
+  // Warn about staff who are busy elsewhere while the activity runs
+  useEffect(() => {
+    if (!startDate || !endDate || !startTime || !endTime) {
+      setStaffConflicts([]);
+      return;
+    }
+    
+    let cancelled = false;
+    activityService.getStaffConflicts(staff, [{
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      startTime,
+      endTime
+    }], [id])
+      .then(conflicts => !cancelled && setStaffConflicts(conflicts))
+      .catch(err => console.error("Error checking staff availability:", err));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [staff, startDate, endDate, startTime, endTime, id]);
+
+  // Warn about other activities at the same locations, or too many for a location, while the stops run
+  useEffect(() => {
+    if (!startDate || !endDate || !startTime || !endTime || itinerary.length === 0) {
+      setLocationConflicts([]);
+      return;
+    }
+    
+    let cancelled = false;
+    activityService.getLocationConflicts({
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      startTime,
+      endTime,
+      locations: itinerary.map(stop => stop.locationId),
+      itinerary,
+      participantLimit
+    }, [id])
+      .then(conflicts => !cancelled && setLocationConflicts(conflicts))
+      .catch(err => console.error("Error checking location availability:", err));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [itinerary, participantLimit, startDate, endDate, startTime, endTime, id]);
+
+  // Update selected locations, in itinerary order, whenever the itinerary changes
+  useEffect(() => {
+    setSelectedLocations(getItineraryLocations(itinerary, availableLocations));
+  }, [itinerary, availableLocations]);
 
   // Calculate duration when start and end times change
   useEffect(() => {
@@ -138,92 +239,96 @@ export default function EditActivityPage() {
     e.preventDefault();
     
     if (!title.trim()) {
-      setError("Activity title is required");
+      setError(t("activityForm.titleRequired"));
       return;
     }
 
     if (!startDate) {
-      setError("Start date is required");
+      setError(t("activityForm.startDateRequired"));
       return;
     }
 
     if (!endDate) {
-      setError("End date is required");
+      setError(t("activityForm.endDateRequired"));
       return;
     }
 
     if (new Date(startDate) > new Date(endDate)) {
-      setError("End date cannot be before start date");
+      setError(t("activityForm.endBeforeStart"));
       return;
     }
 
     if (!startTime) {
-      setError("Start time is required");
+      setError(t("activityForm.startTimeRequired"));
       return;
     }
 
     if (!endTime) {
-      setError("End time is required");
+      setError(t("activityForm.endTimeRequired"));
       return;
     }
 
     if (selectedLocationIds.length === 0) {
-      setError("Please select at least one location");
+      setError(t("activityForm.locationRequired"));
       return;
     }
-    
+
+    if (staffConflicts.length > 0) {
+      setError(t("activityForm.staffBusy"));
+      return;
+    }
+
+    // Location conflicts are only a warning here: the service refuses the ones this edit adds
+    // and leaves alone those the activity already had
     try {
       setLoading(true);
       setError(null);
       
-      // Update activity
-      await activityService.updateActivity(id, {
+      // Update activity; for a recurring activity, optionally its later occurrences too
+      await activityService.updateOccurrences(id, {
         title,
         description,
+        translations: cleanTranslations(translations),
         startDate: new Date(startDate),
         endDate: new Date(endDate),
         startTime,
         endTime,
         locations: selectedLocationIds,
-        isActive,
+        itinerary,
+        travelMode,
         difficulty,
         ageGroup,
         estimatedDuration,
         estimatedCost,
+        priceTiers,
         tags,
-        participantLimit
-      });
+        equipment: equipment.filter(item => item.name.trim()),
+        staff,
+        participantLimit,
+        cancellationPolicy: hasCancellationPolicy
+          ? { freeCancellationHours, lateCancellationFeePercent, noShowCharged }
+          : null
+      }, occurrenceScope);
       
       router.push("/activities");
     } catch (err) {
       console.error("Error updating activity:", err);
-      setError("Failed to update activity. Please try again.");
+      setError(err instanceof Error ? err.message : t("activityForm.updateFailed"));
     } finally {
       setLoading(false);
     }
   };
 
   const handleLocationToggle = (locationId: string) => {
-    setSelectedLocationIds(prev => {
-      if (prev.includes(locationId)) {
-        return prev.filter(id => id !== locationId);
+    setItinerary(prev => {
+      if (prev.some(stop => stop.locationId === locationId)) {
+        return prev.filter(stop => stop.locationId !== locationId);
       } else {
-        return [...prev, locationId];
+        return [...prev, createItineraryStop(locationId)];
       }
     });
   };
 
-  const handleAddTag = () => {
-    if (tagInput.trim() && !tags.includes(tagInput.trim())) {
-      setTags([...tags, tagInput.trim()]);
-      setTagInput("");
-    }
-  };
-
-  const handleRemoveTag = (tagToRemove: string) => {
-    setTags(tags.filter(tag => tag !== tagToRemove));
-  };
-
   // Get unique categories from selected locations
   const getUniqueCategories = () => {
     const categories = selectedLocations
@@ -248,15 +353,15 @@ export default function EditActivityPage() {
       <MainLayout>
         <div className="flex flex-col items-center justify-center h-64">
           <AlertCircle className="h-12 w-12 text-destructive mb-4" />
-          <h2 className="text-xl font-bold">Activity not found</h2>
+          <h2 className="text-xl font-bold">{t("activity.notFound")}</h2>
           <p className="text-muted-foreground mt-2">
-            The activity you&apos;re looking for doesn&apos;t exist or has been removed.
+            {t("activity.notFoundHint")}
           </p>
           <button
             onClick={() => router.push("/activities")}
             className="mt-4 px-4 py-2 bg-primary text-primary-foreground rounded-md"
           >
-            Back to Activities
+            {t("activity.backToActivities")}
           </button>
         </div>
       </MainLayout>
@@ -273,7 +378,7 @@ export default function EditActivityPage() {
           >
             <ArrowLeft className="h-5 w-5" />
           </button>
-          <h1 className="text-3xl font-bold tracking-tight">Edit Activity</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{t("activityForm.editTitle")}</h1>
         </div>
         
         {error && (
@@ -286,11 +391,11 @@ export default function EditActivityPage() {
           {/* Form content - identical to NewActivityPage with pre-filled values */}
           {/* Basic Information */}
           <div className="space-y-4 md:col-span-2">
-            <h2 className="text-xl font-semibold">Basic Information</h2>
+            <h2 className="text-xl font-semibold">{t("activityForm.basicInfo")}</h2>
             
             <div>
               <label htmlFor="title" className="block text-sm font-medium mb-1">
-                Title <span className="text-destructive">*</span>
+                {t("activityForm.title")} <span className="text-destructive">*</span>
               </label>
               <input
                 id="title"
@@ -304,7 +409,7 @@ export default function EditActivityPage() {
             
             <div>
               <label htmlFor="description" className="block text-sm font-medium mb-1">
-                Description
+                {t("activityForm.description")}
               </label>
               <textarea
                 id="description"
@@ -314,16 +419,25 @@ export default function EditActivityPage() {
                 className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary resize-none"
               />
             </div>
+            
+            <TranslationFields
+              fields={[
+                { name: "title", label: t("activityForm.title") },
+                { name: "description", label: t("activityForm.description"), multiline: true }
+              ]}
+              translations={translations}
+              onChange={setTranslations}
+            />
           </div>
           
           {/* Date and Time */}
           <div className="space-y-4">
-            <h2 className="text-xl font-semibold">Date & Time</h2>
+            <h2 className="text-xl font-semibold">{t("activityForm.dateTime")}</h2>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label htmlFor="startDate" className="block text-sm font-medium mb-1">
-                  Start Date <span className="text-destructive">*</span>
+                  {t("activityForm.startDate")} <span className="text-destructive">*</span>
                 </label>
                 <input
                   id="startDate"
@@ -337,7 +451,7 @@ export default function EditActivityPage() {
               
               <div>
                 <label htmlFor="endDate" className="block text-sm font-medium mb-1">
-                  End Date <span className="text-destructive">*</span>
+                  {t("activityForm.endDate")} <span className="text-destructive">*</span>
                 </label>
                 <input
                   id="endDate"
@@ -351,7 +465,7 @@ export default function EditActivityPage() {
               
               <div>
                 <label htmlFor="startTime" className="block text-sm font-medium mb-1">
-                  Start Time <span className="text-destructive">*</span>
+                  {t("activityForm.startTime")} <span className="text-destructive">*</span>
                 </label>
                 <input
                   id="startTime"
@@ -365,7 +479,7 @@ export default function EditActivityPage() {
               
               <div>
                 <label htmlFor="endTime" className="block text-sm font-medium mb-1">
-                  End Time <span className="text-destructive">*</span>
+                  {t("activityForm.endTime")} <span className="text-destructive">*</span>
                 </label>
                 <input
                   id="endTime"
@@ -382,20 +496,20 @@ export default function EditActivityPage() {
           {/* Locations */}
           <div className="space-y-4">
             <div className="flex justify-between items-center">
-              <h2 className="text-xl font-semibold">Locations</h2>
+              <h2 className="text-xl font-semibold">{t("activityForm.locations")}</h2>
               <button
                 type="button"
                 onClick={() => setShowMap(!showMap)}
                 className="text-sm text-primary hover:underline flex items-center gap-1"
               >
-                {showMap ? "Hide Map" : "Show Map"}
+                {showMap ? t("activityForm.hideMap") : t("activityForm.showMap")}
               </button>
             </div>
             
             {selectedLocations.length > 0 && (
               <div className="p-3 bg-muted/30 rounded-md">
                 <p className="text-sm">
-                  <span className="font-medium">This activity contains:</span>{" "}
+                  <span className="font-medium">{t("activityForm.contains")}</span>{" "}
                   {getUniqueCategories().join(", ")}
                 </p>
               </div>
@@ -403,20 +517,45 @@ export default function EditActivityPage() {
             
             {showMap && selectedLocations.length > 0 && (
               <div className="h-[400px] border rounded-md overflow-hidden">
-                <ActivityMap locations={selectedLocations} />
+                <ActivityMap locations={selectedLocations} travelMode={travelMode} />
+              </div>
+            )}
+
+            {selectedLocations.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <h3 className="font-medium">{t("activityForm.itinerary")}</h3>
+                  <select
+                    value={travelMode}
+                    onChange={(e) => setTravelMode(e.target.value as TravelMode)}
+                    className="px-2 py-1 border rounded-md bg-background text-sm"
+                    aria-label={t("activityForm.travelMode")}
+                  >
+                    {travelModeOptions.map(option => (
+                      <option key={option.value} value={option.value}>{t(`travelMode.${option.value}`)}</option>
+                    ))}
+                  </select>
+                </div>
+                <ItineraryEditor
+                  stops={itinerary}
+                  locations={availableLocations}
+                  onChange={setItinerary}
+                />
               </div>
             )}
             
+            <LocationConflicts conflicts={locationConflicts} locations={availableLocations} />
+            
             <div className="border rounded-md overflow-hidden">
               <div className="bg-muted/50 p-3 border-b">
-                <h3 className="font-medium">Select Locations</h3>
-                <p className="text-xs text-muted-foreground">Select at least one location for this activity</p>
+                <h3 className="font-medium">{t("activityForm.selectLocations")}</h3>
+                <p className="text-xs text-muted-foreground">{t("activityForm.selectLocationsHint")}</p>
               </div>
               
               <div className="max-h-[300px] overflow-y-auto p-2">
                 {availableLocations.length === 0 ? (
                   <p className="text-center p-4 text-muted-foreground">
-                    No locations available. Please create locations first.
+                    {t("activityForm.noLocations")}
                   </p>
                 ) : (
                   <div className="space-y-2">
@@ -453,12 +592,12 @@ export default function EditActivityPage() {
           
           {/* Additional Details */}
           <div className="space-y-4">
-            <h2 className="text-xl font-semibold">Additional Details</h2>
+            <h2 className="text-xl font-semibold">{t("activityForm.additionalDetails")}</h2>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label htmlFor="difficulty" className="block text-sm font-medium mb-1">
-                  Difficulty Level
+                  {t("activityForm.difficulty")}
                 </label>
                 <select
                   id="difficulty"
@@ -466,15 +605,15 @@ export default function EditActivityPage() {
                   onChange={(e) => setDifficulty(e.target.value as "easy" | "moderate" | "hard")}
                   className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
                 >
-                  <option value="easy">Easy</option>
-                  <option value="moderate">Moderate</option>
-                  <option value="hard">Hard</option>
+                  <option value="easy">{t("difficulty.easy")}</option>
+                  <option value="moderate">{t("difficulty.moderate")}</option>
+                  <option value="hard">{t("difficulty.hard")}</option>
                 </select>
               </div>
               
               <div>
                 <label htmlFor="ageGroup" className="block text-sm font-medium mb-1">
-                  Age Group
+                  {t("activityForm.ageGroup")}
                 </label>
                 <select
                   id="ageGroup"
@@ -482,28 +621,29 @@ export default function EditActivityPage() {
                   onChange={(e) => setAgeGroup(e.target.value as "all" | "adults" | "children" | "seniors")}
                   className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
                 >
-                  <option value="all">All Ages</option>
-                  <option value="adults">Adults</option>
-                  <option value="children">Children</option>
-                  <option value="seniors">Seniors</option>
+                  {ageGroupOptions.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {getAgeGroupRangeLabel(option.value)}
+                    </option>
+                  ))}
                 </select>
               </div>
               
               <div>
                 <label htmlFor="estimatedDuration" className="block text-sm font-medium mb-1">
-                  Estimated Duration (calculated automatically)
+                  {t("activityForm.duration")}
                 </label>
                 <div className="w-full px-3 py-2 border rounded-md bg-muted text-muted-foreground">
-                  {estimatedDuration} minutes
+                  {t("activity.durationMinutes", { minutes: estimatedDuration })}
                   {estimatedDuration >= 60 && (
-                    <span> ({Math.floor(estimatedDuration / 60)} hours {estimatedDuration % 60} minutes)</span>
+                    <span>{t("activity.durationHours", { hours: Math.floor(estimatedDuration / 60), minutes: estimatedDuration % 60 })}</span>
                   )}
                 </div>
               </div>
               
               <div>
                 <label htmlFor="estimatedCost" className="block text-sm font-medium mb-1">
-                  Estimated Cost
+                  {t("activityForm.estimatedCost")}
                 </label>
                 <input
                   id="estimatedCost"
@@ -517,72 +657,69 @@ export default function EditActivityPage() {
               </div>
             </div>
             
+            <div>
+              <h3 className="font-medium mb-2">{t("activityForm.pricing")}</h3>
+              <PriceTiersEditor
+                priceTiers={priceTiers}
+                baseCost={estimatedCost}
+                onChange={setPriceTiers}
+              />
+            </div>
+            
             {/* Tags */}
             <div>
               <label htmlFor="tags" className="block text-sm font-medium mb-1">
-                Tags
+                {t("activityForm.tags")}
               </label>
-              <div className="flex gap-2">
-                <input
-                  id="tags"
-                  type="text"
-                  value={tagInput}
-                  onChange={(e) => setTagInput(e.target.value)}
-                  placeholder="Add tags..."
-                  className="flex-1 px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter') {
-                      e.preventDefault();
-                      handleAddTag();
-                    }
-                  }}
-                />
-                <button
-                  type="button"
-                  onClick={handleAddTag}
-                  className="px-3 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
-                >
-                  <Plus className="h-4 w-4" />
-                </button>
-              </div>
-              
-              {tags.length > 0 && (
-                <div className="flex flex-wrap gap-2 mt-2">
-                  {tags.map(tag => (
-                    <div key={tag} className="flex items-center gap-1 bg-muted px-2 py-1 rounded-full text-xs">
-                      <span>{tag}</span>
-                      <button
-                        type="button"
-                        onClick={() => handleRemoveTag(tag)}
-                        className="text-muted-foreground hover:text-destructive"
-                      >
-                        <X className="h-3 w-3" />
-                      </button>
-                    </div>
-                  ))}
-                </div>
-              )}
+              <TagInput
+                tags={tags}
+                availableTags={availableTags}
+                onChange={setTags}
+              />
             </div>
             
-            {/* Active Status */}
+            {/* Equipment */}
             <div>
-              <label className="flex items-center">
-                <input
-                  type="checkbox"
-                  checked={isActive}
-                  onChange={(e) => setIsActive(e.target.checked)}
-                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
-                />
-                <span>Active</span>
+              <label className="block text-sm font-medium mb-1">
+                {t("activityForm.whatToBring")}
               </label>
-              <p className="text-xs text-muted-foreground mt-1">
-                Inactive activities won&apos;t be visible to users
-              </p>
+              <EquipmentEditor
+                equipment={equipment}
+                onChange={setEquipment}
+              />
+            </div>
+            
+            {/* Staff */}
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                {t("activityForm.staff")}
+              </label>
+              <StaffEditor
+                staff={staff}
+                staffMembers={staffMembers}
+                conflicts={staffConflicts}
+                onChange={setStaff}
+              />
             </div>
+            
+            {/* Workflow Status */}
+            {activity && (
+              <div>
+                <p className="text-sm">
+                  <span className="font-medium">{t("activityForm.status")}</span> {t(`activityStatus.${activity.status || "draft"}`)}
+                </p>
+                {activity.reviewNote && (
+                  <p className="text-sm text-orange-700 mt-1">{t("activityForm.returnedFromReview", { note: activity.reviewNote })}</p>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  {t("activityForm.workflowHint")}
+                </p>
+              </div>
+            )}
 
             <div className="mb-4">
               <label className="block text-sm font-medium mb-1">
-                Participant Limit (0 for unlimited)
+                {t("activityForm.participantLimit")}
               </label>
               <input
                 type="number"
@@ -594,13 +731,110 @@ export default function EditActivityPage() {
             </div>
           </div>
           
+          {/* Cancellation Policy */}
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold">{t("activityForm.cancellationPolicy")}</h2>
+            
+            <div>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={hasCancellationPolicy}
+                  onChange={(e) => setHasCancellationPolicy(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
+                />
+                <span>{t("activityForm.enforcePolicy")}</span>
+              </label>
+              <p className="text-xs text-muted-foreground mt-1">
+                {t("activityForm.noPolicyHint")}
+              </p>
+            </div>
+            
+            {hasCancellationPolicy && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="freeCancellationHours" className="block text-sm font-medium mb-1">
+                    {t("activityForm.freeWindow")}
+                  </label>
+                  <input
+                    id="freeCancellationHours"
+                    type="number"
+                    min="0"
+                    value={freeCancellationHours}
+                    onChange={(e) => setFreeCancellationHours(Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+                
+                <div>
+                  <label htmlFor="lateCancellationFeePercent" className="block text-sm font-medium mb-1">
+                    {t("activityForm.lateFee")}
+                  </label>
+                  <input
+                    id="lateCancellationFeePercent"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={lateCancellationFeePercent}
+                    onChange={(e) => setLateCancellationFeePercent(Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+                    className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+                
+                <div className="md:col-span-2">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={noShowCharged}
+                      onChange={(e) => setNoShowCharged(e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
+                    />
+                    <span>{t("activityForm.chargeNoShows")}</span>
+                  </label>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {t("activityForm.overrideHint")}
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+          
+          {activity?.seriesId && (
+            <div className="p-4 border rounded-md space-y-2">
+              <p className="font-medium">{t("activityForm.series")}</p>
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  name="occurrenceScope"
+                  checked={occurrenceScope === "this"}
+                  onChange={() => setOccurrenceScope("this")}
+                  className="mr-2"
+                />
+                <span>{t("activityForm.scopeThis")}</span>
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  name="occurrenceScope"
+                  checked={occurrenceScope === "future"}
+                  onChange={() => setOccurrenceScope("future")}
+                  className="mr-2"
+                />
+                <span>{t("activityForm.scopeFuture")}</span>
+              </label>
+              <p className="text-xs text-muted-foreground">
+                {t("activityForm.scopeHint")}
+              </p>
+            </div>
+          )}
+          
           <div className="flex justify-end gap-4 pt-4 border-t">
             <button
               type="button"
               onClick={() => router.push("/activities")}
               className="px-4 py-2 border rounded-md hover:bg-muted"
             >
-              Cancel
+              {t("common.cancel")}
             </button>
             <button
               type="submit"
@@ -610,12 +844,12 @@ export default function EditActivityPage() {
               {loading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span>Saving...</span>
+                  <span>{t("common.saving")}</span>
                 </>
               ) : (
                 <>
                   <Save className="h-4 w-4" />
-                  <span>Save Changes</span>
+                  <span>{t("common.saveChanges")}</span>
                 </>
               )}
             </button>
@@ -2,13 +2,33 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { Save, ArrowLeft, Loader2, Plus, X, MapPin } from "lucide-react";
+import { Save, ArrowLeft, Loader2, Plus, X, MapPin, Repeat } from "lucide-react";
 import dynamic from "next/dynamic";
 import MainLayout from "@/layouts/MainLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/contexts/LocaleContext";
 import { activityService } from "@/services/activityService";
 import { locationService } from "@/services/locationService";
+import { tagService } from "@/services/tagService";
+import { userService } from "@/services/userService";
 import { Location } from "@/types/location";
-import { ageGroupOptions } from "@/utils/ageGroupUtils";
+import { Tag } from "@/types/tag";
+import { User } from "@/types/user";
+import ItineraryEditor from "@/components/activities/ItineraryEditor";
+import PriceTiersEditor from "@/components/activities/PriceTiersEditor";
+import TagInput from "@/components/activities/TagInput";
+import StaffEditor from "@/components/activities/StaffEditor";
+import LocationConflicts from "@/components/activities/LocationConflicts";
+import EquipmentEditor from "@/components/activities/EquipmentEditor";
+import TranslationFields from "@/components/TranslationFields";
+import { Translations } from "@/types/locale";
+import { ActivityStaff, EquipmentItem, ItineraryStop, LocationConflict, PriceTiers, RecurrenceFrequency, RecurrenceRule, StaffConflict, TravelMode } from "@/types/activity";
+import { ageGroupOptions, getAgeGroupRangeLabel } from "@/utils/ageGroupUtils";
+import { travelModeOptions } from "@/utils/routeUtils";
+import { createItineraryStop, getItineraryLocations, isBlockingConflict } from "@/utils/itineraryUtils";
+import { canBeStaff, emptyStaff } from "@/utils/staffUtils";
+import { cleanTranslations } from "@/utils/localeUtils";
+import { expandRecurrence, describeRecurrence, getWeekdayLabel, weekdayOptions, MAX_OCCURRENCES } from "@/utils/recurrenceUtils";
 
 // Dynamically import the ActivityMap to avoid SSR issues with Leaflet
 const ActivityMap = dynamic(
@@ -24,26 +44,56 @@ const ActivityMap = dynamic(
 export default function NewActivityPage() {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [translations, setTranslations] = useState<Translations<"title" | "description">>({});
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [startTime, setStartTime] = useState("");
   const [endTime, setEndTime] = useState("");
-  const [selectedLocationIds, setSelectedLocationIds] = useState<string[]>([]);
+  const [itinerary, setItinerary] = useState<ItineraryStop[]>([]);
+  const [travelMode, setTravelMode] = useState<TravelMode>("walking");
   const [availableLocations, setAvailableLocations] = useState<Location[]>([]);
   const [selectedLocations, setSelectedLocations] = useState<Location[]>([]);
   const [difficulty, setDifficulty] = useState<"easy" | "moderate" | "hard">("moderate");
   const [ageGroup, setAgeGroup] = useState<"all" | "adults" | "children" | "seniors">("all");
   const [estimatedDuration, setEstimatedDuration] = useState<number>(0);
   const [estimatedCost, setEstimatedCost] = useState<number>(0);
+  const [priceTiers, setPriceTiers] = useState<PriceTiers | null>(null);
   const [tags, setTags] = useState<string[]>([]);
-  const [tagInput, setTagInput] = useState("");
-  const [isActive, setIsActive] = useState(true);
+  const [availableTags, setAvailableTags] = useState<Tag[]>([]);
+  const [staff, setStaff] = useState<ActivityStaff>(emptyStaff());
+  const [equipment, setEquipment] = useState<EquipmentItem[]>([]);
+  const [staffMembers, setStaffMembers] = useState<User[]>([]);
+  const [staffConflicts, setStaffConflicts] = useState<StaffConflict[]>([]);
+  const [locationConflicts, setLocationConflicts] = useState<LocationConflict[]>([]);
+  const [submitForReview, setSubmitForReview] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showMap, setShowMap] = useState(true);
   const [participantLimit, setParticipantLimit] = useState<number>(0);
+  const [repeats, setRepeats] = useState(false);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>("weekly");
+  const [repeatInterval, setRepeatInterval] = useState<number>(1);
+  const [byWeekday, setByWeekday] = useState<number[]>([]);
+  const [recurrenceEnd, setRecurrenceEnd] = useState<"until" | "count">("count");
+  const [until, setUntil] = useState("");
+  const [count, setCount] = useState<number>(10);
+  const [exceptionDates, setExceptionDates] = useState<string[]>([]);
+  const [exceptionInput, setExceptionInput] = useState("");
   
   const router = useRouter();
+  const { currentUser } = useAuth();
+  const { t } = useLocale();
+  const selectedLocationIds = itinerary.map(stop => stop.locationId);
+
+  const recurrenceRule: RecurrenceRule = {
+    frequency,
+    interval: repeatInterval,
+    byWeekday: frequency === "weekly" ? byWeekday : [],
+    until: recurrenceEnd === "until" && until ? new Date(until) : null,
+    count: recurrenceEnd === "count" ? count : null,
+    exceptionDates
+  };
+  const occurrenceCount = repeats && startDate ? expandRecurrence(startDate, recurrenceRule).length : 0;
 
   // Load available locations on component mount
   useEffect(() => {
@@ -54,20 +104,77 @@ export default function NewActivityPage() {
         setAvailableLocations(data.filter(loc => loc.isActive));
       } catch (err) {
         console.error("Error loading locations:", err);
-        setError("Failed to load locations. Please try again.");
+        setError(t("activityForm.locationsLoadFailed"));
       }
     };
     
     loadLocations();
+  }, [t]);
+
+  // Managed tags power the tag autocomplete
+  useEffect(() => {
+    tagService.getTags()
+      .then(setAvailableTags)
+      .catch(err => console.error("Error loading tags:", err));
   }, []);
 
-  // Update selected locations whenever selectedLocationIds changes
   useEffect(() => {
-    const locations = availableLocations.filter(loc => 
-      selectedLocationIds.includes(loc.id)
-    );
-    setSelectedLocations(locations);
-  }, [selectedLocationIds, availableLocations]);
+    userService.getUsers()
+      .then(users => setStaffMembers(users.filter(canBeStaff)))
+      .catch(err => console.error("Error loading staff:", err));
+  }, []);
+
+  // Warn about staff who are busy elsewhere while the activity runs
+  useEffect(() => {
+    if (!startDate || !endDate || !startTime || !endTime) {
+      setStaffConflicts([]);
+      return;
+    }
+    
+    let cancelled = false;
+    activityService.getStaffConflicts(staff, [{
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      startTime,
+      endTime
+    }], [])
+      .then(conflicts => !cancelled && setStaffConflicts(conflicts))
+      .catch(err => console.error("Error checking staff availability:", err));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [staff, startDate, endDate, startTime, endTime]);
+
+  // Warn about other activities at the same locations, or too many for a location, while the stops run
+  useEffect(() => {
+    if (!startDate || !endDate || !startTime || !endTime || itinerary.length === 0) {
+      setLocationConflicts([]);
+      return;
+    }
+    
+    let cancelled = false;
+    activityService.getLocationConflicts({
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      startTime,
+      endTime,
+      locations: itinerary.map(stop => stop.locationId),
+      itinerary,
+      participantLimit
+    }, [])
+      .then(conflicts => !cancelled && setLocationConflicts(conflicts))
+      .catch(err => console.error("Error checking location availability:", err));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [itinerary, participantLimit, startDate, endDate, startTime, endTime]);
+
+  // Update selected locations, in itinerary order, whenever the itinerary changes
+  useEffect(() => {
+    setSelectedLocations(getItineraryLocations(itinerary, availableLocations));
+  }, [itinerary, availableLocations]);
 
   // Calculate duration when start and end times change
   useEffect(() => {
@@ -91,37 +198,57 @@ export default function NewActivityPage() {
     e.preventDefault();
     
     if (!title.trim()) {
-      setError("Activity title is required");
+      setError(t("activityForm.titleRequired"));
       return;
     }
 
     if (!startDate) {
-      setError("Start date is required");
+      setError(t("activityForm.startDateRequired"));
       return;
     }
 
     if (!endDate) {
-      setError("End date is required");
+      setError(t("activityForm.endDateRequired"));
       return;
     }
 
     if (new Date(startDate) > new Date(endDate)) {
-      setError("End date cannot be before start date");
+      setError(t("activityForm.endBeforeStart"));
       return;
     }
 
     if (!startTime) {
-      setError("Start time is required");
+      setError(t("activityForm.startTimeRequired"));
       return;
     }
 
     if (!endTime) {
-      setError("End time is required");
+      setError(t("activityForm.endTimeRequired"));
       return;
     }
 
     if (selectedLocationIds.length === 0) {
-      setError("Please select at least one location");
+      setError(t("activityForm.locationRequired"));
+      return;
+    }
+
+    if (staffConflicts.length > 0) {
+      setError(t("activityForm.staffBusy"));
+      return;
+    }
+
+    if (locationConflicts.some(isBlockingConflict)) {
+      setError(t("activityForm.locationsBusy"));
+      return;
+    }
+
+    if (repeats && recurrenceEnd === "until" && !until) {
+      setError(t("activityForm.untilRequired"));
+      return;
+    }
+
+    if (repeats && occurrenceCount === 0) {
+      setError(t("activityForm.noOccurrences"));
       return;
     }
     
@@ -129,52 +256,69 @@ export default function NewActivityPage() {
       setLoading(true);
       setError(null);
       
-      // Create activity
-      await activityService.createActivity({
+      const activityData = {
         title,
         description,
+        translations: cleanTranslations(translations),
         startDate: new Date(startDate),
         endDate: new Date(endDate),
         startTime,
         endTime,
         locations: selectedLocationIds,
-        isActive,
+        itinerary,
+        travelMode,
+        isActive: false,
+        status: submitForReview ? "in-review" as const : "draft" as const,
+        submittedBy: submitForReview ? currentUser?.uid || null : null,
+        submittedAt: submitForReview ? new Date() : null,
         difficulty,
         ageGroup,
         estimatedDuration, // This is now automatically calculated
         estimatedCost,
+        priceTiers,
         tags,
+        equipment: equipment.filter(item => item.name.trim()),
+        staff,
         participantLimit
-      });
+      };
+      
+      // Create activity, or one activity per occurrence for a repeating one
+      if (repeats) {
+        await activityService.createRecurringActivity(activityData, recurrenceRule);
+      } else {
+        await activityService.createActivity(activityData);
+      }
       
       router.push("/activities");
     } catch (err) {
       console.error("Error creating activity:", err);
-      setError("Failed to create activity. Please try again.");
+      setError(err instanceof Error ? err.message : t("activityForm.createFailed"));
     } finally {
       setLoading(false);
     }
   };
 
   const handleLocationToggle = (locationId: string) => {
-    setSelectedLocationIds(prev => {
-      if (prev.includes(locationId)) {
-        return prev.filter(id => id !== locationId);
+    setItinerary(prev => {
+      if (prev.some(stop => stop.locationId === locationId)) {
+        return prev.filter(stop => stop.locationId !== locationId);
       } else {
-        return [...prev, locationId];
+        return [...prev, createItineraryStop(locationId)];
       }
     });
   };
 
-  const handleAddTag = () => {
-    if (tagInput.trim() && !tags.includes(tagInput.trim())) {
-      setTags([...tags, tagInput.trim()]);
-      setTagInput("");
-    }
+  const handleToggleWeekday = (weekday: number) => {
+    setByWeekday(prev => 
+      prev.includes(weekday) ? prev.filter(day => day !== weekday) : [...prev, weekday]
+    );
   };
 
-  const handleRemoveTag = (tagToRemove: string) => {
-    setTags(tags.filter(tag => tag !== tagToRemove));
+  const handleAddExceptionDate = () => {
+    if (exceptionInput && !exceptionDates.includes(exceptionInput)) {
+      setExceptionDates([...exceptionDates, exceptionInput].sort());
+    }
+    setExceptionInput("");
   };
 
   // Get unique categories from selected locations
@@ -196,7 +340,7 @@ export default function NewActivityPage() {
           >
             <ArrowLeft className="h-5 w-5" />
           </button>
-          <h1 className="text-3xl font-bold tracking-tight">New Activity</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{t("activityForm.newTitle")}</h1>
         </div>
         
         {error && (
@@ -209,11 +353,11 @@ export default function NewActivityPage() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Basic Information */}
             <div className="space-y-4 md:col-span-2">
-              <h2 className="text-xl font-semibold">Basic Information</h2>
+              <h2 className="text-xl font-semibold">{t("activityForm.basicInfo")}</h2>
               
               <div>
                 <label htmlFor="title" className="block text-sm font-medium mb-1">
-                  Title <span className="text-destructive">*</span>
+                  {t("activityForm.title")} <span className="text-destructive">*</span>
                 </label>
                 <input
                   id="title"
@@ -227,7 +371,7 @@ export default function NewActivityPage() {
               
               <div>
                 <label htmlFor="description" className="block text-sm font-medium mb-1">
-                  Description
+                  {t("activityForm.description")}
                 </label>
                 <textarea
                   id="description"
@@ -237,16 +381,25 @@ export default function NewActivityPage() {
                   className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary resize-none"
                 />
               </div>
+              
+              <TranslationFields
+                fields={[
+                  { name: "title", label: t("activityForm.title") },
+                  { name: "description", label: t("activityForm.description"), multiline: true }
+                ]}
+                translations={translations}
+                onChange={setTranslations}
+              />
             </div>
             
             {/* Date and Time */}
             <div className="space-y-4 md:col-span-2">
-              <h2 className="text-xl font-semibold">Date & Time</h2>
+              <h2 className="text-xl font-semibold">{t("activityForm.dateTime")}</h2>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label htmlFor="startDate" className="block text-sm font-medium mb-1">
-                    Start Date <span className="text-destructive">*</span>
+                    {t("activityForm.startDate")} <span className="text-destructive">*</span>
                   </label>
                   <input
                     id="startDate"
@@ -260,7 +413,7 @@ export default function NewActivityPage() {
                 
                 <div>
                   <label htmlFor="endDate" className="block text-sm font-medium mb-1">
-                    End Date <span className="text-destructive">*</span>
+                    {t("activityForm.endDate")} <span className="text-destructive">*</span>
                   </label>
                   <input
                     id="endDate"
@@ -274,7 +427,7 @@ export default function NewActivityPage() {
                 
                 <div>
                   <label htmlFor="startTime" className="block text-sm font-medium mb-1">
-                    Start Time <span className="text-destructive">*</span>
+                    {t("activityForm.startTime")} <span className="text-destructive">*</span>
                   </label>
                   <input
                     id="startTime"
@@ -288,7 +441,7 @@ export default function NewActivityPage() {
                 
                 <div>
                   <label htmlFor="endTime" className="block text-sm font-medium mb-1">
-                    End Time <span className="text-destructive">*</span>
+                    {t("activityForm.endTime")} <span className="text-destructive">*</span>
                   </label>
                   <input
                     id="endTime"
@@ -302,23 +455,174 @@ export default function NewActivityPage() {
               </div>
             </div>
             
+            {/* Repeat */}
+            <div className="space-y-4 md:col-span-2">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={repeats}
+                  onChange={(e) => setRepeats(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
+                />
+                <Repeat className="h-4 w-4 mr-1" />
+                <span className="font-medium">{t("activityForm.repeat")}</span>
+              </label>
+              
+              {repeats && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 border rounded-md">
+                  <div>
+                    <label htmlFor="frequency" className="block text-sm font-medium mb-1">{t("activityForm.repeats")}</label>
+                    <select
+                      id="frequency"
+                      value={frequency}
+                      onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency)}
+                      className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      <option value="daily">{t("activityForm.frequency.daily")}</option>
+                      <option value="weekly">{t("activityForm.frequency.weekly")}</option>
+                      <option value="monthly">{t("activityForm.frequency.monthly")}</option>
+                    </select>
+                  </div>
+                  
+                  <div>
+                    <label htmlFor="interval" className="block text-sm font-medium mb-1">
+                      {t(`activityForm.interval.${frequency}`)}
+                    </label>
+                    <input
+                      id="interval"
+                      type="number"
+                      min="1"
+                      value={repeatInterval}
+                      onChange={(e) => setRepeatInterval(Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
+                  
+                  {frequency === "weekly" && (
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium mb-1">{t("activityForm.on")}</label>
+                      <div className="flex flex-wrap gap-2">
+                        {weekdayOptions.map(option => (
+                          <button
+                            key={option.value}
+                            type="button"
+                            onClick={() => handleToggleWeekday(option.value)}
+                            className={`px-3 py-1 text-sm border rounded-md ${
+                              byWeekday.includes(option.value) ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+                            }`}
+                          >
+                            {getWeekdayLabel(option.value)}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {t("activityForm.weekdayDefault")}
+                      </p>
+                    </div>
+                  )}
+                  
+                  <div>
+                    <label htmlFor="recurrenceEnd" className="block text-sm font-medium mb-1">{t("activityForm.ends")}</label>
+                    <select
+                      id="recurrenceEnd"
+                      value={recurrenceEnd}
+                      onChange={(e) => setRecurrenceEnd(e.target.value as "until" | "count")}
+                      className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                    >
+                      <option value="count">{t("activityForm.endsAfterCount")}</option>
+                      <option value="until">{t("activityForm.endsOnDate")}</option>
+                    </select>
+                  </div>
+                  
+                  <div>
+                    {recurrenceEnd === "count" ? (
+                      <>
+                        <label htmlFor="count" className="block text-sm font-medium mb-1">{t("activityForm.occurrences")}</label>
+                        <input
+                          id="count"
+                          type="number"
+                          min="1"
+                          max={MAX_OCCURRENCES}
+                          value={count}
+                          onChange={(e) => setCount(Math.min(MAX_OCCURRENCES, Math.max(1, parseInt(e.target.value) || 1)))}
+                          className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                        />
+                      </>
+                    ) : (
+                      <>
+                        <label htmlFor="until" className="block text-sm font-medium mb-1">{t("activityForm.until")}</label>
+                        <input
+                          id="until"
+                          type="date"
+                          value={until}
+                          onChange={(e) => setUntil(e.target.value)}
+                          className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                        />
+                      </>
+                    )}
+                  </div>
+                  
+                  <div className="md:col-span-2">
+                    <label htmlFor="exceptionDate" className="block text-sm font-medium mb-1">{t("activityForm.skipDates")}</label>
+                    <div className="flex gap-2">
+                      <input
+                        id="exceptionDate"
+                        type="date"
+                        value={exceptionInput}
+                        onChange={(e) => setExceptionInput(e.target.value)}
+                        className="flex-1 px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+                      />
+                      <button
+                        type="button"
+                        onClick={handleAddExceptionDate}
+                        className="px-3 py-2 bg-muted rounded-md hover:bg-muted/80"
+                      >
+                        <Plus className="h-4 w-4" />
+                      </button>
+                    </div>
+                    {exceptionDates.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {exceptionDates.map(date => (
+                          <div key={date} className="flex items-center gap-1 bg-muted px-2 py-1 rounded-md text-sm">
+                            <span>{date}</span>
+                            <button
+                              type="button"
+                              onClick={() => setExceptionDates(exceptionDates.filter(d => d !== date))}
+                              className="text-muted-foreground hover:text-foreground"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  
+                  <p className="md:col-span-2 text-sm text-muted-foreground">
+                    {describeRecurrence(recurrenceRule)}
+                    {startDate && t("activityForm.occurrenceSummary", { count: occurrenceCount })}
+                  </p>
+                </div>
+              )}
+            </div>
+            
             {/* Locations */}
             <div className="space-y-4 md:col-span-2">
               <div className="flex justify-between items-center">
-                <h2 className="text-xl font-semibold">Locations</h2>
+                <h2 className="text-xl font-semibold">{t("activityForm.locations")}</h2>
                 <button
                   type="button"
                   onClick={() => setShowMap(!showMap)}
                   className="text-sm text-primary hover:underline flex items-center gap-1"
                 >
-                  {showMap ? "Hide Map" : "Show Map"}
+                  {showMap ? t("activityForm.hideMap") : t("activityForm.showMap")}
                 </button>
               </div>
               
               {selectedLocations.length > 0 && (
                 <div className="p-3 bg-muted/30 rounded-md">
                   <p className="text-sm">
-                    <span className="font-medium">This activity contains:</span>{" "}
+                    <span className="font-medium">{t("activityForm.contains")}</span>{" "}
                     {getUniqueCategories().join(", ")}
                   </p>
                 </div>
@@ -326,20 +630,45 @@ export default function NewActivityPage() {
               
               {showMap && selectedLocations.length > 0 && (
                 <div className="h-[400px] border rounded-md overflow-hidden">
-                  <ActivityMap locations={selectedLocations} />
+                  <ActivityMap locations={selectedLocations} travelMode={travelMode} />
+                </div>
+              )}
+
+              {selectedLocations.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <h3 className="font-medium">{t("activityForm.itinerary")}</h3>
+                    <select
+                      value={travelMode}
+                      onChange={(e) => setTravelMode(e.target.value as TravelMode)}
+                      className="px-2 py-1 border rounded-md bg-background text-sm"
+                      aria-label={t("activityForm.travelMode")}
+                    >
+                      {travelModeOptions.map(option => (
+                        <option key={option.value} value={option.value}>{t(`travelMode.${option.value}`)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <ItineraryEditor
+                    stops={itinerary}
+                    locations={availableLocations}
+                    onChange={setItinerary}
+                  />
                 </div>
               )}
               
+              <LocationConflicts conflicts={locationConflicts} locations={availableLocations} />
+              
               <div className="border rounded-md overflow-hidden">
                 <div className="bg-muted/50 p-3 border-b">
-                  <h3 className="font-medium">Select Locations</h3>
-                  <p className="text-xs text-muted-foreground">Select at least one location for this activity</p>
+                  <h3 className="font-medium">{t("activityForm.selectLocations")}</h3>
+                  <p className="text-xs text-muted-foreground">{t("activityForm.selectLocationsHint")}</p>
                 </div>
                 
                 <div className="max-h-[300px] overflow-y-auto p-2">
                   {availableLocations.length === 0 ? (
                     <p className="text-center p-4 text-muted-foreground">
-                      No locations available. Please create locations first.
+                      {t("activityForm.noLocations")}
                     </p>
                   ) : (
                     <div className="space-y-2">
@@ -376,12 +705,12 @@ export default function NewActivityPage() {
             
             {/* Additional Details */}
             <div className="space-y-4 md:col-span-2">
-              <h2 className="text-xl font-semibold">Additional Details</h2>
+              <h2 className="text-xl font-semibold">{t("activityForm.additionalDetails")}</h2>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label htmlFor="difficulty" className="block text-sm font-medium mb-1">
-                    Difficulty Level
+                    {t("activityForm.difficulty")}
                   </label>
                   <select
                     id="difficulty"
@@ -389,15 +718,15 @@ export default function NewActivityPage() {
                     onChange={(e) => setDifficulty(e.target.value as "easy" | "moderate" | "hard")}
                     className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
                   >
-                    <option value="easy">Easy</option>
-                    <option value="moderate">Moderate</option>
-                    <option value="hard">Hard</option>
+                    <option value="easy">{t("difficulty.easy")}</option>
+                    <option value="moderate">{t("difficulty.moderate")}</option>
+                    <option value="hard">{t("difficulty.hard")}</option>
                   </select>
                 </div>
                 
                 <div>
                   <label htmlFor="ageGroup" className="block text-sm font-medium mb-1">
-                    Age Group
+                    {t("activityForm.ageGroup")}
                   </label>
                   <select
                     value={ageGroup}
@@ -406,7 +735,7 @@ export default function NewActivityPage() {
                   >
                     {ageGroupOptions.map(option => (
                       <option key={option.value} value={option.value}>
-                        {option.label}
+                        {getAgeGroupRangeLabel(option.value)}
                       </option>
                     ))}
                   </select>
@@ -414,19 +743,19 @@ export default function NewActivityPage() {
                 
                 <div>
                   <label htmlFor="estimatedDuration" className="block text-sm font-medium mb-1">
-                    Estimated Duration (calculated automatically)
+                    {t("activityForm.duration")}
                   </label>
                   <div className="w-full px-3 py-2 border rounded-md bg-muted text-muted-foreground">
-                    {estimatedDuration} minutes
+                    {t("activity.durationMinutes", { minutes: estimatedDuration })}
                     {estimatedDuration >= 60 && (
-                      <span> ({Math.floor(estimatedDuration / 60)} hours {estimatedDuration % 60} minutes)</span>
+                      <span>{t("activity.durationHours", { hours: Math.floor(estimatedDuration / 60), minutes: estimatedDuration % 60 })}</span>
                     )}
                   </div>
                 </div>
                 
                 <div>
                   <label htmlFor="estimatedCost" className="block text-sm font-medium mb-1">
-                    Estimated Cost
+                    {t("activityForm.estimatedCost")}
                   </label>
                   <input
                     id="estimatedCost"
@@ -440,72 +769,70 @@ export default function NewActivityPage() {
                 </div>
               </div>
               
+              <div>
+                <h3 className="font-medium mb-2">{t("activityForm.pricing")}</h3>
+                <PriceTiersEditor
+                  priceTiers={priceTiers}
+                  baseCost={estimatedCost}
+                  onChange={setPriceTiers}
+                />
+              </div>
+              
               {/* Tags */}
               <div>
                 <label htmlFor="tags" className="block text-sm font-medium mb-1">
-                  Tags
+                  {t("activityForm.tags")}
                 </label>
-                <div className="flex gap-2">
-                  <input
-                    id="tags"
-                    type="text"
-                    value={tagInput}
-                    onChange={(e) => setTagInput(e.target.value)}
-                    placeholder="Add tags..."
-                    className="flex-1 px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter') {
-                        e.preventDefault();
-                        handleAddTag();
-                      }
-                    }}
-                  />
-                  <button
-                    type="button"
-                    onClick={handleAddTag}
-                    className="px-3 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
-                  >
-                    <Plus className="h-4 w-4" />
-                  </button>
-                </div>
-                
-                {tags.length > 0 && (
-                  <div className="flex flex-wrap gap-2 mt-2">
-                    {tags.map(tag => (
-                      <div key={tag} className="flex items-center gap-1 bg-muted px-2 py-1 rounded-full text-xs">
-                        <span>{tag}</span>
-                        <button
-                          type="button"
-                          onClick={() => handleRemoveTag(tag)}
-                          className="text-muted-foreground hover:text-destructive"
-                        >
-                          <X className="h-3 w-3" />
-                        </button>
-                      </div>
-                    ))}
-                  </div>
-                )}
+                <TagInput
+                  tags={tags}
+                  availableTags={availableTags}
+                  onChange={setTags}
+                />
+              </div>
+              
+              {/* Equipment */}
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  {t("activityForm.whatToBring")}
+                </label>
+                <EquipmentEditor
+                  equipment={equipment}
+                  onChange={setEquipment}
+                />
+              </div>
+              
+              {/* Staff */}
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  {t("activityForm.staff")}
+                </label>
+                <StaffEditor
+                  staff={staff}
+                  staffMembers={staffMembers}
+                  conflicts={staffConflicts}
+                  onChange={setStaff}
+                />
               </div>
               
-              {/* Active Status */}
+              {/* Workflow Status */}
               <div>
                 <label className="flex items-center">
                   <input
                     type="checkbox"
-                    checked={isActive}
-                    onChange={(e) => setIsActive(e.target.checked)}
+                    checked={submitForReview}
+                    onChange={(e) => setSubmitForReview(e.target.checked)}
                     className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
                   />
-                  <span>Active</span>
+                  <span>{t("activityForm.submitForReview")}</span>
                 </label>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Inactive activities won&apos;t be visible to users
+                  {t("activityForm.reviewHint")}
                 </p>
               </div>
 
               <div className="mb-4">
                 <label className="block text-sm font-medium mb-1">
-                  Participant Limit (0 for unlimited)
+                  {t("activityForm.participantLimit")}
                 </label>
                 <input
                   type="number"
@@ -524,7 +851,7 @@ export default function NewActivityPage() {
               onClick={() => router.push("/activities")}
               className="px-4 py-2 border rounded-md hover:bg-muted"
             >
-              Cancel
+              {t("common.cancel")}
             </button>
             <button
               type="submit"
@@ -534,12 +861,12 @@ export default function NewActivityPage() {
               {loading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span>Creating...</span>
+                  <span>{t("common.creating")}</span>
                 </>
               ) : (
                 <>
                   <Save className="h-4 w-4" />
-                  <span>Create Activity</span>
+                  <span>{t("activities.create")}</span>
                 </>
               )}
             </button>
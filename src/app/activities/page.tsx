@@ -1,66 +1,220 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
-import { Plus, Pencil, Trash2, AlertCircle, Calendar, Eye, Clock } from "lucide-react";
+import { useState, useEffect, useMemo, useCallback, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Plus, Pencil, Trash2, AlertCircle, Calendar, Eye, Clock, Copy, BookmarkPlus, LayoutTemplate, TimerReset, Loader2, RefreshCw, ChevronLeft, ChevronRight } from "lucide-react";
 import MainLayout from "@/layouts/MainLayout";
-import { Activity } from "@/types/activity";
+import ActivityFilters from "@/components/activities/ActivityFilters";
+import CalendarFeedLink from "@/components/CalendarFeedLink";
+import { Activity, ActivitySearchFilters, ActivityStatus } from "@/types/activity";
+import { User } from "@/types/user";
+import { Location } from "@/types/location";
+import { Category } from "@/types/category";
 import { activityService } from "@/services/activityService";
+import { locationService } from "@/services/locationService";
+import { categoryService } from "@/services/categoryService";
+import { activityTemplateService } from "@/services/activityTemplateService";
+import { userService } from "@/services/userService";
+import { expirationService } from "@/services/expirationService";
+import { ExpirationRun } from "@/types/expiration";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/contexts/LocaleContext";
+import { MessageKey } from "@/locales/messages";
 import { formatDate } from "@/utils/dateUtils";
+import { activityStatusOptions, activityStatusTransitions, isApproval } from "@/utils/activityUtils";
+import { filtersFromSearchParams, filtersToSearchParams, hasActiveFilters } from "@/utils/activitySearchUtils";
+import { localize } from "@/utils/localeUtils";
 
+const PAGE_SIZE = 12;
+
+const statusStyles: Record<ActivityStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  "in-review": "bg-yellow-100 text-yellow-800",
+  scheduled: "bg-blue-100 text-blue-800",
+  published: "bg-green-100 text-green-800",
+  archived: "bg-red-100 text-red-800"
+};
+
+// Button text for moving an activity from one status to another
+function getTransitionLabel(from: ActivityStatus, to: ActivityStatus): MessageKey {
+  if (to === "in-review") return "activities.transition.submit";
+  if (isApproval(from, to)) return to === "scheduled" ? "activities.transition.approveSchedule" : "activities.transition.approvePublish";
+  if (to === "published") return "activities.transition.publish";
+  if (to === "draft") {
+    if (from === "in-review") return "activities.transition.returnToDraft";
+    if (from === "scheduled") return "activities.transition.unschedule";
+    return from === "archived" ? "activities.transition.restore" : "activities.transition.unpublish";
+  }
+  if (to === "archived") return "activities.transition.archive";
+  return `activityStatus.${to}`;
+}
+
+// useSearchParams needs a Suspense boundary when the page is prerendered
 export default function ActivitiesPage() {
+  return (
+    <Suspense>
+      <ActivitiesList />
+    </Suspense>
+  );
+}
+
+function ActivitiesList() {
   const [activities, setActivities] = useState<Activity[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [previousCursors, setPreviousCursors] = useState<(string | null)[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [users, setUsers] = useState<User[]>([]);
+  const [schedulingActivity, setSchedulingActivity] = useState<Activity | null>(null);
+  const [publishAt, setPublishAt] = useState("");
+  const [lastRun, setLastRun] = useState<ExpirationRun | null>(null);
+  const [runningExpiration, setRunningExpiration] = useState(false);
+  const [rebuildingIndex, setRebuildingIndex] = useState(false);
+  const { currentUser, isAdmin } = useAuth();
+  const { t } = useLocale();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const searchKey = searchParams.toString();
+  
+  // Filters and the page cursor live in the URL so searches can be shared and revisited
+  const filters = useMemo(() => filtersFromSearchParams(new URLSearchParams(searchKey)), [searchKey]);
+  const cursor = new URLSearchParams(searchKey).get("cursor");
+
+  const loadActivities = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const page = await activityService.searchActivities(filters, cursor, PAGE_SIZE);
+      setActivities(page.activities);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Error loading activities:", err);
+      setError(t("activities.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, cursor, t]);
 
   useEffect(() => {
     loadActivities();
-  }, []);
+  }, [loadActivities]);
 
   useEffect(() => {
-    console.log("[TEST] Testing activityService directly");
-    activityService.getActivities()
-      .then(activities => {
-        console.log("[SUCCESS] Activities loaded:", activities.length);
+    Promise.all([
+      userService.getUsers(),
+      locationService.getLocations(),
+      categoryService.getCategories(),
+      expirationService.getRecentRuns(1)
+    ])
+      .then(([usersData, locationsData, categoriesData, runs]) => {
+        setUsers(usersData);
+        setLocations(locationsData);
+        setCategories(categoriesData);
+        setLastRun(runs[0] || null);
       })
-      .catch(error => {
-        console.error("[FAILED] Activity loading failed:", error);
-      });
+      .catch(err => console.error("Error loading activity filter options:", err));
   }, []);
 
-  async function loadActivities() {
+  function applyFilters(newFilters: ActivitySearchFilters) {
+    setPreviousCursors([]);
+    router.push(`/activities?${filtersToSearchParams(newFilters).toString()}`);
+  }
+
+  function goToPage(pageCursor: string | null) {
+    router.push(`/activities?${filtersToSearchParams(filters, pageCursor).toString()}`);
+  }
+
+  function handleNextPage() {
+    if (!nextCursor) return;
+    setPreviousCursors(prev => [...prev, cursor]);
+    goToPage(nextCursor);
+  }
+
+  // Without a recorded history (e.g. a shared link) previous returns to the first page
+  function handlePreviousPage() {
+    setPreviousCursors(prev => prev.slice(0, -1));
+    goToPage(previousCursors[previousCursors.length - 1] ?? null);
+  }
+
+  async function handleChangeStatus(activity: Activity, status: ActivityStatus, scheduledFor?: Date) {
+    const from = activity.status || "draft";
+    let note: string | undefined;
+    
+    if (status === "scheduled" && !scheduledFor) {
+      // Ask for the publish time first
+      setSchedulingActivity(activity);
+      setPublishAt("");
+      return;
+    }
+    
+    if (from === "in-review" && status === "draft") {
+      const reason = window.prompt(t("activities.returnReason"));
+      if (reason === null) return;
+      note = reason;
+    }
+    
     try {
-      setLoading(true);
       setError(null);
-      const data = await activityService.getActivities();
-      setActivities(data);
+      await activityService.changeActivityStatus(activity.id, status, {
+        changedBy: currentUser?.uid,
+        publishAt: scheduledFor || null,
+        note
+      });
+      setSchedulingActivity(null);
+      await loadActivities();
     } catch (err) {
-      console.error("Error loading activities:", err);
-      setError("Failed to load activities. Please try again.");
+      console.error("Error changing activity status:", err);
+      setError(err instanceof Error ? err.message : t("activities.statusFailed"));
+    }
+  }
+
+  async function handleRunExpiration() {
+    try {
+      setRunningExpiration(true);
+      setError(null);
+      const run = await expirationService.runExpiration("manual", currentUser?.uid || null);
+      setMessage(t("activities.expirationDone", {
+        expired: run.expiredActivityIds.length,
+        completed: run.completedBookings,
+        cancelled: run.cancelledBookings,
+        published: run.publishedActivityIds.length
+      }));
+      await loadActivities();
+    } catch (err) {
+      console.error("Error running expiration:", err);
+      setError(t("activities.expirationFailed"));
     } finally {
-      setLoading(false);
+      setRunningExpiration(false);
     }
   }
 
-  async function handleToggleStatus(id: string, currentStatus: boolean) {
+  // Older activities have no search keywords or status and are invisible to filtered searches
+  async function handleRebuildSearchIndex() {
     try {
-      await activityService.toggleActivityStatus(id, !currentStatus);
-      
-      // Update the local state
-      setActivities(prevActivities =>
-        prevActivities.map(activity =>
-          activity.id === id ? { ...activity, isActive: !currentStatus } : activity
-        )
-      );
+      setRebuildingIndex(true);
+      setError(null);
+      const updated = await activityService.backfillSearchFields();
+      setMessage(t("activities.searchRebuilt", { count: updated }));
+      await loadActivities();
     } catch (err) {
-      console.error("Error toggling activity status:", err);
-      setError("Failed to update activity status. Please try again.");
+      console.error("Error rebuilding search index:", err);
+      setError(t("activities.searchRebuildFailed"));
+    } finally {
+      setRebuildingIndex(false);
     }
   }
 
+  function getUserName(userId: string | null | undefined): string {
+    if (!userId) return t("common.unknown");
+    const user = users.find(u => u.id === userId);
+    return user?.displayName || user?.email || t("common.unknown");
+  }
+
   async function handleDeleteActivity(id: string) {
-    if (!window.confirm("Are you sure you want to delete this activity?")) {
+    if (!window.confirm(t("activities.confirmDelete"))) {
       return;
     }
     
@@ -73,7 +227,42 @@ export default function ActivitiesPage() {
       );
     } catch (err) {
       console.error("Error deleting activity:", err);
-      setError("Failed to delete activity. Please try again.");
+      setError(t("activities.deleteFailed"));
+    }
+  }
+
+  // Copy the activity to another day and open the copy. Stored dates are UTC days, so the
+  // suggested day, a week after the original, is read in UTC.
+  async function handleDuplicateActivity(activity: Activity) {
+    const nextWeek = new Date(new Date(activity.startDate).getTime() + 7 * 24 * 60 * 60 * 1000);
+    const startDay = window.prompt(t("activities.copyStartDay"), nextWeek.toISOString().split("T")[0]);
+    if (startDay === null) {
+      return;
+    }
+    
+    try {
+      setError(null);
+      const newId = await activityService.duplicateActivity(activity.id, startDay.trim());
+      router.push(`/activities/${newId}`);
+    } catch (err) {
+      console.error("Error duplicating activity:", err);
+      setError(err instanceof Error ? err.message : t("activities.duplicateFailed"));
+    }
+  }
+
+  async function handleSaveAsTemplate(activity: Activity) {
+    const name = window.prompt(t("activities.templateName"), activity.title);
+    if (name === null) {
+      return;
+    }
+    
+    try {
+      setError(null);
+      await activityTemplateService.createTemplateFromActivity(activity, name);
+      setMessage(t("activities.templateSaved", { name: name.trim() || activity.title }));
+    } catch (err) {
+      console.error("Error saving activity template:", err);
+      setError(t("activities.templateFailed"));
     }
   }
 
@@ -82,19 +271,50 @@ export default function ActivitiesPage() {
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <div>
-            <h1 className="text-3xl font-bold tracking-tight">Activities</h1>
+            <h1 className="text-3xl font-bold tracking-tight">{t("activities.title")}</h1>
             <p className="text-muted-foreground">
-              Manage activities and their locations
+              {t("activities.subtitle")}
             </p>
           </div>
           
-          <button
-            onClick={() => router.push("/activities/new")}
-            className="flex items-center gap-2 bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90"
-          >
-            <Plus className="h-4 w-4" />
-            <span>Create Activity</span>
-          </button>
+          <div className="flex gap-2">
+            <CalendarFeedLink path="/api/calendar/activities" />
+            {isAdmin && (
+              <button
+                onClick={handleRunExpiration}
+                disabled={runningExpiration}
+                className="flex items-center gap-2 border py-2 px-4 rounded-md hover:bg-muted disabled:opacity-50"
+                title={lastRun ? t("activities.lastRun", { time: lastRun.finishedAt.toLocaleString() }) : t("activities.neverRun")}
+              >
+                {runningExpiration ? <Loader2 className="h-4 w-4 animate-spin" /> : <TimerReset className="h-4 w-4" />}
+                <span>{t("activities.runExpiration")}</span>
+              </button>
+            )}
+            {isAdmin && (
+              <button
+                onClick={handleRebuildSearchIndex}
+                disabled={rebuildingIndex}
+                className="flex items-center gap-2 border py-2 px-4 rounded-md hover:bg-muted disabled:opacity-50"
+              >
+                {rebuildingIndex ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                <span>{t("activities.rebuildSearch")}</span>
+              </button>
+            )}
+            <button
+              onClick={() => router.push("/activities/templates")}
+              className="flex items-center gap-2 border py-2 px-4 rounded-md hover:bg-muted"
+            >
+              <LayoutTemplate className="h-4 w-4" />
+              <span>{t("activities.templates")}</span>
+            </button>
+            <button
+              onClick={() => router.push("/activities/new")}
+              className="flex items-center gap-2 bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90"
+            >
+              <Plus className="h-4 w-4" />
+              <span>{t("activities.create")}</span>
+            </button>
+          </div>
         </div>
         
         {error && (
@@ -104,13 +324,47 @@ export default function ActivitiesPage() {
           </div>
         )}
         
+        {message && (
+          <div className="bg-green-100 text-green-800 p-4 rounded-md flex justify-between items-center">
+            <p>{message}</p>
+            <button onClick={() => setMessage(null)} className="text-sm underline">
+              {t("common.dismiss")}
+            </button>
+          </div>
+        )}
+        
+        <div className="flex flex-wrap gap-2">
+          {[{ value: undefined, label: t("common.all") }, ...activityStatusOptions].map(option => (
+            <button
+              key={option.value || "all"}
+              onClick={() => applyFilters({ ...filters, status: option.value })}
+              className={`px-3 py-1 text-sm rounded-full border ${
+                filters.status === option.value ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+              }`}
+            >
+              {option.value ? t(`activityStatus.${option.value}`) : option.label}
+            </button>
+          ))}
+        </div>
+        
+        <ActivityFilters
+          filters={filters}
+          locations={locations}
+          categories={categories}
+          onChange={applyFilters}
+        />
+        
         {loading ? (
           <div className="flex justify-center p-8">
             <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
           </div>
         ) : activities.length === 0 ? (
           <div className="text-center p-8 border rounded-lg bg-card">
-            <p className="text-muted-foreground">No activities found. Create your first activity!</p>
+            <p className="text-muted-foreground">
+              {hasActiveFilters(filters) || cursor
+                ? t("activities.noMatches")
+                : t("activities.empty")}
+            </p>
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -118,26 +372,22 @@ export default function ActivitiesPage() {
               <div key={activity.id} className="border rounded-lg overflow-hidden bg-card">
                 <div className="p-4">
                   <div className="flex justify-between items-start">
-                    <h2 className="text-xl font-semibold">{activity.title}</h2>
+                    <h2 className="text-xl font-semibold">{localize(activity, "title")}</h2>
                     <div className="flex space-x-2">
                       <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
                         activity.isExpired 
                           ? "bg-gray-100 text-gray-800" 
-                          : activity.isActive 
-                            ? "bg-green-100 text-green-800" 
-                            : "bg-red-100 text-red-800"
+                          : statusStyles[activity.status || "draft"]
                       }`}>
                         {activity.isExpired 
-                          ? "Expired" 
-                          : activity.isActive 
-                            ? "Active" 
-                            : "Inactive"}
+                          ? t("activityStatus.expired") 
+                          : t(`activityStatus.${activity.status || "draft"}`)}
                       </span>
                     </div>
                   </div>
                   
                   <div className="mt-2 text-sm text-muted-foreground line-clamp-2">
-                    {activity.description}
+                    {localize(activity, "description")}
                   </div>
                   
                   <div className="mt-4 space-y-2">
@@ -150,14 +400,33 @@ export default function ActivitiesPage() {
                       <span>{activity.startTime} - {activity.endTime}</span>
                     </div>
                     <div className="text-sm">
-                      <span className="text-muted-foreground">Locations:</span> {activity.locations.length}
+                      <span className="text-muted-foreground">{t("activities.locations")}</span> {activity.locations.length}
                     </div>
                     <div className="text-sm">
-                      <span className="text-muted-foreground">Difficulty:</span> {activity.difficulty}
+                      <span className="text-muted-foreground">{t("activities.difficulty")}</span> {t(`difficulty.${activity.difficulty}`)}
                     </div>
                     <div className="text-sm">
-                      <span className="text-muted-foreground">Participants:</span> {activity.currentParticipants || 0}/{activity.participantLimit || "∞"}
+                      <span className="text-muted-foreground">{t("activities.participants")}</span> {activity.currentParticipants || 0}/{activity.participantLimit || t("common.unlimited")}
                     </div>
+                    {activity.status === "scheduled" && activity.publishAt && (
+                      <div className="text-sm">
+                        <span className="text-muted-foreground">{t("activities.publishes")}</span> {new Date(activity.publishAt).toLocaleString()}
+                      </div>
+                    )}
+                    {activity.submittedBy && (
+                      <div className="text-xs text-muted-foreground">
+                        {activity.submittedAt
+                          ? t("activities.submittedByOn", { name: getUserName(activity.submittedBy), date: formatDate(activity.submittedAt) })
+                          : t("activities.submittedBy", { name: getUserName(activity.submittedBy) })}
+                        {activity.approvedBy && " · "}
+                        {activity.approvedBy && (activity.approvedAt
+                          ? t("activities.approvedByOn", { name: getUserName(activity.approvedBy), date: formatDate(activity.approvedAt) })
+                          : t("activities.approvedBy", { name: getUserName(activity.approvedBy) }))}
+                      </div>
+                    )}
+                    {activity.status === "draft" && activity.reviewNote && (
+                      <div className="text-xs text-orange-700">{t("activities.returned", { note: activity.reviewNote })}</div>
+                    )}
                   </div>
                 </div>
                 
@@ -175,6 +444,20 @@ export default function ActivitiesPage() {
                     >
                       <Pencil className="h-4 w-4" />
                     </button>
+                    <button
+                      onClick={() => handleDuplicateActivity(activity)}
+                      className="p-1 hover:bg-background rounded"
+                      title={t("activities.duplicate")}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleSaveAsTemplate(activity)}
+                      className="p-1 hover:bg-background rounded"
+                      title={t("activities.saveAsTemplate")}
+                    >
+                      <BookmarkPlus className="h-4 w-4" />
+                    </button>
                     <button
                       onClick={() => handleDeleteActivity(activity.id)}
                       className="p-1 hover:bg-background rounded text-destructive"
@@ -183,24 +466,88 @@ export default function ActivitiesPage() {
                     </button>
                   </div>
                   
-                  {!activity.isExpired && (
-                    <button
-                      onClick={() => handleToggleStatus(activity.id, activity.isActive)}
-                      className={`text-xs px-3 py-1 rounded-md ${
-                        activity.isActive 
-                          ? "bg-red-100 text-red-800 hover:bg-red-200" 
-                          : "bg-green-100 text-green-800 hover:bg-green-200"
-                      }`}
-                    >
-                      {activity.isActive ? "Deactivate" : "Activate"}
-                    </button>
-                  )}
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {activityStatusTransitions[activity.status || "draft"]
+                      .filter(status => !activity.isExpired || status === "archived")
+                      .map(status => {
+                        const from = activity.status || "draft";
+                        const ownSubmission = isApproval(from, status) && activity.submittedBy === currentUser?.uid;
+                        return (
+                          <button
+                            key={status}
+                            onClick={() => handleChangeStatus(activity, status)}
+                            disabled={ownSubmission}
+                            title={ownSubmission ? t("activities.ownSubmission") : undefined}
+                            className={`text-xs px-3 py-1 rounded-md disabled:opacity-50 ${
+                              status === "archived" || status === "draft"
+                                ? "bg-red-100 text-red-800 hover:bg-red-200" 
+                                : "bg-green-100 text-green-800 hover:bg-green-200"
+                            }`}
+                          >
+                            {t(getTransitionLabel(from, status))}
+                          </button>
+                        );
+                      })}
+                  </div>
                 </div>
               </div>
             ))}
           </div>
         )}
+        
+        {(cursor || nextCursor) && (
+          <div className="flex justify-between items-center">
+            <button
+              onClick={handlePreviousPage}
+              disabled={!cursor || loading}
+              className="flex items-center gap-1 px-3 py-1.5 border rounded-md hover:bg-muted text-sm disabled:opacity-50"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              <span>{t("common.previous")}</span>
+            </button>
+            <button
+              onClick={handleNextPage}
+              disabled={!nextCursor || loading}
+              className="flex items-center gap-1 px-3 py-1.5 border rounded-md hover:bg-muted text-sm disabled:opacity-50"
+            >
+              <span>{t("common.next")}</span>
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        )}
       </div>
+      
+      {/* Schedule Modal */}
+      {schedulingActivity && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-card p-6 rounded-lg w-full max-w-sm">
+            <h2 className="text-xl font-semibold mb-1">{t("activities.schedulePublishing")}</h2>
+            <p className="text-sm text-muted-foreground mb-4">{schedulingActivity.title}</p>
+            <label className="block text-sm font-medium mb-1">{t("activities.publishAt")}</label>
+            <input
+              type="datetime-local"
+              value={publishAt}
+              onChange={(e) => setPublishAt(e.target.value)}
+              className="w-full p-2 border rounded-md"
+            />
+            <div className="flex justify-end gap-2 mt-6">
+              <button
+                onClick={() => setSchedulingActivity(null)}
+                className="px-4 py-2 border rounded-md"
+              >
+                {t("common.cancel")}
+              </button>
+              <button
+                onClick={() => handleChangeStatus(schedulingActivity, "scheduled", new Date(publishAt))}
+                disabled={!publishAt}
+                className="px-4 py-2 bg-primary text-primary-foreground rounded-md disabled:opacity-50"
+              >
+                {t("activities.schedule")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </MainLayout>
   );
 } 
\ No newline at end of file
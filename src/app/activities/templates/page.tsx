@@ -0,0 +1,173 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Trash2, AlertCircle, Plus } from "lucide-react";
+import MainLayout from "@/layouts/MainLayout";
+import { ActivityTemplate } from "@/types/activity";
+import { activityTemplateService } from "@/services/activityTemplateService";
+import { useLocale } from "@/contexts/LocaleContext";
+
+export default function ActivityTemplatesPage() {
+  const [templates, setTemplates] = useState<ActivityTemplate[]>([]);
+  const [startDays, setStartDays] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [creatingId, setCreatingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { t } = useLocale();
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await activityTemplateService.getTemplates();
+      setTemplates(data);
+    } catch (err) {
+      console.error("Error loading activity templates:", err);
+      setError(t("templates.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  // Create the activity and open it for review before it is activated
+  async function handleCreateActivity(template: ActivityTemplate) {
+    const startDay = startDays[template.id];
+    if (!startDay) {
+      setError(t("templates.pickStartDay"));
+      return;
+    }
+    
+    try {
+      setCreatingId(template.id);
+      setError(null);
+      const activityId = await activityTemplateService.createActivityFromTemplate(template.id, startDay);
+      router.push(`/activities/${activityId}`);
+    } catch (err) {
+      console.error("Error creating activity from template:", err);
+      setError(t("templates.createFailed"));
+      setCreatingId(null);
+    }
+  }
+
+  async function handleDeleteTemplate(id: string) {
+    if (!window.confirm(t("templates.confirmDelete"))) {
+      return;
+    }
+    
+    try {
+      await activityTemplateService.deleteTemplate(id);
+      setTemplates(prev => prev.filter(template => template.id !== id));
+    } catch (err) {
+      console.error("Error deleting activity template:", err);
+      setError(t("templates.deleteFailed"));
+    }
+  }
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => router.push("/activities")}
+            className="p-2 hover:bg-muted rounded-md"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{t("templates.title")}</h1>
+            <p className="text-muted-foreground">
+              {t("templates.subtitle")}
+            </p>
+          </div>
+        </div>
+        
+        {error && (
+          <div className="bg-destructive/10 text-destructive p-4 rounded-md flex items-center gap-2">
+            <AlertCircle className="h-5 w-5" />
+            <p>{error}</p>
+          </div>
+        )}
+        
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="text-center p-8 border rounded-lg bg-card">
+            <p className="text-muted-foreground">
+              {t("templates.empty")}
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-medium">{t("templates.template")}</th>
+                  <th className="text-left p-4 font-medium hidden md:table-cell">{t("templates.details")}</th>
+                  <th className="text-right p-4 font-medium">{t("templates.newActivity")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {templates.map((template) => (
+                  <tr key={template.id} className="border-t">
+                    <td className="p-4">
+                      <p className="font-medium">{template.name}</p>
+                      {template.name !== template.title && (
+                        <p className="text-sm text-muted-foreground">{template.title}</p>
+                      )}
+                    </td>
+                    <td className="p-4 text-sm text-muted-foreground hidden md:table-cell">
+                      <p>
+                        {t("templates.summary", {
+                          stops: template.locations.length,
+                          difficulty: t(`difficulty.${template.difficulty}`),
+                          days: template.durationDays > 0 ? t("templates.days", { count: template.durationDays + 1 }) : t("templates.oneDay"),
+                          start: template.startTime,
+                          end: template.endTime
+                        })}
+                      </p>
+                      {template.tags.length > 0 && <p>{template.tags.join(", ")}</p>}
+                    </td>
+                    <td className="p-4">
+                      <div className="flex items-center justify-end gap-2">
+                        <input
+                          type="date"
+                          value={startDays[template.id] || ""}
+                          onChange={(e) => setStartDays(prev => ({ ...prev, [template.id]: e.target.value }))}
+                          className="p-2 border rounded-md bg-background text-sm"
+                          aria-label={t("templates.startDate")}
+                        />
+                        <button
+                          onClick={() => handleCreateActivity(template)}
+                          disabled={!startDays[template.id] || creatingId !== null}
+                          className="flex items-center gap-1 bg-primary text-primary-foreground py-2 px-3 rounded-md hover:bg-primary/90 text-sm disabled:opacity-50"
+                        >
+                          <Plus className="h-4 w-4" />
+                          <span>{t("common.create")}</span>
+                        </button>
+                        <button
+                          onClick={() => handleDeleteTemplate(template.id)}
+                          className="p-2 hover:bg-destructive/10 rounded-md text-muted-foreground hover:text-destructive"
+                          title={t("common.delete")}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
\ No newline at end of file
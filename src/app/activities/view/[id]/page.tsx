@@ -2,12 +2,20 @@
 
 import { useState, useEffect } from "react";
 import { useRouter, useParams } from "next/navigation";
-import { ArrowLeft, Calendar, Clock, Users, Dumbbell, DollarSign, Edit, Trash2, AlertCircle } from "lucide-react";
+import { ArrowLeft, Calendar, CalendarPlus, Clock, Users, Dumbbell, DollarSign, Edit, Trash2, AlertCircle } from "lucide-react";
 import dynamic from "next/dynamic";
 import MainLayout from "@/layouts/MainLayout";
 import { activityService } from "@/services/activityService";
 import { Activity } from "@/types/activity";
 import { formatDate } from "@/utils/dateUtils";
+import { getItinerary } from "@/utils/itineraryUtils";
+import { formatCurrency } from "@/utils/paymentUtils";
+import { getAvailableStock } from "@/utils/equipmentUtils";
+import { getAgeGroupLabel } from "@/utils/ageGroupUtils";
+import { localize } from "@/utils/localeUtils";
+import { activityToEvent, downloadCalendar } from "@/utils/calendarUtils";
+import ItineraryTimeline from "@/components/activities/ItineraryTimeline";
+import { useLocale } from "@/contexts/LocaleContext";
 
 // Dynamically import the ActivityMap to avoid SSR issues with Leaflet
 const ActivityMap = dynamic(
@@ -21,6 +29,7 @@ export default function ViewActivityPage() {
   const [error, setError] = useState<string | null>(null);
   
   const router = useRouter();
+  const { t } = useLocale();
   const params = useParams();
   const id = params.id as string;
 
@@ -29,24 +38,24 @@ export default function ViewActivityPage() {
       try {
         const data = await activityService.getActivityById(id);
         if (!data) {
-          setError("Activity not found");
+          setError(t("activity.notFound"));
           return;
         }
         
         setActivity(data);
       } catch (err) {
         console.error("Error loading activity:", err);
-        setError("Failed to load activity details");
+        setError(t("activity.loadFailed"));
       } finally {
         setLoading(false);
       }
     };
     
     loadActivity();
-  }, [id]);
+  }, [id, t]);
 
   const handleDeleteActivity = async () => {
-    if (!window.confirm("Are you sure you want to delete this activity?")) {
+    if (!window.confirm(t("activities.confirmDelete"))) {
       return;
     }
     
@@ -55,7 +64,7 @@ export default function ViewActivityPage() {
       router.push("/activities");
     } catch (err) {
       console.error("Error deleting activity:", err);
-      setError("Failed to delete activity. Please try again.");
+      setError(t("activities.deleteFailed"));
     }
   };
 
@@ -64,7 +73,7 @@ export default function ViewActivityPage() {
     if (!activity?.locationObjects) return [];
     
     const categories = activity.locationObjects
-      .map(loc => loc.category?.name)
+      .map(loc => loc.category && localize(loc.category, "name"))
       .filter(Boolean) as string[];
     
     return [...new Set(categories)];
@@ -85,15 +94,15 @@ export default function ViewActivityPage() {
       <MainLayout>
         <div className="flex flex-col items-center justify-center h-64">
           <AlertCircle className="h-12 w-12 text-destructive mb-4" />
-          <h2 className="text-xl font-bold">Activity not found</h2>
+          <h2 className="text-xl font-bold">{t("activity.notFound")}</h2>
           <p className="text-muted-foreground mt-2">
-            The activity you&apos;re looking for doesn&apos;t exist or has been removed.
+            {t("activity.notFoundHint")}
           </p>
           <button
             onClick={() => router.push("/activities")}
             className="mt-4 px-4 py-2 bg-primary text-primary-foreground rounded-md"
           >
-            Back to Activities
+            {t("activity.backToActivities")}
           </button>
         </div>
       </MainLayout>
@@ -111,7 +120,7 @@ export default function ViewActivityPage() {
             <ArrowLeft className="h-5 w-5" />
           </button>
           <div>
-            <h1 className="text-3xl font-bold tracking-tight">{activity?.title}</h1>
+            <h1 className="text-3xl font-bold tracking-tight">{activity && localize(activity, "title")}</h1>
             <div className="flex gap-2 mt-1">
               <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
                 activity?.isExpired 
@@ -121,10 +130,10 @@ export default function ViewActivityPage() {
                     : "bg-red-100 text-red-800"
               }`}>
                 {activity?.isExpired 
-                  ? "Expired" 
+                  ? t("activityStatus.expired") 
                   : activity?.isActive 
-                    ? "Active" 
-                    : "Inactive"}
+                    ? t("activityStatus.active") 
+                    : t("activityStatus.inactive")}
               </span>
               <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
                 activity?.difficulty === "easy" 
@@ -134,11 +143,20 @@ export default function ViewActivityPage() {
                     : "bg-red-100 text-red-800"
               }`}>
                 {activity?.difficulty 
-                  ? activity.difficulty.charAt(0).toUpperCase() + activity.difficulty.slice(1)
-                  : "Unknown"}
+                  ? t(`difficulty.${activity.difficulty}`)
+                  : t("common.unknown")}
               </span>
             </div>
           </div>
+          {activity && (
+            <button
+              onClick={() => downloadCalendar(activity.title, [activityToEvent(activity, activity.locationObjects || [])])}
+              className="ms-auto flex items-center gap-2 border py-2 px-4 rounded-md hover:bg-muted"
+            >
+              <CalendarPlus className="h-4 w-4" />
+              <span>{t("activity.addToCalendar")}</span>
+            </button>
+          )}
         </div>
         
         {error && (
@@ -153,8 +171,8 @@ export default function ViewActivityPage() {
             {/* Description */}
             {activity?.description && (
               <div className="border rounded-lg p-4 bg-card">
-                <h2 className="text-xl font-semibold mb-2">Description</h2>
-                <p className="text-muted-foreground whitespace-pre-line">{activity.description}</p>
+                <h2 className="text-xl font-semibold mb-2">{t("activity.description")}</h2>
+                <p className="text-muted-foreground whitespace-pre-line">{localize(activity, "description")}</p>
               </div>
             )}
             
@@ -162,13 +180,22 @@ export default function ViewActivityPage() {
             {activity?.locationObjects && activity.locationObjects.length > 0 && (
               <div className="border rounded-lg overflow-hidden">
                 <div className="p-4 border-b bg-card">
-                  <h2 className="text-xl font-semibold">Locations</h2>
+                  <h2 className="text-xl font-semibold">{t("activity.locations")}</h2>
                   <p className="text-sm text-muted-foreground">
-                    This activity includes {activity.locationObjects.length} location{activity.locationObjects.length !== 1 ? 's' : ''}
+                    {t("activity.locationCount", { count: activity.locationObjects.length })}
                   </p>
                 </div>
-                <div className="h-[400px]">
-                  <ActivityMap locations={activity.locationObjects} />
+                <div className="grid grid-cols-1 md:grid-cols-3">
+                  <div className="h-[400px] md:col-span-2">
+                    <ActivityMap locations={activity.locationObjects} travelMode={activity.travelMode} />
+                  </div>
+                  <div className="p-4 bg-card border-t md:border-t-0 md:border-l max-h-[400px] overflow-y-auto">
+                    <h3 className="font-medium mb-4">{t("activity.itinerary")}</h3>
+                    <ItineraryTimeline
+                      stops={getItinerary(activity)}
+                      locations={activity.locationObjects}
+                    />
+                  </div>
                 </div>
               </div>
             )}
@@ -177,7 +204,7 @@ export default function ViewActivityPage() {
             {activity?.locationObjects && activity.locationObjects.length > 0 && (
               <div className="border rounded-lg overflow-hidden">
                 <div className="p-4 border-b bg-card">
-                  <h2 className="text-xl font-semibold">Location Details</h2>
+                  <h2 className="text-xl font-semibold">{t("activity.locationDetails")}</h2>
                 </div>
                 <div className="divide-y">
                   {activity.locationObjects.map((location, index) => (
@@ -187,11 +214,11 @@ export default function ViewActivityPage() {
                           <span className="font-bold">{index + 1}</span>
                         </div>
                         <div className="flex-1">
-                          <h3 className="font-medium">{location.name}</h3>
+                          <h3 className="font-medium">{localize(location, "name")}</h3>
                           <p className="text-sm text-muted-foreground">{location.address}</p>
                           {location.category && (
                             <span className="inline-block mt-1 text-xs bg-muted px-2 py-1 rounded-full">
-                              {location.category.name}
+                              {localize(location.category, "name")}
                             </span>
                           )}
                         </div>
@@ -199,7 +226,7 @@ export default function ViewActivityPage() {
                           onClick={() => router.push(`/locations/view/${location.id}`)}
                           className="text-primary hover:underline text-sm"
                         >
-                          View
+                          {t("common.view")}
                         </button>
                       </div>
                     </div>
@@ -212,13 +239,13 @@ export default function ViewActivityPage() {
           <div className="space-y-6">
             {/* Activity Details */}
             <div className="border rounded-lg p-4 bg-card">
-              <h2 className="text-xl font-semibold mb-4">Activity Details</h2>
+              <h2 className="text-xl font-semibold mb-4">{t("activity.details")}</h2>
               
               <div className="space-y-4">
                 <div className="flex items-center gap-3">
                   <Calendar className="h-5 w-5 text-muted-foreground" />
                   <div>
-                    <p className="text-sm font-medium">Date</p>
+                    <p className="text-sm font-medium">{t("activity.date")}</p>
                     <p className="text-sm text-muted-foreground">
                       {formatDate(activity?.startDate)} - {formatDate(activity?.endDate)}
                     </p>
@@ -228,7 +255,7 @@ export default function ViewActivityPage() {
                 <div className="flex items-center gap-3">
                   <Clock className="h-5 w-5 text-muted-foreground" />
                   <div>
-                    <p className="text-sm font-medium">Time</p>
+                    <p className="text-sm font-medium">{t("activity.time")}</p>
                     <p className="text-sm text-muted-foreground">
                       {activity?.startTime} - {activity?.endTime}
                     </p>
@@ -238,11 +265,9 @@ export default function ViewActivityPage() {
                 <div className="flex items-center gap-3">
                   <Users className="h-5 w-5 text-muted-foreground" />
                   <div>
-                    <p className="text-sm font-medium">Age Group</p>
+                    <p className="text-sm font-medium">{t("activity.ageGroup")}</p>
                     <p className="text-sm text-muted-foreground">
-                      {activity?.ageGroup === "all" ? "All Ages" : 
-                       activity?.ageGroup === "adults" ? "Adults" :
-                       activity?.ageGroup === "children" ? "Children" : "Seniors"}
+                      {activity && getAgeGroupLabel(activity.ageGroup)}
                     </p>
                   </div>
                 </div>
@@ -250,9 +275,9 @@ export default function ViewActivityPage() {
                 <div className="flex items-center gap-3">
                   <Dumbbell className="h-5 w-5 text-muted-foreground" />
                   <div>
-                    <p className="text-sm font-medium">Difficulty</p>
-                    <p className="text-sm text-muted-foreground capitalize">
-                      {activity?.difficulty}
+                    <p className="text-sm font-medium">{t("activity.difficulty")}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {activity && t(`difficulty.${activity.difficulty}`)}
                     </p>
                   </div>
                 </div>
@@ -260,11 +285,11 @@ export default function ViewActivityPage() {
                 <div className="flex items-center gap-3">
                   <Clock className="h-5 w-5 text-muted-foreground" />
                   <div>
-                    <p className="text-sm font-medium">Duration</p>
+                    <p className="text-sm font-medium">{t("activity.duration")}</p>
                     <p className="text-sm text-muted-foreground">
-                      {activity?.estimatedDuration ?? 0} minutes
+                      {t("activity.durationMinutes", { minutes: activity?.estimatedDuration ?? 0 })}
                       {(activity?.estimatedDuration ?? 0) >= 60 && (
-                        <span> ({Math.floor((activity?.estimatedDuration ?? 0) / 60)} hours {(activity?.estimatedDuration ?? 0) % 60} minutes)</span>
+                        <span>{t("activity.durationHours", { hours: Math.floor((activity?.estimatedDuration ?? 0) / 60), minutes: (activity?.estimatedDuration ?? 0) % 60 })}</span>
                       )}
                     </p>
                   </div>
@@ -273,7 +298,7 @@ export default function ViewActivityPage() {
                 <div className="flex items-center gap-3">
                   <DollarSign className="h-5 w-5 text-muted-foreground" />
                   <div>
-                    <p className="text-sm font-medium">Estimated Cost</p>
+                    <p className="text-sm font-medium">{t("activity.estimatedCost")}</p>
                     <p className="text-sm text-muted-foreground">
                       {activity?.estimatedCost.toFixed(2)}
                     </p>
@@ -283,9 +308,9 @@ export default function ViewActivityPage() {
                 <div className="flex items-center gap-3">
                   <Users className="h-5 w-5 text-muted-foreground" />
                   <div>
-                    <p className="text-sm font-medium">Participants</p>
+                    <p className="text-sm font-medium">{t("activity.participants")}</p>
                     <p className="text-sm text-muted-foreground">
-                      {activity?.currentParticipants || 0}/{activity?.participantLimit || "∞"}
+                      {activity?.currentParticipants || 0}/{activity?.participantLimit || t("common.unlimited")}
                     </p>
                   </div>
                 </div>
@@ -295,7 +320,7 @@ export default function ViewActivityPage() {
             {/* Categories */}
             {getUniqueCategories().length > 0 && (
               <div className="border rounded-lg p-4 bg-card">
-                <h2 className="text-lg font-semibold mb-2">Categories</h2>
+                <h2 className="text-lg font-semibold mb-2">{t("activity.categories")}</h2>
                 <div className="flex flex-wrap gap-2">
                   {getUniqueCategories().map(category => (
                     <span key={category} className="bg-muted px-2 py-1 rounded-full text-xs">
@@ -309,7 +334,7 @@ export default function ViewActivityPage() {
             {/* Tags */}
             {activity?.tags && activity.tags.length > 0 && (
               <div className="border rounded-lg p-4 bg-card">
-                <h2 className="text-lg font-semibold mb-2">Tags</h2>
+                <h2 className="text-lg font-semibold mb-2">{t("activity.tags")}</h2>
                 <div className="flex flex-wrap gap-2">
                   {activity.tags.map(tag => (
                     <span key={tag} className="bg-muted px-2 py-1 rounded-full text-xs">
@@ -320,16 +345,46 @@ export default function ViewActivityPage() {
               </div>
             )}
             
+            {/* Equipment */}
+            {activity?.equipment && activity.equipment.length > 0 && (
+              <div className="border rounded-lg p-4 bg-card">
+                <h2 className="text-lg font-semibold mb-2">{t("activity.whatToBring")}</h2>
+                <div className="space-y-3">
+                  {(["required", "recommended"] as const).map(requirement => {
+                    const items = activity.equipment?.filter(item => item.requirement === requirement) || [];
+                    return items.length > 0 && (
+                      <div key={requirement}>
+                        <p className="text-sm font-medium">{t(`equipment.${requirement}`)}</p>
+                        <ul className="text-sm space-y-1 mt-1">
+                          {items.map(item => (
+                            <li key={item.id}>
+                              <span>{item.name}</span>
+                              {item.notes && <span className="text-muted-foreground"> - {item.notes}</span>}
+                              {item.rentable && (
+                                <p className="text-xs text-muted-foreground">
+                                  {t("activity.rentFor", { price: formatCurrency(item.rentalPrice), available: getAvailableStock(item), stock: item.stock })}
+                                </p>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+            
             {/* Actions */}
             <div className="border rounded-lg p-4 bg-card">
-              <h2 className="text-lg font-semibold mb-2">Actions</h2>
+              <h2 className="text-lg font-semibold mb-2">{t("activity.actions")}</h2>
               <div className="space-y-3">
                 <button
                   onClick={() => router.push(`/activities/${id}`)}
                   className="w-full flex items-center justify-center gap-2 bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90"
                 >
                   <Edit className="h-4 w-4" />
-                  <span>Edit Activity</span>
+                  <span>{t("activity.edit")}</span>
                 </button>
                 
                 <button
@@ -337,7 +392,7 @@ export default function ViewActivityPage() {
                   className="w-full flex items-center justify-center gap-2 bg-destructive text-destructive-foreground py-2 px-4 rounded-md hover:bg-destructive/90"
                 >
                   <Trash2 className="h-4 w-4" />
-                  <span>Delete Activity</span>
+                  <span>{t("activity.delete")}</span>
                 </button>
               </div>
             </div>
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { activityService } from "@/services/activityService";
+import { activitiesCalendarResponse } from "@/lib/calendarFeeds";
+
+// Subscribable feed of every published activity
+export async function GET() {
+  try {
+    const activities = await activityService.getPublishedActivities();
+    return await activitiesCalendarResponse("Meshwar Activities", activities);
+  } catch (error) {
+    console.error("Error building activities calendar:", error);
+    return NextResponse.json({ error: "Failed to build calendar" }, { status: 500 });
+  }
+}
\ No newline at end of file
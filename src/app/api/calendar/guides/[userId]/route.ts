@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { activityService } from "@/services/activityService";
+import { userService } from "@/services/userService";
+import { activitiesCalendarResponse } from "@/lib/calendarFeeds";
+
+// Subscribable feed of the activities a staff member is assigned to.
+// Calendar apps cannot log in, so the URL carries the user's feed key instead.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params;
+    const key = new URL(request.url).searchParams.get("key") || "";
+    if (!(await userService.verifyCalendarFeedKey(userId, key))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [user, activities] = await Promise.all([
+      userService.getUserById(userId),
+      activityService.getActivitiesForStaff(userId)
+    ]);
+    return await activitiesCalendarResponse(`Meshwar - ${user?.displayName || "My Activities"}`, activities);
+  } catch (error) {
+    console.error("Error building staff calendar:", error);
+    return NextResponse.json({ error: "Failed to build calendar" }, { status: 500 });
+  }
+}
\ No newline at end of file
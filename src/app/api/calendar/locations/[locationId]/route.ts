@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { activityService } from "@/services/activityService";
+import { locationService } from "@/services/locationService";
+import { activitiesCalendarResponse } from "@/lib/calendarFeeds";
+
+// Subscribable feed of the published activities visiting a location
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ locationId: string }> }
+) {
+  try {
+    const { locationId } = await params;
+    const location = await locationService.getLocationById(locationId);
+    if (!location) {
+      return NextResponse.json({ error: "Location not found" }, { status: 404 });
+    }
+
+    const activities = await activityService.getPublishedActivities(locationId);
+    return await activitiesCalendarResponse(`Meshwar - ${location.name}`, activities);
+  } catch (error) {
+    console.error("Error building location calendar:", error);
+    return NextResponse.json({ error: "Failed to build calendar" }, { status: 500 });
+  }
+}
\ No newline at end of file
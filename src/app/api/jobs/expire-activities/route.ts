@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { expirationService } from "@/services/expirationService";
+
+// Cron callers authenticate with "Authorization: Bearer <CRON_SECRET>"
+function isAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    throw new Error("CRON_SECRET is not configured");
+  }
+  return request.headers.get("authorization") === `Bearer ${secret}`;
+}
+
+// Run the activity expiration job; meant to be called on a schedule
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const run = await expirationService.runExpiration("cron");
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error("Error running expiration job:", error);
+    return NextResponse.json({ error: "Failed to run expiration job" }, { status: 500 });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { createTicketToken } from "@/lib/tickets";
+import { getRequestUserId } from "@/lib/requestAuth";
+import { bookingService } from "@/services/bookingService";
+import { activityService } from "@/services/activityService";
+import { userService } from "@/services/userService";
+import { getStaffIds } from "@/utils/staffUtils";
+
+// Issue the signed ticket token for a confirmed booking, to its owner, an admin or the activity's staff
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ bookingId: string }> }
+) {
+  try {
+    const { bookingId } = await params;
+    const userId = await getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const booking = await bookingService.getBookingById(bookingId);
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    if (booking.userId !== userId) {
+      const [user, activity] = await Promise.all([
+        userService.getUserById(userId),
+        activityService.getActivityById(booking.activityId)
+      ]);
+      const isStaff = user?.role === "admin" || (!!activity && getStaffIds(activity.staff).includes(userId));
+      if (!isStaff) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+    }
+
+    if (booking.status !== "confirmed") {
+      return NextResponse.json({ error: "Only confirmed bookings have tickets" }, { status: 409 });
+    }
+
+    return NextResponse.json({ token: createTicketToken(bookingId) });
+  } catch (error) {
+    console.error("Error creating ticket token:", error);
+    return NextResponse.json({ error: "Failed to create ticket" }, { status: 500 });
+  }
+}
\ No newline at end of file
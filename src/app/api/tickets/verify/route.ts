@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { verifyTicketToken } from "@/lib/tickets";
+
+// Check a scanned ticket token and return the booking it belongs to
+export async function POST(request: Request) {
+  try {
+    const { token } = await request.json();
+    const bookingId = typeof token === "string" ? verifyTicketToken(token) : null;
+
+    if (!bookingId) {
+      return NextResponse.json({ error: "Invalid ticket" }, { status: 400 });
+    }
+
+    return NextResponse.json({ bookingId });
+  } catch (error) {
+    console.error("Error verifying ticket token:", error);
+    return NextResponse.json({ error: "Failed to verify ticket" }, { status: 500 });
+  }
+}
\ No newline at end of file
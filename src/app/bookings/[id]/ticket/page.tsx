@@ -0,0 +1,140 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter, useParams } from "next/navigation";
+import Image from "next/image";
+import QRCode from "qrcode";
+import { ArrowLeft, Printer, AlertCircle, Calendar, Clock, MapPin, Users } from "lucide-react";
+import { bookingService } from "@/services/bookingService";
+import { Booking } from "@/types/booking";
+import { formatDate } from "@/utils/dateUtils";
+import { getSeatCount } from "@/utils/bookingUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+export default function BookingTicketPage() {
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const router = useRouter();
+  const { t } = useLocale();
+  const params = useParams();
+  const id = params.id as string;
+
+  useEffect(() => {
+    const loadTicket = async () => {
+      try {
+        const data = await bookingService.getBookingById(id);
+        if (!data) {
+          setError(t("ticket.bookingNotFound"));
+          return;
+        }
+
+        setBooking(data);
+
+        if (data.status !== "confirmed") {
+          setError(t("ticket.onlyConfirmed"));
+          return;
+        }
+
+        const token = await bookingService.getTicketToken(id);
+        setQrCode(await QRCode.toDataURL(token, { width: 240, margin: 1 }));
+      } catch (err) {
+        console.error("Error loading ticket:", err);
+        setError(err instanceof Error ? err.message : t("ticket.loadFailed"));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTicket();
+  }, [id, t]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="flex justify-between items-center print:hidden">
+          <button
+            onClick={() => router.back()}
+            className="flex items-center gap-2 p-2 hover:bg-muted rounded-md"
+          >
+            <ArrowLeft className="h-5 w-5" />
+            <span>{t("common.back")}</span>
+          </button>
+          {qrCode && (
+            <button
+              onClick={() => window.print()}
+              className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+            >
+              <Printer className="h-4 w-4" />
+              <span>{t("ticket.print")}</span>
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 text-destructive p-4 rounded-md flex items-center gap-2">
+            <AlertCircle className="h-5 w-5" />
+            <p>{error}</p>
+          </div>
+        )}
+
+        {booking && qrCode && (
+          <div className="border-2 border-dashed rounded-lg p-6 bg-card text-center space-y-4">
+            <div>
+              <p className="text-sm text-muted-foreground uppercase tracking-wide">{t("ticket.heading")}</p>
+              <h1 className="text-2xl font-bold">{booking.activityObject?.title || t("ticket.activity")}</h1>
+            </div>
+
+            <Image
+              src={qrCode}
+              alt={t("ticket.qrAlt")}
+              width={240}
+              height={240}
+              className="mx-auto"
+            />
+
+            <div className="text-left space-y-2 text-sm">
+              <div className="flex items-center gap-2">
+                <Users className="h-4 w-4 text-muted-foreground" />
+                <span>
+                  {booking.userObject?.displayName || booking.userObject?.email || t("ticket.guest")}
+                  {getSeatCount(booking) > 1 && t("ticket.party", { count: getSeatCount(booking) })}
+                </span>
+              </div>
+              {booking.activityObject && (
+                <>
+                  <div className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4 text-muted-foreground" />
+                    <span>{formatDate(booking.activityObject.startDate)}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                    <span>{booking.activityObject.startTime} - {booking.activityObject.endTime}</span>
+                  </div>
+                  {booking.activityObject.locationObjects && booking.activityObject.locationObjects.length > 0 && (
+                    <div className="flex items-center gap-2">
+                      <MapPin className="h-4 w-4 text-muted-foreground" />
+                      <span>{booking.activityObject.locationObjects[0].name}</span>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground font-mono break-all">{t("ticket.booking", { id: booking.id })}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,242 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Camera, CameraOff, CheckCircle, XCircle, ScanLine, Loader2 } from "lucide-react";
+import MainLayout from "@/layouts/MainLayout";
+import { useAuth } from "@/contexts/AuthContext";
+import { bookingService } from "@/services/bookingService";
+import { Booking } from "@/types/booking";
+import { getSeatCount } from "@/utils/bookingUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+// BarcodeDetector is not part of the TypeScript DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+interface ScanResult {
+  token: string;
+  success: boolean;
+  message: string;
+  booking?: Booking | null;
+  scannedAt: Date;
+}
+
+export default function CheckInPage() {
+  const { currentUser } = useAuth();
+  const { t } = useLocale();
+  const [tokenInput, setTokenInput] = useState("");
+  const [processing, setProcessing] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [results, setResults] = useState<ScanResult[]>([]);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const processingRef = useRef(false);
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setScanning(false);
+  }, []);
+
+  const handleToken = useCallback(async (token: string) => {
+    const trimmed = token.trim();
+    if (!trimmed || processingRef.current) return;
+
+    processingRef.current = true;
+    setProcessing(true);
+
+    try {
+      const bookingId = await bookingService.verifyTicketToken(trimmed);
+      const booking = await bookingService.checkInBooking(bookingId, currentUser?.uid || "");
+      setResults(prev => [{
+        token: trimmed,
+        success: true,
+        message: t("checkIn.checkedIn"),
+        booking,
+        scannedAt: new Date()
+      }, ...prev]);
+    } catch (err) {
+      console.error("Error checking in ticket:", err);
+      setResults(prev => [{
+        token: trimmed,
+        success: false,
+        message: err instanceof Error ? err.message : t("checkIn.failed"),
+        scannedAt: new Date()
+      }, ...prev]);
+    } finally {
+      processingRef.current = false;
+      setProcessing(false);
+      setTokenInput("");
+    }
+  }, [currentUser, t]);
+
+  // Poll the camera feed for QR codes while scanning
+  useEffect(() => {
+    if (!scanning) return;
+
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) return;
+
+    const detector = new Detector({ formats: ["qr_code"] });
+    let lastToken = "";
+
+    const interval = window.setInterval(async () => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || processingRef.current) return;
+
+      try {
+        const codes = await detector.detect(video);
+        const token = codes[0]?.rawValue;
+        // Ignore the same code while it stays in front of the camera
+        if (token && token !== lastToken) {
+          lastToken = token;
+          await handleToken(token);
+        }
+      } catch (err) {
+        console.error("Error detecting QR code:", err);
+      }
+    }, 500);
+
+    return () => window.clearInterval(interval);
+  }, [scanning, handleToken]);
+
+  // Release the camera when leaving the page
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const startCamera = async () => {
+    setCameraError(null);
+
+    if (!(window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector) {
+      setCameraError(t("checkIn.unsupported"));
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment" }
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setScanning(true);
+    } catch (err) {
+      console.error("Error starting camera:", err);
+      setCameraError(t("checkIn.cameraError"));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleToken(tokenInput);
+  };
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t("checkIn.title")}</h1>
+          <p className="text-muted-foreground">
+            {t("checkIn.subtitle")}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="border rounded-lg p-4 bg-card space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-lg font-medium">{t("checkIn.scanner")}</h2>
+              <button
+                onClick={scanning ? stopCamera : startCamera}
+                className="flex items-center gap-2 px-3 py-1.5 border rounded-md hover:bg-muted text-sm"
+              >
+                {scanning ? <CameraOff className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+                <span>{scanning ? t("checkIn.stopCamera") : t("checkIn.startCamera")}</span>
+              </button>
+            </div>
+
+            <div className="aspect-video bg-muted rounded-md overflow-hidden flex items-center justify-center">
+              <video
+                ref={videoRef}
+                className={scanning ? "w-full h-full object-cover" : "hidden"}
+                muted
+                playsInline
+              />
+              {!scanning && <ScanLine className="h-12 w-12 text-muted-foreground opacity-40" />}
+            </div>
+
+            {cameraError && (
+              <p className="text-sm text-destructive">{cameraError}</p>
+            )}
+
+            <form onSubmit={handleSubmit} className="flex gap-2">
+              <input
+                type="text"
+                value={tokenInput}
+                onChange={(e) => setTokenInput(e.target.value)}
+                placeholder={t("checkIn.ticketCode")}
+                className="flex-1 p-2 border rounded-md font-mono text-sm"
+              />
+              <button
+                type="submit"
+                disabled={processing || !tokenInput.trim()}
+                className="px-4 py-2 bg-primary text-primary-foreground rounded-md disabled:opacity-50"
+              >
+                {processing ? <Loader2 className="h-4 w-4 animate-spin" /> : t("checkIn.checkIn")}
+              </button>
+            </form>
+          </div>
+
+          <div className="border rounded-lg p-4 bg-card">
+            <h2 className="text-lg font-medium mb-4">{t("checkIn.recentScans")}</h2>
+            {results.length === 0 ? (
+              <div className="text-center p-8 border rounded-lg bg-muted">
+                <p className="text-muted-foreground">{t("checkIn.noScans")}</p>
+              </div>
+            ) : (
+              <div className="space-y-2 max-h-[500px] overflow-y-auto">
+                {results.map((result, index) => (
+                  <div
+                    key={`${result.token}-${index}`}
+                    className={`flex items-start gap-3 p-3 rounded-md ${
+                      result.success ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                    }`}
+                  >
+                    {result.success ? (
+                      <CheckCircle className="h-5 w-5 mt-0.5" />
+                    ) : (
+                      <XCircle className="h-5 w-5 mt-0.5" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium">
+                        {result.success
+                          ? result.booking?.userObject?.displayName || t("ticket.guest")
+                          : result.message}
+                      </p>
+                      {result.success && result.booking && (
+                        <p className="text-sm">
+                          {result.booking.activityObject?.title}
+                          {getSeatCount(result.booking) > 1 && t("checkIn.party", { count: getSeatCount(result.booking) })}
+                        </p>
+                      )}
+                      <p className="text-xs opacity-75">{result.scannedAt.toLocaleTimeString()}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
\ No newline at end of file
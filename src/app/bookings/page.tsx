@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
 import { 
   Plus, 
   Search, 
@@ -9,45 +10,101 @@ import {
   CheckCircle, 
   XCircle, 
   Clock,
-  AlertTriangle
+  AlertTriangle,
+  ArrowUp,
+  ArrowDown,
+  ListOrdered,
+  RefreshCw,
+  Users,
+  X,
+  Ticket,
+  ScanLine,
+  DollarSign,
+  History,
+  List,
+  CalendarDays,
+  CalendarPlus
 } from "lucide-react";
 import MainLayout from "@/layouts/MainLayout";
-import { Booking } from "@/types/booking";
+import BookingsCalendar from "@/components/bookings/BookingsCalendar";
+import { Booking, BookingAttendee, BookingHistoryEntry, BookingStatus } from "@/types/booking";
 import { Activity } from "@/types/activity";
 import { User as UserType } from "@/types/user";
 import { bookingService } from "@/services/bookingService";
 import { activityService } from "@/services/activityService";
 import { userService } from "@/services/userService";
+import { paymentService } from "@/services/paymentService";
+import { promoCodeService } from "@/services/promoCodeService";
+import { Payment, PaymentMethod } from "@/types/payment";
+import { PromoCode } from "@/types/promoCode";
+import { getAmountDue, summarizePayments, formatCurrency, paymentMethodOptions } from "@/utils/paymentUtils";
 import { formatDate } from "@/utils/dateUtils";
+import { rescheduleActivity } from "@/utils/activityUtils";
+import { calculateBookingPrice, checkPromoCode, describeDiscount } from "@/utils/pricingUtils";
+import { checkRentals, getAvailableStock, getRentalLines } from "@/utils/equipmentUtils";
+import { bookingToEvent, downloadCalendar } from "@/utils/calendarUtils";
+import { 
+  canTransitionBooking, 
+  getSeatCount, 
+  holdsSeat, 
+  checkCancellation, 
+  checkBookingEligibility 
+} from "@/utils/bookingUtils";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/contexts/LocaleContext";
 
 export default function BookingsPage() {
+  const { currentUser, isAdmin } = useAuth();
+  const { t } = useLocale();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [activities, setActivities] = useState<Activity[]>([]);
   const [users, setUsers] = useState<UserType[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedActivity, setSelectedActivity] = useState<string>("");
+  const [viewMode, setViewMode] = useState<"list" | "calendar">("list");
+  const [waitlistCounts, setWaitlistCounts] = useState<Record<string, number>>({});
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [paymentBooking, setPaymentBooking] = useState<Booking | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState<number>(0);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newBooking, setNewBooking] = useState({
     userId: "",
     activityId: "",
-    status: "confirmed" as "confirmed" | "pending" | "cancelled"
+    status: "confirmed" as "confirmed" | "pending" | "cancelled",
+    partySize: 1,
+    attendees: [] as BookingAttendee[]
   });
+  const [overlappingBookings, setOverlappingBookings] = useState<Booking[]>([]);
+  const [allowOverlap, setAllowOverlap] = useState(false);
+  const [allowAgeMismatch, setAllowAgeMismatch] = useState(false);
+  const [promoCodeInput, setPromoCodeInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<PromoCode | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [rentalQuantities, setRentalQuantities] = useState<Record<string, number>>({});
+  const [historyBooking, setHistoryBooking] = useState<Booking | null>(null);
+  const [history, setHistory] = useState<BookingHistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
 
   const loadBookingsForActivity = useCallback(async (activityId: string) => {
     try {
       setLoading(true);
       setError(null);
-      const data = await bookingService.getBookingsByActivity(activityId);
+      const [data, paymentsData] = await Promise.all([
+        bookingService.getBookingsByActivity(activityId),
+        paymentService.getPaymentsByActivity(activityId)
+      ]);
       setBookings(data);
+      setPayments(paymentsData);
     } catch (err) {
       console.error("Error loading bookings:", err);
-      setError("Failed to load bookings. Please try again.");
+      setError(t("bookings.loadFailed"));
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [t]);
 
   const loadData = useCallback(async () => {
     try {
@@ -99,6 +156,14 @@ export default function BookingsPage() {
       setActivities(activeActivities);
       setUsers(regularUsers);
       setBookings(bookingsData);
+      setWaitlistCounts(
+        bookingsData
+          .filter(booking => booking.status === "waitlisted")
+          .reduce((counts, booking) => ({
+            ...counts,
+            [booking.activityId]: (counts[booking.activityId] || 0) + 1
+          }), {} as Record<string, number>)
+      );
       
       if (activeActivities.length > 0) {
         const currentSelectedActivityIsValid = activeActivities.some(act => act.id === selectedActivity);
@@ -113,23 +178,57 @@ export default function BookingsPage() {
       }
     } catch (err) {
       console.error("[BookingsPage] Error loading data:", err);
-      setError(`Failed to load data: ${err.message}. See console for details.`);
+      setError(t("bookings.loadDataFailed", { message: err.message }));
     } finally {
       setLoading(false);
     }
-  }, [loadBookingsForActivity, selectedActivity]);
+  }, [loadBookingsForActivity, selectedActivity, t]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  // Warn about schedule overlaps as soon as both a user and an activity are picked
+  useEffect(() => {
+    setAllowOverlap(false);
+
+    if (!newBooking.userId || !newBooking.activityId) {
+      setOverlappingBookings([]);
+      return;
+    }
+
+    let cancelled = false;
+    bookingService.findOverlappingBookings(newBooking.userId, newBooking.activityId)
+      .then(overlapping => {
+        if (!cancelled) setOverlappingBookings(overlapping);
+      })
+      .catch(err => {
+        console.error("Error checking for overlapping bookings:", err);
+        if (!cancelled) setOverlappingBookings([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [newBooking.userId, newBooking.activityId]);
+
   async function handleCreateBooking() {
     try {
       setLoading(true);
       setError(null);
       
       if (!newBooking.userId || !newBooking.activityId) {
-        setError("Please select both a user and an activity");
+        setError(t("bookings.selectBoth"));
+        setLoading(false);
+        return;
+      }
+      
+      const attendees = newBooking.attendees
+        .map(attendee => ({ ...attendee, name: attendee.name.trim() }))
+        .filter(attendee => attendee.name);
+      
+      if (attendees.length > newBooking.partySize) {
+        setError(t("bookings.tooManyAttendees"));
         setLoading(false);
         return;
       }
@@ -137,44 +236,116 @@ export default function BookingsPage() {
       await bookingService.createBooking({
         userId: newBooking.userId,
         activityId: newBooking.activityId,
-        status: newBooking.status
-      });
+        status: newBooking.status,
+        partySize: newBooking.partySize,
+        attendees,
+        rentals: newBookingRentals
+      }, { changedBy: currentUser?.uid, allowOverlap, allowAgeMismatch, promoCode: appliedPromo?.code });
       
       setNewBooking({
         userId: "",
         activityId: "",
-        status: "confirmed"
+        status: "confirmed",
+        partySize: 1,
+        attendees: []
       });
+      setAllowAgeMismatch(false);
+      setPromoCodeInput("");
+      setAppliedPromo(null);
+      setRentalQuantities({});
       setShowCreateModal(false);
       
       await loadBookingsForActivity(newBooking.activityId);
     } catch (err: unknown) {
       console.error("Error creating booking:", err);
       if (err instanceof Error) {
-        setError(err.message || "Failed to create booking. Please try again.");
+        setError(err.message || t("bookings.createFailed"));
       } else {
-        setError("Failed to create booking. An unknown error occurred.");
+        setError(t("bookings.createFailedUnknown"));
       }
     } finally {
       setLoading(false);
     }
   }
 
+  async function handleApplyPromoCode() {
+    setPromoError(null);
+    setAppliedPromo(null);
+    if (!promoCodeInput.trim()) return;
+    
+    try {
+      const promo = await promoCodeService.getPromoCodeByCode(promoCodeInput);
+      if (!promo) {
+        setPromoError(t("bookings.promoNotFound"));
+        return;
+      }
+      setAppliedPromo(promo);
+    } catch (err) {
+      console.error("Error applying promo code:", err);
+      setPromoError(t("bookings.promoCheckFailed"));
+    }
+  }
+
+  function handleAddAttendee() {
+    setNewBooking(prev => ({
+      ...prev,
+      partySize: Math.max(prev.partySize, prev.attendees.length + 1),
+      attendees: [...prev.attendees, { name: "", ageGroup: "adults" }]
+    }));
+  }
+
+  function handleUpdateAttendee(index: number, changes: Partial<BookingAttendee>) {
+    setNewBooking(prev => ({
+      ...prev,
+      attendees: prev.attendees.map((attendee, i) => 
+        i === index ? { ...attendee, ...changes } : attendee
+      )
+    }));
+  }
+
+  function handleRemoveAttendee(index: number) {
+    setNewBooking(prev => ({
+      ...prev,
+      attendees: prev.attendees.filter((_, i) => i !== index)
+    }));
+  }
+
   async function handleCancelBooking(bookingId: string) {
+    const booking = bookings.find(b => b.id === bookingId);
+    let overrideReason: string | undefined;
+    
+    // Apply the activity's cancellation policy before asking the service to cancel
+    if (booking && holdsSeat(booking.status) && selectedActivityData) {
+      const check = checkCancellation(selectedActivityData);
+      
+      if (!check.allowed) {
+        const reason = window.prompt(t("bookings.overridePrompt", { message: check.message }));
+        if (!reason?.trim()) {
+          return;
+        }
+        overrideReason = reason;
+      } else if (check.late) {
+        const reason = window.prompt(t("bookings.waivePrompt", { message: check.message }));
+        if (reason === null) {
+          return;
+        }
+        overrideReason = reason.trim() || undefined;
+      }
+    }
+    
     try {
       setLoading(true);
       setError(null);
-      await bookingService.changeBookingStatus(bookingId, "cancelled");
+      await bookingService.changeBookingStatus(bookingId, "cancelled", {
+        changedBy: currentUser?.uid,
+        overrideReason
+      });
       
-      // Update the local state
-      setBookings(prevBookings =>
-        prevBookings.map(booking =>
-          booking.id === bookingId ? { ...booking, status: "cancelled" } : booking
-        )
-      );
+      // Reload the whole list, a waitlisted booking may have been promoted
+      await loadData();
     } catch (err) {
       console.error("Error cancelling booking:", err);
-      setError("Failed to cancel booking. Please try again.");
+      setError(err instanceof Error ? err.message : t("bookings.cancelFailed"));
     } finally {
       setLoading(false);
     }
@@ -184,39 +355,155 @@ export default function BookingsPage() {
     try {
       setLoading(true);
       setError(null);
-      await bookingService.changeBookingStatus(bookingId, "confirmed");
+      await bookingService.changeBookingStatus(bookingId, "confirmed", { changedBy: currentUser?.uid });
       
-      // Update the local state
-      setBookings(prevBookings =>
-        prevBookings.map(booking =>
-          booking.id === bookingId ? { ...booking, status: "confirmed" } : booking
-        )
-      );
+      // Reload so participant counts and waitlist positions stay accurate
+      await loadData();
     } catch (err) {
       console.error("Error confirming booking:", err);
-      setError("Failed to confirm booking. Please try again.");
+      setError(err instanceof Error ? err.message : t("bookings.confirmFailed"));
     } finally {
       setLoading(false);
     }
   }
 
   async function handleDeleteBooking(bookingId: string) {
-    if (!window.confirm("Are you sure you want to delete this booking?")) {
+    if (!window.confirm(t("bookings.confirmDelete"))) {
       return;
     }
     
     try {
       setLoading(true);
       setError(null);
-      await bookingService.deleteBooking(bookingId);
+      await bookingService.deleteBooking(bookingId, { changedBy: currentUser?.uid });
       
-      // Update the local state
-      setBookings(prevBookings =>
-        prevBookings.filter(booking => booking.id !== bookingId)
-      );
+      // Reload the whole list, a waitlisted booking may have been promoted
+      await loadData();
     } catch (err) {
       console.error("Error deleting booking:", err);
-      setError("Failed to delete booking. Please try again.");
+      setError(t("bookings.deleteFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleOpenHistory(booking: Booking) {
+    setHistoryBooking(booking);
+    setHistory([]);
+    
+    try {
+      setHistoryLoading(true);
+      setHistory(await bookingService.getBookingHistory(booking.id));
+    } catch (err) {
+      console.error("Error loading booking history:", err);
+      setError(t("bookings.historyFailed"));
+    } finally {
+      setHistoryLoading(false);
+    }
+  }
+
+  function getStatusLabel(status: BookingStatus | null): string {
+    return status ? t(`bookingStatus.${status}`) : "";
+  }
+
+  function describeHistoryEntry(entry: BookingHistoryEntry): string {
+    switch (entry.action) {
+      case "created":
+        return t("bookings.historyCreated", { status: getStatusLabel(entry.toStatus) });
+      case "status-changed":
+        return t("bookings.historyStatusChanged", {
+          from: getStatusLabel(entry.fromStatus),
+          to: getStatusLabel(entry.toStatus)
+        });
+      case "checked-in":
+        return t("bookings.checkedIn");
+      case "waitlist-moved":
+        return t("bookings.historyWaitlistMoved");
+      case "deleted":
+        return t("bookings.historyDeleted");
+      default:
+        return t("bookings.historyUpdated");
+    }
+  }
+
+  function getPaymentSummary(booking: Booking) {
+    return summarizePayments(
+      payments.filter(payment => payment.bookingId === booking.id),
+      getAmountDue(booking, selectedActivityData)
+    );
+  }
+
+  function handleOpenPaymentModal(booking: Booking) {
+    setPaymentBooking(booking);
+    setPaymentAmount(Math.max(0, getPaymentSummary(booking).balance));
+    setPaymentMethod("cash");
+  }
+
+  async function handleRecordPayment() {
+    if (!paymentBooking) return;
+    
+    try {
+      setLoading(true);
+      setError(null);
+      await paymentService.recordPayment({
+        bookingId: paymentBooking.id,
+        amount: paymentAmount,
+        method: paymentMethod
+      });
+      setPaymentBooking(null);
+      await loadBookingsForActivity(selectedActivity);
+    } catch (err) {
+      console.error("Error recording payment:", err);
+      setError(err instanceof Error ? err.message : t("bookings.paymentFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleRecountParticipants() {
+    if (!window.confirm(t("bookings.confirmRecount"))) {
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      setError(null);
+      const changes = await bookingService.recountParticipants();
+      await loadData();
+      window.alert(
+        changes.length === 0
+          ? t("bookings.recountCorrect")
+          : changes.length === 1
+            ? t("bookings.recountOne")
+            : t("bookings.recountMany", { count: changes.length })
+      );
+    } catch (err) {
+      console.error("Error recounting participants:", err);
+      setError(t("bookings.recountFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleMoveWaitlisted(bookingId: string, direction: -1 | 1) {
+    const order = waitlist.map(booking => booking.id);
+    const index = order.indexOf(bookingId);
+    const target = index + direction;
+    
+    if (index === -1 || target < 0 || target >= order.length) {
+      return;
+    }
+    
+    [order[index], order[target]] = [order[target], order[index]];
+    
+    try {
+      setLoading(true);
+      setError(null);
+      await bookingService.reorderWaitlist(selectedActivity, order, currentUser?.uid);
+      await loadBookingsForActivity(selectedActivity);
+    } catch (err) {
+      console.error("Error reordering waitlist:", err);
+      setError(err instanceof Error ? err.message : t("bookings.reorderFailed"));
     } finally {
       setLoading(false);
     }
@@ -227,29 +514,138 @@ export default function BookingsPage() {
     loadBookingsForActivity(activityId);
   }
 
+  function handleCalendarSelect(activityId: string) {
+    setViewMode("list");
+    handleActivityChange(activityId);
+  }
+
+  // The list only holds activity summaries, so load the stops' addresses for the event
+  async function handleDownloadCalendar(booking: Booking) {
+    try {
+      const activity = await activityService.getActivityById(booking.activityId);
+      if (!activity) {
+        throw new Error("Activity not found");
+      }
+      downloadCalendar(activity.title, [bookingToEvent(booking, activity, activity.locationObjects || [])]);
+    } catch (err) {
+      console.error("Error exporting booking to calendar:", err);
+      setError(t("bookings.exportFailed"));
+    }
+  }
+
+  async function handleRescheduleActivity(activity: Activity, newStart: Date) {
+    const schedule = rescheduleActivity(activity, newStart);
+    const confirmed = window.confirm(
+      t("bookings.confirmReschedule", {
+        title: activity.title,
+        date: formatDate(schedule.startDate),
+        start: schedule.startTime,
+        end: schedule.endTime
+      }) +
+      ((activity.currentParticipants || 0) > 0 ? t("bookings.rescheduleAffected", { count: activity.currentParticipants }) : "")
+    );
+    if (!confirmed) return;
+    
+    try {
+      setLoading(true);
+      setError(null);
+      await activityService.updateActivity(activity.id, schedule);
+      await loadData();
+    } catch (err) {
+      console.error("Error rescheduling activity:", err);
+      setError(err instanceof Error ? err.message : t("bookings.rescheduleFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
   const selectedActivityData = activities.find(a => a.id === selectedActivity);
+  const waitlist = bookings
+    .filter(booking => booking.status === "waitlisted")
+    .sort((a, b) => (a.waitlistPosition || 0) - (b.waitlistPosition || 0));
   const filteredUsers = users.filter(user => 
     user.displayName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
     user.email?.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  // Preview the age-group check that createBooking will apply
+  const newBookingActivity = activities.find(activity => activity.id === newBooking.activityId);
+  const newBookingUser = users.find(user => user.id === newBooking.userId);
+  const newBookingEligibility = newBookingActivity && newBookingUser
+    ? checkBookingEligibility(
+        newBookingUser.dob,
+        newBooking.attendees.filter(attendee => attendee.name.trim()),
+        newBookingActivity
+      )
+    : null;
+
+  // Preview the price that createBooking will store
+  const newBookingPromoProblem = appliedPromo && newBookingActivity
+    ? checkPromoCode(appliedPromo, newBookingActivity.id)
+    : null;
+  const rentableEquipment = (newBookingActivity?.equipment || []).filter(item => item.rentable);
+  const requestedRentals = Object.entries(rentalQuantities).map(([itemId, quantity]) => ({ itemId, quantity }));
+  const newBookingRentals = getRentalLines(rentableEquipment, requestedRentals);
+  const newBookingRentalProblem = checkRentals(rentableEquipment, newBookingRentals);
+  const newBookingPrice = newBookingActivity
+    ? calculateBookingPrice(
+        newBookingActivity,
+        { partySize: newBooking.partySize, attendees: newBooking.attendees.filter(attendee => attendee.name.trim()) },
+        newBookingPromoProblem ? null : appliedPromo,
+        newBookingRentals
+      )
+    : null;
+
   return (
     <MainLayout>
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <div>
-            <h1 className="text-3xl font-bold tracking-tight">Bookings</h1>
+            <h1 className="text-3xl font-bold tracking-tight">{t("bookings.title")}</h1>
             <p className="text-muted-foreground">
-              Manage activity bookings for users
+              {t("bookings.subtitle")}
             </p>
           </div>
-          <button
-            onClick={() => setShowCreateModal(true)}
-            className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md"
-          >
-            <Plus className="h-4 w-4" />
-            <span>Create Booking</span>
-          </button>
+          <div className="flex gap-2">
+            <div className="flex border rounded-md overflow-hidden">
+              <button
+                onClick={() => setViewMode("list")}
+                className={`flex items-center gap-2 px-3 py-2 ${viewMode === "list" ? "bg-muted" : "hover:bg-muted"}`}
+              >
+                <List className="h-4 w-4" />
+                <span>{t("bookings.list")}</span>
+              </button>
+              <button
+                onClick={() => setViewMode("calendar")}
+                className={`flex items-center gap-2 px-3 py-2 ${viewMode === "calendar" ? "bg-muted" : "hover:bg-muted"}`}
+              >
+                <CalendarDays className="h-4 w-4" />
+                <span>{t("bookings.calendar")}</span>
+              </button>
+            </div>
+            <Link
+              href="/bookings/check-in"
+              className="flex items-center gap-2 px-4 py-2 border rounded-md hover:bg-muted"
+            >
+              <ScanLine className="h-4 w-4" />
+              <span>{t("bookings.checkIn")}</span>
+            </Link>
+            <button
+              onClick={handleRecountParticipants}
+              disabled={loading}
+              className="flex items-center gap-2 px-4 py-2 border rounded-md hover:bg-muted disabled:opacity-50"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>{t("bookings.recount")}</span>
+            </button>
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md"
+            >
+              <Plus className="h-4 w-4" />
+              <span>{t("bookings.create")}</span>
+            </button>
+          </div>
         </div>
 
         {error && (
@@ -259,10 +655,18 @@ export default function BookingsPage() {
           </div>
         )}
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {viewMode === "calendar" && (
+          <BookingsCalendar
+            activities={activities}
+            onSelectActivity={handleCalendarSelect}
+            onReschedule={handleRescheduleActivity}
+          />
+        )}
+
+        <div className={`grid grid-cols-1 md:grid-cols-3 gap-6 ${viewMode === "calendar" ? "hidden" : ""}`}>
           {/* Activity Selector */}
           <div className="md:col-span-1 border rounded-lg p-4 bg-card">
-            <h2 className="text-lg font-medium mb-4">Activities</h2>
+            <h2 className="text-lg font-medium mb-4">{t("bookings.activities")}</h2>
             
             <div className="space-y-4">
               {loading && activities.length === 0 ? (
@@ -271,7 +675,7 @@ export default function BookingsPage() {
                 </div>
               ) : activities.length === 0 ? (
                 <div className="text-center p-4 border rounded-lg bg-muted">
-                  <p className="text-muted-foreground">No active activities found.</p>
+                  <p className="text-muted-foreground">{t("bookings.noActivities")}</p>
                 </div>
               ) : (
                 <div className="space-y-2">
@@ -288,7 +692,7 @@ export default function BookingsPage() {
                       <div className="flex justify-between items-start">
                         <h3 className="font-medium">{activity.title}</h3>
                         <span className="text-xs px-2 py-1 rounded-full bg-muted">
-                          {activity.currentParticipants || 0}/{activity.participantLimit || "∞"}
+                          {activity.currentParticipants || 0}/{activity.participantLimit || t("common.unlimited")}
                         </span>
                       </div>
                       <div className="text-sm text-muted-foreground mt-1">
@@ -300,6 +704,12 @@ export default function BookingsPage() {
                           <Clock className="h-3 w-3" />
                           <span>{activity.startTime} - {activity.endTime}</span>
                         </div>
+                        {waitlistCounts[activity.id] > 0 && (
+                          <div className="flex items-center gap-1 mt-1">
+                            <ListOrdered className="h-3 w-3" />
+                            <span>{t("bookings.onWaitlist", { count: waitlistCounts[activity.id] })}</span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -312,11 +722,14 @@ export default function BookingsPage() {
           <div className="md:col-span-2 border rounded-lg p-4 bg-card">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-lg font-medium">
-                {selectedActivityData ? `Bookings for ${selectedActivityData.title}` : "Bookings"}
+                {selectedActivityData ? t("bookings.bookingsFor", { title: selectedActivityData.title }) : t("bookings.title")}
               </h2>
               {selectedActivityData && (
                 <span className="text-sm">
-                  {selectedActivityData.currentParticipants || 0}/{selectedActivityData.participantLimit || "∞"} participants
+                  {t("bookings.participants", {
+                    current: selectedActivityData.currentParticipants || 0,
+                    limit: selectedActivityData.participantLimit || t("common.unlimited")
+                  })}
                 </span>
               )}
             </div>
@@ -327,11 +740,11 @@ export default function BookingsPage() {
               </div>
             ) : !selectedActivity ? (
               <div className="text-center p-8 border rounded-lg bg-muted">
-                <p className="text-muted-foreground">Please select an activity to view bookings.</p>
+                <p className="text-muted-foreground">{t("bookings.selectActivity")}</p>
               </div>
             ) : bookings.length === 0 ? (
               <div className="text-center p-8 border rounded-lg bg-muted">
-                <p className="text-muted-foreground">No bookings found for this activity.</p>
+                <p className="text-muted-foreground">{t("bookings.noBookings")}</p>
               </div>
             ) : (
               <div className="space-y-4">
@@ -342,11 +755,37 @@ export default function BookingsPage() {
                         <User className="h-5 w-5 text-muted-foreground" />
                         <div>
                           <p className="font-medium">
-                            {booking.userObject?.displayName || "Unknown User"}
+                            {booking.userObject?.displayName || t("bookings.unknownUser")}
                           </p>
                           <p className="text-sm text-muted-foreground">
                             {booking.userObject?.email}
                           </p>
+                          {getSeatCount(booking) > 1 && (
+                            <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+                              <Users className="h-3 w-3" />
+                              <span>
+                                {t("bookings.partyOf", { count: getSeatCount(booking) })}
+                                {booking.attendees && booking.attendees.length > 0 && 
+                                  `: ${booking.attendees.map(attendee => attendee.name).join(", ")}`}
+                              </span>
+                            </p>
+                          )}
+                          {booking.price && (
+                            <p className="text-sm text-muted-foreground mt-1">
+                              {formatCurrency(booking.price.total, booking.price.currency)}
+                              {booking.price.promoCode && t("bookings.withPromo", {
+                                code: booking.price.promoCode,
+                                discount: formatCurrency(booking.price.discount, booking.price.currency)
+                              })}
+                            </p>
+                          )}
+                          {booking.rentals && booking.rentals.length > 0 && (
+                            <p className="text-sm text-muted-foreground mt-1">
+                              {t("bookings.renting", {
+                                items: booking.rentals.map(rental => `${rental.quantity} × ${rental.name}`).join(", ")
+                              })}
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div>
@@ -355,31 +794,120 @@ export default function BookingsPage() {
                             ? "bg-green-100 text-green-800" 
                             : booking.status === "pending"
                               ? "bg-yellow-100 text-yellow-800"
-                              : "bg-red-100 text-red-800"
+                              : booking.status === "waitlisted"
+                                ? "bg-blue-100 text-blue-800"
+                                : booking.status === "completed"
+                                  ? "bg-gray-100 text-gray-800"
+                                  : "bg-red-100 text-red-800"
                         }`}>
-                          {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+                          {getStatusLabel(booking.status)}
+                          {booking.status === "waitlisted" && booking.waitlistPosition ? ` #${booking.waitlistPosition}` : ""}
                         </span>
+                        {(() => {
+                          const summary = getPaymentSummary(booking);
+                          return (
+                            <span
+                              title={t("bookings.paidOf", {
+                                paid: formatCurrency(summary.net),
+                                due: formatCurrency(getAmountDue(booking, selectedActivityData))
+                              })}
+                              className={`ml-1 inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                                summary.status === "paid"
+                                  ? "bg-green-100 text-green-800"
+                                  : summary.status === "partially-paid"
+                                    ? "bg-yellow-100 text-yellow-800"
+                                    : summary.status === "refunded"
+                                      ? "bg-gray-100 text-gray-800"
+                                      : "bg-red-100 text-red-800"
+                              }`}
+                            >
+                              {t(`paymentStatus.${summary.status}`)}
+                            </span>
+                          );
+                        })()}
+                        {booking.checkedIn && (
+                          <span className="ml-1 inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                            {t("bookings.checkedIn")}
+                          </span>
+                        )}
+                        {booking.eligibilityFlag && (
+                          <span
+                            title={booking.eligibilityFlag}
+                            className="ml-1 inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                          >
+                            <AlertTriangle className="h-3 w-3" />
+                            {t("bookings.ageCheck")}
+                          </span>
+                        )}
                       </div>
                     </div>
                     
+                    {booking.status === "cancelled" && booking.cancellation && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        {booking.cancellation.overrideReason
+                          ? t("bookings.policyOverridden", { reason: booking.cancellation.overrideReason })
+                          : booking.cancellation.late
+                            ? t("bookings.lateCancellation", { percent: booking.cancellation.feePercent })
+                            : t("bookings.freeCancellation")}
+                      </p>
+                    )}
+                    
                     <div className="flex justify-end gap-2 mt-4">
-                      {booking.status !== "confirmed" && (
+                      <button
+                        onClick={() => handleOpenHistory(booking)}
+                        className="flex items-center gap-1 px-2 py-1 text-xs bg-muted rounded-md"
+                      >
+                        <History className="h-3 w-3" />
+                        <span>{t("bookings.history")}</span>
+                      </button>
+                      
+                      {booking.status !== "cancelled" && getPaymentSummary(booking).balance > 0 && (
+                        <button
+                          onClick={() => handleOpenPaymentModal(booking)}
+                          className="flex items-center gap-1 px-2 py-1 text-xs bg-muted rounded-md"
+                        >
+                          <DollarSign className="h-3 w-3" />
+                          <span>{t("bookings.recordPayment")}</span>
+                        </button>
+                      )}
+                      
+                      {booking.status !== "cancelled" && (
+                        <button
+                          onClick={() => handleDownloadCalendar(booking)}
+                          className="flex items-center gap-1 px-2 py-1 text-xs bg-muted rounded-md"
+                        >
+                          <CalendarPlus className="h-3 w-3" />
+                          <span>{t("bookings.calendar")}</span>
+                        </button>
+                      )}
+                      
+                      {booking.status === "confirmed" && (
+                        <Link
+                          href={`/bookings/${booking.id}/ticket`}
+                          className="flex items-center gap-1 px-2 py-1 text-xs bg-muted rounded-md"
+                        >
+                          <Ticket className="h-3 w-3" />
+                          <span>{t("bookings.ticket")}</span>
+                        </Link>
+                      )}
+                      
+                      {canTransitionBooking(booking.status, "confirmed") && (
                         <button
                           onClick={() => handleConfirmBooking(booking.id)}
                           className="flex items-center gap-1 px-2 py-1 text-xs bg-green-100 text-green-800 rounded-md"
                         >
                           <CheckCircle className="h-3 w-3" />
-                          <span>Confirm</span>
+                          <span>{t("bookings.confirm")}</span>
                         </button>
                       )}
                       
-                      {booking.status !== "cancelled" && (
+                      {canTransitionBooking(booking.status, "cancelled") && (
                         <button
                           onClick={() => handleCancelBooking(booking.id)}
                           className="flex items-center gap-1 px-2 py-1 text-xs bg-yellow-100 text-yellow-800 rounded-md"
                         >
                           <XCircle className="h-3 w-3" />
-                          <span>Cancel</span>
+                          <span>{t("common.cancel")}</span>
                         </button>
                       )}
                       
@@ -388,22 +916,129 @@ export default function BookingsPage() {
                         className="flex items-center gap-1 px-2 py-1 text-xs bg-red-100 text-red-800 rounded-md"
                       >
                         <XCircle className="h-3 w-3" />
-                        <span>Delete</span>
+                        <span>{t("common.delete")}</span>
                       </button>
                     </div>
                   </div>
                 ))}
               </div>
             )}
+            
+            {/* Waitlist Queue */}
+            {selectedActivity && waitlist.length > 0 && (
+              <div className="mt-6">
+                <div className="flex items-center gap-2 mb-2">
+                  <ListOrdered className="h-4 w-4 text-muted-foreground" />
+                  <h3 className="font-medium">{t("bookings.waitlist", { count: waitlist.length })}</h3>
+                </div>
+                <p className="text-xs text-muted-foreground mb-3">
+                  {t("bookings.waitlistHint")}
+                </p>
+                <ol className="border rounded-md divide-y">
+                  {waitlist.map((booking, index) => (
+                    <li key={booking.id} className="flex items-center justify-between p-2">
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm font-medium w-6 text-center">{index + 1}</span>
+                        <div>
+                          <p className="text-sm font-medium">
+                            {booking.userObject?.displayName || t("bookings.unknownUser")}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {t("bookings.joined", { date: formatDate(booking.createdAt) })}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => handleMoveWaitlisted(booking.id, -1)}
+                          disabled={loading || index === 0}
+                          className="p-1 rounded hover:bg-muted disabled:opacity-30"
+                          aria-label={t("bookings.moveUp")}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleMoveWaitlisted(booking.id, 1)}
+                          disabled={loading || index === waitlist.length - 1}
+                          className="p-1 rounded hover:bg-muted disabled:opacity-30"
+                          aria-label={t("bookings.moveDown")}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Record Payment Modal */}
+      {paymentBooking && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-background rounded-lg p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold mb-1">{t("bookings.recordPayment")}</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              {t("bookings.balance", {
+                name: paymentBooking.userObject?.displayName || t("bookings.unknownUser"),
+                amount: formatCurrency(getPaymentSummary(paymentBooking).balance)
+              })}
+            </p>
+            
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">{t("bookings.amount")}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={paymentAmount}
+                  onChange={(e) => setPaymentAmount(parseFloat(e.target.value) || 0)}
+                  className="w-full p-2 border rounded-md"
+                />
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium mb-1">{t("bookings.method")}</label>
+                <select
+                  value={paymentMethod}
+                  onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                  className="w-full p-2 border rounded-md"
+                >
+                  {paymentMethodOptions.map(option => (
+                    <option key={option.value} value={option.value}>{t(`paymentMethod.${option.value}`)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            
+            <div className="flex justify-end gap-2 mt-6">
+              <button
+                onClick={() => setPaymentBooking(null)}
+                className="px-4 py-2 border rounded-md"
+                disabled={loading}
+              >
+                {t("common.cancel")}
+              </button>
+              <button
+                onClick={handleRecordPayment}
+                className="px-4 py-2 bg-primary text-primary-foreground rounded-md"
+                disabled={loading || paymentAmount <= 0}
+              >
+                {t("bookings.recordPayment")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Create Booking Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <div className="bg-background rounded-lg p-6 w-full max-w-md">
-            <h2 className="text-xl font-bold mb-4">Create New Booking</h2>
+            <h2 className="text-xl font-bold mb-4">{t("bookings.createTitle")}</h2>
             
             {error && (
               <div className="bg-destructive/15 text-destructive p-3 rounded-md mb-4">
@@ -413,13 +1048,13 @@ export default function BookingsPage() {
             
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium mb-1">Activity</label>
+                <label className="block text-sm font-medium mb-1">{t("bookings.activity")}</label>
                 <select
                   value={newBooking.activityId}
                   onChange={(e) => setNewBooking({...newBooking, activityId: e.target.value})}
                   className="w-full p-2 border rounded-md"
                 >
-                  <option value="">Select an activity</option>
+                  <option value="">{t("bookings.chooseActivity")}</option>
                   {activities.map((activity) => {
                     const isFull = activity.participantLimit > 0 && 
                                   (activity.currentParticipants || 0) >= activity.participantLimit;
@@ -427,9 +1062,8 @@ export default function BookingsPage() {
                       <option 
                         key={activity.id} 
                         value={activity.id}
-                        disabled={isFull}
                       >
-                        {activity.title} {isFull ? "(Full)" : ""}
+                        {activity.title} {isFull ? t("bookings.fullWaitlist") : ""}
                       </option>
                     );
                   })}
@@ -437,13 +1071,13 @@ export default function BookingsPage() {
               </div>
               
               <div>
-                <label className="block text-sm font-medium mb-1">User</label>
+                <label className="block text-sm font-medium mb-1">{t("bookings.user")}</label>
                 <div className="mb-2">
                   <div className="relative">
                     <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                     <input
                       type="text"
-                      placeholder="Search users..."
+                      placeholder={t("bookings.searchUsers")}
                       value={searchQuery}
                       onChange={(e) => setSearchQuery(e.target.value)}
                       className="w-full pl-8 p-2 border rounded-md"
@@ -452,7 +1086,7 @@ export default function BookingsPage() {
                 </div>
                 <div className="max-h-40 overflow-y-auto border rounded-md">
                   {filteredUsers.length === 0 ? (
-                    <p className="text-center p-2 text-sm text-muted-foreground">No users found</p>
+                    <p className="text-center p-2 text-sm text-muted-foreground">{t("bookings.noUsers")}</p>
                   ) : (
                     filteredUsers.map((user) => (
                       <div
@@ -471,7 +1105,219 @@ export default function BookingsPage() {
               </div>
               
               <div>
-                <label className="block text-sm font-medium mb-1">Status</label>
+                <label className="block text-sm font-medium mb-1">{t("bookings.partySize")}</label>
+                <input
+                  type="number"
+                  min={Math.max(1, newBooking.attendees.length)}
+                  value={newBooking.partySize}
+                  onChange={(e) => setNewBooking({
+                    ...newBooking,
+                    partySize: Math.max(1, newBooking.attendees.length, parseInt(e.target.value) || 1)
+                  })}
+                  className="w-full p-2 border rounded-md"
+                />
+              </div>
+              
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <label className="block text-sm font-medium">{t("bookings.attendees")}</label>
+                  <button
+                    type="button"
+                    onClick={handleAddAttendee}
+                    className="flex items-center gap-1 text-xs text-primary hover:underline"
+                  >
+                    <Plus className="h-3 w-3" />
+                    <span>{t("bookings.addAttendee")}</span>
+                  </button>
+                </div>
+                {newBooking.attendees.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    {t("bookings.attendeesHint")}
+                  </p>
+                ) : (
+                  <div className="space-y-2 max-h-40 overflow-y-auto">
+                    {newBooking.attendees.map((attendee, index) => (
+                      <div key={index} className="flex gap-2">
+                        <input
+                          type="text"
+                          placeholder={t("bookings.name")}
+                          value={attendee.name}
+                          onChange={(e) => handleUpdateAttendee(index, { name: e.target.value })}
+                          className="flex-1 p-2 border rounded-md"
+                        />
+                        <select
+                          value={attendee.ageGroup}
+                          onChange={(e) => handleUpdateAttendee(index, { 
+                            ageGroup: e.target.value as BookingAttendee["ageGroup"] 
+                          })}
+                          className="p-2 border rounded-md"
+                        >
+                          <option value="adults">{t("priceTiers.adults")}</option>
+                          <option value="children">{t("priceTiers.children")}</option>
+                          <option value="seniors">{t("priceTiers.seniors")}</option>
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveAttendee(index)}
+                          className="p-2 text-muted-foreground hover:text-destructive"
+                          aria-label={t("bookings.removeAttendee")}
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+              
+              {overlappingBookings.length > 0 && (
+                <div className="bg-yellow-100 text-yellow-800 p-3 rounded-md text-sm space-y-2">
+                  <div className="flex items-center gap-2 font-medium">
+                    <AlertTriangle className="h-4 w-4" />
+                    <span>{t("bookings.overlaps")}</span>
+                  </div>
+                  <ul className="list-disc pl-5">
+                    {overlappingBookings.map(booking => (
+                      <li key={booking.id}>
+                        {booking.activityObject?.title || t("bookings.unknownActivity")}
+                        {booking.activityObject && (
+                          <> ({formatDate(booking.activityObject.startDate)}, {booking.activityObject.startTime} - {booking.activityObject.endTime})</>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  {isAdmin ? (
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={allowOverlap}
+                        onChange={(e) => setAllowOverlap(e.target.checked)}
+                      />
+                      <span>{t("bookings.bookAnyway")}</span>
+                    </label>
+                  ) : (
+                    <p>{t("bookings.overlapAdminOnly")}</p>
+                  )}
+                </div>
+              )}
+              
+              {newBookingEligibility?.flag && (
+                <div className={`p-3 rounded-md text-sm space-y-2 ${
+                  newBookingEligibility.allowed ? "bg-yellow-100 text-yellow-800" : "bg-orange-100 text-orange-800"
+                }`}>
+                  <div className="flex items-center gap-2 font-medium">
+                    <AlertTriangle className="h-4 w-4" />
+                    <span>{newBookingEligibility.flag}</span>
+                  </div>
+                  {newBookingEligibility.allowed ? (
+                    <p>{t("bookings.ageFlagged")}</p>
+                  ) : isAdmin ? (
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={allowAgeMismatch}
+                        onChange={(e) => setAllowAgeMismatch(e.target.checked)}
+                      />
+                      <span>{t("bookings.bookAnywayFlag")}</span>
+                    </label>
+                  ) : (
+                    <p>{t("bookings.ageAdminOnly")}</p>
+                  )}
+                </div>
+              )}
+              
+              <div>
+                <label className="block text-sm font-medium mb-1">{t("bookings.promoCode")}</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={promoCodeInput}
+                    onChange={(e) => {
+                      setPromoCodeInput(e.target.value.toUpperCase());
+                      setAppliedPromo(null);
+                      setPromoError(null);
+                    }}
+                    placeholder={t("bookings.optional")}
+                    className="flex-1 p-2 border rounded-md font-mono"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleApplyPromoCode}
+                    disabled={!promoCodeInput.trim()}
+                    className="px-3 py-2 border rounded-md hover:bg-muted disabled:opacity-50"
+                  >
+                    {t("bookings.apply")}
+                  </button>
+                </div>
+                {(promoError || newBookingPromoProblem) && (
+                  <p className="text-sm text-destructive mt-1">{promoError || newBookingPromoProblem}</p>
+                )}
+                {appliedPromo && !newBookingPromoProblem && (
+                  <p className="text-sm text-green-700 mt-1">{t("bookings.discountApplied", { discount: describeDiscount(appliedPromo) })}</p>
+                )}
+              </div>
+              
+              {rentableEquipment.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium mb-1">{t("bookings.equipmentRental")}</label>
+                  <div className="space-y-2">
+                    {rentableEquipment.map(item => (
+                      <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span>
+                          {item.name}
+                          <span className="text-muted-foreground">
+                            {" "}{t("bookings.rentalStock", { price: formatCurrency(item.rentalPrice), count: getAvailableStock(item) })}
+                          </span>
+                        </span>
+                        <input
+                          type="number"
+                          min="0"
+                          max={getAvailableStock(item)}
+                          value={rentalQuantities[item.id] || 0}
+                          onChange={(e) => setRentalQuantities({
+                            ...rentalQuantities,
+                            [item.id]: Math.max(0, parseInt(e.target.value) || 0)
+                          })}
+                          className="w-20 p-1 border rounded-md"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  {newBookingRentalProblem && (
+                    <p className="text-sm text-destructive mt-1">{newBookingRentalProblem}</p>
+                  )}
+                </div>
+              )}
+              
+              {newBookingPrice && (
+                <div className="p-3 rounded-md bg-muted text-sm space-y-1">
+                  {newBookingPrice.lines.map(line => (
+                    <div key={line.tier} className="flex justify-between">
+                      <span>{t(`priceTiers.${line.tier}`)} × {line.quantity}</span>
+                      <span>{formatCurrency(line.amount)}</span>
+                    </div>
+                  ))}
+                  {newBookingPrice.discount > 0 && (
+                    <div className="flex justify-between text-green-700">
+                      <span>{t("bookings.discount", { code: newBookingPrice.promoCode })}</span>
+                      <span>-{formatCurrency(newBookingPrice.discount)}</span>
+                    </div>
+                  )}
+                  {newBookingRentals.map(rental => (
+                    <div key={rental.itemId} className="flex justify-between">
+                      <span>{t("bookings.rentalLine", { name: rental.name, quantity: rental.quantity })}</span>
+                      <span>{formatCurrency(rental.amount)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between font-medium border-t pt-1">
+                    <span>{t("bookings.total")}</span>
+                    <span>{formatCurrency(newBookingPrice.total)}</span>
+                  </div>
+                </div>
+              )}
+              
+              <div>
+                <label className="block text-sm font-medium mb-1">{t("bookings.status")}</label>
                 <select
                   value={newBooking.status}
                   onChange={(e) => setNewBooking({
@@ -480,9 +1326,9 @@ export default function BookingsPage() {
                   })}
                   className="w-full p-2 border rounded-md"
                 >
-                  <option value="confirmed">Confirmed</option>
-                  <option value="pending">Pending</option>
-                  <option value="cancelled">Cancelled</option>
+                  <option value="confirmed">{t("bookingStatus.confirmed")}</option>
+                  <option value="pending">{t("bookingStatus.pending")}</option>
+                  <option value="cancelled">{t("bookingStatus.cancelled")}</option>
                 </select>
               </div>
             </div>
@@ -493,23 +1339,90 @@ export default function BookingsPage() {
                 className="px-4 py-2 border rounded-md"
                 disabled={loading}
               >
-                Cancel
+                {t("common.cancel")}
               </button>
               <button
                 onClick={handleCreateBooking}
-                className="px-4 py-2 bg-primary text-primary-foreground rounded-md"
-                disabled={loading}
+                className="px-4 py-2 bg-primary text-primary-foreground rounded-md disabled:opacity-50"
+                disabled={
+                  loading || 
+                  (overlappingBookings.length > 0 && newBooking.status !== "cancelled" && !allowOverlap) ||
+                  (newBookingEligibility !== null && !newBookingEligibility.allowed && !allowAgeMismatch) ||
+                  (promoCodeInput.trim() !== "" && (!appliedPromo || newBookingPromoProblem !== null)) ||
+                  (newBooking.status !== "cancelled" && newBookingRentalProblem !== null)
+                }
               >
                 {loading ? (
                   <div className="w-5 h-5 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin"></div>
                 ) : (
-                  "Create Booking"
+                  t("bookings.create")
                 )}
               </button>
             </div>
           </div>
         </div>
       )}
+
+      {/* Booking Detail Drawer */}
+      {historyBooking && (
+        <div className="fixed inset-0 bg-black/50 z-50" onClick={() => setHistoryBooking(null)}>
+          <div
+            className="absolute inset-y-0 right-0 w-full max-w-md bg-background shadow-lg p-6 overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h2 className="text-xl font-bold">
+                  {historyBooking.userObject?.displayName || t("bookings.unknownUser")}
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  {historyBooking.activityObject?.title || selectedActivityData?.title || t("bookings.activity")}
+                </p>
+              </div>
+              <button
+                onClick={() => setHistoryBooking(null)}
+                className="p-1 text-muted-foreground hover:text-foreground"
+                aria-label={t("bookings.close")}
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            
+            <div className="grid grid-cols-2 gap-2 text-sm mb-6">
+              <span className="text-muted-foreground">{t("bookings.status")}</span>
+              <span>{getStatusLabel(historyBooking.status)}</span>
+              <span className="text-muted-foreground">{t("bookings.partySizeLabel")}</span>
+              <span>{getSeatCount(historyBooking)}</span>
+              <span className="text-muted-foreground">{t("bookings.bookedOn")}</span>
+              <span>{formatDate(historyBooking.createdAt)}</span>
+            </div>
+            
+            <h3 className="font-medium mb-3">{t("bookings.history")}</h3>
+            {historyLoading ? (
+              <div className="flex justify-center p-4">
+                <div className="w-6 h-6 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t("bookings.noHistory")}</p>
+            ) : (
+              <ol className="relative border-l ml-2 space-y-4">
+                {history.map(entry => (
+                  <li key={entry.id} className="ml-4">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary"></span>
+                    <p className="text-sm font-medium">{describeHistoryEntry(entry)}</p>
+                    {entry.reason && (
+                      <p className="text-sm text-muted-foreground">{entry.reason}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {entry.createdAt.toLocaleString()} · {entry.changedByName}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      )}
     </MainLayout>
   );
 } 
\ No newline at end of file
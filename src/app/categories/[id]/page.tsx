@@ -5,18 +5,25 @@ import { useRouter, useParams } from "next/navigation";
 import { Save, ArrowLeft, Loader2, AlertCircle } from "lucide-react";
 import MainLayout from "@/layouts/MainLayout";
 import { categoryService } from "@/services/categoryService";
+import { Translations } from "@/types/locale";
+import TranslationFields from "@/components/TranslationFields";
+import { cleanTranslations } from "@/utils/localeUtils";
+import { translate } from "@/locales/messages";
+import { useLocale } from "@/contexts/LocaleContext";
 import { Category } from "@/types/category";
 
 export default function EditCategoryPage() {
   const [category, setCategory] = useState<Category | null>(null);
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [translations, setTranslations] = useState<Translations<"name" | "description">>({});
   const [isActive, setIsActive] = useState(true);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [pageLoading, setPageLoading] = useState(true);
   
   const router = useRouter();
+  const { t } = useLocale();
   const params = useParams();
   const id = params.id as string;
 
@@ -25,17 +32,19 @@ export default function EditCategoryPage() {
       try {
         const data = await categoryService.getCategoryById(id);
         if (!data) {
-          setError("Category not found");
+          // Read the message directly so switching the language does not reload the form
+          setError(translate("categoryForm.notFound"));
           return;
         }
         
         setCategory(data);
         setName(data.name);
         setDescription(data.description || "");
+        setTranslations(data.translations || {});
         setIsActive(data.isActive);
       } catch (err) {
         console.error("Error loading category:", err);
-        setError("Failed to load category details");
+        setError(translate("categoryForm.loadFailed"));
       } finally {
         setPageLoading(false);
       }
@@ -48,7 +57,7 @@ export default function EditCategoryPage() {
     e.preventDefault();
     
     if (!name.trim()) {
-      setError("Category name is required");
+      setError(t("categoryForm.nameRequired"));
       return;
     }
     
@@ -60,13 +69,14 @@ export default function EditCategoryPage() {
       await categoryService.updateCategory(id, {
         name,
         description,
+        translations: cleanTranslations(translations),
         isActive,
       });
       
       router.push("/categories");
     } catch (err) {
       console.error("Error updating category:", err);
-      setError("Failed to update category. Please try again.");
+      setError(t("categoryForm.updateFailed"));
     } finally {
       setLoading(false);
     }
@@ -87,15 +97,15 @@ export default function EditCategoryPage() {
       <MainLayout>
         <div className="flex flex-col items-center justify-center h-64">
           <AlertCircle className="h-12 w-12 text-destructive mb-4" />
-          <h2 className="text-xl font-bold">Category not found</h2>
+          <h2 className="text-xl font-bold">{t("categoryForm.notFound")}</h2>
           <p className="text-muted-foreground mt-2">
-            The category you&apos;re looking for doesn&apos;t exist or has been removed.
+            {t("categoryForm.notFoundHint")}
           </p>
           <button
             onClick={() => router.push("/categories")}
             className="mt-4 px-4 py-2 bg-primary text-primary-foreground rounded-md"
           >
-            Back to Categories
+            {t("categoryForm.backToCategories")}
           </button>
         </div>
       </MainLayout>
@@ -112,7 +122,7 @@ export default function EditCategoryPage() {
           >
             <ArrowLeft className="h-5 w-5" />
           </button>
-          <h1 className="text-3xl font-bold tracking-tight">Edit Category</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{t("categoryForm.editTitle")}</h1>
         </div>
         
         {error && (
@@ -125,7 +135,7 @@ export default function EditCategoryPage() {
           <div className="space-y-4">
             <div>
               <label htmlFor="name" className="block text-sm font-medium mb-1">
-                Name <span className="text-destructive">*</span>
+                {t("common.name")} <span className="text-destructive">*</span>
               </label>
               <input
                 id="name"
@@ -139,7 +149,7 @@ export default function EditCategoryPage() {
             
             <div>
               <label htmlFor="description" className="block text-sm font-medium mb-1">
-                Description
+                {t("common.description")}
               </label>
               <textarea
                 id="description"
@@ -149,6 +159,15 @@ export default function EditCategoryPage() {
               />
             </div>
             
+            <TranslationFields
+              fields={[
+                { name: "name", label: t("common.name") },
+                { name: "description", label: t("common.description"), multiline: true }
+              ]}
+              translations={translations}
+              onChange={setTranslations}
+            />
+            
             <div>
               <label className="flex items-center">
                 <input
@@ -157,7 +176,7 @@ export default function EditCategoryPage() {
                   onChange={(e) => setIsActive(e.target.checked)}
                   className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
                 />
-                <span>Active</span>
+                <span>{t("common.active")}</span>
               </label>
             </div>
           </div>
@@ -168,7 +187,7 @@ export default function EditCategoryPage() {
               onClick={() => router.back()}
               className="px-4 py-2 border rounded-md hover:bg-muted"
             >
-              Cancel
+              {t("common.cancel")}
             </button>
             <button
               type="submit"
@@ -178,12 +197,12 @@ export default function EditCategoryPage() {
               {loading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span>Saving...</span>
+                  <span>{t("common.saving")}</span>
                 </>
               ) : (
                 <>
                   <Save className="h-4 w-4" />
-                  <span>Save</span>
+                  <span>{t("common.save")}</span>
                 </>
               )}
             </button>
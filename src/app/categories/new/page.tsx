@@ -5,20 +5,26 @@ import { useRouter } from "next/navigation";
 import { Save, ArrowLeft, Loader2 } from "lucide-react";
 import MainLayout from "@/layouts/MainLayout";
 import { categoryService } from "@/services/categoryService";
+import { Translations } from "@/types/locale";
+import TranslationFields from "@/components/TranslationFields";
+import { cleanTranslations } from "@/utils/localeUtils";
+import { useLocale } from "@/contexts/LocaleContext";
 
 export default function NewCategoryPage() {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [translations, setTranslations] = useState<Translations<"name" | "description">>({});
   const [isActive, setIsActive] = useState(true);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
+  const { t } = useLocale();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!name.trim()) {
-      setError("Category name is required");
+      setError(t("categoryForm.nameRequired"));
       return;
     }
     
@@ -30,13 +36,14 @@ export default function NewCategoryPage() {
       await categoryService.createCategory({
         name,
         description,
+        translations: cleanTranslations(translations),
         isActive,
       });
       
       router.push("/categories");
     } catch (err) {
       console.error("Error creating category:", err);
-      setError("Failed to create category. Please try again.");
+      setError(t("categoryForm.createFailed"));
     } finally {
       setLoading(false);
     }
@@ -52,7 +59,7 @@ export default function NewCategoryPage() {
           >
             <ArrowLeft className="h-5 w-5" />
           </button>
-          <h1 className="text-3xl font-bold tracking-tight">New Category</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{t("categoryForm.newTitle")}</h1>
         </div>
         
         {error && (
@@ -65,7 +72,7 @@ export default function NewCategoryPage() {
           <div className="space-y-4">
             <div>
               <label htmlFor="name" className="block text-sm font-medium mb-1">
-                Name <span className="text-destructive">*</span>
+                {t("common.name")} <span className="text-destructive">*</span>
               </label>
               <input
                 id="name"
@@ -79,7 +86,7 @@ export default function NewCategoryPage() {
             
             <div>
               <label htmlFor="description" className="block text-sm font-medium mb-1">
-                Description
+                {t("common.description")}
               </label>
               <textarea
                 id="description"
@@ -89,6 +96,15 @@ export default function NewCategoryPage() {
               />
             </div>
             
+            <TranslationFields
+              fields={[
+                { name: "name", label: t("common.name") },
+                { name: "description", label: t("common.description"), multiline: true }
+              ]}
+              translations={translations}
+              onChange={setTranslations}
+            />
+            
             <div>
               <label className="flex items-center">
                 <input
@@ -97,7 +113,7 @@ export default function NewCategoryPage() {
                   onChange={(e) => setIsActive(e.target.checked)}
                   className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
                 />
-                <span>Active</span>
+                <span>{t("common.active")}</span>
               </label>
             </div>
           </div>
@@ -108,7 +124,7 @@ export default function NewCategoryPage() {
               onClick={() => router.back()}
               className="px-4 py-2 border rounded-md hover:bg-muted"
             >
-              Cancel
+              {t("common.cancel")}
             </button>
             <button
               type="submit"
@@ -118,12 +134,12 @@ export default function NewCategoryPage() {
               {loading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span>Saving...</span>
+                  <span>{t("common.saving")}</span>
                 </>
               ) : (
                 <>
                   <Save className="h-4 w-4" />
-                  <span>Save</span>
+                  <span>{t("common.save")}</span>
                 </>
               )}
             </button>
@@ -1,23 +1,22 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { Plus, Pencil, Trash2, AlertCircle } from "lucide-react";
 import MainLayout from "@/layouts/MainLayout";
 import { Category } from "@/types/category";
 import { categoryService } from "@/services/categoryService";
+import { localize } from "@/utils/localeUtils";
+import { useLocale } from "@/contexts/LocaleContext";
 
 export default function CategoriesPage() {
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
+  const { t } = useLocale();
 
-  useEffect(() => {
-    loadCategories();
-  }, []);
-
-  async function loadCategories() {
+  const loadCategories = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
@@ -25,11 +24,15 @@ export default function CategoriesPage() {
       setCategories(data);
     } catch (err) {
       console.error("Error loading categories:", err);
-      setError("Failed to load categories. Please try again.");
+      setError(t("categories.loadFailed"));
     } finally {
       setLoading(false);
     }
-  }
+  }, [t]);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
 
   async function handleToggleStatus(id: string, currentStatus: boolean) {
     try {
@@ -43,12 +46,12 @@ export default function CategoriesPage() {
       );
     } catch (err) {
       console.error("Error toggling category status:", err);
-      setError("Failed to update category status. Please try again.");
+      setError(t("categories.statusFailed"));
     }
   }
 
   async function handleDeleteCategory(id: string) {
-    if (!window.confirm("Are you sure you want to delete this category?")) {
+    if (!window.confirm(t("categories.confirmDelete"))) {
       return;
     }
     
@@ -61,7 +64,7 @@ export default function CategoriesPage() {
       );
     } catch (err) {
       console.error("Error deleting category:", err);
-      setError("Failed to delete category. Please try again.");
+      setError(t("categories.deleteFailed"));
     }
   }
 
@@ -70,9 +73,9 @@ export default function CategoriesPage() {
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <div>
-            <h1 className="text-3xl font-bold tracking-tight">Categories</h1>
+            <h1 className="text-3xl font-bold tracking-tight">{t("categories.title")}</h1>
             <p className="text-muted-foreground">
-              Manage categories for locations
+              {t("categories.subtitle")}
             </p>
           </div>
           
@@ -81,7 +84,7 @@ export default function CategoriesPage() {
             className="flex items-center gap-2 bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90"
           >
             <Plus className="h-4 w-4" />
-            <span>Add Category</span>
+            <span>{t("categories.add")}</span>
           </button>
         </div>
         
@@ -98,17 +101,17 @@ export default function CategoriesPage() {
           </div>
         ) : categories.length === 0 ? (
           <div className="text-center p-8 border rounded-lg bg-card">
-            <p className="text-muted-foreground">No categories found. Create your first category!</p>
+            <p className="text-muted-foreground">{t("categories.empty")}</p>
           </div>
         ) : (
           <div className="rounded-md border">
             <table className="w-full">
               <thead className="bg-muted/50">
                 <tr>
-                  <th className="text-left p-4 font-medium">Name</th>
-                  <th className="text-left p-4 font-medium hidden md:table-cell">Description</th>
-                  <th className="text-left p-4 font-medium">Status</th>
-                  <th className="text-right p-4 font-medium">Actions</th>
+                  <th className="text-left p-4 font-medium">{t("common.name")}</th>
+                  <th className="text-left p-4 font-medium hidden md:table-cell">{t("common.description")}</th>
+                  <th className="text-left p-4 font-medium">{t("common.status")}</th>
+                  <th className="text-right p-4 font-medium">{t("common.actions")}</th>
                 </tr>
               </thead>
               <tbody>
@@ -121,11 +124,11 @@ export default function CategoriesPage() {
                             {category.name.charAt(0).toUpperCase()}
                           </span>
                         </div>
-                        <span className="font-medium">{category.name}</span>
+                        <span className="font-medium">{localize(category, "name")}</span>
                       </div>
                     </td>
                     <td className="p-4 text-muted-foreground hidden md:table-cell">
-                      {category.description || "No description"}
+                      {localize(category, "description") || t("common.noDescription")}
                     </td>
                     <td className="p-4">
                       <div className="flex items-center">
@@ -134,7 +137,7 @@ export default function CategoriesPage() {
                             category.isActive ? "bg-green-500" : "bg-red-500"
                           }`}
                         ></span>
-                        <span>{category.isActive ? "Active" : "Inactive"}</span>
+                        <span>{category.isActive ? t("activityStatus.active") : t("activityStatus.inactive")}</span>
                       </div>
                     </td>
                     <td className="p-4 text-right">
@@ -142,21 +145,21 @@ export default function CategoriesPage() {
                         <button
                           onClick={() => handleToggleStatus(category.id, category.isActive)}
                           className="p-2 hover:bg-muted rounded-md text-muted-foreground hover:text-foreground"
-                          title={category.isActive ? "Deactivate" : "Activate"}
+                          title={category.isActive ? t("common.deactivate") : t("common.activate")}
                         >
-                          {category.isActive ? "Deactivate" : "Activate"}
+                          {category.isActive ? t("common.deactivate") : t("common.activate")}
                         </button>
                         <button
                           onClick={() => router.push(`/categories/${category.id}`)}
                           className="p-2 hover:bg-muted rounded-md text-muted-foreground hover:text-foreground"
-                          title="Edit"
+                          title={t("common.edit")}
                         >
                           <Pencil className="h-4 w-4" />
                         </button>
                         <button
                           onClick={() => handleDeleteCategory(category.id)}
                           className="p-2 hover:bg-destructive/10 rounded-md text-muted-foreground hover:text-destructive"
-                          title="Delete"
+                          title={t("common.delete")}
                         >
                           <Trash2 className="h-4 w-4" />
                         </button>
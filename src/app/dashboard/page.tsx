@@ -11,6 +11,7 @@ import {
 import dynamic from "next/dynamic";
 
 import MainLayout from "@/layouts/MainLayout";
+import { useLocale } from "@/contexts/LocaleContext";
 import StatCard from "@/components/dashboard/StatCard";
 import LineChart from "@/components/dashboard/LineChart";
 import PieChart from "@/components/dashboard/PieChart";
@@ -46,6 +47,7 @@ const DashboardMap = dynamic(
 );
 
 export default function DashboardPage() {
+  const { t } = useLocale();
   const [timePeriod, setTimePeriod] = useState<TimePeriod>('month');
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [timeSeriesData, setTimeSeriesData] = useState<TimeSeriesData[]>([]);
@@ -85,9 +87,9 @@ export default function DashboardPage() {
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <div>
-            <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
+            <h1 className="text-3xl font-bold tracking-tight">{t("dashboard.title")}</h1>
             <p className="text-muted-foreground">
-              Welcome back! Here&apos;s an overview of your platform.
+              {t("dashboard.welcome")}
             </p>
           </div>
           <TimeRangeSelector value={timePeriod} onChange={setTimePeriod} />
@@ -96,29 +98,29 @@ export default function DashboardPage() {
         {/* Stats Grid */}
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
           <StatCard 
-            title="Total Users" 
-            value={loading ? "Loading..." : stats?.totalUsers || 0} 
+            title={t("dashboard.totalUsers")}
+            value={loading ? t("common.loading") : stats?.totalUsers || 0} 
             icon={Users}
             trend={stats ? { value: Math.round(stats.userGrowth), isPositive: stats.userGrowth >= 0 } : undefined}
             iconClassName="bg-blue-500"
           />
           <StatCard 
-            title="Total Locations" 
-            value={loading ? "Loading..." : stats?.totalLocations || 0} 
+            title={t("dashboard.totalLocations")}
+            value={loading ? t("common.loading") : stats?.totalLocations || 0} 
             icon={MapPin}
             trend={stats ? { value: Math.round(stats.locationGrowth), isPositive: stats.locationGrowth >= 0 } : undefined}
             iconClassName="bg-orange-500"
           />
           <StatCard 
-            title="Total Activities" 
-            value={loading ? "Loading..." : stats?.totalActivities || 0} 
+            title={t("dashboard.totalActivities")}
+            value={loading ? t("common.loading") : stats?.totalActivities || 0} 
             icon={Calendar}
             trend={stats ? { value: Math.round(stats.activityGrowth), isPositive: stats.activityGrowth >= 0 } : undefined}
             iconClassName="bg-green-500"
           />
           <StatCard 
-            title="Active Activities" 
-            value={loading ? "Loading..." : stats?.activeActivities || 0} 
+            title={t("dashboard.activeActivities")}
+            value={loading ? t("common.loading") : stats?.activeActivities || 0} 
             icon={DollarSign}
             iconClassName="bg-purple-500"
           />
@@ -129,7 +131,7 @@ export default function DashboardPage() {
           {/* Bookings Overview */}
           <div className="col-span-2 rounded-lg border bg-card p-6">
             <div className="flex items-center justify-between">
-              <h3 className="text-lg font-medium">Activity Overview</h3>
+              <h3 className="text-lg font-medium">{t("dashboard.activityOverview")}</h3>
             </div>
             <div className="mt-4 h-[300px] w-full border-t pt-4">
               {loading ? (
@@ -139,15 +141,12 @@ export default function DashboardPage() {
               ) : timeSeriesData.length > 0 ? (
                 <LineChart 
                   data={timeSeriesData} 
-                  title={`Activity over ${timePeriod === 'day' ? 'today' : 
-                          timePeriod === 'week' ? 'the last 7 days' : 
-                          timePeriod === 'month' ? 'the last 30 days' : 
-                          timePeriod === 'year' ? 'the last 12 months' : 'all time'}`} 
+                  title={t(`dashboard.activityOver.${timePeriod}`)} 
                 />
               ) : (
                 <div className="text-center text-muted-foreground flex flex-col items-center justify-center h-full">
                   <Activity className="mx-auto h-12 w-12 opacity-50" />
-                  <p className="mt-2">No data available for this time period</p>
+                  <p className="mt-2">{t("dashboard.noData")}</p>
                 </div>
               )}
             </div>
@@ -155,18 +154,18 @@ export default function DashboardPage() {
           
           {/* Popular Locations */}
           <div className="rounded-lg border bg-card p-6">
-            <h3 className="text-lg font-medium">Popular Locations</h3>
+            <h3 className="text-lg font-medium">{t("dashboard.popularLocations")}</h3>
             <div className="mt-4 h-[300px] w-full border-t pt-4">
               {loading ? (
                 <div className="flex items-center justify-center h-full">
                   <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
                 </div>
               ) : locationData.length > 0 ? (
-                <PieChart data={locationData} title="Top Locations" />
+                <PieChart data={locationData} title={t("dashboard.topLocations")} />
               ) : (
                 <div className="text-center text-muted-foreground flex flex-col items-center justify-center h-full">
                   <MapPin className="mx-auto h-12 w-12 opacity-50" />
-                  <p className="mt-2">No data available for this time period</p>
+                  <p className="mt-2">{t("dashboard.noData")}</p>
                 </div>
               )}
             </div>
@@ -177,7 +176,7 @@ export default function DashboardPage() {
         <div className="grid gap-6 md:grid-cols-2">
           {/* Map */}
           <div className="rounded-lg border bg-card p-6">
-            <h3 className="text-lg font-medium">Location Map</h3>
+            <h3 className="text-lg font-medium">{t("dashboard.locationMap")}</h3>
             <div className="mt-4 h-[300px] w-full border-t pt-4">
               {loading ? (
                 <div className="flex items-center justify-center h-full">
@@ -188,7 +187,7 @@ export default function DashboardPage() {
               ) : (
                 <div className="text-center text-muted-foreground flex flex-col items-center justify-center h-full">
                   <MapPin className="mx-auto h-12 w-12 opacity-50" />
-                  <p className="mt-2">No locations available</p>
+                  <p className="mt-2">{t("dashboard.noLocations")}</p>
                 </div>
               )}
             </div>
@@ -196,7 +195,7 @@ export default function DashboardPage() {
           
           {/* Recent Activity */}
           <div className="rounded-lg border bg-card p-6">
-            <h3 className="text-lg font-medium">Recent Activity</h3>
+            <h3 className="text-lg font-medium">{t("dashboard.recentActivity")}</h3>
             <div className="mt-4 space-y-4 border-t pt-4">
               {loading ? (
                 <div className="flex items-center justify-center h-[300px]">
@@ -209,7 +208,7 @@ export default function DashboardPage() {
                       key={item.id}
                       id={item.id}
                       type={item.type}
-                      description={item.type === 'user' ? item.displayName || item.email || 'N/A' : item.title || item.name || 'N/A'}
+                      description={item.type === 'user' ? item.displayName || item.email || t("dashboard.notAvailable") : item.title || item.name || t("dashboard.notAvailable")}
                       createdAt={item.createdAt}
                     />
                   ))}
@@ -217,7 +216,7 @@ export default function DashboardPage() {
               ) : (
                 <div className="text-center text-muted-foreground flex flex-col items-center justify-center h-[300px]">
                   <Activity className="mx-auto h-12 w-12 opacity-50" />
-                  <p className="mt-2">No recent activity</p>
+                  <p className="mt-2">{t("dashboard.noRecentActivity")}</p>
                 </div>
               )}
             </div>
@@ -228,7 +227,7 @@ export default function DashboardPage() {
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
           {/* Activity by Difficulty */}
           <div className="rounded-lg border bg-card p-6">
-            <h3 className="text-lg font-medium">Activities by Difficulty</h3>
+            <h3 className="text-lg font-medium">{t("dashboard.byDifficulty")}</h3>
             <div className="mt-4 space-y-4 border-t pt-4">
               {loading ? (
                 <div className="flex items-center justify-center h-[200px]">
@@ -236,9 +235,9 @@ export default function DashboardPage() {
                 </div>
               ) : (
                 <div className="space-y-2">
-                  {['Easy', 'Moderate', 'Challenging'].map((difficulty) => {
+                  {(['easy', 'moderate', 'challenging'] as const).map((difficulty) => {
                     // Count activities by difficulty
-                    const count = stats?.activitiesByDifficulty?.[difficulty.toLowerCase()] || 0;
+                    const count = stats?.activitiesByDifficulty?.[difficulty] || 0;
                     const percentage = stats?.totalActivities 
                       ? Math.round((count / stats.totalActivities) * 100) 
                       : 0;
@@ -246,14 +245,14 @@ export default function DashboardPage() {
                     return (
                       <div key={difficulty} className="space-y-1">
                         <div className="flex justify-between text-sm">
-                          <span>{difficulty}</span>
+                          <span>{t(`difficulty.${difficulty}`)}</span>
                           <span className="font-medium">{count} ({percentage}%)</span>
                         </div>
                         <div className="h-2 bg-muted rounded-full overflow-hidden">
                           <div 
                             className={`h-full ${
-                              difficulty === 'Easy' ? 'bg-green-500' : 
-                              difficulty === 'Moderate' ? 'bg-yellow-500' : 
+                              difficulty === 'easy' ? 'bg-green-500' : 
+                              difficulty === 'moderate' ? 'bg-yellow-500' : 
                               'bg-red-500'
                             }`}
                             style={{ width: `${percentage}%` }}
@@ -269,7 +268,7 @@ export default function DashboardPage() {
           
           {/* Activities by Age Group */}
           <div className="rounded-lg border bg-card p-6">
-            <h3 className="text-lg font-medium">Activities by Age Group</h3>
+            <h3 className="text-lg font-medium">{t("dashboard.byAgeGroup")}</h3>
             <div className="mt-4 space-y-4 border-t pt-4">
               {loading ? (
                 <div className="flex items-center justify-center h-[200px]">
@@ -306,7 +305,7 @@ export default function DashboardPage() {
           
           {/* Upcoming Activities */}
           <div className="rounded-lg border bg-card p-6">
-            <h3 className="text-lg font-medium">Upcoming Activities</h3>
+            <h3 className="text-lg font-medium">{t("dashboard.upcomingActivities")}</h3>
             <div className="mt-4 space-y-4 border-t pt-4">
               {loading ? (
                 <div className="flex items-center justify-center h-[200px]">
@@ -331,7 +330,7 @@ export default function DashboardPage() {
               ) : (
                 <div className="text-center text-muted-foreground flex flex-col items-center justify-center h-[200px]">
                   <Calendar className="mx-auto h-12 w-12 opacity-50" />
-                  <p className="mt-2">No upcoming activities</p>
+                  <p className="mt-2">{t("dashboard.noUpcomingActivities")}</p>
                 </div>
               )}
             </div>
@@ -3,6 +3,7 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { LocaleProvider } from "@/contexts/LocaleContext";
 import RouteGuard from "@/components/auth/RouteGuard";
 
 const inter = Inter({ subsets: ["latin"] });
@@ -22,9 +23,11 @@ export default function RootLayout({
       <body className={inter.className}>
         <ThemeProvider>
           <AuthProvider>
-            <RouteGuard>
-              {children}
-            </RouteGuard>
+            <LocaleProvider>
+              <RouteGuard>
+                {children}
+              </RouteGuard>
+            </LocaleProvider>
           </AuthProvider>
         </ThemeProvider>
       </body>
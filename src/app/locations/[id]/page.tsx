@@ -9,8 +9,13 @@ import MainLayout from "@/layouts/MainLayout";
 import { locationService } from "@/services/locationService";
 import { categoryService } from "@/services/categoryService";
 import { Category } from "@/types/category";
+import { Translations } from "@/types/locale";
+import TranslationFields from "@/components/TranslationFields";
 import { Location } from "@/types/location";
 import { imageToBase64, resizeImage } from "@/utils/imageUtils";
+import { cleanTranslations } from "@/utils/localeUtils";
+import { translate } from "@/locales/messages";
+import { useLocale } from "@/contexts/LocaleContext";
 
 // Dynamically import the LocationPicker to avoid SSR issues with Leaflet
 const LocationPicker = dynamic(
@@ -22,6 +27,7 @@ export default function EditLocationPage() {
   const [location, setLocation] = useState<Location | null>(null);
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [translations, setTranslations] = useState<Translations<"name" | "description">>({});
   const [address, setAddress] = useState("");
   const [lat, setLat] = useState<number | string>("");
   const [lng, setLng] = useState<number | string>("");
@@ -30,12 +36,15 @@ export default function EditLocationPage() {
   const [icon, setIcon] = useState<string | null>(null);
   const [images, setImages] = useState<string[]>([]);
   const [isActive, setIsActive] = useState(true);
+  const [capacity, setCapacity] = useState<number>(0);
+  const [exclusive, setExclusive] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [pageLoading, setPageLoading] = useState(true);
   const [showMap, setShowMap] = useState(false);
   
   const router = useRouter();
+  const { t } = useLocale();
   const params = useParams();
   const id = params.id as string;
 
@@ -49,7 +58,8 @@ export default function EditLocationPage() {
         // Load location
         const locationData = await locationService.getLocationById(id);
         if (!locationData) {
-          setError("Location not found");
+          // Read the message directly so switching the language does not reload the form
+          setError(translate("location.notFound"));
           setPageLoading(false);
           return;
         }
@@ -57,6 +67,7 @@ export default function EditLocationPage() {
         setLocation(locationData);
         setName(locationData.name);
         setDescription(locationData.description || "");
+        setTranslations(locationData.translations || {});
         setAddress(locationData.address);
         setLat(locationData.coordinates.lat);
         setLng(locationData.coordinates.lng);
@@ -64,9 +75,11 @@ export default function EditLocationPage() {
         setIcon(locationData.icon || null);
         setImages(locationData.images || []);
         setIsActive(locationData.isActive);
+        setCapacity(locationData.capacity || 0);
+        setExclusive(locationData.exclusive);
       } catch (err) {
         console.error("Error loading data:", err);
-        setError("Failed to load location details. Please try again.");
+        setError(translate("locationForm.loadFailed"));
       } finally {
         setPageLoading(false);
       }
@@ -86,7 +99,7 @@ export default function EditLocationPage() {
       setIcon(resized);
     } catch (err) {
       console.error("Error processing icon:", err);
-      setError("Failed to process icon. Please try again.");
+      setError(t("locationForm.iconFailed"));
     }
   };
 
@@ -101,7 +114,7 @@ export default function EditLocationPage() {
       setImages([...images, resized]);
     } catch (err) {
       console.error("Error processing image:", err);
-      setError("Failed to process image. Please try again.");
+      setError(t("locationForm.imageFailed"));
     }
   };
 
@@ -113,22 +126,22 @@ export default function EditLocationPage() {
     e.preventDefault();
     
     if (!name.trim()) {
-      setError("Location name is required");
+      setError(t("locationForm.nameRequired"));
       return;
     }
 
     if (!address.trim()) {
-      setError("Address is required");
+      setError(t("locationForm.addressRequired"));
       return;
     }
 
     if (!lat || !lng) {
-      setError("Coordinates are required");
+      setError(t("locationForm.coordinatesRequired"));
       return;
     }
 
     if (!categoryId) {
-      setError("Please select a category");
+      setError(t("locationForm.categoryRequired"));
       return;
     }
     
@@ -140,6 +153,7 @@ export default function EditLocationPage() {
       await locationService.updateLocation(id, {
         name,
         description,
+        translations: cleanTranslations(translations),
         address,
         coordinates: {
           lat: typeof lat === 'string' ? parseFloat(lat) : lat,
@@ -149,12 +163,14 @@ export default function EditLocationPage() {
         icon: icon || undefined,
         images,
         isActive,
+        capacity,
+        exclusive,
       });
       
       router.push("/locations");
     } catch (err) {
       console.error("Error updating location:", err);
-      setError("Failed to update location. Please try again.");
+      setError(t("locationForm.updateFailed"));
     } finally {
       setLoading(false);
     }
@@ -180,15 +196,15 @@ export default function EditLocationPage() {
       <MainLayout>
         <div className="flex flex-col items-center justify-center h-64">
           <AlertCircle className="h-12 w-12 text-destructive mb-4" />
-          <h2 className="text-xl font-bold">Location not found</h2>
+          <h2 className="text-xl font-bold">{t("location.notFound")}</h2>
           <p className="text-muted-foreground mt-2">
-            The location you&apos;re looking for doesn&apos;t exist or has been removed.
+            {t("location.notFoundHint")}
           </p>
           <button
             onClick={() => router.push("/locations")}
             className="mt-4 px-4 py-2 bg-primary text-primary-foreground rounded-md"
           >
-            Back to Locations
+            {t("location.backToLocations")}
           </button>
         </div>
       </MainLayout>
@@ -205,7 +221,7 @@ export default function EditLocationPage() {
           >
             <ArrowLeft className="h-5 w-5" />
           </button>
-          <h1 className="text-3xl font-bold tracking-tight">Edit Location</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{t("locationForm.editTitle")}</h1>
         </div>
         
         {error && (
@@ -218,7 +234,7 @@ export default function EditLocationPage() {
           <div className="space-y-4">
             <div>
               <label htmlFor="name" className="block text-sm font-medium mb-1">
-                Name <span className="text-destructive">*</span>
+                {t("locationForm.name")} <span className="text-destructive">*</span>
               </label>
               <input
                 id="name"
@@ -232,7 +248,7 @@ export default function EditLocationPage() {
             
             <div>
               <label htmlFor="description" className="block text-sm font-medium mb-1">
-                Description
+                {t("locationForm.description")}
               </label>
               <textarea
                 id="description"
@@ -242,17 +258,26 @@ export default function EditLocationPage() {
               />
             </div>
             
+            <TranslationFields
+              fields={[
+                { name: "name", label: t("locationForm.name") },
+                { name: "description", label: t("locationForm.description"), multiline: true }
+              ]}
+              translations={translations}
+              onChange={setTranslations}
+            />
+            
             {/* Icon Upload */}
             <div>
               <label className="block text-sm font-medium mb-2">
-                Location Icon
+                {t("locationForm.icon")}
               </label>
               <div className="flex items-center gap-4">
                 {icon ? (
                   <div className="relative h-16 w-16 rounded-md overflow-hidden border">
                     <Image
                       src={icon} 
-                      alt="Location icon" 
+                      alt={t("locationForm.iconAlt")} 
                       width={64}
                       height={64}
                       className="object-cover"
@@ -279,17 +304,17 @@ export default function EditLocationPage() {
                     className="hidden"
                   />
                   <Plus className="h-4 w-4" />
-                  <span>{icon ? "Change Icon" : "Upload Icon"}</span>
+                  <span>{icon ? t("locationForm.changeIcon") : t("locationForm.uploadIcon")}</span>
                 </label>
               </div>
               <p className="text-xs text-muted-foreground mt-1">
-                The icon will be used to represent this location on maps and lists.
+                {t("locationForm.iconHint")}
               </p>
             </div>
             
             <div>
               <label htmlFor="category" className="block text-sm font-medium mb-1">
-                Category <span className="text-destructive">*</span>
+                {t("locationForm.category")} <span className="text-destructive">*</span>
               </label>
               <select
                 id="category"
@@ -298,7 +323,7 @@ export default function EditLocationPage() {
                 className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
                 required
               >
-                <option value="">Select a category</option>
+                <option value="">{t("locationForm.selectCategory")}</option>
                 {categories.map((category) => (
                   <option key={category.id} value={category.id}>
                     {category.name}
@@ -309,7 +334,7 @@ export default function EditLocationPage() {
             
             <div>
               <label htmlFor="address" className="block text-sm font-medium mb-1">
-                Address <span className="text-destructive">*</span>
+                {t("locationForm.address")} <span className="text-destructive">*</span>
               </label>
               <textarea
                 id="address"
@@ -323,7 +348,7 @@ export default function EditLocationPage() {
             <div>
               <div className="flex justify-between items-center mb-2">
                 <label className="block text-sm font-medium">
-                  Location <span className="text-destructive">*</span>
+                  {t("locationForm.location")} <span className="text-destructive">*</span>
                 </label>
                 <button
                   type="button"
@@ -331,7 +356,7 @@ export default function EditLocationPage() {
                   className="flex items-center gap-1 text-xs text-primary hover:underline"
                 >
                   <Map className="h-3 w-3" />
-                  {showMap ? "Hide Map" : "Show Map"}
+                  {showMap ? t("locationForm.hideMap") : t("locationForm.showMap")}
                 </button>
               </div>
               
@@ -343,7 +368,7 @@ export default function EditLocationPage() {
                     onLocationSelect={handleLocationSelect} 
                   />
                   <p className="text-xs text-muted-foreground mt-1">
-                    Click on the map to select a location
+                    {t("locationForm.mapHint")}
                   </p>
                 </div>
               )}
@@ -351,7 +376,7 @@ export default function EditLocationPage() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label htmlFor="lat" className="block text-sm font-medium mb-1">
-                    Latitude <span className="text-destructive">*</span>
+                    {t("locationForm.latitude")} <span className="text-destructive">*</span>
                   </label>
                   <input
                     id="lat"
@@ -365,7 +390,7 @@ export default function EditLocationPage() {
                 </div>
                 <div>
                   <label htmlFor="lng" className="block text-sm font-medium mb-1">
-                    Longitude <span className="text-destructive">*</span>
+                    {t("locationForm.longitude")} <span className="text-destructive">*</span>
                   </label>
                   <input
                     id="lng"
@@ -382,7 +407,7 @@ export default function EditLocationPage() {
             
             <div>
               <label className="block text-sm font-medium mb-2">
-                Images
+                {t("locationForm.images")}
               </label>
               <div className="space-y-4">
                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
@@ -390,7 +415,7 @@ export default function EditLocationPage() {
                     <div key={index} className="relative aspect-square rounded-md overflow-hidden border">
                       <Image
                         src={image} 
-                        alt={`Location image ${index + 1}`} 
+                        alt={t("locationForm.imageAlt", { number: index + 1 })} 
                         width={100}
                         height={100}
                         className="object-cover"
@@ -412,15 +437,44 @@ export default function EditLocationPage() {
                       className="hidden"
                     />
                     <Plus className="h-8 w-8 text-muted-foreground mb-1" />
-                    <span className="text-xs text-muted-foreground text-center px-2">Add Image</span>
+                    <span className="text-xs text-muted-foreground text-center px-2">{t("locationForm.addImage")}</span>
                   </label>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Images will be automatically resized and stored as base64 data.
+                  {t("locationForm.imagesHint")}
                 </p>
               </div>
             </div>
             
+            <div>
+              <label htmlFor="capacity" className="block text-sm font-medium mb-1">
+                {t("locationForm.capacity")}
+              </label>
+              <input
+                id="capacity"
+                type="number"
+                min="0"
+                value={capacity}
+                onChange={(e) => setCapacity(parseInt(e.target.value) || 0)}
+                className="w-full p-2 border rounded-md"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                {t("locationForm.capacityHint")}
+              </p>
+            </div>
+            
+            <div>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={exclusive}
+                  onChange={(e) => setExclusive(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
+                />
+                <span>{t("locationForm.exclusive")}</span>
+              </label>
+            </div>
+            
             <div>
               <label className="flex items-center">
                 <input
@@ -429,7 +483,7 @@ export default function EditLocationPage() {
                   onChange={(e) => setIsActive(e.target.checked)}
                   className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
                 />
-                <span>Active</span>
+                <span>{t("common.active")}</span>
               </label>
             </div>
           </div>
@@ -440,7 +494,7 @@ export default function EditLocationPage() {
               onClick={() => router.push("/locations")}
               className="px-4 py-2 border rounded-md hover:bg-muted"
             >
-              Cancel
+              {t("common.cancel")}
             </button>
             <button
               type="submit"
@@ -450,12 +504,12 @@ export default function EditLocationPage() {
               {loading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span>Saving...</span>
+                  <span>{t("common.saving")}</span>
                 </>
               ) : (
                 <>
                   <Save className="h-4 w-4" />
-                  <span>Save Changes</span>
+                  <span>{t("common.saveChanges")}</span>
                 </>
               )}
             </button>
@@ -9,7 +9,12 @@ import MainLayout from "@/layouts/MainLayout";
 import { locationService } from "@/services/locationService";
 import { categoryService } from "@/services/categoryService";
 import { Category } from "@/types/category";
+import { Translations } from "@/types/locale";
+import TranslationFields from "@/components/TranslationFields";
 import { imageToBase64, resizeImage } from "@/utils/imageUtils";
+import { cleanTranslations } from "@/utils/localeUtils";
+import { translate } from "@/locales/messages";
+import { useLocale } from "@/contexts/LocaleContext";
 
 // Dynamically import the LocationPicker to avoid SSR issues with Leaflet
 const LocationPicker = dynamic(
@@ -20,6 +25,7 @@ const LocationPicker = dynamic(
 export default function NewLocationPage() {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [translations, setTranslations] = useState<Translations<"name" | "description">>({});
   const [address, setAddress] = useState("");
   const [lat, setLat] = useState<number | string>(25.276987); // Default to center of Saudi Arabia
   const [lng, setLng] = useState<number | string>(45.086601);
@@ -28,10 +34,13 @@ export default function NewLocationPage() {
   const [icon, setIcon] = useState<string | null>(null);
   const [images, setImages] = useState<string[]>([]);
   const [isActive, setIsActive] = useState(true);
+  const [capacity, setCapacity] = useState<number>(0);
+  const [exclusive, setExclusive] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showMap, setShowMap] = useState(false);
   const router = useRouter();
+  const { t } = useLocale();
 
   useEffect(() => {
     // Load categories
@@ -44,7 +53,8 @@ export default function NewLocationPage() {
         }
       } catch (err) {
         console.error("Error loading categories:", err);
-        setError("Failed to load categories. Please refresh the page.");
+        // Read the message directly so switching the language does not reload the form
+        setError(translate("locationForm.categoriesFailed"));
       }
     };
 
@@ -62,7 +72,7 @@ export default function NewLocationPage() {
       setIcon(resized);
     } catch (err) {
       console.error("Error processing icon:", err);
-      setError("Failed to process icon. Please try again.");
+      setError(t("locationForm.iconFailed"));
     }
   };
 
@@ -77,7 +87,7 @@ export default function NewLocationPage() {
       setImages([...images, resized]);
     } catch (err) {
       console.error("Error processing image:", err);
-      setError("Failed to process image. Please try again.");
+      setError(t("locationForm.imageFailed"));
     }
   };
 
@@ -89,22 +99,22 @@ export default function NewLocationPage() {
     e.preventDefault();
     
     if (!name.trim()) {
-      setError("Location name is required");
+      setError(t("locationForm.nameRequired"));
       return;
     }
 
     if (!address.trim()) {
-      setError("Address is required");
+      setError(t("locationForm.addressRequired"));
       return;
     }
 
     if (!lat || !lng) {
-      setError("Coordinates are required");
+      setError(t("locationForm.coordinatesRequired"));
       return;
     }
 
     if (!categoryId) {
-      setError("Please select a category");
+      setError(t("locationForm.categoryRequired"));
       return;
     }
     
@@ -116,6 +126,7 @@ export default function NewLocationPage() {
       await locationService.createLocation({
         name,
         description,
+        translations: cleanTranslations(translations),
         address,
         coordinates: {
           lat: typeof lat === 'string' ? parseFloat(lat) : lat,
@@ -125,12 +136,14 @@ export default function NewLocationPage() {
         icon: icon || undefined,
         images,
         isActive,
+        capacity,
+        exclusive,
       });
       
       router.push("/locations");
     } catch (err) {
       console.error("Error creating location:", err);
-      setError("Failed to create location. Please try again.");
+      setError(t("locationForm.createFailed"));
     } finally {
       setLoading(false);
     }
@@ -151,7 +164,7 @@ export default function NewLocationPage() {
           >
             <ArrowLeft className="h-5 w-5" />
           </button>
-          <h1 className="text-3xl font-bold tracking-tight">New Location</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{t("locationForm.newTitle")}</h1>
         </div>
         
         {error && (
@@ -164,7 +177,7 @@ export default function NewLocationPage() {
           <div className="space-y-4">
             <div>
               <label htmlFor="name" className="block text-sm font-medium mb-1">
-                Name <span className="text-destructive">*</span>
+                {t("locationForm.name")} <span className="text-destructive">*</span>
               </label>
               <input
                 id="name"
@@ -178,7 +191,7 @@ export default function NewLocationPage() {
             
             <div>
               <label htmlFor="description" className="block text-sm font-medium mb-1">
-                Description
+                {t("locationForm.description")}
               </label>
               <textarea
                 id="description"
@@ -188,17 +201,26 @@ export default function NewLocationPage() {
               />
             </div>
             
+            <TranslationFields
+              fields={[
+                { name: "name", label: t("locationForm.name") },
+                { name: "description", label: t("locationForm.description"), multiline: true }
+              ]}
+              translations={translations}
+              onChange={setTranslations}
+            />
+            
             {/* Icon Upload */}
             <div>
               <label className="block text-sm font-medium mb-2">
-                Location Icon
+                {t("locationForm.icon")}
               </label>
               <div className="flex items-center gap-4">
                 {icon ? (
                   <div className="relative h-16 w-16 rounded-md overflow-hidden border">
                     <Image
                       src={icon}
-                      alt="Location icon"
+                      alt={t("locationForm.iconAlt")}
                       width={64}
                       height={64}
                       className="w-full h-full object-cover"
@@ -225,17 +247,17 @@ export default function NewLocationPage() {
                     className="hidden"
                   />
                   <Plus className="h-4 w-4" />
-                  <span>{icon ? "Change Icon" : "Upload Icon"}</span>
+                  <span>{icon ? t("locationForm.changeIcon") : t("locationForm.uploadIcon")}</span>
                 </label>
               </div>
               <p className="text-xs text-muted-foreground mt-1">
-                The icon will be used to represent this location on maps and lists.
+                {t("locationForm.iconHint")}
               </p>
             </div>
             
             <div>
               <label htmlFor="category" className="block text-sm font-medium mb-1">
-                Category <span className="text-destructive">*</span>
+                {t("locationForm.category")} <span className="text-destructive">*</span>
               </label>
               <select
                 id="category"
@@ -244,7 +266,7 @@ export default function NewLocationPage() {
                 className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
                 required
               >
-                <option value="">Select a category</option>
+                <option value="">{t("locationForm.selectCategory")}</option>
                 {categories.map((category) => (
                   <option key={category.id} value={category.id}>
                     {category.name}
@@ -255,7 +277,7 @@ export default function NewLocationPage() {
             
             <div>
               <label htmlFor="address" className="block text-sm font-medium mb-1">
-                Address <span className="text-destructive">*</span>
+                {t("locationForm.address")} <span className="text-destructive">*</span>
               </label>
               <textarea
                 id="address"
@@ -269,7 +291,7 @@ export default function NewLocationPage() {
             <div>
               <div className="flex justify-between items-center mb-2">
                 <label className="block text-sm font-medium">
-                  Location <span className="text-destructive">*</span>
+                  {t("locationForm.location")} <span className="text-destructive">*</span>
                 </label>
                 <button
                   type="button"
@@ -277,7 +299,7 @@ export default function NewLocationPage() {
                   className="flex items-center gap-1 text-xs text-primary hover:underline"
                 >
                   <Map className="h-3 w-3" />
-                  {showMap ? "Hide Map" : "Show Map"}
+                  {showMap ? t("locationForm.hideMap") : t("locationForm.showMap")}
                 </button>
               </div>
               
@@ -289,7 +311,7 @@ export default function NewLocationPage() {
                     onLocationSelect={handleLocationSelect} 
                   />
                   <p className="text-xs text-muted-foreground mt-1">
-                    Click on the map to select a location
+                    {t("locationForm.mapHint")}
                   </p>
                 </div>
               )}
@@ -297,7 +319,7 @@ export default function NewLocationPage() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label htmlFor="lat" className="block text-sm font-medium mb-1">
-                    Latitude <span className="text-destructive">*</span>
+                    {t("locationForm.latitude")} <span className="text-destructive">*</span>
                   </label>
                   <input
                     id="lat"
@@ -311,7 +333,7 @@ export default function NewLocationPage() {
                 </div>
                 <div>
                   <label htmlFor="lng" className="block text-sm font-medium mb-1">
-                    Longitude <span className="text-destructive">*</span>
+                    {t("locationForm.longitude")} <span className="text-destructive">*</span>
                   </label>
                   <input
                     id="lng"
@@ -328,7 +350,7 @@ export default function NewLocationPage() {
             
             <div>
               <label className="block text-sm font-medium mb-2">
-                Images
+                {t("locationForm.images")}
               </label>
               <div className="space-y-4">
                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
@@ -336,7 +358,7 @@ export default function NewLocationPage() {
                     <div key={index} className="relative aspect-square rounded-md overflow-hidden border">
                       <Image
                         src={image}
-                        alt={`Location image ${index + 1}`}
+                        alt={t("locationForm.imageAlt", { number: index + 1 })}
                         width={100}
                         height={100}
                         className="w-full h-full object-cover"
@@ -358,15 +380,44 @@ export default function NewLocationPage() {
                       className="hidden"
                     />
                     <Plus className="h-8 w-8 text-muted-foreground mb-1" />
-                    <span className="text-xs text-muted-foreground text-center px-2">Add Image</span>
+                    <span className="text-xs text-muted-foreground text-center px-2">{t("locationForm.addImage")}</span>
                   </label>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Images will be automatically resized and stored as base64 data.
+                  {t("locationForm.imagesHint")}
                 </p>
               </div>
             </div>
             
+            <div>
+              <label htmlFor="capacity" className="block text-sm font-medium mb-1">
+                {t("locationForm.capacity")}
+              </label>
+              <input
+                id="capacity"
+                type="number"
+                min="0"
+                value={capacity}
+                onChange={(e) => setCapacity(parseInt(e.target.value) || 0)}
+                className="w-full p-2 border rounded-md"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                {t("locationForm.capacityHint")}
+              </p>
+            </div>
+            
+            <div>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={exclusive}
+                  onChange={(e) => setExclusive(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
+                />
+                <span>{t("locationForm.exclusive")}</span>
+              </label>
+            </div>
+            
             <div>
               <label className="flex items-center">
                 <input
@@ -375,7 +426,7 @@ export default function NewLocationPage() {
                   onChange={(e) => setIsActive(e.target.checked)}
                   className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
                 />
-                <span>Active</span>
+                <span>{t("common.active")}</span>
               </label>
             </div>
           </div>
@@ -386,7 +437,7 @@ export default function NewLocationPage() {
               onClick={() => router.push("/locations")}
               className="px-4 py-2 border rounded-md hover:bg-muted"
             >
-              Cancel
+              {t("common.cancel")}
             </button>
             <button
               type="submit"
@@ -396,12 +447,12 @@ export default function NewLocationPage() {
               {loading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span>Saving...</span>
+                  <span>{t("common.saving")}</span>
                 </>
               ) : (
                 <>
                   <Save className="h-4 w-4" />
-                  <span>Save Location</span>
+                  <span>{t("locationForm.save")}</span>
                 </>
               )}
             </button>
@@ -1,24 +1,23 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { Plus, Pencil, Trash2, AlertCircle, MapPin } from "lucide-react";
 import Image from "next/image";
 import MainLayout from "@/layouts/MainLayout";
 import { Location } from "@/types/location";
 import { locationService } from "@/services/locationService";
+import { localize } from "@/utils/localeUtils";
+import { useLocale } from "@/contexts/LocaleContext";
 
 export default function LocationsPage() {
   const [locations, setLocations] = useState<Location[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
+  const { t } = useLocale();
 
-  useEffect(() => {
-    loadLocations();
-  }, []);
-
-  async function loadLocations() {
+  const loadLocations = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
@@ -26,11 +25,15 @@ export default function LocationsPage() {
       setLocations(data);
     } catch (err) {
       console.error("Error loading locations:", err);
-      setError("Failed to load locations. Please try again.");
+      setError(t("locations.loadFailed"));
     } finally {
       setLoading(false);
     }
-  }
+  }, [t]);
+
+  useEffect(() => {
+    loadLocations();
+  }, [loadLocations]);
 
   async function handleToggleStatus(id: string, currentStatus: boolean) {
     try {
@@ -44,12 +47,12 @@ export default function LocationsPage() {
       );
     } catch (err) {
       console.error("Error toggling location status:", err);
-      setError("Failed to update location status. Please try again.");
+      setError(t("locations.statusFailed"));
     }
   }
 
   async function handleDeleteLocation(id: string) {
-    if (!window.confirm("Are you sure you want to delete this location?")) {
+    if (!window.confirm(t("locations.confirmDelete"))) {
       return;
     }
     
@@ -62,7 +65,7 @@ export default function LocationsPage() {
       );
     } catch (err) {
       console.error("Error deleting location:", err);
-      setError("Failed to delete location. Please try again.");
+      setError(t("locations.deleteFailed"));
     }
   }
 
@@ -79,9 +82,9 @@ export default function LocationsPage() {
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <div>
-            <h1 className="text-3xl font-bold tracking-tight">Locations</h1>
+            <h1 className="text-3xl font-bold tracking-tight">{t("locations.title")}</h1>
             <p className="text-muted-foreground">
-              Manage your locations
+              {t("locations.subtitle")}
             </p>
           </div>
           
@@ -90,7 +93,7 @@ export default function LocationsPage() {
             className="flex items-center gap-2 bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90"
           >
             <Plus className="h-4 w-4" />
-            <span>Add Location</span>
+            <span>{t("locations.add")}</span>
           </button>
         </div>
         
@@ -107,7 +110,7 @@ export default function LocationsPage() {
           </div>
         ) : locations.length === 0 ? (
           <div className="text-center p-8 border rounded-lg bg-card">
-            <p className="text-muted-foreground">No locations found. Create your first location!</p>
+            <p className="text-muted-foreground">{t("locations.empty")}</p>
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -130,22 +133,22 @@ export default function LocationsPage() {
                     <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
                       location.isActive ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
                     }`}>
-                      {location.isActive ? "Active" : "Inactive"}
+                      {location.isActive ? t("activityStatus.active") : t("activityStatus.inactive")}
                     </span>
                   </div>
                 </div>
                 
                 <div className="p-4">
-                  <h3 className="font-bold text-lg mb-1">{location.name}</h3>
+                  <h3 className="font-bold text-lg mb-1">{localize(location, "name")}</h3>
                   
                   {location.category && (
                     <span className="inline-block bg-primary/10 text-primary px-2 py-1 rounded-md text-xs mb-2">
-                      {location.category.name}
+                      {localize(location.category, "name")}
                     </span>
                   )}
                   
                   <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
-                    {location.description || "No description"}
+                    {localize(location, "description") || t("common.noDescription")}
                   </p>
                   
                   <p className="text-sm mb-4 flex items-start gap-1">
@@ -159,7 +162,7 @@ export default function LocationsPage() {
                         onClick={() => handleToggleStatus(location.id, location.isActive)}
                         className="text-xs text-muted-foreground hover:text-foreground mr-2"
                       >
-                        {location.isActive ? "Deactivate" : "Activate"}
+                        {location.isActive ? t("common.deactivate") : t("common.activate")}
                       </button>
                     </div>
                     
@@ -167,21 +170,21 @@ export default function LocationsPage() {
                       <button
                         onClick={() => openInGoogleMaps(location)}
                         className="p-2 hover:bg-primary/10 rounded-md text-primary"
-                        title="Open in Google Maps"
+                        title={t("locations.openInMaps")}
                       >
                         <MapPin className="h-4 w-4" />
                       </button>
                       <button
                         onClick={() => router.push(`/locations/${location.id}`)}
                         className="p-2 hover:bg-muted rounded-md text-muted-foreground hover:text-foreground"
-                        title="Edit"
+                        title={t("common.edit")}
                       >
                         <Pencil className="h-4 w-4" />
                       </button>
                       <button
                         onClick={() => handleDeleteLocation(location.id)}
                         className="p-2 hover:bg-destructive/10 rounded-md text-muted-foreground hover:text-destructive"
-                        title="Delete"
+                        title={t("common.delete")}
                       >
                         <Trash2 className="h-4 w-4" />
                       </button>
@@ -3,10 +3,13 @@
 import { useState, useEffect } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Image from "next/image";
-import { ArrowLeft, MapPin, Calendar, Edit, Trash2, AlertCircle, ImageIcon } from "lucide-react";
+import { ArrowLeft, MapPin, Calendar, Edit, Trash2, AlertCircle, ImageIcon, Users } from "lucide-react";
 import MainLayout from "@/layouts/MainLayout";
+import CalendarFeedLink from "@/components/CalendarFeedLink";
 import { locationService } from "@/services/locationService";
 import { Location } from "@/types/location";
+import { localize } from "@/utils/localeUtils";
+import { useLocale } from "@/contexts/LocaleContext";
 
 export default function ViewLocationPage() {
   const [location, setLocation] = useState<Location | null>(null);
@@ -15,6 +18,7 @@ export default function ViewLocationPage() {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   
   const router = useRouter();
+  const { t } = useLocale();
   const params = useParams();
   const id = params.id as string;
 
@@ -23,24 +27,24 @@ export default function ViewLocationPage() {
       try {
         const data = await locationService.getLocationById(id);
         if (!data) {
-          setError("Location not found");
+          setError(t("location.notFound"));
           return;
         }
         
         setLocation(data);
       } catch (err) {
         console.error("Error loading location:", err);
-        setError("Failed to load location details");
+        setError(t("location.loadFailed"));
       } finally {
         setLoading(false);
       }
     };
     
     loadLocation();
-  }, [id]);
+  }, [id, t]);
 
   const handleDeleteLocation = async () => {
-    if (!window.confirm("Are you sure you want to delete this location?")) {
+    if (!window.confirm(t("locations.confirmDelete"))) {
       return;
     }
     
@@ -49,7 +53,7 @@ export default function ViewLocationPage() {
       router.push("/locations");
     } catch (err) {
       console.error("Error deleting location:", err);
-      setError("Failed to delete location. Please try again.");
+      setError(t("locations.deleteFailed"));
     }
   };
 
@@ -76,15 +80,15 @@ export default function ViewLocationPage() {
       <MainLayout>
         <div className="flex flex-col items-center justify-center h-64">
           <AlertCircle className="h-12 w-12 text-destructive mb-4" />
-          <h2 className="text-xl font-bold">Location not found</h2>
+          <h2 className="text-xl font-bold">{t("location.notFound")}</h2>
           <p className="text-muted-foreground mt-2">
-            The location you&apos;re looking for doesn&apos;t exist or has been removed.
+            {t("location.notFoundHint")}
           </p>
           <button
             onClick={() => router.push("/locations")}
             className="mt-4 px-4 py-2 bg-primary text-primary-foreground rounded-md"
           >
-            Back to Locations
+            {t("location.backToLocations")}
           </button>
         </div>
       </MainLayout>
@@ -106,7 +110,7 @@ export default function ViewLocationPage() {
               {location?.icon ? (
                 <Image 
                   src={location.icon} 
-                  alt={`${location.name} icon`} 
+                  alt={t("location.iconAlt", { name: location.name })} 
                   width={40}
                   height={40}
                   className="rounded-md object-cover"
@@ -116,34 +120,35 @@ export default function ViewLocationPage() {
                   <ImageIcon className="h-5 w-5 text-primary" />
                 </div>
               )}
-              <h1 className="text-3xl font-bold tracking-tight">{location?.name}</h1>
+              <h1 className="text-3xl font-bold tracking-tight">{location && localize(location, "name")}</h1>
             </div>
           </div>
           
           <div className="flex items-center gap-2">
+            <CalendarFeedLink path={`/api/calendar/locations/${id}`} />
             <button
               onClick={openInGoogleMaps}
               className="flex items-center gap-2 px-3 py-1.5 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
-              title="Open in Google Maps"
+              title={t("locations.openInMaps")}
             >
               <MapPin className="h-4 w-4" />
-              <span className="hidden sm:inline">Open in Maps</span>
+              <span className="hidden sm:inline">{t("location.openInMaps")}</span>
             </button>
             <button
               onClick={() => router.push(`/locations/${id}`)}
               className="flex items-center gap-2 px-3 py-1.5 rounded-md hover:bg-muted"
-              title="Edit"
+              title={t("common.edit")}
             >
               <Edit className="h-4 w-4" />
-              <span className="hidden sm:inline">Edit</span>
+              <span className="hidden sm:inline">{t("common.edit")}</span>
             </button>
             <button
               onClick={handleDeleteLocation}
               className="flex items-center gap-2 px-3 py-1.5 text-destructive rounded-md hover:bg-destructive/10"
-              title="Delete"
+              title={t("common.delete")}
             >
               <Trash2 className="h-4 w-4" />
-              <span className="hidden sm:inline">Delete</span>
+              <span className="hidden sm:inline">{t("common.delete")}</span>
             </button>
           </div>
         </div>
@@ -162,7 +167,7 @@ export default function ViewLocationPage() {
                 <div className="relative h-80 rounded-lg overflow-hidden border">
                   <Image 
                     src={location.images[currentImageIndex]} 
-                    alt={`${location.name} - Image ${currentImageIndex + 1}`}
+                    alt={t("location.imageAlt", { name: location.name, number: currentImageIndex + 1 })}
                     layout="fill"
                     objectFit="cover"
                   />
@@ -180,7 +185,7 @@ export default function ViewLocationPage() {
                       >
                         <Image
                           src={image}
-                          alt={`Thumbnail ${index + 1}`}
+                          alt={t("location.thumbnailAlt", { number: index + 1 })}
                           width={64}
                           height={64}
                           className="object-cover"
@@ -194,16 +199,16 @@ export default function ViewLocationPage() {
               <div className="h-80 rounded-lg border flex items-center justify-center bg-muted">
                 <div className="text-center text-muted-foreground">
                   <MapPin className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                  <p>No images available</p>
+                  <p>{t("location.noImages")}</p>
                 </div>
               </div>
             )}
             
             {/* Description */}
             <div className="space-y-4">
-              <h2 className="text-xl font-bold">About this location</h2>
+              <h2 className="text-xl font-bold">{t("location.about")}</h2>
               <p className="text-muted-foreground whitespace-pre-line">
-                {location?.description || "No description available."}
+                {(location && localize(location, "description")) || t("location.noDescription")}
               </p>
             </div>
           </div>
@@ -214,33 +219,47 @@ export default function ViewLocationPage() {
               <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                 location?.isActive ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
               }`}>
-                {location?.isActive ? "Active" : "Inactive"}
+                {location?.isActive ? t("activityStatus.active") : t("activityStatus.inactive")}
               </span>
               
               {location?.category && (
                 <span className="inline-block bg-primary/10 text-primary px-2.5 py-0.5 rounded-full text-xs">
-                  {location.category.name}
+                  {localize(location.category, "name")}
                 </span>
               )}
             </div>
             
             {/* Location details */}
             <div className="space-y-4 border rounded-lg p-4">
-              <h3 className="font-medium">Location Details</h3>
+              <h3 className="font-medium">{t("location.details")}</h3>
               
               <div className="space-y-3">
                 <div className="flex items-start gap-2">
                   <MapPin className="h-5 w-5 text-muted-foreground mt-0.5 flex-shrink-0" />
                   <div>
-                    <p className="font-medium">Address</p>
+                    <p className="font-medium">{t("locationForm.address")}</p>
                     <p className="text-sm text-muted-foreground">{location?.address}</p>
                   </div>
                 </div>
                 
+                <div className="flex items-start gap-2">
+                  <Users className="h-5 w-5 text-muted-foreground mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p className="font-medium">{t("locationForm.capacity")}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {location?.exclusive
+                        ? t("locationForm.exclusive")
+                        : location?.capacity
+                          ? t("location.capacityAtOnce", { capacity: location.capacity })
+                          : t("location.noLimit")}
+                    </p>
+                  </div>
+                </div>
+                
                 <div className="flex items-start gap-2">
                   <Calendar className="h-5 w-5 text-muted-foreground mt-0.5 flex-shrink-0" />
                   <div>
-                    <p className="font-medium">Added on</p>
+                    <p className="font-medium">{t("location.addedOn")}</p>
                     <p className="text-sm text-muted-foreground">
                       {location?.createdAt instanceof Date 
                         ? location.createdAt.toLocaleDateString() 
@@ -254,21 +273,21 @@ export default function ViewLocationPage() {
                   className="w-full bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90 flex items-center justify-center gap-2 mt-2"
                 >
                   <MapPin className="h-4 w-4" />
-                  <span>Open in Google Maps</span>
+                  <span>{t("locations.openInMaps")}</span>
                 </button>
               </div>
             </div>
             
             {/* Coordinates */}
             <div className="border rounded-lg p-4">
-              <h3 className="font-medium mb-2">Coordinates</h3>
+              <h3 className="font-medium mb-2">{t("location.coordinates")}</h3>
               <div className="grid grid-cols-2 gap-2">
                 <div>
-                  <p className="text-xs text-muted-foreground">Latitude</p>
+                  <p className="text-xs text-muted-foreground">{t("locationForm.latitude")}</p>
                   <p className="font-mono text-sm">{location?.coordinates.lat}</p>
                 </div>
                 <div>
-                  <p className="text-xs text-muted-foreground">Longitude</p>
+                  <p className="text-xs text-muted-foreground">{t("locationForm.longitude")}</p>
                   <p className="font-mono text-sm">{location?.coordinates.lng}</p>
                 </div>
               </div>
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { AlertCircle, Calendar, Clock, Users, CheckCircle, AlertTriangle, RefreshCw } from "lucide-react";
+import MainLayout from "@/layouts/MainLayout";
+import CalendarFeedLink from "@/components/CalendarFeedLink";
+import { useAuth } from "@/contexts/AuthContext";
+import { activityService } from "@/services/activityService";
+import { bookingService } from "@/services/bookingService";
+import { userService } from "@/services/userService";
+import { Activity } from "@/types/activity";
+import { Booking, BookingStatus } from "@/types/booking";
+import { formatDate } from "@/utils/dateUtils";
+import { isActivityOver } from "@/utils/activityUtils";
+import { attendingStatuses, countSeats, getSeatCount } from "@/utils/bookingUtils";
+import { getStaffRole } from "@/utils/staffUtils";
+import { localize } from "@/utils/localeUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+// Guests a guide should expect; pending bookings may still be confirmed
+const expectedStatuses: BookingStatus[] = [...attendingStatuses, "pending"];
+
+export default function MyActivitiesPage() {
+  const { currentUser } = useAuth();
+  const { t } = useLocale();
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [bookings, setBookings] = useState<Record<string, Booking[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [feedKey, setFeedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    
+    userService.getCalendarFeedKey(currentUser.uid)
+      .then(setFeedKey)
+      .catch(err => console.error("Error loading calendar feed key:", err));
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    
+    const loadActivities = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        
+        const now = new Date();
+        const upcoming = (await activityService.getActivitiesForStaff(currentUser.uid))
+          .filter(activity => activity.status !== "archived" && !isActivityOver(activity, now));
+        setActivities(upcoming);
+        
+        const participantLists = await Promise.all(
+          upcoming.map(activity => bookingService.getBookingsByActivity(activity.id))
+        );
+        setBookings(Object.fromEntries(upcoming.map((activity, index) => [
+          activity.id,
+          participantLists[index].filter(booking => expectedStatuses.includes(booking.status))
+        ])));
+      } catch (err) {
+        console.error("Error loading assigned activities:", err);
+        setError(t("myActivities.loadFailed"));
+      } finally {
+        setLoading(false);
+      }
+    };
+    
+    loadActivities();
+  }, [currentUser, t]);
+
+  // A new key stops anyone holding the old link from reading the feed
+  const handleResetFeedKey = async () => {
+    if (!currentUser) return;
+    if (!window.confirm(t("myActivities.resetPrompt"))) return;
+    
+    try {
+      setFeedKey(await userService.resetCalendarFeedKey(currentUser.uid));
+    } catch (err) {
+      console.error("Error resetting calendar feed key:", err);
+      setError(t("myActivities.resetFailed"));
+    }
+  };
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{t("myActivities.title")}</h1>
+            <p className="text-muted-foreground">
+              {t("myActivities.subtitle")}
+            </p>
+          </div>
+          {currentUser && feedKey && (
+            <div className="flex gap-2">
+              <CalendarFeedLink path={`/api/calendar/guides/${currentUser.uid}?key=${feedKey}`} label={t("myActivities.subscribe")} />
+              <button
+                onClick={handleResetFeedKey}
+                className="flex items-center gap-2 px-4 py-2 border rounded-md hover:bg-muted"
+                title={t("myActivities.resetLinkTitle")}
+              >
+                <RefreshCw className="h-4 w-4" />
+                <span>{t("myActivities.resetLink")}</span>
+              </button>
+            </div>
+          )}
+        </div>
+        
+        {error && (
+          <div className="bg-destructive/10 text-destructive p-4 rounded-md flex items-center gap-2">
+            <AlertCircle className="h-5 w-5" />
+            <p>{error}</p>
+          </div>
+        )}
+        
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : activities.length === 0 ? (
+          <div className="text-center p-8 border rounded-lg bg-card">
+            <p className="text-muted-foreground">{t("myActivities.empty")}</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {activities.map(activity => {
+              const role = currentUser ? getStaffRole(activity.staff, currentUser.uid) : null;
+              const participants = bookings[activity.id] || [];
+              return (
+                <div key={activity.id} className="border rounded-lg p-4 bg-card space-y-4">
+                  <div className="flex flex-col sm:flex-row justify-between items-start gap-2">
+                    <div>
+                      <h2 className="text-lg font-semibold">{localize(activity, "title")}</h2>
+                      <div className="flex flex-wrap gap-4 text-sm text-muted-foreground mt-1">
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-4 w-4" />
+                          {formatDate(activity.startDate)}
+                          {activity.endDate.getTime() !== activity.startDate.getTime() && ` - ${formatDate(activity.endDate)}`}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-4 w-4" />
+                          {activity.startTime} - {activity.endTime}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Users className="h-4 w-4" />
+                          {activity.participantLimit > 0
+                            ? t("myActivities.confirmedOf", { count: countSeats(participants, attendingStatuses), limit: activity.participantLimit })
+                            : t("myActivities.confirmed", { count: countSeats(participants, attendingStatuses) })}
+                        </span>
+                      </div>
+                    </div>
+                    {role && (
+                      <span className="px-2 py-1 text-xs rounded-full bg-primary/10 text-primary">
+                        {t(`staffRole.${role}`)}
+                      </span>
+                    )}
+                  </div>
+                  
+                  {participants.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{t("myActivities.noParticipants")}</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead className="text-muted-foreground">
+                        <tr>
+                          <th className="text-left font-medium pb-2">{t("myActivities.participant")}</th>
+                          <th className="text-left font-medium pb-2">{t("myActivities.party")}</th>
+                          <th className="text-left font-medium pb-2">{t("common.status")}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {participants.map(booking => (
+                          <tr key={booking.id} className="border-t">
+                            <td className="py-2">
+                              <span className="font-medium">
+                                {booking.userObject?.displayName || booking.userObject?.email || t("ticket.guest")}
+                              </span>
+                              {booking.attendees && booking.attendees.length > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                  {booking.attendees.map(attendee => attendee.name).join(", ")}
+                                </p>
+                              )}
+                              {booking.eligibilityFlag && (
+                                <p className="flex items-center gap-1 text-xs text-yellow-800">
+                                  <AlertTriangle className="h-3 w-3" />
+                                  {booking.eligibilityFlag}
+                                </p>
+                              )}
+                            </td>
+                            <td className="py-2">{getSeatCount(booking)}</td>
+                            <td className="py-2">
+                              {booking.checkedIn ? (
+                                <span className="flex items-center gap-1 text-green-700">
+                                  <CheckCircle className="h-4 w-4" />
+                                  {t("bookings.checkedIn")}
+                                </span>
+                              ) : (
+                                <span>{t(`bookingStatus.${booking.status}`)}</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
\ No newline at end of file
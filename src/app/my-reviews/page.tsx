@@ -0,0 +1,132 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { AlertCircle, Calendar, Star } from "lucide-react";
+import MainLayout from "@/layouts/MainLayout";
+import ReviewModal from "@/components/reviews/ReviewModal";
+import StarRating from "@/components/reviews/StarRating";
+import { useAuth } from "@/contexts/AuthContext";
+import { bookingService } from "@/services/bookingService";
+import { reviewService } from "@/services/reviewService";
+import { Booking } from "@/types/booking";
+import { Review } from "@/types/review";
+import { formatDate } from "@/utils/dateUtils";
+import { getActivityWindow } from "@/utils/activityUtils";
+import { checkReviewEligibility, getReviewId } from "@/utils/reviewUtils";
+import { localize } from "@/utils/localeUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+export default function MyReviewsPage() {
+  const { currentUser } = useAuth();
+  const { t } = useLocale();
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [reviewBooking, setReviewBooking] = useState<Booking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReviews = useCallback(async () => {
+    if (!currentUser) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [bookingsData, reviewsData] = await Promise.all([
+        bookingService.getBookingsByUser(currentUser.uid),
+        reviewService.getReviewsByUser(currentUser.uid)
+      ]);
+
+      // Attended bookings of activities that are over, most recent first
+      setBookings(bookingsData
+        .filter(booking => booking.activityObject && !checkReviewEligibility(booking, booking.activityObject))
+        .sort((a, b) =>
+          getActivityWindow(b.activityObject!).end.getTime() - getActivityWindow(a.activityObject!).end.getTime()
+        ));
+      setReviews(reviewsData);
+    } catch (err) {
+      console.error("Error loading trips to review:", err);
+      setError(t("myReviews.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser, t]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t("myReviews.title")}</h1>
+          <p className="text-muted-foreground">
+            {t("myReviews.subtitle")}
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 text-destructive p-4 rounded-md flex items-center gap-2">
+            <AlertCircle className="h-5 w-5" />
+            <p>{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : bookings.length === 0 ? (
+          <div className="text-center p-8 border rounded-lg bg-card">
+            <p className="text-muted-foreground">
+              {t("myReviews.empty")}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {bookings.map(booking => {
+              const activity = booking.activityObject!;
+              const review = reviews.find(item => item.id === getReviewId(booking.id, "activity", booking.activityId));
+              return (
+                <div key={booking.id} className="border rounded-lg p-4 bg-card flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+                  <div>
+                    <h2 className="font-semibold">{localize(activity, "title")}</h2>
+                    <p className="flex items-center gap-1 text-sm text-muted-foreground mt-1">
+                      <Calendar className="h-4 w-4" />
+                      {formatDate(activity.startDate)}
+                    </p>
+                    {review && (
+                      <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                        <StarRating value={review.rating} size="sm" />
+                        <span>{t(`reviewStatus.${review.status}`)}</span>
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => setReviewBooking(booking)}
+                    className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+                  >
+                    <Star className="h-4 w-4" />
+                    <span>{review ? t("myReviews.editReview") : t("myReviews.review")}</span>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {reviewBooking && (
+        <ReviewModal
+          booking={reviewBooking}
+          onClose={() => setReviewBooking(null)}
+          onSubmitted={() => {
+            setReviewBooking(null);
+            loadReviews();
+          }}
+        />
+      )}
+    </MainLayout>
+  );
+}
\ No newline at end of file
@@ -3,10 +3,12 @@
 import { useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/contexts/LocaleContext";
 
 export default function Home() {
   const router = useRouter();
   const { currentUser, loading } = useAuth();
+  const { t } = useLocale();
 
   useEffect(() => {
     if (loading) return;
@@ -24,7 +26,7 @@ export default function Home() {
     <div className="min-h-screen flex items-center justify-center">
       <div className="text-center">
         <h1 className="text-2xl font-bold mb-4">Meshwar Admin</h1>
-        <p className="text-muted-foreground">Loading...</p>
+        <p className="text-muted-foreground">{t("common.loading")}</p>
       </div>
     </div>
   );
@@ -5,11 +5,14 @@ import { useRouter } from "next/navigation";
 import Image from "next/image";
 import MainLayout from "@/layouts/MainLayout";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/contexts/LocaleContext";
+import { translate } from "@/locales/messages";
 import { userService } from "@/services/userService";
 import { User as UserIcon, Save, Loader2 } from "lucide-react";
 
 export default function ProfilePage() {
   const { currentUser } = useAuth();
+  const { t } = useLocale();
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -44,7 +47,8 @@ export default function ProfilePage() {
         }
       } catch (err) {
         console.error("Error loading user data:", err);
-        setError("Failed to load user data. Please try again.");
+        // Read the message directly so switching the language does not reload the form
+        setError(translate("profile.loadFailed"));
       } finally {
         setLoading(false);
       }
@@ -59,7 +63,7 @@ export default function ProfilePage() {
 
     // Check file size (limit to 1MB)
     if (file.size > 1024 * 1024) {
-      setError("Image size should be less than 1MB");
+      setError(t("profile.imageTooLarge"));
       return;
     }
 
@@ -89,10 +93,10 @@ export default function ProfilePage() {
         profileImage: imageToUpdate
       });
 
-      setSuccess("Profile updated successfully!");
+      setSuccess(t("profile.updated"));
     } catch (err: any) {
       console.error("Error updating profile:", err);
-      setError(err.message || "Failed to update profile.");
+      setError(err.message || t("profile.updateFailed"));
     } finally {
       setLoading(false);
     }
@@ -104,7 +108,7 @@ export default function ProfilePage() {
         <div className="flex items-center justify-center h-[calc(100vh-200px)]">
           <div className="text-center">
             <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
-            <p className="mt-4 text-lg">Loading profile...</p>
+            <p className="mt-4 text-lg">{t("profile.loading")}</p>
           </div>
         </div>
       </MainLayout>
@@ -115,7 +119,7 @@ export default function ProfilePage() {
     <MainLayout>
       <div className="max-w-3xl mx-auto">
         <div className="flex items-center justify-between mb-6">
-          <h1 className="text-3xl font-bold">Profile Settings</h1>
+          <h1 className="text-3xl font-bold">{t("profile.title")}</h1>
         </div>
 
         {error && (
@@ -138,7 +142,7 @@ export default function ProfilePage() {
                 {previewImage ? (
                   <Image
                     src={previewImage}
-                    alt="Profile"
+                    alt={t("profile.pictureAlt")}
                     width={96}
                     height={96}
                     className="rounded-full object-cover border"
@@ -151,7 +155,7 @@ export default function ProfilePage() {
               </div>
               <div className="flex-1">
                 <label className="block text-sm font-medium mb-2">
-                  Profile Picture
+                  {t("profile.picture")}
                 </label>
                 <div className="flex items-center space-x-2">
                   <input
@@ -162,7 +166,7 @@ export default function ProfilePage() {
                   />
                 </div>
                 <p className="text-xs text-muted-foreground mt-2">
-                  Recommended: Square image, max 1MB
+                  {t("profile.pictureHint")}
                 </p>
               </div>
             </div>
@@ -170,7 +174,7 @@ export default function ProfilePage() {
             {/* Display Name */}
             <div>
               <label htmlFor="displayName" className="block text-sm font-medium mb-2">
-                Display Name
+                {t("profile.displayName")}
               </label>
               <input
                 type="text"
@@ -185,7 +189,7 @@ export default function ProfilePage() {
             {/* Email (read-only) */}
             <div>
               <label htmlFor="email" className="block text-sm font-medium mb-2">
-                Email Address
+                {t("profile.emailAddress")}
               </label>
               <input
                 type="email"
@@ -195,7 +199,7 @@ export default function ProfilePage() {
                 disabled
               />
               <p className="text-xs text-muted-foreground mt-2">
-                Email cannot be changed
+                {t("profile.emailLocked")}
               </p>
             </div>
 
@@ -209,12 +213,12 @@ export default function ProfilePage() {
                 {saving ? (
                   <>
                     <Loader2 className="h-4 w-4 animate-spin" />
-                    Saving...
+                    {t("common.saving")}
                   </>
                 ) : (
                   <>
                     <Save className="h-4 w-4" />
-                    Save Changes
+                    {t("common.saveChanges")}
                   </>
                 )}
               </button>
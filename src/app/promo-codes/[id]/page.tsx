@@ -0,0 +1,79 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { ArrowLeft, AlertCircle } from "lucide-react";
+import MainLayout from "@/layouts/MainLayout";
+import PromoCodeForm from "@/components/promoCodes/PromoCodeForm";
+import { promoCodeService } from "@/services/promoCodeService";
+import { PromoCode } from "@/types/promoCode";
+import { translate } from "@/locales/messages";
+import { useLocale } from "@/contexts/LocaleContext";
+
+export default function EditPromoCodePage() {
+  const [promoCode, setPromoCode] = useState<PromoCode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pageLoading, setPageLoading] = useState(true);
+  
+  const router = useRouter();
+  const { t } = useLocale();
+  const params = useParams();
+  const id = params.id as string;
+
+  useEffect(() => {
+    const loadPromoCode = async () => {
+      try {
+        const data = await promoCodeService.getPromoCodeById(id);
+        if (!data) {
+          // Read the message directly so switching the language does not reload the form
+          setError(translate("promoCodes.notFound"));
+          return;
+        }
+        setPromoCode(data);
+      } catch (err) {
+        console.error("Error loading promo code:", err);
+        setError(translate("promoCodes.detailsFailed"));
+      } finally {
+        setPageLoading(false);
+      }
+    };
+    
+    loadPromoCode();
+  }, [id]);
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-muted rounded-md"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <h1 className="text-3xl font-bold tracking-tight">{t("promoCodes.editTitle")}</h1>
+        </div>
+        
+        {error && (
+          <div className="bg-destructive/10 text-destructive p-4 rounded-md flex items-center gap-2">
+            <AlertCircle className="h-5 w-5" />
+            <p>{error}</p>
+          </div>
+        )}
+        
+        {pageLoading ? (
+          <div className="flex justify-center p-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : promoCode && (
+          <PromoCodeForm
+            promoCode={promoCode}
+            onSubmit={async (input) => {
+              await promoCodeService.updatePromoCode(id, input);
+            }}
+          />
+        )}
+      </div>
+    </MainLayout>
+  );
+}
\ No newline at end of file
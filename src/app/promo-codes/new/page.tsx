@@ -0,0 +1,35 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import MainLayout from "@/layouts/MainLayout";
+import PromoCodeForm from "@/components/promoCodes/PromoCodeForm";
+import { promoCodeService } from "@/services/promoCodeService";
+import { useLocale } from "@/contexts/LocaleContext";
+
+export default function NewPromoCodePage() {
+  const router = useRouter();
+  const { t } = useLocale();
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-muted rounded-md"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <h1 className="text-3xl font-bold tracking-tight">{t("promoCodes.newTitle")}</h1>
+        </div>
+        
+        <PromoCodeForm
+          onSubmit={async (input) => {
+            await promoCodeService.createPromoCode(input);
+          }}
+        />
+      </div>
+    </MainLayout>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Plus, Pencil, Trash2, AlertCircle } from "lucide-react";
+import MainLayout from "@/layouts/MainLayout";
+import { PromoCode } from "@/types/promoCode";
+import { promoCodeService } from "@/services/promoCodeService";
+import { formatDate } from "@/utils/dateUtils";
+import { describeDiscount } from "@/utils/pricingUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+export default function PromoCodesPage() {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { t } = useLocale();
+
+  const loadPromoCodes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await promoCodeService.getPromoCodes();
+      setPromoCodes(data);
+    } catch (err) {
+      console.error("Error loading promo codes:", err);
+      setError(t("promoCodes.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadPromoCodes();
+  }, [loadPromoCodes]);
+
+  function describeValidity(promo: PromoCode): string {
+    if (promo.validFrom && promo.validUntil) return `${formatDate(promo.validFrom)} - ${formatDate(promo.validUntil)}`;
+    if (promo.validFrom) return t("promoCodes.validFrom", { date: formatDate(promo.validFrom) });
+    if (promo.validUntil) return t("promoCodes.validUntil", { date: formatDate(promo.validUntil) });
+    return t("promoCodes.always");
+  }
+
+  async function handleToggleStatus(id: string, currentStatus: boolean) {
+    try {
+      await promoCodeService.togglePromoCodeStatus(id, !currentStatus);
+      setPromoCodes(prev =>
+        prev.map(promo => promo.id === id ? { ...promo, isActive: !currentStatus } : promo)
+      );
+    } catch (err) {
+      console.error("Error toggling promo code status:", err);
+      setError(t("promoCodes.statusFailed"));
+    }
+  }
+
+  async function handleDeletePromoCode(id: string) {
+    if (!window.confirm(t("promoCodes.confirmDelete"))) {
+      return;
+    }
+    
+    try {
+      await promoCodeService.deletePromoCode(id);
+      setPromoCodes(prev => prev.filter(promo => promo.id !== id));
+    } catch (err) {
+      console.error("Error deleting promo code:", err);
+      setError(t("promoCodes.deleteFailed"));
+    }
+  }
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{t("promoCodes.title")}</h1>
+            <p className="text-muted-foreground">
+              {t("promoCodes.subtitle")}
+            </p>
+          </div>
+          
+          <button
+            onClick={() => router.push("/promo-codes/new")}
+            className="flex items-center gap-2 bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90"
+          >
+            <Plus className="h-4 w-4" />
+            <span>{t("promoCodes.add")}</span>
+          </button>
+        </div>
+        
+        {error && (
+          <div className="bg-destructive/10 text-destructive p-4 rounded-md flex items-center gap-2">
+            <AlertCircle className="h-5 w-5" />
+            <p>{error}</p>
+          </div>
+        )}
+        
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : promoCodes.length === 0 ? (
+          <div className="text-center p-8 border rounded-lg bg-card">
+            <p className="text-muted-foreground">{t("promoCodes.empty")}</p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-medium">{t("promoCodes.code")}</th>
+                  <th className="text-left p-4 font-medium">{t("promoCodes.discount")}</th>
+                  <th className="text-left p-4 font-medium hidden md:table-cell">{t("promoCodes.valid")}</th>
+                  <th className="text-left p-4 font-medium hidden md:table-cell">{t("promoCodes.used")}</th>
+                  <th className="text-left p-4 font-medium">{t("common.status")}</th>
+                  <th className="text-right p-4 font-medium">{t("common.actions")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {promoCodes.map((promo) => (
+                  <tr key={promo.id} className="border-t">
+                    <td className="p-4">
+                      <span className="font-mono font-medium">{promo.code}</span>
+                      {promo.description && (
+                        <p className="text-sm text-muted-foreground">{promo.description}</p>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      {describeDiscount(promo)}
+                      {promo.activityIds.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          {promo.activityIds.length === 1
+                            ? t("promoCodes.oneActivity")
+                            : t("promoCodes.activities", { count: promo.activityIds.length })}
+                        </p>
+                      )}
+                    </td>
+                    <td className="p-4 text-muted-foreground hidden md:table-cell">
+                      {describeValidity(promo)}
+                    </td>
+                    <td className="p-4 text-muted-foreground hidden md:table-cell">
+                      {promo.usageCount}{promo.usageLimit !== null && ` / ${promo.usageLimit}`}
+                    </td>
+                    <td className="p-4">
+                      <div className="flex items-center">
+                        <span
+                          className={`inline-block h-2 w-2 rounded-full mr-2 ${
+                            promo.isActive ? "bg-green-500" : "bg-red-500"
+                          }`}
+                        ></span>
+                        <span>{promo.isActive ? t("activityStatus.active") : t("activityStatus.inactive")}</span>
+                      </div>
+                    </td>
+                    <td className="p-4 text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => handleToggleStatus(promo.id, promo.isActive)}
+                          className="p-2 hover:bg-muted rounded-md text-muted-foreground hover:text-foreground"
+                          title={promo.isActive ? t("common.deactivate") : t("common.activate")}
+                        >
+                          {promo.isActive ? t("common.deactivate") : t("common.activate")}
+                        </button>
+                        <button
+                          onClick={() => router.push(`/promo-codes/${promo.id}`)}
+                          className="p-2 hover:bg-muted rounded-md text-muted-foreground hover:text-foreground"
+                          title={t("common.edit")}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDeletePromoCode(promo.id)}
+                          className="p-2 hover:bg-destructive/10 rounded-md text-muted-foreground hover:text-destructive"
+                          title={t("common.delete")}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
\ No newline at end of file
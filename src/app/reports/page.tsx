@@ -12,10 +12,12 @@ import ReportTypeCard from "@/components/reports/ReportTypeCard";
 import UserReportSection from "@/components/reports/UserReportSection";
 import ActivityReportSection from "@/components/reports/ActivityReportSection";
 import AdminReportSection from "@/components/reports/AdminReportSection";
+import { useLocale } from "@/contexts/LocaleContext";
 
 type ReportType = "user" | "activity" | "admin";
 
 export default function ReportsPage() {
+  const { t } = useLocale();
   const [selectedReportType, setSelectedReportType] = useState<ReportType | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -34,9 +36,9 @@ export default function ReportsPage() {
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <div>
-            <h1 className="text-3xl font-bold tracking-tight">Reports</h1>
+            <h1 className="text-3xl font-bold tracking-tight">{t("reports.title")}</h1>
             <p className="text-muted-foreground">
-              Generate detailed reports and analytics
+              {t("reports.subtitle")}
             </p>
           </div>
           
@@ -45,7 +47,7 @@ export default function ReportsPage() {
               onClick={handleBack}
               className="flex items-center gap-2 px-4 py-2 border rounded-md hover:bg-muted"
             >
-              Back to Report Types
+              {t("reports.backToTypes")}
             </button>
           )}
         </div>
@@ -60,22 +62,22 @@ export default function ReportsPage() {
         {!selectedReportType ? (
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <ReportTypeCard
-              title="User Reports"
-              description="Generate detailed reports for individual users, including their activities and bookings."
+              title={t("reports.user.title")}
+              description={t("reports.user.description")}
               icon={Users}
               onClick={() => handleSelectReportType("user")}
             />
             
             <ReportTypeCard
-              title="Activity Reports"
-              description="Generate reports for activities, including participant information and statistics."
+              title={t("reports.activity.title")}
+              description={t("reports.activity.description")}
               icon={Calendar}
               onClick={() => handleSelectReportType("activity")}
             />
             
             <ReportTypeCard
-              title="Admin Analytics Report"
-              description="Comprehensive data analysis of the entire platform, including users, activities, locations, and bookings."
+              title={t("reports.admin.title")}
+              description={t("reports.admin.description")}
               icon={BarChart3}
               onClick={() => handleSelectReportType("admin")}
             />
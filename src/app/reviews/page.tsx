@@ -0,0 +1,194 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { AlertCircle, CheckCircle, EyeOff, Layers, MapPin } from "lucide-react";
+import MainLayout from "@/layouts/MainLayout";
+import StarRating from "@/components/reviews/StarRating";
+import { Review, ReviewStatus } from "@/types/review";
+import { Activity } from "@/types/activity";
+import { Location } from "@/types/location";
+import { User } from "@/types/user";
+import { reviewService } from "@/services/reviewService";
+import { activityService } from "@/services/activityService";
+import { locationService } from "@/services/locationService";
+import { userService } from "@/services/userService";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatDate } from "@/utils/dateUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+// Undefined shows every review
+const statusOptions: Array<ReviewStatus | undefined> = ["pending", "approved", "hidden", undefined];
+
+const statusStyles: Record<ReviewStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  hidden: "bg-gray-100 text-gray-800"
+};
+
+export default function ReviewsPage() {
+  const { currentUser } = useAuth();
+  const { t } = useLocale();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | undefined>("pending");
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [reviewsData, activitiesData, locationsData, usersData] = await Promise.all([
+          reviewService.getReviews(),
+          activityService.getActivities(),
+          locationService.getLocations(),
+          userService.getUsers()
+        ]);
+        setReviews(reviewsData);
+        setActivities(activitiesData);
+        setLocations(locationsData);
+        setUsers(usersData);
+      } catch (err) {
+        console.error("Error loading reviews:", err);
+        setError(t("reviews.loadFailed"));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [t]);
+
+  async function handleModerate(review: Review, status: "approved" | "hidden") {
+    try {
+      setWorking(review.id);
+      setError(null);
+      await reviewService.moderateReview(review.id, status, currentUser?.uid || "");
+      setReviews(prev => prev.map(item => (
+        item.id === review.id ? { ...item, status, moderatedBy: currentUser?.uid || null, moderatedAt: new Date() } : item
+      )));
+    } catch (err) {
+      console.error("Error moderating review:", err);
+      setError(t("reviews.moderateFailed"));
+    } finally {
+      setWorking(null);
+    }
+  }
+
+  function getTargetName(review: Review): string {
+    if (review.targetType === "activity") {
+      return activities.find(activity => activity.id === review.targetId)?.title || t("reviews.deletedActivity");
+    }
+    return locations.find(location => location.id === review.targetId)?.name || t("reviews.deletedLocation");
+  }
+
+  const filteredReviews = statusFilter ? reviews.filter(review => review.status === statusFilter) : reviews;
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t("reviews.title")}</h1>
+          <p className="text-muted-foreground">
+            {t("reviews.subtitle")}
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-destructive/10 text-destructive p-4 rounded-md flex items-center gap-2">
+            <AlertCircle className="h-5 w-5" />
+            <p>{error}</p>
+          </div>
+        )}
+
+        <div className="flex border rounded-md overflow-hidden w-fit">
+          {statusOptions.map(option => (
+            <button
+              key={option || "all"}
+              onClick={() => setStatusFilter(option)}
+              className={`px-3 py-1.5 text-sm ${
+                statusFilter === option ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+              }`}
+            >
+              {option ? t(`reviewStatus.${option}`) : t("common.all")}
+              {option && ` (${reviews.filter(review => review.status === option).length})`}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : filteredReviews.length === 0 ? (
+          <div className="text-center p-8 border rounded-lg bg-card">
+            <p className="text-muted-foreground">{t("reviews.empty")}</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {filteredReviews.map(review => {
+              const user = users.find(item => item.id === review.userId);
+              return (
+                <div key={review.id} className="border rounded-md p-4 bg-card">
+                  <div className="flex flex-col sm:flex-row justify-between items-start gap-2">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        {review.targetType === "activity" ? (
+                          <Layers className="h-4 w-4 text-muted-foreground" />
+                        ) : (
+                          <MapPin className="h-4 w-4 text-muted-foreground" />
+                        )}
+                        <span className="font-medium">{getTargetName(review)}</span>
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {user?.displayName || user?.email || t("bookings.unknownUser")} · {formatDate(review.createdAt)}
+                        {review.targetType === "location" && t("reviews.during", {
+                          activity: activities.find(activity => activity.id === review.activityId)?.title || t("reviews.duringDeleted")
+                        })}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <StarRating value={review.rating} size="sm" />
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${statusStyles[review.status]}`}>
+                        {t(`reviewStatus.${review.status}`)}
+                      </span>
+                    </div>
+                  </div>
+
+                  {review.comment && <p className="text-sm mt-3 whitespace-pre-line">{review.comment}</p>}
+
+                  <div className="flex justify-end gap-2 mt-4">
+                    {review.status !== "approved" && (
+                      <button
+                        onClick={() => handleModerate(review, "approved")}
+                        disabled={working === review.id}
+                        className="flex items-center gap-1 px-2 py-1 text-xs bg-green-100 text-green-800 rounded-md disabled:opacity-50"
+                      >
+                        <CheckCircle className="h-3 w-3" />
+                        <span>{t("reviews.approve")}</span>
+                      </button>
+                    )}
+                    {review.status !== "hidden" && (
+                      <button
+                        onClick={() => handleModerate(review, "hidden")}
+                        disabled={working === review.id}
+                        className="flex items-center gap-1 px-2 py-1 text-xs bg-muted rounded-md disabled:opacity-50"
+                      >
+                        <EyeOff className="h-3 w-3" />
+                        <span>{t("reviews.hide")}</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,288 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Pencil, Trash2, AlertCircle, Merge, Wand2, Loader2 } from "lucide-react";
+import MainLayout from "@/layouts/MainLayout";
+import { Tag } from "@/types/tag";
+import { tagService } from "@/services/tagService";
+import { splitTagInput } from "@/utils/tagUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+export default function TagsPage() {
+  const { t } = useLocale();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [newTagName, setNewTagName] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [working, setWorking] = useState(false);
+
+  const loadTags = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await tagService.getTags();
+      setTags(data);
+    } catch (err) {
+      console.error("Error loading tags:", err);
+      setError(t("tags.loadFailed"));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  // Run a change that rewrites tags, then reload the list
+  async function runChange(change: () => Promise<string | null>, failure: string) {
+    try {
+      setWorking(true);
+      setError(null);
+      setMessage(await change());
+      setSelectedIds([]);
+      setMergeTarget("");
+      await loadTags();
+    } catch (err) {
+      console.error(failure, err);
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  function handleCreateTag(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newTagName.trim()) return;
+    
+    runChange(async () => {
+      await tagService.createTag(newTagName);
+      setNewTagName("");
+      return null;
+    }, t("tags.createFailed"));
+  }
+
+  function handleRename(tag: Tag) {
+    const name = window.prompt(t("tags.renamePrompt"), tag.name);
+    if (!name || !name.trim() || name.trim() === tag.name) return;
+    
+    runChange(async () => {
+      await tagService.mergeTags([tag.id], name);
+      return t("tags.renamed", { from: tag.name, to: name.trim() });
+    }, t("tags.renameFailed"));
+  }
+
+  function handleEditSynonyms(tag: Tag) {
+    const input = window.prompt(t("tags.synonymsPrompt"), tag.synonyms.join(", "));
+    if (input === null) return;
+    
+    runChange(async () => {
+      await tagService.updateSynonyms(tag.id, splitTagInput(input));
+      return null;
+    }, t("tags.synonymsFailed"));
+  }
+
+  function handleMerge() {
+    if (selectedIds.length === 0 || !mergeTarget.trim()) return;
+    if (!window.confirm(t("tags.confirmMerge", { count: selectedIds.length, name: mergeTarget.trim() }))) {
+      return;
+    }
+    
+    runChange(async () => {
+      await tagService.mergeTags(selectedIds, mergeTarget);
+      return t("tags.merged", { count: selectedIds.length, name: mergeTarget.trim() });
+    }, t("tags.mergeFailed"));
+  }
+
+  function handleDelete(tag: Tag) {
+    if (!window.confirm(t("tags.confirmDelete", { name: tag.name }))) {
+      return;
+    }
+    
+    runChange(async () => {
+      await tagService.deleteTag(tag.id);
+      return null;
+    }, t("tags.deleteFailed"));
+  }
+
+  function handleMigrate() {
+    if (!window.confirm(t("tags.confirmMigrate"))) {
+      return;
+    }
+    
+    runChange(async () => {
+      const result = await tagService.migrateLegacyTags();
+      return t("tags.migrated", { activities: result.activitiesUpdated, tags: result.tagsCreated });
+    }, t("tags.migrateFailed"));
+  }
+
+  function toggleSelected(id: string) {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  }
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{t("tags.title")}</h1>
+            <p className="text-muted-foreground">
+              {t("tags.subtitle")}
+            </p>
+          </div>
+          
+          <button
+            onClick={handleMigrate}
+            disabled={working}
+            className="flex items-center gap-2 border py-2 px-4 rounded-md hover:bg-muted disabled:opacity-50"
+          >
+            {working ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+            <span>{t("tags.migrate")}</span>
+          </button>
+        </div>
+        
+        {error && (
+          <div className="bg-destructive/10 text-destructive p-4 rounded-md flex items-center gap-2">
+            <AlertCircle className="h-5 w-5" />
+            <p>{error}</p>
+          </div>
+        )}
+        
+        {message && (
+          <div className="bg-green-100 text-green-800 p-4 rounded-md flex justify-between items-center">
+            <p>{message}</p>
+            <button onClick={() => setMessage(null)} className="text-sm underline">
+              {t("common.dismiss")}
+            </button>
+          </div>
+        )}
+        
+        <form onSubmit={handleCreateTag} className="flex gap-2 max-w-md">
+          <input
+            type="text"
+            value={newTagName}
+            onChange={(e) => setNewTagName(e.target.value)}
+            placeholder={t("tags.newTagName")}
+            className="flex-1 px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <button
+            type="submit"
+            disabled={working || !newTagName.trim()}
+            className="flex items-center gap-2 bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            <span>{t("tags.add")}</span>
+          </button>
+        </form>
+        
+        {selectedIds.length > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 border rounded-md bg-muted/50">
+            <span className="text-sm">{t("tags.mergeSelected", { count: selectedIds.length })}</span>
+            <input
+              type="text"
+              list="tag-names"
+              value={mergeTarget}
+              onChange={(e) => setMergeTarget(e.target.value)}
+              placeholder={t("tags.mergeTarget")}
+              className="px-3 py-1.5 border rounded-md bg-background text-sm"
+            />
+            <datalist id="tag-names">
+              {tags.map(tag => <option key={tag.id} value={tag.name} />)}
+            </datalist>
+            <button
+              onClick={handleMerge}
+              disabled={working || !mergeTarget.trim()}
+              className="flex items-center gap-2 bg-primary text-primary-foreground py-1.5 px-3 rounded-md text-sm hover:bg-primary/90 disabled:opacity-50"
+            >
+              <Merge className="h-4 w-4" />
+              <span>{t("tags.merge")}</span>
+            </button>
+            <button onClick={() => setSelectedIds([])} className="text-sm underline">
+              {t("tags.clearSelection")}
+            </button>
+          </div>
+        )}
+        
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : tags.length === 0 ? (
+          <div className="text-center p-8 border rounded-lg bg-card">
+            <p className="text-muted-foreground">
+              {t("tags.empty")}
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="w-10 p-4"></th>
+                  <th className="text-left p-4 font-medium">{t("common.name")}</th>
+                  <th className="text-left p-4 font-medium hidden md:table-cell">{t("tags.synonyms")}</th>
+                  <th className="text-left p-4 font-medium">{t("tags.used")}</th>
+                  <th className="text-right p-4 font-medium">{t("common.actions")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tags.map((tag) => (
+                  <tr key={tag.id} className="border-t">
+                    <td className="p-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(tag.id)}
+                        onChange={() => toggleSelected(tag.id)}
+                        aria-label={t("tags.select", { name: tag.name })}
+                      />
+                    </td>
+                    <td className="p-4">
+                      <span className="font-medium">{tag.name}</span>
+                      <p className="text-xs text-muted-foreground font-mono">{tag.id}</p>
+                    </td>
+                    <td className="p-4 text-muted-foreground hidden md:table-cell">
+                      {tag.synonyms.length > 0 ? tag.synonyms.join(", ") : "-"}
+                    </td>
+                    <td className="p-4 text-muted-foreground">
+                      {tag.usageCount === 1 ? t("tags.usedOnOne") : t("tags.usedOnMany", { count: tag.usageCount })}
+                    </td>
+                    <td className="p-4 text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => handleEditSynonyms(tag)}
+                          disabled={working}
+                          className="p-2 hover:bg-muted rounded-md text-muted-foreground hover:text-foreground text-sm"
+                        >
+                          {t("tags.synonyms")}
+                        </button>
+                        <button
+                          onClick={() => handleRename(tag)}
+                          disabled={working}
+                          className="p-2 hover:bg-muted rounded-md text-muted-foreground hover:text-foreground"
+                          title={t("tags.rename")}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(tag)}
+                          disabled={working || tag.usageCount > 0}
+                          className="p-2 hover:bg-destructive/10 rounded-md text-muted-foreground hover:text-destructive disabled:opacity-50"
+                          title={tag.usageCount > 0 ? t("tags.deleteInUse") : t("common.delete")}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
\ No newline at end of file
@@ -6,6 +6,8 @@ import { Save, ArrowLeft, Loader2, AlertCircle } from "lucide-react";
 import MainLayout from "@/layouts/MainLayout";
 import { userService } from "@/services/userService";
 import { User, UserRole } from "@/types/user";
+import { translate } from "@/locales/messages";
+import { useLocale } from "@/contexts/LocaleContext";
 
 export default function EditUserPage() {
   const [user, setUser] = useState<User | null>(null);
@@ -17,6 +19,7 @@ export default function EditUserPage() {
   const [pageLoading, setPageLoading] = useState(true);
   
   const router = useRouter();
+  const { t } = useLocale();
   const params = useParams();
   const id = params.id as string;
 
@@ -25,7 +28,8 @@ export default function EditUserPage() {
       try {
         const data = await userService.getUserById(id);
         if (!data) {
-          setError("User not found");
+          // Read the message directly so switching the language does not reload the form
+          setError(translate("userForm.notFound"));
           return;
         }
         
@@ -41,7 +45,7 @@ export default function EditUserPage() {
         }
       } catch (err) {
         console.error("Error loading user:", err);
-        setError("Failed to load user details");
+        setError(translate("userForm.loadFailed"));
       } finally {
         setPageLoading(false);
       }
@@ -54,12 +58,12 @@ export default function EditUserPage() {
     e.preventDefault();
     
     if (!displayName.trim()) {
-      setError("Name is required");
+      setError(t("userForm.nameRequired"));
       return;
     }
 
     if (!dob) {
-      setError("Date of birth is required");
+      setError(t("userForm.dobRequired"));
       return;
     }
     
@@ -77,7 +81,7 @@ export default function EditUserPage() {
       router.push("/users");
     } catch (err) {
       console.error("Error updating user:", err);
-      setError("Failed to update user. Please try again.");
+      setError(t("userForm.updateFailed"));
     } finally {
       setLoading(false);
     }
@@ -98,15 +102,15 @@ export default function EditUserPage() {
       <MainLayout>
         <div className="flex flex-col items-center justify-center h-64">
           <AlertCircle className="h-12 w-12 text-destructive mb-4" />
-          <h2 className="text-xl font-bold">User not found</h2>
+          <h2 className="text-xl font-bold">{t("userForm.notFound")}</h2>
           <p className="text-muted-foreground mt-2">
-            The user you&apos;re looking for doesn&apos;t exist or has been removed.
+            {t("userForm.notFoundHint")}
           </p>
           <button
             onClick={() => router.push("/users")}
             className="mt-4 px-4 py-2 bg-primary text-primary-foreground rounded-md"
           >
-            Back to Users
+            {t("userForm.backToUsers")}
           </button>
         </div>
       </MainLayout>
@@ -123,7 +127,7 @@ export default function EditUserPage() {
           >
             <ArrowLeft className="h-5 w-5" />
           </button>
-          <h1 className="text-3xl font-bold tracking-tight">Edit User</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{t("userForm.editTitle")}</h1>
         </div>
         
         {error && (
@@ -136,7 +140,7 @@ export default function EditUserPage() {
           <div className="space-y-4">
             <div>
               <label htmlFor="email" className="block text-sm font-medium mb-1">
-                Email
+                {t("common.email")}
               </label>
               <input
                 id="email"
@@ -146,13 +150,13 @@ export default function EditUserPage() {
                 disabled
               />
               <p className="text-xs text-muted-foreground mt-1">
-                Email cannot be changed
+                {t("profile.emailLocked")}
               </p>
             </div>
             
             <div>
               <label htmlFor="displayName" className="block text-sm font-medium mb-1">
-                Name <span className="text-destructive">*</span>
+                {t("common.name")} <span className="text-destructive">*</span>
               </label>
               <input
                 id="displayName"
@@ -166,7 +170,7 @@ export default function EditUserPage() {
             
             <div>
               <label htmlFor="dob" className="block text-sm font-medium mb-1">
-                Date of Birth <span className="text-destructive">*</span>
+                {t("userForm.dob")} <span className="text-destructive">*</span>
               </label>
               <input
                 id="dob"
@@ -180,7 +184,7 @@ export default function EditUserPage() {
             
             <div>
               <label htmlFor="role" className="block text-sm font-medium mb-1">
-                Role
+                {t("users.role")}
               </label>
               <select
                 id="role"
@@ -188,18 +192,19 @@ export default function EditUserPage() {
                 onChange={(e) => setRole(e.target.value as UserRole)}
                 className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
               >
-                <option value="user">User</option>
-                <option value="admin">Admin</option>
+                <option value="user">{t("role.user")}</option>
+                <option value="guide">{t("role.guide")}</option>
+                <option value="admin">{t("role.admin")}</option>
               </select>
             </div>
             
             {user && (
               <div>
                 <label className="block text-sm font-medium mb-1">
-                  Age
+                  {t("users.age")}
                 </label>
                 <div className="w-full px-3 py-2 border rounded-md bg-muted text-muted-foreground">
-                  {user.dob ? userService.calculateAge(user.dob) : "N/A"}
+                  {user.dob ? userService.calculateAge(user.dob) : t("common.notAvailable")}
                 </div>
               </div>
             )}
@@ -211,7 +216,7 @@ export default function EditUserPage() {
               onClick={() => router.push("/users")}
               className="px-4 py-2 border rounded-md hover:bg-muted"
             >
-              Cancel
+              {t("common.cancel")}
             </button>
             <button
               type="submit"
@@ -221,12 +226,12 @@ export default function EditUserPage() {
               {loading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span>Saving...</span>
+                  <span>{t("common.saving")}</span>
                 </>
               ) : (
                 <>
                   <Save className="h-4 w-4" />
-                  <span>Save Changes</span>
+                  <span>{t("common.saveChanges")}</span>
                 </>
               )}
             </button>
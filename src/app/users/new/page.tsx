@@ -6,6 +6,7 @@ import { Save, ArrowLeft, Loader2 } from "lucide-react";
 import MainLayout from "@/layouts/MainLayout";
 import { userService } from "@/services/userService";
 import { UserRole } from "@/types/user";
+import { useLocale } from "@/contexts/LocaleContext";
 
 export default function NewUserPage() {
   const [email, setEmail] = useState("");
@@ -17,37 +18,38 @@ export default function NewUserPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
+  const { t } = useLocale();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!email.trim()) {
-      setError("Email is required");
+      setError(t("userForm.emailRequired"));
       return;
     }
 
     if (!displayName.trim()) {
-      setError("Name is required");
+      setError(t("userForm.nameRequired"));
       return;
     }
 
     if (!password) {
-      setError("Password is required");
+      setError(t("userForm.passwordRequired"));
       return;
     }
 
     if (password.length < 6) {
-      setError("Password must be at least 6 characters");
+      setError(t("userForm.passwordHint"));
       return;
     }
 
     if (password !== confirmPassword) {
-      setError("Passwords do not match");
+      setError(t("auth.passwordsDoNotMatch"));
       return;
     }
 
     if (!dob) {
-      setError("Date of birth is required");
+      setError(t("userForm.dobRequired"));
       return;
     }
     
@@ -66,7 +68,7 @@ export default function NewUserPage() {
       router.push('/users');
     } catch (err: any) {
       console.error("Error creating user:", err);
-      setError(err.message || "Failed to create user. Please try again.");
+      setError(err.message || t("userForm.createFailed"));
     } finally {
       setLoading(false);
     }
@@ -82,7 +84,7 @@ export default function NewUserPage() {
           >
             <ArrowLeft className="h-5 w-5" />
           </button>
-          <h1 className="text-3xl font-bold tracking-tight">New User</h1>
+          <h1 className="text-3xl font-bold tracking-tight">{t("userForm.newTitle")}</h1>
         </div>
         
         {error && (
@@ -95,7 +97,7 @@ export default function NewUserPage() {
           <div className="space-y-4">
             <div>
               <label htmlFor="email" className="block text-sm font-medium mb-1">
-                Email <span className="text-destructive">*</span>
+                {t("common.email")} <span className="text-destructive">*</span>
               </label>
               <input
                 id="email"
@@ -109,7 +111,7 @@ export default function NewUserPage() {
             
             <div>
               <label htmlFor="displayName" className="block text-sm font-medium mb-1">
-                Name <span className="text-destructive">*</span>
+                {t("common.name")} <span className="text-destructive">*</span>
               </label>
               <input
                 id="displayName"
@@ -123,7 +125,7 @@ export default function NewUserPage() {
             
             <div>
               <label htmlFor="password" className="block text-sm font-medium mb-1">
-                Password <span className="text-destructive">*</span>
+                {t("common.password")} <span className="text-destructive">*</span>
               </label>
               <input
                 id="password"
@@ -135,13 +137,13 @@ export default function NewUserPage() {
                 minLength={6}
               />
               <p className="text-xs text-muted-foreground mt-1">
-                Password must be at least 6 characters
+                {t("userForm.passwordHint")}
               </p>
             </div>
             
             <div>
               <label htmlFor="confirmPassword" className="block text-sm font-medium mb-1">
-                Confirm Password <span className="text-destructive">*</span>
+                {t("auth.confirmPassword")} <span className="text-destructive">*</span>
               </label>
               <input
                 id="confirmPassword"
@@ -155,7 +157,7 @@ export default function NewUserPage() {
             
             <div>
               <label htmlFor="dob" className="block text-sm font-medium mb-1">
-                Date of Birth <span className="text-destructive">*</span>
+                {t("userForm.dob")} <span className="text-destructive">*</span>
               </label>
               <input
                 id="dob"
@@ -169,7 +171,7 @@ export default function NewUserPage() {
             
             <div>
               <label htmlFor="role" className="block text-sm font-medium mb-1">
-                Role
+                {t("users.role")}
               </label>
               <select
                 id="role"
@@ -177,8 +179,9 @@ export default function NewUserPage() {
                 onChange={(e) => setRole(e.target.value as UserRole)}
                 className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
               >
-                <option value="user">User</option>
-                <option value="admin">Admin</option>
+                <option value="user">{t("role.user")}</option>
+                <option value="guide">{t("role.guide")}</option>
+                <option value="admin">{t("role.admin")}</option>
               </select>
             </div>
           </div>
@@ -189,7 +192,7 @@ export default function NewUserPage() {
               onClick={() => router.push("/users")}
               className="px-4 py-2 border rounded-md hover:bg-muted"
             >
-              Cancel
+              {t("common.cancel")}
             </button>
             <button
               type="submit"
@@ -199,12 +202,12 @@ export default function NewUserPage() {
               {loading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  <span>Creating...</span>
+                  <span>{t("common.creating")}</span>
                 </>
               ) : (
                 <>
                   <Save className="h-4 w-4" />
-                  <span>Create User</span>
+                  <span>{t("userForm.create")}</span>
                 </>
               )}
             </button>
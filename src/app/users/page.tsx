@@ -1,23 +1,21 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { Plus, Pencil, Trash2, AlertCircle, User as UserIcon, Calendar, Mail } from "lucide-react";
 import MainLayout from "@/layouts/MainLayout";
 import { userService } from "@/services/userService";
 import { User } from "@/types/user";
+import { useLocale } from "@/contexts/LocaleContext";
 
 export default function UsersPage() {
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
+  const { t } = useLocale();
 
-  useEffect(() => {
-    loadUsers();
-  }, []);
-
-  async function loadUsers() {
+  const loadUsers = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
@@ -25,14 +23,18 @@ export default function UsersPage() {
       setUsers(data);
     } catch (err) {
       console.error("Error loading users:", err);
-      setError("Failed to load users. Please try again.");
+      setError(t("users.loadFailed"));
     } finally {
       setLoading(false);
     }
-  }
+  }, [t]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
 
   async function handleDeleteUser(id: string) {
-    if (!window.confirm("Are you sure you want to delete this user?")) {
+    if (!window.confirm(t("users.confirmDelete"))) {
       return;
     }
     
@@ -45,7 +47,7 @@ export default function UsersPage() {
       );
     } catch (err) {
       console.error("Error deleting user:", err);
-      setError("Failed to delete user. Please try again.");
+      setError(t("users.deleteFailed"));
     }
   }
 
@@ -54,9 +56,9 @@ export default function UsersPage() {
       <div className="space-y-6">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
           <div>
-            <h1 className="text-3xl font-bold tracking-tight">Users</h1>
+            <h1 className="text-3xl font-bold tracking-tight">{t("users.title")}</h1>
             <p className="text-muted-foreground">
-              Manage users and their access
+              {t("users.subtitle")}
             </p>
           </div>
           
@@ -65,7 +67,7 @@ export default function UsersPage() {
             className="flex items-center gap-2 bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90"
           >
             <Plus className="h-4 w-4" />
-            <span>Add User</span>
+            <span>{t("users.add")}</span>
           </button>
         </div>
         
@@ -82,18 +84,18 @@ export default function UsersPage() {
           </div>
         ) : users.length === 0 ? (
           <div className="text-center p-8 border rounded-lg bg-card">
-            <p className="text-muted-foreground">No users found. Create your first user!</p>
+            <p className="text-muted-foreground">{t("users.empty")}</p>
           </div>
         ) : (
           <div className="border rounded-lg overflow-hidden">
             <table className="w-full">
               <thead className="bg-muted/50">
                 <tr>
-                  <th className="px-4 py-3 text-left text-sm font-medium">Name</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium">Email</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium">Role</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium">Age</th>
-                  <th className="px-4 py-3 text-right text-sm font-medium">Actions</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">{t("common.name")}</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">{t("common.email")}</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">{t("users.role")}</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium">{t("users.age")}</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium">{t("common.actions")}</th>
                 </tr>
               </thead>
               <tbody className="divide-y">
@@ -113,16 +115,17 @@ export default function UsersPage() {
                     </td>
                     <td className="px-4 py-3 text-sm">
                       <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                        user.role === "admin" ? "bg-primary/10 text-primary" : "bg-muted text-muted-foreground"
+                        user.role === "admin" ? "bg-primary/10 text-primary" : 
+                        user.role === "guide" ? "bg-blue-100 text-blue-800" : "bg-muted text-muted-foreground"
                       }`}>
-                        {user.role}
+                        {t(`role.${user.role}`)}
                       </span>
                     </td>
                     <td className="px-4 py-3 text-sm">
                       <div className="flex items-center gap-2">
                         <Calendar className="h-4 w-4 text-muted-foreground" />
                         <span>
-                          {user.dob ? userService.calculateAge(user.dob) : "N/A"}
+                          {user.dob ? userService.calculateAge(user.dob) : t("common.notAvailable")}
                         </span>
                       </div>
                     </td>
@@ -131,14 +134,14 @@ export default function UsersPage() {
                         <button
                           onClick={() => router.push(`/users/${user.id}`)}
                           className="p-1 hover:bg-muted rounded-md"
-                          title="Edit"
+                          title={t("common.edit")}
                         >
                           <Pencil className="h-4 w-4" />
                         </button>
                         <button
                           onClick={() => handleDeleteUser(user.id)}
                           className="p-1 hover:bg-destructive/10 rounded-md text-destructive"
-                          title="Delete"
+                          title={t("common.delete")}
                         >
                           <Trash2 className="h-4 w-4" />
                         </button>
@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarPlus, Check, Copy } from "lucide-react";
+import { useLocale } from "@/contexts/LocaleContext";
+
+interface CalendarFeedLinkProps {
+  path: string; // Feed route, including any query string
+  label?: string; // Defaults to "Calendar Feed" in the interface language
+}
+
+export default function CalendarFeedLink({
+  path,
+  label
+}: CalendarFeedLinkProps) {
+  const { t } = useLocale();
+  const [copied, setCopied] = useState(false);
+
+  const getUrl = () => `${window.location.origin}${path}`;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getUrl());
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Error copying calendar link:", err);
+      window.prompt(t("calendarFeed.copyPrompt"), getUrl());
+    }
+  };
+
+  // webcal:// makes calendar apps offer to subscribe rather than import once
+  const handleSubscribe = () => {
+    window.location.href = getUrl().replace(/^https?:/, "webcal:");
+  };
+
+  return (
+    <div className="flex items-center border rounded-md overflow-hidden">
+      <button
+        type="button"
+        onClick={handleSubscribe}
+        className="flex items-center gap-2 py-2 px-3 hover:bg-muted"
+        title={t("calendarFeed.subscribe")}
+      >
+        <CalendarPlus className="h-4 w-4" />
+        <span>{label || t("calendarFeed.label")}</span>
+      </button>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="py-2 px-3 border-s hover:bg-muted"
+        aria-label={t("calendarFeed.copy")}
+        title={t("calendarFeed.copy")}
+      >
+        {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+      </button>
+    </div>
+  );
+}
\ No newline at end of file
@@ -3,13 +3,16 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import Image from "next/image";
-import { User, LogOut, Settings } from "lucide-react";
+import { User, LogOut, Settings, Languages } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/contexts/LocaleContext";
 import { userService } from "@/services/userService";
+import { isLocale, localeOptions } from "@/utils/localeUtils";
 
 export default function Header() {
   const [showUserMenu, setShowUserMenu] = useState(false);
   const { currentUser, userData, logout } = useAuth();
+  const { locale, setLocale, t } = useLocale();
   const [profileImage, setProfileImage] = useState<string | null>(null);
 
   useEffect(() => {
@@ -42,13 +45,28 @@ export default function Header() {
   };
 
   return (
-    <header className="sticky top-0 z-30 flex h-16 items-center gap-4 border-b bg-background px-4 md:px-6 lg:pl-[calc(70px+1rem)] xl:pl-[calc(250px+1rem)]">
+    <header className="sticky top-0 z-30 flex h-16 items-center gap-4 border-b bg-background px-4 md:px-6 lg:ps-[calc(70px+1rem)] xl:ps-[calc(250px+1rem)]">
       <div className="flex flex-1 items-center gap-4 md:gap-6 lg:gap-8">
         {/* Search bar removed */}
         
-        <div className="ml-auto flex items-center gap-2">
+        <div className="ms-auto flex items-center gap-2">
           {/* Notifications removed */}
           
+          {/* Locale switcher */}
+          <label className="flex items-center gap-1 rounded-md px-2 py-1.5 hover:bg-muted">
+            <Languages className="h-4 w-4 text-muted-foreground" />
+            <span className="sr-only">{t("header.language")}</span>
+            <select
+              value={locale}
+              onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+              className="bg-transparent text-sm focus:outline-none"
+            >
+              {localeOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          
           {/* User menu */}
           <div className="relative">
             <button
@@ -62,7 +80,7 @@ export default function Header() {
                 {profileImage ? (
                   <Image 
                     src={profileImage} 
-                    alt="Profile" 
+                    alt={t("header.profile")} 
                     width={32}
                     height={32}
                     className="object-cover"
@@ -71,35 +89,35 @@ export default function Header() {
                   <User className="h-4 w-4" />
                 )}
               </div>
-              <div className="hidden md:block text-left">
+              <div className="hidden md:block text-start">
                 <div className="text-sm font-medium">
                   {userData?.displayName || currentUser?.email}
                 </div>
                 <div className="text-xs text-muted-foreground">
-                  {userData?.role === "admin" ? "Administrator" : "User"}
+                  {t(userData?.role === "admin" ? "role.admin" : userData?.role === "guide" ? "role.guide" : "role.user")}
                 </div>
               </div>
             </button>
             
             {/* User dropdown menu */}
             {showUserMenu && (
-              <div className="absolute right-0 mt-2 w-48 rounded-md border bg-background shadow-lg">
+              <div className="absolute end-0 mt-2 w-48 rounded-md border bg-background shadow-lg">
                 <div className="p-2">
                   <Link href="/profile" className="flex items-center gap-2 rounded-md px-3 py-2 text-sm hover:bg-muted">
                     <User className="h-4 w-4" />
-                    Profile
+                    {t("header.profile")}
                   </Link>
                   <Link href="/settings" className="flex items-center gap-2 rounded-md px-3 py-2 text-sm hover:bg-muted">
                     <Settings className="h-4 w-4" />
-                    Settings
+                    {t("header.settings")}
                   </Link>
                   <div className="h-px my-1 bg-border"></div>
                   <button 
                     onClick={handleLogout}
                     className="flex w-full items-center gap-2 rounded-md px-3 py-2 text-sm text-destructive hover:bg-destructive/10"
                   >
-                    <LogOut className="h-4 w-4" />
-                    Logout
+                    <LogOut className="h-4 w-4 rtl:-scale-x-100" />
+                    {t("header.logout")}
                   </button>
                 </div>
               </div>
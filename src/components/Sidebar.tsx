@@ -5,6 +5,9 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
+import { guideRoutes, participantRoutes } from "@/utils/staffUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+import { MessageKey } from "@/locales/messages";
 import {
   LayoutDashboard,
   MapPin,
@@ -18,11 +21,16 @@ import {
   Menu,
   X,
   ChevronDown,
-  ChevronRight
+  ChevronRight,
+  Ticket,
+  Tags,
+  Compass,
+  Star,
+  MessageSquare
 } from "lucide-react";
 
 type NavItem = {
-  title: string;
+  title: MessageKey;
   href: string;
   icon: React.ReactNode;
   submenu?: NavItem[];
@@ -30,47 +38,72 @@ type NavItem = {
 
 const navItems: NavItem[] = [
   {
-    title: "Dashboard",
+    title: "nav.dashboard",
     href: "/dashboard",
     icon: <LayoutDashboard className="h-5 w-5" />
   },
   {
-    title: "Locations",
+    title: "nav.myActivities",
+    href: "/my-activities",
+    icon: <Compass className="h-5 w-5" />
+  },
+  {
+    title: "nav.locations",
     href: "/locations",
     icon: <MapPin className="h-5 w-5" />
   },
   {
-    title: "Activities",
+    title: "nav.activities",
     href: "/activities",
     icon: <Layers className="h-5 w-5" />
   },
   {
-    title: "Categories",
+    title: "nav.categories",
     href: "/categories",
     icon: <FolderTree className="h-5 w-5" />
   },
   {
-    title: "Users",
+    title: "nav.tags",
+    href: "/tags",
+    icon: <Tags className="h-5 w-5" />
+  },
+  {
+    title: "nav.users",
     href: "/users",
     icon: <Users className="h-5 w-5" />
   },
   {
-    title: "Bookings",
+    title: "nav.bookings",
     href: "/bookings",
     icon: <Calendar className="h-5 w-5" />
   },
   {
-    title: "Reports",
+    title: "nav.reviews",
+    href: "/reviews",
+    icon: <Star className="h-5 w-5" />
+  },
+  {
+    title: "nav.myReviews",
+    href: "/my-reviews",
+    icon: <MessageSquare className="h-5 w-5" />
+  },
+  {
+    title: "nav.promoCodes",
+    href: "/promo-codes",
+    icon: <Ticket className="h-5 w-5" />
+  },
+  {
+    title: "nav.reports",
     href: "/reports",
     icon: <BarChart3 className="h-5 w-5" />
   },
   {
-    title: "Settings",
+    title: "nav.settings",
     href: "/settings",
     icon: <Settings className="h-5 w-5" />,
     submenu: [
       {
-        title: "API & AI Management",
+        title: "nav.apiAi",
         href: "/settings/api-ai",
         icon: <Settings className="h-4 w-4" />
       }
@@ -83,7 +116,12 @@ export default function Sidebar() {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [openSubmenu, setOpenSubmenu] = useState<string | null>(null);
   const pathname = usePathname();
-  const { logout } = useAuth();
+  const { logout, isGuide, isParticipant } = useAuth();
+  const { t } = useLocale();
+  
+  // Guides and participants only get the pages they are allowed to open
+  const allowedRoutes = isGuide ? guideRoutes : isParticipant ? participantRoutes : null;
+  const visibleItems = allowedRoutes ? navItems.filter(item => allowedRoutes.includes(item.href)) : navItems;
   
   // Close mobile menu on route change
   useEffect(() => {
@@ -123,8 +161,8 @@ export default function Sidebar() {
       {/* Mobile menu button */}
       <button
         onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
-        className="lg:hidden fixed top-4 left-4 z-50 p-2 bg-background border rounded-md shadow-sm"
-        aria-label="Toggle menu"
+        className="lg:hidden fixed top-4 start-4 z-50 p-2 bg-background border rounded-md shadow-sm"
+        aria-label={t("nav.toggleMenu")}
       >
         {isMobileMenuOpen ? (
           <X className="h-5 w-5" />
@@ -136,9 +174,9 @@ export default function Sidebar() {
       {/* Sidebar */}
       <div
         className={cn(
-          "fixed inset-y-0 left-0 z-40 flex flex-col border-r bg-background transition-all duration-300 ease-in-out",
+          "fixed inset-y-0 start-0 z-40 flex flex-col border-e bg-background transition-all duration-300 ease-in-out",
           isCollapsed ? "w-[70px]" : "w-[250px]",
-          isMobileMenuOpen ? "translate-x-0" : "-translate-x-full lg:translate-x-0"
+          isMobileMenuOpen ? "translate-x-0" : "-translate-x-full rtl:translate-x-full lg:translate-x-0 lg:rtl:translate-x-0"
         )}
       >
         {/* Logo area */}
@@ -154,16 +192,16 @@ export default function Sidebar() {
           <button
             onClick={() => setIsCollapsed(!isCollapsed)}
             className="hidden lg:block p-1 rounded-md hover:bg-muted"
-            aria-label={isCollapsed ? "Expand sidebar" : "Collapse sidebar"}
+            aria-label={isCollapsed ? t("nav.expand") : t("nav.collapse")}
           >
-            <ChevronRight className={cn("h-5 w-5 transition-transform", !isCollapsed && "rotate-180")} />
+            <ChevronRight className={cn("h-5 w-5 transition-transform rtl:rotate-180", !isCollapsed && "rotate-180 rtl:rotate-0")} />
           </button>
         </div>
 
         {/* Navigation */}
         <nav className="flex-1 overflow-y-auto py-4 px-3">
           <ul className="space-y-1">
-            {navItems.map((item) => (
+            {visibleItems.map((item) => (
               <li key={item.title}>
                 {item.submenu ? (
                   <div className="space-y-1">
@@ -175,10 +213,10 @@ export default function Sidebar() {
                         isCollapsed && "justify-center"
                       )}
                     >
-                      <span className="mr-3">{item.icon}</span>
+                      <span className="me-3">{item.icon}</span>
                       {!isCollapsed && (
                         <>
-                          <span className="flex-1 text-left">{item.title}</span>
+                          <span className="flex-1 text-start">{t(item.title)}</span>
                           <ChevronDown
                             className={cn(
                               "h-4 w-4 transition-transform",
@@ -191,7 +229,7 @@ export default function Sidebar() {
                     
                     {/* Submenu items */}
                     {(openSubmenu === item.title || (!isCollapsed && pathname.startsWith(item.href))) && (
-                      <ul className={cn("ml-6 space-y-1", isCollapsed && "ml-0")}>
+                      <ul className={cn("ms-6 space-y-1", isCollapsed && "ms-0")}>
                         {item.submenu.map((subitem) => (
                           <li key={subitem.title}>
                             <Link
@@ -202,8 +240,8 @@ export default function Sidebar() {
                                 isCollapsed && "justify-center"
                               )}
                             >
-                              <span className="mr-3">{subitem.icon}</span>
-                              {!isCollapsed && <span>{subitem.title}</span>}
+                              <span className="me-3">{subitem.icon}</span>
+                              {!isCollapsed && <span>{t(subitem.title)}</span>}
                             </Link>
                           </li>
                         ))}
@@ -219,8 +257,8 @@ export default function Sidebar() {
                       isCollapsed && "justify-center"
                     )}
                   >
-                    <span className={cn("mr-3", isCollapsed && "mr-0")}>{item.icon}</span>
-                    {!isCollapsed && <span>{item.title}</span>}
+                    <span className={cn("me-3", isCollapsed && "me-0")}>{item.icon}</span>
+                    {!isCollapsed && <span>{t(item.title)}</span>}
                   </Link>
                 )}
               </li>
@@ -237,8 +275,8 @@ export default function Sidebar() {
               isCollapsed && "justify-center"
             )}
           >
-            <LogOut className={cn("h-5 w-5", !isCollapsed && "mr-3")} />
-            {!isCollapsed && <span>Logout</span>}
+            <LogOut className={cn("h-5 w-5 rtl:-scale-x-100", !isCollapsed && "me-3")} />
+            {!isCollapsed && <span>{t("nav.logout")}</span>}
           </button>
         </div>
       </div>
@@ -0,0 +1,58 @@
+"use client";
+
+import { Languages } from "lucide-react";
+import { Locale, Translations } from "@/types/locale";
+import { getDirection, translationLocales } from "@/utils/localeUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+interface TranslationFieldsProps<Field extends string> {
+  fields: Array<{ name: Field; label: string; multiline?: boolean }>;
+  translations: Translations<Field>;
+  onChange: (translations: Translations<Field>) => void;
+}
+
+export default function TranslationFields<Field extends string>({
+  fields,
+  translations,
+  onChange
+}: TranslationFieldsProps<Field>) {
+  const { t } = useLocale();
+  const updateField = (locale: Locale, field: Field, value: string) => {
+    onChange({
+      ...translations,
+      [locale]: { ...translations[locale], [field]: value }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {translationLocales.map(option => (
+        <div key={option.value} className="border rounded-md p-4 space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Languages className="h-4 w-4 text-muted-foreground" />
+            <span>{option.label}</span>
+          </div>
+          {fields.map(field => {
+            const inputProps = {
+              value: translations[option.value]?.[field.name] || "",
+              onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+                updateField(option.value, field.name, e.target.value),
+              lang: option.value,
+              dir: getDirection(option.value),
+              className: "w-full p-2 border rounded-md"
+            };
+            return (
+              <div key={field.name}>
+                <label className="block text-sm text-muted-foreground mb-1">{field.label}</label>
+                {field.multiline ? <textarea rows={3} {...inputProps} /> : <input type="text" {...inputProps} />}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        {t("translationFields.emptyHint")}
+      </p>
+    </div>
+  );
+}
\ No newline at end of file
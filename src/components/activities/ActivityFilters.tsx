@@ -0,0 +1,182 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Search, X } from "lucide-react";
+import { Activity, ActivitySearchFilters } from "@/types/activity";
+import { Location } from "@/types/location";
+import { Category } from "@/types/category";
+import { ageGroupOptions, getAgeGroupLabel } from "@/utils/ageGroupUtils";
+import { hasActiveFilters } from "@/utils/activitySearchUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+interface ActivityFiltersProps {
+  filters: ActivitySearchFilters;
+  locations: Location[];
+  categories: Category[];
+  onChange: (filters: ActivitySearchFilters) => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 border rounded-md bg-background text-sm";
+
+export default function ActivityFilters({
+  filters,
+  locations,
+  categories,
+  onChange
+}: ActivityFiltersProps) {
+  const { t } = useLocale();
+  const [draft, setDraft] = useState<ActivitySearchFilters>(filters);
+
+  // Follow the URL when it changes from outside, e.g. back navigation
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const update = (changes: Partial<ActivitySearchFilters>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange({ ...draft, search: draft.search?.trim() || undefined, tag: draft.tag?.trim() || undefined });
+  };
+
+  const numberValue = (value: string) => (value === "" ? undefined : parseFloat(value));
+
+  return (
+    <form onSubmit={handleSubmit} className="border rounded-lg p-4 bg-card space-y-3">
+      <div className="relative">
+        <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+        <input
+          type="text"
+          value={draft.search || ""}
+          onChange={(e) => update({ search: e.target.value })}
+          placeholder={t("filters.search")}
+          className="w-full pl-8 pr-2 py-2 border rounded-md bg-background"
+        />
+      </div>
+      
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-2">
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">{t("filters.from")}</label>
+          <input
+            type="date"
+            value={draft.from || ""}
+            onChange={(e) => update({ from: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">{t("filters.to")}</label>
+          <input
+            type="date"
+            value={draft.to || ""}
+            onChange={(e) => update({ to: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">{t("filters.difficulty")}</label>
+          <select
+            value={draft.difficulty || ""}
+            onChange={(e) => update({ difficulty: (e.target.value || undefined) as Activity["difficulty"] | undefined })}
+            className={inputClass}
+          >
+            <option value="">{t("common.any")}</option>
+            <option value="easy">{t("difficulty.easy")}</option>
+            <option value="moderate">{t("difficulty.moderate")}</option>
+            <option value="hard">{t("difficulty.hard")}</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">{t("filters.ageGroup")}</label>
+          <select
+            value={draft.ageGroup || ""}
+            onChange={(e) => update({ ageGroup: (e.target.value || undefined) as Activity["ageGroup"] | undefined })}
+            className={inputClass}
+          >
+            <option value="">{t("common.any")}</option>
+            {ageGroupOptions.map(option => (
+              <option key={option.value} value={option.value}>{getAgeGroupLabel(option.value)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">{t("filters.tag")}</label>
+          <input
+            type="text"
+            value={draft.tag || ""}
+            onChange={(e) => update({ tag: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">{t("filters.location")}</label>
+          <select
+            value={draft.locationId || ""}
+            onChange={(e) => update({ locationId: e.target.value || undefined })}
+            className={inputClass}
+          >
+            <option value="">{t("common.any")}</option>
+            {locations.map(location => (
+              <option key={location.id} value={location.id}>{location.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">{t("filters.category")}</label>
+          <select
+            value={draft.categoryId || ""}
+            onChange={(e) => update({ categoryId: e.target.value || undefined })}
+            className={inputClass}
+          >
+            <option value="">{t("common.any")}</option>
+            {categories.map(category => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">{t("filters.cost")}</label>
+          <div className="flex gap-1">
+            <input
+              type="number"
+              min="0"
+              placeholder={t("common.min")}
+              value={draft.minCost ?? ""}
+              onChange={(e) => update({ minCost: numberValue(e.target.value) })}
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min="0"
+              placeholder={t("common.max")}
+              value={draft.maxCost ?? ""}
+              onChange={(e) => update({ maxCost: numberValue(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      </div>
+      
+      <div className="flex justify-end gap-2">
+        {hasActiveFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onChange({ status: filters.status })}
+            className="flex items-center gap-1 px-3 py-1.5 border rounded-md hover:bg-muted text-sm"
+          >
+            <X className="h-4 w-4" />
+            <span>{t("common.clear")}</span>
+          </button>
+        )}
+        <button
+          type="submit"
+          className="px-3 py-1.5 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 text-sm"
+        >
+          {t("filters.apply")}
+        </button>
+      </div>
+    </form>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,111 @@
+"use client";
+
+import { Plus, X } from "lucide-react";
+import { EquipmentItem, EquipmentRequirement } from "@/types/activity";
+import { createEquipmentItem, equipmentRequirementLabels } from "@/utils/equipmentUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+interface EquipmentEditorProps {
+  equipment: EquipmentItem[];
+  onChange: (equipment: EquipmentItem[]) => void;
+}
+
+export default function EquipmentEditor({
+  equipment,
+  onChange
+}: EquipmentEditorProps) {
+  const { t } = useLocale();
+  const updateItem = (index: number, changes: Partial<EquipmentItem>) => {
+    onChange(equipment.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {equipment.map((item, index) => (
+        <div key={item.id} className="border rounded-md p-3 bg-card space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={item.name}
+              onChange={(e) => updateItem(index, { name: e.target.value })}
+              placeholder={t("equipment.itemPlaceholder")}
+              className="flex-1 px-2 py-1 border rounded-md bg-background text-sm"
+            />
+            <select
+              value={item.requirement}
+              onChange={(e) => updateItem(index, { requirement: e.target.value as EquipmentRequirement })}
+              className="px-2 py-1 border rounded-md bg-background text-sm"
+            >
+              {(Object.keys(equipmentRequirementLabels) as EquipmentRequirement[]).map(requirement => (
+                <option key={requirement} value={requirement}>{t(`equipment.${requirement}`)}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(equipment.filter((_, i) => i !== index))}
+              className="text-muted-foreground hover:text-destructive"
+              aria-label={t("equipment.removeItem")}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <input
+            type="text"
+            value={item.notes}
+            onChange={(e) => updateItem(index, { notes: e.target.value })}
+            placeholder={t("equipment.notes")}
+            className="w-full px-2 py-1 border rounded-md bg-background text-sm"
+          />
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex items-center text-sm">
+              <input
+                type="checkbox"
+                checked={item.rentable}
+                onChange={(e) => updateItem(index, { rentable: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
+              />
+              {t("equipment.rentable")}
+            </label>
+            {item.rentable && (
+              <>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">{t("equipment.rentalPrice")}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={item.rentalPrice}
+                    onChange={(e) => updateItem(index, { rentalPrice: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="w-24 px-2 py-1 border rounded-md bg-background text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">{t("equipment.stock")}</label>
+                  <input
+                    type="number"
+                    min={item.rented}
+                    value={item.stock}
+                    onChange={(e) => updateItem(index, { stock: Math.max(item.rented, parseInt(e.target.value) || 0) })}
+                    className="w-20 px-2 py-1 border rounded-md bg-background text-sm"
+                  />
+                </div>
+                {item.rented > 0 && (
+                  <p className="text-xs text-muted-foreground pb-1.5">{t("equipment.rented", { count: item.rented })}</p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...equipment, createEquipmentItem()])}
+        className="flex items-center gap-2 px-3 py-1.5 border rounded-md hover:bg-muted text-sm"
+      >
+        <Plus className="h-4 w-4" />
+        <span>{t("equipment.addItem")}</span>
+      </button>
+    </div>
+  );
+}
\ No newline at end of file
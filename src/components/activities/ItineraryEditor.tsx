@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { GripVertical, X, AlertTriangle } from "lucide-react";
+import { ItineraryStop } from "@/types/activity";
+import { Location } from "@/types/location";
+import { getDwellMinutes, validateItinerary } from "@/utils/itineraryUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+interface ItineraryEditorProps {
+  stops: ItineraryStop[];
+  locations: Location[];
+  onChange: (stops: ItineraryStop[]) => void;
+}
+
+export default function ItineraryEditor({
+  stops,
+  locations,
+  onChange
+}: ItineraryEditorProps) {
+  const { t } = useLocale();
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const updateStop = (index: number, changes: Partial<ItineraryStop>) => {
+    onChange(stops.map((stop, i) => {
+      if (i !== index) return stop;
+      const updated = { ...stop, ...changes };
+      // Keep the dwell time in step with the planned times when both are set
+      const dwell = getDwellMinutes(updated.arrivalTime, updated.departureTime);
+      return dwell !== null ? { ...updated, dwellMinutes: dwell } : updated;
+    }));
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex === null || dragIndex === index) return;
+    const reordered = [...stops];
+    const [moved] = reordered.splice(dragIndex, 1);
+    reordered.splice(index, 0, moved);
+    onChange(reordered);
+    setDragIndex(null);
+  };
+
+  const problems = validateItinerary(stops);
+
+  if (stops.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t("itinerary.empty")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {stops.map((stop, index) => {
+        const location = locations.find(loc => loc.id === stop.locationId);
+        return (
+          <div
+            key={stop.locationId}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragEnd={() => setDragIndex(null)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            className={`border rounded-md p-3 bg-card ${dragIndex === index ? "opacity-50" : ""}`}
+          >
+            <div className="flex items-center gap-2 mb-2">
+              <GripVertical className="h-4 w-4 text-muted-foreground cursor-move" />
+              <span className="bg-primary/10 text-primary rounded-full w-6 h-6 flex items-center justify-center text-xs font-bold">
+                {index + 1}
+              </span>
+              <span className="font-medium flex-1 truncate">{location?.name || t("common.unknownLocation")}</span>
+              <button
+                type="button"
+                onClick={() => onChange(stops.filter((_, i) => i !== index))}
+                className="text-muted-foreground hover:text-destructive"
+                aria-label={t("itinerary.removeStop")}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">{t("itinerary.arrival")}</label>
+                <input
+                  type="time"
+                  value={stop.arrivalTime}
+                  onChange={(e) => updateStop(index, { arrivalTime: e.target.value })}
+                  className="w-full px-2 py-1 border rounded-md bg-background text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">{t("itinerary.departure")}</label>
+                <input
+                  type="time"
+                  value={stop.departureTime}
+                  onChange={(e) => updateStop(index, { departureTime: e.target.value })}
+                  className="w-full px-2 py-1 border rounded-md bg-background text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">{t("itinerary.dwell")}</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={stop.dwellMinutes}
+                  onChange={(e) => updateStop(index, { dwellMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-full px-2 py-1 border rounded-md bg-background text-sm"
+                />
+              </div>
+            </div>
+            <input
+              type="text"
+              placeholder={t("itinerary.notes")}
+              value={stop.notes}
+              onChange={(e) => updateStop(index, { notes: e.target.value })}
+              className="w-full mt-2 px-2 py-1 border rounded-md bg-background text-sm"
+            />
+          </div>
+        );
+      })}
+
+      {problems.length > 0 && (
+        <div className="flex items-start gap-2 text-sm text-yellow-800 bg-yellow-100 p-2 rounded-md">
+          <AlertTriangle className="h-4 w-4 mt-0.5" />
+          <ul>
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">{t("itinerary.dragHint")}</p>
+    </div>
+  );
+}
\ No newline at end of file
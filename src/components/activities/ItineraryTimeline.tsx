@@ -0,0 +1,39 @@
+import { ItineraryStop } from "@/types/activity";
+import { Location } from "@/types/location";
+import { useLocale } from "@/contexts/LocaleContext";
+
+interface ItineraryTimelineProps {
+  stops: ItineraryStop[];
+  locations: Location[];
+}
+
+export default function ItineraryTimeline({
+  stops,
+  locations
+}: ItineraryTimelineProps) {
+  const { t } = useLocale();
+  return (
+    <ol className="relative border-l ml-3 space-y-6">
+      {stops.map((stop, index) => {
+        const location = locations.find(loc => loc.id === stop.locationId);
+        const times = [stop.arrivalTime, stop.departureTime].filter(Boolean).join(" - ");
+        return (
+          <li key={`${stop.locationId}-${index}`} className="ml-6">
+            <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-primary text-primary-foreground text-xs font-bold">
+              {index + 1}
+            </span>
+            <h3 className="font-medium">{location?.name || t("common.unknownLocation")}</h3>
+            {(times || stop.dwellMinutes > 0) && (
+              <p className="text-sm text-muted-foreground">
+                {times}
+                {times && stop.dwellMinutes > 0 && " · "}
+                {stop.dwellMinutes > 0 && t("common.minutes", { minutes: stop.dwellMinutes })}
+              </p>
+            )}
+            {stop.notes && <p className="text-sm mt-1">{stop.notes}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
\ No newline at end of file
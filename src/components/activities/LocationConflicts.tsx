@@ -0,0 +1,54 @@
+"use client";
+
+import Link from "next/link";
+import { AlertTriangle } from "lucide-react";
+import { LocationConflict } from "@/types/activity";
+import { Location } from "@/types/location";
+import { describeLocationConflict } from "@/utils/itineraryUtils";
+import { formatDate } from "@/utils/dateUtils";
+import { localize } from "@/utils/localeUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+interface LocationConflictsProps {
+  conflicts: LocationConflict[];
+  locations: Location[];
+}
+
+export default function LocationConflicts({
+  conflicts,
+  locations
+}: LocationConflictsProps) {
+  const { t } = useLocale();
+
+  if (conflicts.length === 0) return null;
+
+  const getName = (locationId: string) => {
+    const location = locations.find(item => item.id === locationId);
+    return location ? localize(location, "name") : t("common.unknownLocation");
+  };
+
+  return (
+    <div className="flex items-start gap-2 text-sm text-yellow-800 bg-yellow-100 p-2 rounded-md">
+      <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <ul className="space-y-1">
+        {conflicts.map(conflict => (
+          <li key={`${conflict.locationId}-${conflict.activity.id}`}>
+            {t("conflict.when", {
+              conflict: describeLocationConflict(conflict, getName(conflict.locationId)),
+              date: formatDate(conflict.activity.startDate),
+              start: conflict.activity.startTime,
+              end: conflict.activity.endTime
+            })}{" "}
+            <Link
+              href={`/activities/view/${conflict.activity.id}`}
+              target="_blank"
+              className="font-medium underline"
+            >
+              {t("conflict.viewActivity")}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
\ No newline at end of file
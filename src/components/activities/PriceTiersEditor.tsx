@@ -0,0 +1,89 @@
+"use client";
+
+import { PriceTiers } from "@/types/activity";
+import { useLocale } from "@/contexts/LocaleContext";
+
+interface PriceTiersEditorProps {
+  priceTiers: PriceTiers | null;
+  baseCost: number;
+  onChange: (priceTiers: PriceTiers | null) => void;
+}
+
+const tierFields: Array<"adults" | "children" | "seniors"> = ["adults", "children", "seniors"];
+
+export default function PriceTiersEditor({
+  priceTiers,
+  baseCost,
+  onChange
+}: PriceTiersEditorProps) {
+  const { t } = useLocale();
+
+  const handleToggle = (enabled: boolean) => {
+    onChange(enabled
+      ? { adults: baseCost, children: baseCost, seniors: baseCost, groupRate: null, groupMinSize: 0 }
+      : null);
+  };
+
+  const update = (changes: Partial<PriceTiers>) => {
+    if (priceTiers) onChange({ ...priceTiers, ...changes });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={priceTiers !== null}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
+        />
+        <span>{t("priceTiers.toggle")}</span>
+      </label>
+
+      {priceTiers ? (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          {tierFields.map(key => (
+            <div key={key}>
+              <label className="block text-xs text-muted-foreground mb-1">{t(`priceTiers.${key}`)}</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={priceTiers[key]}
+                onChange={(e) => update({ [key]: parseFloat(e.target.value) || 0 })}
+                className="w-full px-2 py-1 border rounded-md bg-background text-sm"
+              />
+            </div>
+          ))}
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">{t("priceTiers.groupRate")}</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={priceTiers.groupRate ?? ""}
+              placeholder={t("priceTiers.none")}
+              onChange={(e) => update({ groupRate: e.target.value === "" ? null : parseFloat(e.target.value) || 0 })}
+              className="w-full px-2 py-1 border rounded-md bg-background text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">{t("priceTiers.groupFrom")}</label>
+            <input
+              type="number"
+              min="0"
+              value={priceTiers.groupMinSize}
+              disabled={priceTiers.groupRate === null}
+              onChange={(e) => update({ groupMinSize: Math.max(0, parseInt(e.target.value) || 0) })}
+              className="w-full px-2 py-1 border rounded-md bg-background text-sm disabled:opacity-50"
+            />
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {t("priceTiers.flat")}
+        </p>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
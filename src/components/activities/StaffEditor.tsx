@@ -0,0 +1,110 @@
+"use client";
+
+import { X, AlertTriangle } from "lucide-react";
+import { ActivityStaff, StaffConflict } from "@/types/activity";
+import { User } from "@/types/user";
+import { getStaffIds } from "@/utils/staffUtils";
+import { formatDate } from "@/utils/dateUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+interface StaffEditorProps {
+  staff: ActivityStaff;
+  staffMembers: User[];
+  conflicts: StaffConflict[];
+  onChange: (staff: ActivityStaff) => void;
+}
+
+const listFields: Array<"assistantIds" | "driverIds"> = ["assistantIds", "driverIds"];
+
+export default function StaffEditor({
+  staff,
+  staffMembers,
+  conflicts,
+  onChange
+}: StaffEditorProps) {
+  const { t } = useLocale();
+  const assigned = getStaffIds(staff);
+  const getName = (userId: string) => {
+    const member = staffMembers.find(user => user.id === userId);
+    return member?.displayName || member?.email || t("common.unknown");
+  };
+
+  // Nobody can hold two roles, so people already assigned are left out of the other pickers
+  const available = (current: string | null = null) =>
+    staffMembers.filter(user => user.id === current || !assigned.includes(user.id));
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="leadGuide" className="block text-xs text-muted-foreground mb-1">{t("staff.leadGuide")}</label>
+        <select
+          id="leadGuide"
+          value={staff.leadGuideId || ""}
+          onChange={(e) => onChange({ ...staff, leadGuideId: e.target.value || null })}
+          className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <option value="">{t("staff.noLeadGuide")}</option>
+          {available(staff.leadGuideId).map(user => (
+            <option key={user.id} value={user.id}>{user.displayName || user.email}</option>
+          ))}
+        </select>
+      </div>
+      
+      {listFields.map(field => (
+        <div key={field}>
+          <label className="block text-xs text-muted-foreground mb-1">{t(`staff.${field}`)}</label>
+          <select
+            value=""
+            onChange={(e) => e.target.value && onChange({ ...staff, [field]: [...staff[field], e.target.value] })}
+            className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">{t(`staff.add.${field}`)}</option>
+            {available().map(user => (
+              <option key={user.id} value={user.id}>{user.displayName || user.email}</option>
+            ))}
+          </select>
+          {staff[field].length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {staff[field].map(userId => (
+                <div key={userId} className="flex items-center gap-1 bg-muted px-2 py-1 rounded-full text-xs">
+                  <span>{getName(userId)}</span>
+                  <button
+                    type="button"
+                    onClick={() => onChange({ ...staff, [field]: staff[field].filter(id => id !== userId) })}
+                    className="text-muted-foreground hover:text-destructive"
+                    aria-label={t("common.remove", { name: getName(userId) })}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      
+      {conflicts.length > 0 && (
+        <div className="flex items-start gap-2 text-sm text-yellow-800 bg-yellow-100 p-2 rounded-md">
+          <AlertTriangle className="h-4 w-4 mt-0.5" />
+          <ul>
+            {conflicts.map(conflict => (
+              <li key={`${conflict.userId}-${conflict.activity.id}`}>
+                {t("staff.conflict", {
+                  name: getName(conflict.userId),
+                  activity: conflict.activity.title,
+                  date: formatDate(conflict.activity.startDate),
+                  start: conflict.activity.startTime,
+                  end: conflict.activity.endTime
+                })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      
+      {staffMembers.length === 0 && (
+        <p className="text-xs text-muted-foreground">{t("staff.noGuides")}</p>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
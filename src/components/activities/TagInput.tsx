@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Tag } from "@/types/tag";
+import { normalizeTagList, suggestTags, toTagSlug } from "@/utils/tagUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+interface TagInputProps {
+  tags: string[];
+  availableTags: Tag[];
+  onChange: (tags: string[]) => void;
+}
+
+export default function TagInput({
+  tags,
+  availableTags,
+  onChange
+}: TagInputProps) {
+  const { t } = useLocale();
+  const [input, setInput] = useState("");
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = suggestTags(input, availableTags, tags);
+
+  // Typed text may hold several comma-separated tags; synonyms resolve to the managed name
+  const addTags = (value: string) => {
+    onChange(normalizeTagList([...tags, value], availableTags));
+    setInput("");
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp" && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const suggestion = suggestions[highlighted];
+      // Pick the highlighted suggestion unless the text already names a tag exactly
+      if (suggestion && !input.includes(",") && !availableTags.some(tag => tag.id === toTagSlug(input))) {
+        addTags(suggestion.name);
+      } else if (input.trim()) {
+        addTags(input);
+      }
+    } else if (e.key === "Escape") {
+      setInput("");
+    }
+  };
+
+  const isNewTag = input.trim() !== "" && !input.includes(",") && suggestions.length === 0
+    && !availableTags.some(tag => tag.id === toTagSlug(input));
+
+  return (
+    <div>
+      <div className="relative">
+        <div className="flex gap-2">
+          <input
+            id="tags"
+            type="text"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setHighlighted(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={t("tags.addPlaceholder")}
+            autoComplete="off"
+            className="flex-1 px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <button
+            type="button"
+            onClick={() => input.trim() && addTags(input)}
+            className="px-3 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </div>
+        
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full border rounded-md bg-card shadow-md max-h-60 overflow-y-auto">
+            {suggestions.map((tag, index) => (
+              <li key={tag.id}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => addTags(tag.name)}
+                  className={`w-full flex justify-between px-3 py-2 text-sm text-left ${
+                    index === highlighted ? "bg-muted" : "hover:bg-muted"
+                  }`}
+                >
+                  <span>{tag.name}</span>
+                  <span className="text-xs text-muted-foreground">{tag.usageCount}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      
+      {isNewTag && (
+        <p className="text-xs text-muted-foreground mt-1">
+          {t("tags.newTagHint", { tag: input.trim() })}
+        </p>
+      )}
+      
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {tags.map(tag => (
+            <div key={tag} className="flex items-center gap-1 bg-muted px-2 py-1 rounded-full text-xs">
+              <span>{tag}</span>
+              <button
+                type="button"
+                onClick={() => onChange(tags.filter(item => item !== tag))}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
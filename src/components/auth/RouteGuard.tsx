@@ -3,13 +3,16 @@
 import { useEffect } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/contexts/LocaleContext";
+import { guideRoutes, participantRoutes } from "@/utils/staffUtils";
 
 interface RouteGuardProps {
   children: React.ReactNode;
 }
 
 export default function RouteGuard({ children }: RouteGuardProps) {
-  const { currentUser, loading, isAdmin } = useAuth();
+  const { currentUser, loading, isAdmin, isGuide, isParticipant } = useAuth();
+  const { t } = useLocale();
   const router = useRouter();
   const pathname = usePathname();
 
@@ -36,13 +39,23 @@ export default function RouteGuard({ children }: RouteGuardProps) {
       router.push('/dashboard');
     }
 
+    // Guides only see their own activities and profile
+    if (currentUser && isGuide && !isPublicRoute && !guideRoutes.some(route => pathname.startsWith(route))) {
+      router.push('/my-activities');
+    }
+
+    // Participants only rate their trips and edit their profile
+    if (currentUser && isParticipant && !isPublicRoute && !participantRoutes.some(route => pathname.startsWith(route))) {
+      router.push('/my-reviews');
+    }
+
     // For admin-only routes
     if (pathname.startsWith('/admin') && !isAdmin) {
       console.log("RouteGuard - Redirecting to dashboard (not admin)");
       router.push('/dashboard');
     }
 
-  }, [currentUser, loading, pathname, router, isAdmin]);
+  }, [currentUser, loading, pathname, router, isAdmin, isGuide, isParticipant]);
 
   // Show loading state while checking authentication
   if (loading) {
@@ -50,7 +63,7 @@ export default function RouteGuard({ children }: RouteGuardProps) {
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
           <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
-          <p className="mt-4 text-lg">Loading...</p>
+          <p className="mt-4 text-lg">{t("common.loading")}</p>
         </div>
       </div>
     );
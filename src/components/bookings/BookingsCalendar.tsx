@@ -0,0 +1,258 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Activity } from "@/types/activity";
+import { getActivityWindow, getFillLevel } from "@/utils/activityUtils";
+import { toDateKey } from "@/utils/dateUtils";
+import { getFormatTag } from "@/utils/localeUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+type CalendarView = "month" | "week" | "day";
+
+interface BookingsCalendarProps {
+  activities: Activity[];
+  onSelectActivity: (activityId: string) => void;
+  onReschedule: (activity: Activity, newStart: Date) => void;
+}
+
+const hours = Array.from({ length: 24 }, (_, hour) => hour);
+
+const fillLevelStyles = {
+  open: "bg-green-100 text-green-800",
+  filling: "bg-yellow-100 text-yellow-800",
+  full: "bg-red-100 text-red-800",
+  unlimited: "bg-muted text-muted-foreground"
+};
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function startOfWeek(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return addDays(result, -result.getDay());
+}
+
+// Short weekday names in the interface language, Sunday first
+function getWeekDayLabels(): string[] {
+  const sunday = new Date(2024, 0, 7);
+  return Array.from({ length: 7 }, (_, index) => 
+    addDays(sunday, index).toLocaleDateString(getFormatTag(), { weekday: "short" })
+  );
+}
+
+// The given day at hour:minutes
+function atTime(day: Date, hour: number, minutes: number): Date {
+  const result = new Date(day);
+  result.setHours(hour, minutes, 0, 0);
+  return result;
+}
+
+export default function BookingsCalendar({
+  activities,
+  onSelectActivity,
+  onReschedule
+}: BookingsCalendarProps) {
+  const { t } = useLocale();
+  const [view, setView] = useState<CalendarView>("month");
+  const [currentDate, setCurrentDate] = useState(() => new Date());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const weekDayLabels = getWeekDayLabels();
+
+  const scheduled = activities
+    .map(activity => ({ activity, start: getActivityWindow(activity).start }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const activitiesOn = (day: Date) => {
+    const key = toDateKey(day);
+    return scheduled.filter(item => toDateKey(item.start) === key);
+  };
+
+  const navigate = (direction: -1 | 1) => {
+    if (view === "month") {
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + direction, 1));
+    } else {
+      setCurrentDate(addDays(currentDate, direction * (view === "week" ? 7 : 1)));
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, day: Date, hour?: number) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    const activity = activities.find(a => a.id === e.dataTransfer.getData("text/plain"));
+    if (!activity) return;
+
+    const start = getActivityWindow(activity).start;
+    const newStart = atTime(day, hour ?? start.getHours(), start.getMinutes());
+    if (newStart.getTime() !== start.getTime()) {
+      onReschedule(activity, newStart);
+    }
+  };
+
+  const dropProps = (targetKey: string, day: Date, hour?: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(targetKey);
+    },
+    onDragLeave: () => setDropTarget(current => (current === targetKey ? null : current)),
+    onDrop: (e: React.DragEvent) => handleDrop(e, day, hour)
+  });
+
+  const renderActivity = (activity: Activity, compact = false) => {
+    const fillLevel = getFillLevel(activity);
+    return (
+      <div
+        key={activity.id}
+        draggable
+        onDragStart={(e) => e.dataTransfer.setData("text/plain", activity.id)}
+        onClick={() => onSelectActivity(activity.id)}
+        className="p-1.5 border rounded-md bg-card text-xs cursor-pointer hover:bg-muted"
+        title={`${activity.title} (${activity.startTime} - ${activity.endTime})`}
+      >
+        <div className="flex justify-between items-center gap-1">
+          <span className="font-medium truncate">
+            {!compact && `${activity.startTime} `}{activity.title}
+          </span>
+          <span className={`shrink-0 px-1.5 rounded-full ${fillLevelStyles[fillLevel]}`}>
+            {activity.currentParticipants || 0}/{activity.participantLimit || t("common.unlimited")}
+          </span>
+        </div>
+      </div>
+    );
+  };
+
+  const renderMonth = () => {
+    const monthStart = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
+    const gridStart = startOfWeek(monthStart);
+    const days = Array.from({ length: 42 }, (_, index) => addDays(gridStart, index));
+
+    return (
+      <div className="grid grid-cols-7 border-l border-t">
+        {weekDayLabels.map(label => (
+          <div key={label} className="p-2 text-xs font-medium text-muted-foreground border-r border-b">
+            {label}
+          </div>
+        ))}
+        {days.map(day => {
+          const key = toDateKey(day);
+          return (
+            <div
+              key={key}
+              {...dropProps(key, day)}
+              className={`min-h-24 p-1 border-r border-b space-y-1 ${
+                day.getMonth() !== monthStart.getMonth() ? "bg-muted/40 text-muted-foreground" : ""
+              } ${dropTarget === key ? "bg-primary/10" : ""}`}
+            >
+              <div className="text-xs">{day.getDate()}</div>
+              {activitiesOn(day).map(({ activity }) => renderActivity(activity, true))}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderWeek = () => {
+    const weekStart = startOfWeek(currentDate);
+    const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+    return (
+      <div className="grid grid-cols-7 border-l border-t">
+        {days.map(day => {
+          const key = toDateKey(day);
+          return (
+            <div
+              key={key}
+              {...dropProps(key, day)}
+              className={`min-h-64 p-1 border-r border-b space-y-1 ${dropTarget === key ? "bg-primary/10" : ""}`}
+            >
+              <div className="text-xs font-medium text-muted-foreground mb-1">
+                {weekDayLabels[day.getDay()]} {day.getDate()}
+              </div>
+              {activitiesOn(day).map(({ activity }) => renderActivity(activity))}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderDay = () => {
+    const dayActivities = activitiesOn(currentDate);
+
+    return (
+      <div className="border-t max-h-[600px] overflow-y-auto">
+        {hours.map(hour => {
+          const key = `${toDateKey(currentDate)}-${hour}`;
+          return (
+            <div
+              key={key}
+              {...dropProps(key, currentDate, hour)}
+              className={`flex gap-2 min-h-12 border-b ${dropTarget === key ? "bg-primary/10" : ""}`}
+            >
+              <div className="w-14 shrink-0 p-1 text-xs text-muted-foreground">
+                {String(hour).padStart(2, "0")}:00
+              </div>
+              <div className="flex-1 p-1 space-y-1">
+                {dayActivities
+                  .filter(({ start }) => start.getHours() === hour)
+                  .map(({ activity }) => renderActivity(activity))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const title = view === "month"
+    ? currentDate.toLocaleDateString(getFormatTag(), { month: "long", year: "numeric" })
+    : view === "week"
+      ? t("calendar.weekOf", { date: startOfWeek(currentDate).toLocaleDateString(getFormatTag(), { month: "short", day: "numeric", year: "numeric" }) })
+      : currentDate.toLocaleDateString(getFormatTag(), { weekday: "long", month: "long", day: "numeric", year: "numeric" });
+
+  return (
+    <div className="border rounded-lg p-4 bg-card space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+        <div className="flex items-center gap-2">
+          <button onClick={() => navigate(-1)} className="p-1 rounded-md hover:bg-muted" aria-label={t("common.previous")}>
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <button onClick={() => setCurrentDate(new Date())} className="px-2 py-1 text-sm border rounded-md hover:bg-muted">
+            {t("calendar.today")}
+          </button>
+          <button onClick={() => navigate(1)} className="p-1 rounded-md hover:bg-muted" aria-label={t("common.next")}>
+            <ChevronRight className="h-5 w-5" />
+          </button>
+          <h2 className="text-lg font-medium ml-2">{title}</h2>
+        </div>
+        <div className="flex border rounded-md overflow-hidden">
+          {(["month", "week", "day"] as CalendarView[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 text-sm ${
+                view === option ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+              }`}
+            >
+              {t(`calendar.view.${option}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {view === "day" ? t("calendar.hintHour") : t("calendar.hintDay")}
+      </p>
+
+      {view === "month" && renderMonth()}
+      {view === "week" && renderWeek()}
+      {view === "day" && renderDay()}
+    </div>
+  );
+}
\ No newline at end of file
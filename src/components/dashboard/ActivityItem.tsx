@@ -1,5 +1,6 @@
 import { formatDistanceToNow } from 'date-fns';
 import { Users, MapPin, CalendarCheck } from 'lucide-react';
+import { useLocale } from '@/contexts/LocaleContext';
 
 interface ActivityItemProps {
   id: string;
@@ -14,6 +15,7 @@ export default function ActivityItem({
   description,
   createdAt
 }: ActivityItemProps) {
+  const { t } = useLocale();
   const getIcon = () => {
     switch (type) {
       case 'user':
@@ -30,13 +32,13 @@ export default function ActivityItem({
   const getTitleText = () => {
     switch (type) {
       case 'user':
-        return 'New user registered';
+        return t('dashboard.newUser');
       case 'location':
-        return 'New location added';
+        return t('dashboard.newLocation');
       case 'activity':
-        return 'New activity created';
+        return t('dashboard.newActivity');
       default:
-        return 'New item';
+        return t('dashboard.newItem');
     }
   };
 
@@ -15,6 +15,7 @@ import {
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
 import { TimeSeriesData } from '@/services/dashboardService';
+import { useLocale } from '@/contexts/LocaleContext';
 
 // Register ChartJS components
 ChartJS.register(
@@ -34,6 +35,7 @@ interface LineChartProps {
 }
 
 export default function LineChart({ data, title = 'Chart', height = 300 }: LineChartProps) {
+  const { t } = useLocale();
   const [chartData, setChartData] = useState<ChartData<'line'>>({
     labels: [],
     datasets: []
@@ -45,21 +47,21 @@ export default function LineChart({ data, title = 'Chart', height = 300 }: LineC
         labels: data.map(item => item.date),
         datasets: [
           {
-            label: 'Users',
+            label: t('nav.users'),
             data: data.map(item => item.users || 0),
             borderColor: 'rgb(59, 130, 246)',
             backgroundColor: 'rgba(59, 130, 246, 0.5)',
             tension: 0.3
           },
           {
-            label: 'Activities',
+            label: t('nav.activities'),
             data: data.map(item => item.activities || 0),
             borderColor: 'rgb(34, 197, 94)',
             backgroundColor: 'rgba(34, 197, 94, 0.5)',
             tension: 0.3
           },
           {
-            label: 'Locations',
+            label: t('nav.locations'),
             data: data.map(item => item.locations || 0),
             borderColor: 'rgb(249, 115, 22)',
             backgroundColor: 'rgba(249, 115, 22, 0.5)',
@@ -68,7 +70,7 @@ export default function LineChart({ data, title = 'Chart', height = 300 }: LineC
         ]
       });
     }
-  }, [data]);
+  }, [data, t]);
 
   const options: ChartOptions<'line'> = {
     responsive: true,
@@ -1,5 +1,6 @@
 import { LucideIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useLocale } from "@/contexts/LocaleContext";
 
 interface StatCardProps {
   title: string;
@@ -21,6 +22,7 @@ export default function StatCard({
   className,
   iconClassName
 }: StatCardProps) {
+  const { t } = useLocale();
   return (
     <div className={cn("rounded-lg border bg-card p-5", className)}>
       <div className="flex justify-between items-start">
@@ -37,7 +39,7 @@ export default function StatCard({
                 {trend.isPositive ? "↑" : "↓"}
               </span>
               <span>{Math.abs(trend.value)}%</span>
-              <span className="text-muted-foreground ml-1">vs last month</span>
+              <span className="text-muted-foreground ml-1">{t("dashboard.vsLastMonth")}</span>
             </p>
           )}
         </div>
@@ -1,6 +1,7 @@
 'use client';
 
 import { TimePeriod } from '@/services/dashboardService';
+import { useLocale } from '@/contexts/LocaleContext';
 
 interface TimeRangeSelectorProps {
   value: TimePeriod;
@@ -13,12 +14,13 @@ export default function TimeRangeSelector({
   onChange,
   className
 }: TimeRangeSelectorProps) {
+  const { t } = useLocale();
   const options: { value: TimePeriod; label: string }[] = [
-    { value: 'day', label: 'Today' },
-    { value: 'week', label: 'Last 7 days' },
-    { value: 'month', label: 'Last 30 days' },
-    { value: 'year', label: 'Last 12 months' },
-    { value: 'all', label: 'All time' },
+    { value: 'day', label: t('timeRange.day') },
+    { value: 'week', label: t('timeRange.week') },
+    { value: 'month', label: t('timeRange.month') },
+    { value: 'year', label: t('timeRange.year') },
+    { value: 'all', label: t('timeRange.all') },
   ];
 
   return (
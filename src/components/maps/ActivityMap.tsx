@@ -1,16 +1,22 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { MapContainer, TileLayer, Marker, Popup, Polyline } from "react-leaflet";
+import { MapContainer, TileLayer, Marker, Popup, Polyline, Tooltip } from "react-leaflet";
 import { Icon, LatLngExpression } from "leaflet";
 import "leaflet/dist/leaflet.css";
 import { Location } from "@/types/location";
+import { TravelMode } from "@/types/activity";
+import { getRoute } from "@/services/routeProviders";
+import { RouteSummary, formatDistance, formatDuration } from "@/utils/routeUtils";
+import { useLocale } from "@/contexts/LocaleContext";
 
 interface ActivityMapProps {
   locations: Location[];
+  travelMode?: TravelMode;
 }
 
-export default function ActivityMap({ locations }: ActivityMapProps) {
+export default function ActivityMap({ locations, travelMode = "walking" }: ActivityMapProps) {
+  const { t } = useLocale();
   const [mapCenter, setMapCenter] = useState<[number, number]>([25.276987, 45.086601]); // Default to center of Saudi Arabia
   const [mapZoom, setMapZoom] = useState(6);
   
@@ -48,54 +54,109 @@ export default function ActivityMap({ locations }: ActivityMapProps) {
     }
   }, [locations]);
 
+  // Measure the legs between consecutive stops
+  const [route, setRoute] = useState<RouteSummary | null>(null);
+  useEffect(() => {
+    // Legs of the previous stops no longer match them, so drop them until the new route arrives
+    setRoute(null);
+    if (locations.length < 2) {
+      return;
+    }
+    
+    let cancelled = false;
+    getRoute(locations.map(loc => loc.coordinates), travelMode).then(summary => {
+      if (!cancelled) setRoute(summary);
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [locations, travelMode]);
+
   // Create path coordinates for the polyline
   const pathCoordinates: LatLngExpression[] = locations.map(loc => 
     [loc.coordinates.lat, loc.coordinates.lng]
   );
 
   return (
-    <MapContainer 
-      center={mapCenter} 
-      zoom={mapZoom} 
-      style={{ height: "100%", width: "100%" }}
-    >
-      <TileLayer
-        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-      />
-      
-      {/* Draw path between locations */}
-      {locations.length > 1 && (
-        <Polyline 
-          positions={pathCoordinates}
-          color="blue"
-          weight={3}
-          opacity={0.7}
-          dashArray="5, 10"
+    <div className="relative h-full w-full">
+      <MapContainer 
+        center={mapCenter} 
+        zoom={mapZoom} 
+        style={{ height: "100%", width: "100%" }}
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
-      )}
       
-      {/* Add markers for each location */}
-      {locations.map((location, index) => (
-        <Marker 
-          key={location.id} 
-          position={[location.coordinates.lat, location.coordinates.lng]}
-          icon={blueIcon}
-        >
-          <Popup>
-            <div className="p-1">
-              <h3 className="font-medium">{location.name}</h3>
-              <p className="text-xs text-muted-foreground">{location.address}</p>
-              {location.category && (
-                <span className="inline-block mt-1 text-xs bg-muted px-2 py-1 rounded-full">
-                  {location.category.name}
-                </span>
-              )}
-              <p className="text-xs mt-1">Stop #{index + 1}</p>
-            </div>
-          </Popup>
-        </Marker>
-      ))}
-    </MapContainer>
+        {/* Draw path between locations, one line per measured leg */}
+        {locations.length > 1 && !route && (
+          <Polyline 
+            positions={pathCoordinates}
+            color="blue"
+            weight={3}
+            opacity={0.7}
+            dashArray="5, 10"
+          />
+        )}
+        {route?.legs.map(leg => (
+          <Polyline 
+            key={`${leg.fromIndex}-${leg.toIndex}`}
+            positions={leg.path
+              ? leg.path.map(point => [point.lat, point.lng] as LatLngExpression)
+              : [pathCoordinates[leg.fromIndex], pathCoordinates[leg.toIndex]]}
+            color="blue"
+            weight={3}
+            opacity={0.7}
+            dashArray="5, 10"
+          >
+            <Tooltip sticky>
+              {t("map.leg", {
+                from: leg.fromIndex + 1,
+                to: leg.toIndex + 1,
+                distance: formatDistance(leg.distanceKm),
+                duration: formatDuration(leg.durationMinutes)
+              })}
+            </Tooltip>
+          </Polyline>
+        ))}
+      
+        {/* Add markers for each location */}
+        {locations.map((location, index) => (
+          <Marker 
+            key={location.id} 
+            position={[location.coordinates.lat, location.coordinates.lng]}
+            icon={blueIcon}
+          >
+            <Popup>
+              <div className="p-1">
+                <h3 className="font-medium">{location.name}</h3>
+                <p className="text-xs text-muted-foreground">{location.address}</p>
+                {location.category && (
+                  <span className="inline-block mt-1 text-xs bg-muted px-2 py-1 rounded-full">
+                    {location.category.name}
+                  </span>
+                )}
+                <p className="text-xs mt-1">{t("map.stop", { number: index + 1 })}</p>
+              </div>
+            </Popup>
+          </Marker>
+        ))}
+      </MapContainer>
+    
+      {route && (
+        <div className="absolute bottom-2 left-2 z-[1000] bg-background/90 border rounded-md p-2 text-xs space-y-0.5 max-h-40 overflow-y-auto">
+          <p className="font-medium">
+            {formatDistance(route.totalDistanceKm)} · {formatDuration(route.totalDurationMinutes)} {t(`travelMode.${travelMode}`)}
+          </p>
+          {route.legs.map(leg => (
+            <p key={`${leg.fromIndex}-${leg.toIndex}`} className="text-muted-foreground">
+              {leg.fromIndex + 1} → {leg.toIndex + 1}: {formatDistance(leg.distanceKm)}, {formatDuration(leg.durationMinutes)}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
   );
 } 
\ No newline at end of file
@@ -7,6 +7,7 @@ import "leaflet/dist/leaflet.css";
 import { Location } from "@/types/location";
 import { Activity } from "@/types/activity";
 import { formatDate } from "@/utils/dateUtils";
+import { useLocale } from "@/contexts/LocaleContext";
 
 interface ReportMapProps {
   locations: Location[];
@@ -51,6 +52,7 @@ function MapBoundsFitter({ locations }: { locations: Location[] }) {
 }
 
 export default function ReportMap({ locations, activities }: ReportMapProps) {
+  const { t } = useLocale();
   const [mapCenter, setMapCenter] = useState<LatLngExpression>([25.276987, 45.086601]); // Default to center of Saudi Arabia
   
   // Fix icon issues
@@ -141,28 +143,28 @@ export default function ReportMap({ locations, activities }: ReportMapProps) {
           <Popup>
             <div className="p-1">
               <h3 className="font-medium text-lg">{location.name}</h3>
-              <p className="text-sm text-muted-foreground">{location.address || "No address provided"}</p>
+              <p className="text-sm text-muted-foreground">{location.address || t("map.noAddress")}</p>
               
               {typeof location.category === 'string' ? (
                 <p className="text-sm mt-1">
-                  <span className="font-medium">Category:</span> {location.category}
+                  <span className="font-medium">{t("map.category")}</span> {location.category}
                 </p>
               ) : location.category && typeof location.category === 'object' ? (
                 <p className="text-sm mt-1">
-                  <span className="font-medium">Category:</span> {
-                    location.category.name || "Unknown Category"
+                  <span className="font-medium">{t("map.category")}</span> {
+                    location.category.name || t("map.unknownCategory")
                   }
                 </p>
               ) : (
                 <p className="text-sm mt-1">
-                  <span className="font-medium">Category:</span> Uncategorized
+                  <span className="font-medium">{t("map.category")}</span> {t("map.uncategorized")}
                 </p>
               )}
               
               {activities && (
                 <div className="mt-2">
                   <p className="text-sm font-medium">
-                    Activities: {getActivitiesForLocation(location.id).length}
+                    {t("map.activities", { count: getActivitiesForLocation(location.id).length })}
                   </p>
                   
                   {getActivitiesForLocation(location.id).length > 0 && (
@@ -173,7 +175,7 @@ export default function ReportMap({ locations, activities }: ReportMapProps) {
                         </li>
                       ))}
                       {getActivitiesForLocation(location.id).length > 3 && (
-                        <li>• ...and {getActivitiesForLocation(location.id).length - 3} more</li>
+                        <li>• {t("map.more", { count: getActivitiesForLocation(location.id).length - 3 })}</li>
                       )}
                     </ul>
                   )}
@@ -0,0 +1,264 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { Save, Loader2 } from "lucide-react";
+import { PromoCode, DiscountType } from "@/types/promoCode";
+import { Activity } from "@/types/activity";
+import { PromoCodeInput } from "@/services/promoCodeService";
+import { activityService } from "@/services/activityService";
+import { toDateKey } from "@/utils/dateUtils";
+import { normalizePromoCode } from "@/utils/pricingUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+interface PromoCodeFormProps {
+  promoCode?: PromoCode | null;
+  onSubmit: (input: PromoCodeInput) => Promise<void>;
+}
+
+export default function PromoCodeForm({
+  promoCode,
+  onSubmit
+}: PromoCodeFormProps) {
+  const [code, setCode] = useState(promoCode?.code || "");
+  const [description, setDescription] = useState(promoCode?.description || "");
+  const [discountType, setDiscountType] = useState<DiscountType>(promoCode?.discountType || "percent");
+  const [discountValue, setDiscountValue] = useState<number>(promoCode?.discountValue || 0);
+  const [validFrom, setValidFrom] = useState(promoCode?.validFrom ? toDateKey(promoCode.validFrom) : "");
+  const [validUntil, setValidUntil] = useState(promoCode?.validUntil ? toDateKey(promoCode.validUntil) : "");
+  const [usageLimit, setUsageLimit] = useState<number>(promoCode?.usageLimit || 0);
+  const [activityIds, setActivityIds] = useState<string[]>(promoCode?.activityIds || []);
+  const [isActive, setIsActive] = useState(promoCode?.isActive ?? true);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const { t } = useLocale();
+
+  useEffect(() => {
+    activityService.getActivities()
+      .then(setActivities)
+      .catch(err => console.error("Error loading activities:", err));
+  }, []);
+
+  const handleActivityToggle = (activityId: string) => {
+    setActivityIds(prev => prev.includes(activityId)
+      ? prev.filter(id => id !== activityId)
+      : [...prev, activityId]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!normalizePromoCode(code)) {
+      setError(t("promoForm.codeRequired"));
+      return;
+    }
+    if (discountValue <= 0 || (discountType === "percent" && discountValue > 100)) {
+      setError(discountType === "percent"
+        ? t("promoForm.percentRange")
+        : t("promoForm.amountPositive"));
+      return;
+    }
+    if (validFrom && validUntil && validUntil < validFrom) {
+      setError(t("promoForm.endBeforeStart"));
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      setError(null);
+      
+      // Valid from the start of the first day to the end of the last
+      await onSubmit({
+        code,
+        description,
+        discountType,
+        discountValue,
+        validFrom: validFrom ? new Date(`${validFrom}T00:00:00`) : null,
+        validUntil: validUntil ? new Date(`${validUntil}T23:59:59`) : null,
+        usageLimit: usageLimit > 0 ? usageLimit : null,
+        activityIds,
+        isActive
+      });
+      
+      router.push("/promo-codes");
+    } catch (err) {
+      console.error("Error saving promo code:", err);
+      setError(err instanceof Error ? err.message : t("promoForm.saveFailed"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6 max-w-2xl">
+      {error && (
+        <div className="bg-destructive/10 text-destructive p-4 rounded-md">
+          {error}
+        </div>
+      )}
+      
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="code" className="block text-sm font-medium mb-1">
+            {t("promoCodes.code")} <span className="text-destructive">*</span>
+          </label>
+          <input
+            id="code"
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            className="w-full px-3 py-2 border rounded-md bg-background font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+            required
+          />
+        </div>
+        
+        <div>
+          <label htmlFor="description" className="block text-sm font-medium mb-1">
+            {t("common.description")}
+          </label>
+          <input
+            id="description"
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+        
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="discountType" className="block text-sm font-medium mb-1">
+              {t("promoForm.discountType")}
+            </label>
+            <select
+              id="discountType"
+              value={discountType}
+              onChange={(e) => setDiscountType(e.target.value as DiscountType)}
+              className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="percent">{t("promoForm.percent")}</option>
+              <option value="fixed">{t("promoForm.fixed")}</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="discountValue" className="block text-sm font-medium mb-1">
+              {discountType === "percent" ? t("promoForm.discountPercent") : t("promoForm.discountAmount")}
+            </label>
+            <input
+              id="discountValue"
+              type="number"
+              min="0"
+              step="0.01"
+              value={discountValue}
+              onChange={(e) => setDiscountValue(parseFloat(e.target.value) || 0)}
+              className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+        </div>
+        
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="validFrom" className="block text-sm font-medium mb-1">
+              {t("promoForm.validFrom")}
+            </label>
+            <input
+              id="validFrom"
+              type="date"
+              value={validFrom}
+              onChange={(e) => setValidFrom(e.target.value)}
+              className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+          <div>
+            <label htmlFor="validUntil" className="block text-sm font-medium mb-1">
+              {t("promoForm.validUntil")}
+            </label>
+            <input
+              id="validUntil"
+              type="date"
+              value={validUntil}
+              onChange={(e) => setValidUntil(e.target.value)}
+              className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+        </div>
+        
+        <div>
+          <label htmlFor="usageLimit" className="block text-sm font-medium mb-1">
+            {t("promoForm.usageLimit")}
+          </label>
+          <input
+            id="usageLimit"
+            type="number"
+            min="0"
+            value={usageLimit}
+            onChange={(e) => setUsageLimit(parseInt(e.target.value) || 0)}
+            className="w-full px-3 py-2 border rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          {promoCode && (
+            <p className="text-xs text-muted-foreground mt-1">{t("promoForm.usedSoFar", { count: promoCode.usageCount })}</p>
+          )}
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium mb-1">{t("promoForm.appliesTo")}</label>
+          <p className="text-xs text-muted-foreground mb-2">{t("promoForm.appliesToHint")}</p>
+          <div className="border rounded-md max-h-48 overflow-y-auto divide-y">
+            {activities.map(activity => (
+              <label key={activity.id} className="flex items-center p-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={activityIds.includes(activity.id)}
+                  onChange={() => handleActivityToggle(activity.id)}
+                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
+                />
+                <span>{activity.title}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        
+        <div>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary mr-2"
+            />
+            <span>{t("common.active")}</span>
+          </label>
+        </div>
+      </div>
+      
+      <div className="flex gap-4">
+        <button
+          type="button"
+          onClick={() => router.back()}
+          className="px-4 py-2 border rounded-md hover:bg-muted"
+        >
+          {t("common.cancel")}
+        </button>
+        <button
+          type="submit"
+          disabled={loading}
+          className="flex items-center gap-2 bg-primary text-primary-foreground px-4 py-2 rounded-md hover:bg-primary/90 disabled:opacity-50"
+        >
+          {loading ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>{t("common.saving")}</span>
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4" />
+              <span>{t("common.save")}</span>
+            </>
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
\ No newline at end of file
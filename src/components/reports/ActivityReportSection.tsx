@@ -12,23 +12,35 @@ import {
   Tag,
   Dumbbell,
   DollarSign,
-  Loader2
+  Loader2,
+  Star
 } from "lucide-react";
+import dynamic from "next/dynamic";
 import { activityService } from "@/services/activityService";
 import { bookingService } from "@/services/bookingService";
+import { reviewService } from "@/services/reviewService";
 import { Activity } from "@/types/activity";
 import { Booking } from "@/types/booking";
+import { Review } from "@/types/review";
 import { formatDate } from "@/utils/dateUtils";
 import { generateActivityReport } from "@/utils/reportUtils";
+import { countSeats, getSeatCount, attendingStatuses, seatHoldingStatuses } from "@/utils/bookingUtils";
+import { formatRating, ratingValues, summarizeRatings } from "@/utils/reviewUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+// Dynamically import the chart to avoid SSR issues
+const BarChartComponent = dynamic(() => import("@/components/reports/BarChart"), { ssr: false });
 
 interface ActivityReportSectionProps {
   setError: (error: string | null) => void;
 }
 
 export default function ActivityReportSection({ setError }: ActivityReportSectionProps) {
+  const { locale, t } = useLocale();
   const [activities, setActivities] = useState<Activity[]>([]);
   const [selectedActivity, setSelectedActivity] = useState<Activity | null>(null);
   const [activityBookings, setActivityBookings] = useState<Booking[]>([]);
+  const [activityReviews, setActivityReviews] = useState<Review[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [loading, setLoading] = useState(false);
   const [generating, setGenerating] = useState(false);
@@ -41,25 +53,32 @@ export default function ActivityReportSection({ setError }: ActivityReportSectio
         setActivities(data);
       } catch (err) {
         console.error("Error loading activities:", err);
-        setError("Failed to load activities. Please try again.");
+        setError(t("activityReport.loadActivitiesFailed"));
       } finally {
         setLoading(false);
       }
     };
     
     loadActivities();
-  }, [setError]);
+  }, [setError, t]);
 
   const handleSelectActivity = async (activity: Activity) => {
     setSelectedActivity(activity);
     setLoading(true);
     
     try {
-      const bookings = await bookingService.getBookingsByActivity(activity.id);
+      // The activity list is loaded without locations, which the rating charts name
+      const [bookings, reviews, detailed] = await Promise.all([
+        bookingService.getBookingsByActivity(activity.id),
+        reviewService.getReviewsByActivity(activity.id),
+        activityService.getActivityById(activity.id)
+      ]);
       setActivityBookings(bookings);
+      setActivityReviews(reviews);
+      if (detailed) setSelectedActivity(detailed);
     } catch (err) {
       console.error("Error loading activity bookings:", err);
-      setError("Failed to load activity bookings. Please try again.");
+      setError(t("activityReport.loadBookingsFailed"));
     } finally {
       setLoading(false);
     }
@@ -70,10 +89,12 @@ export default function ActivityReportSection({ setError }: ActivityReportSectio
     
     setGenerating(true);
     try {
-      await generateActivityReport(selectedActivity, activityBookings);
+      // The activity list is loaded without locations, which the route section needs
+      const activity = await activityService.getActivityById(selectedActivity.id);
+      await generateActivityReport(activity || selectedActivity, activityBookings);
     } catch (err) {
       console.error("Error generating report:", err);
-      setError("Failed to generate report. Please try again.");
+      setError(t("reports.generateFailed"));
     } finally {
       setGenerating(false);
     }
@@ -83,19 +104,28 @@ export default function ActivityReportSection({ setError }: ActivityReportSectio
     activity.title.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const activityRating = summarizeRatings(activityReviews.filter(review => review.targetType === "activity"));
+  const pendingReviews = activityReviews.filter(review => review.status === "pending").length;
+  const locationRatings = (selectedActivity?.locationObjects || []).map(location => ({
+    label: location.name,
+    summary: summarizeRatings(activityReviews.filter(review => 
+      review.targetType === "location" && review.targetId === location.id
+    ))
+  }));
+
   return (
     <div className="space-y-6">
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {/* Activity Selection */}
         <div className="md:col-span-1 border rounded-lg p-4 bg-card">
-          <h2 className="text-lg font-medium mb-4">Select Activity</h2>
+          <h2 className="text-lg font-medium mb-4">{t("activityReport.selectActivity")}</h2>
           
           <div className="mb-4">
             <div className="relative">
               <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
               <input
                 type="text"
-                placeholder="Search activities..."
+                placeholder={t("activityReport.searchActivities")}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="w-full pl-9 p-2 border rounded-md"
@@ -110,7 +140,7 @@ export default function ActivityReportSection({ setError }: ActivityReportSectio
               </div>
             ) : filteredActivities.length === 0 ? (
               <div className="text-center p-4 text-muted-foreground">
-                No activities found
+                {t("activityReport.noActivities")}
               </div>
             ) : (
               filteredActivities.map(activity => (
@@ -140,10 +170,10 @@ export default function ActivityReportSection({ setError }: ActivityReportSectio
                           : "bg-red-100 text-red-800"
                     }`}>
                       {activity.isExpired 
-                        ? "Expired" 
+                        ? t("activityReport.expired") 
                         : activity.isActive 
-                          ? "Active" 
-                          : "Inactive"}
+                          ? t("common.active") 
+                          : t("activityReport.inactive")}
                     </span>
                   </div>
                 </div>
@@ -172,12 +202,12 @@ export default function ActivityReportSection({ setError }: ActivityReportSectio
                   {generating ? (
                     <>
                       <Loader2 className="h-4 w-4 animate-spin" />
-                      <span>Generating...</span>
+                      <span>{t("reports.generating")}</span>
                     </>
                   ) : (
                     <>
                       <Download className="h-4 w-4" />
-                      <span>Generate Report</span>
+                      <span>{t("reports.generate")}</span>
                     </>
                   )}
                 </button>
@@ -185,56 +215,56 @@ export default function ActivityReportSection({ setError }: ActivityReportSectio
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="border rounded-md p-4">
-                  <h3 className="text-sm font-medium text-muted-foreground mb-2">Activity Details</h3>
+                  <h3 className="text-sm font-medium text-muted-foreground mb-2">{t("activityReport.details")}</h3>
                   
                   <div className="space-y-2">
                     <div className="flex items-center gap-2">
                       <Calendar className="h-4 w-4 text-muted-foreground" />
                       <span className="text-sm">
-                        Date: {formatDate(selectedActivity.startDate)} - {formatDate(selectedActivity.endDate)}
+                        {t("activityReport.date", { start: formatDate(selectedActivity.startDate), end: formatDate(selectedActivity.endDate) })}
                       </span>
                     </div>
                     <div className="flex items-center gap-2">
                       <Clock className="h-4 w-4 text-muted-foreground" />
                       <span className="text-sm">
-                        Time: {selectedActivity.startTime} - {selectedActivity.endTime}
+                        {t("activityReport.time", { start: selectedActivity.startTime, end: selectedActivity.endTime })}
                       </span>
                     </div>
                     <div className="flex items-center gap-2">
                       <MapPin className="h-4 w-4 text-muted-foreground" />
                       <span className="text-sm">
-                        Locations: {
-                          selectedActivity.locationObjects && selectedActivity.locationObjects.length > 0 
+                        {t("activityReport.locations", {
+                          locations: selectedActivity.locationObjects && selectedActivity.locationObjects.length > 0 
                             ? selectedActivity.locationObjects.map(loc => loc.name).join(", ") 
                             : selectedActivity.locations && selectedActivity.locations.length > 0
-                              ? `${selectedActivity.locations.length} location(s) (details not loaded)`
-                              : "N/A"
-                        }
+                              ? t("activityReport.locationsNotLoaded", { count: selectedActivity.locations.length })
+                              : t("common.notAvailable")
+                        })}
                       </span>
                     </div>
                     <div className="flex items-center gap-2">
                       <Dumbbell className="h-4 w-4 text-muted-foreground" />
                       <span className="text-sm">
-                        Difficulty: {selectedActivity.difficulty.charAt(0).toUpperCase() + selectedActivity.difficulty.slice(1)}
+                        {t("activityReport.difficulty", { difficulty: t(`difficulty.${selectedActivity.difficulty}`) })}
                       </span>
                     </div>
                     <div className="flex items-center gap-2">
                       <Users className="h-4 w-4 text-muted-foreground" />
                       <span className="text-sm">
-                        Age Group: {selectedActivity.ageGroup.charAt(0).toUpperCase() + selectedActivity.ageGroup.slice(1)}
+                        {t("activityReport.ageGroup", { ageGroup: t(`ageGroup.${selectedActivity.ageGroup}`) })}
                       </span>
                     </div>
                     <div className="flex items-center gap-2">
                       <DollarSign className="h-4 w-4 text-muted-foreground" />
                       <span className="text-sm">
-                        Estimated Cost: ${selectedActivity.estimatedCost}
+                        {t("activityReport.estimatedCost", { cost: selectedActivity.estimatedCost })}
                       </span>
                     </div>
                     {selectedActivity.tags && selectedActivity.tags.length > 0 && (
                       <div className="flex items-center gap-2">
                         <Tag className="h-4 w-4 text-muted-foreground" />
                         <span className="text-sm">
-                          Tags: {selectedActivity.tags.join(", ")}
+                          {t("activityReport.tags", { tags: selectedActivity.tags.join(", ") })}
                         </span>
                       </div>
                     )}
@@ -242,45 +272,102 @@ export default function ActivityReportSection({ setError }: ActivityReportSectio
                 </div>
                 
                 <div className="border rounded-md p-4">
-                  <h3 className="text-sm font-medium text-muted-foreground mb-2">Booking Statistics</h3>
+                  <h3 className="text-sm font-medium text-muted-foreground mb-2">{t("userReport.bookingStatistics")}</h3>
                   
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
-                      <span className="text-sm">Total Participants:</span>
-                      <span className="font-medium">{activityBookings.length}</span>
+                      <span className="text-sm">{t("activityReport.totalParticipants")}</span>
+                      <span className="font-medium">{countSeats(activityBookings, seatHoldingStatuses)}</span>
                     </div>
                     <div className="flex items-center justify-between">
-                      <span className="text-sm">Confirmed Participants:</span>
+                      <span className="text-sm">{t("activityReport.confirmedParticipants")}</span>
                       <span className="font-medium">
-                        {activityBookings.filter(b => b.status === "confirmed").length}
+                        {countSeats(activityBookings, ["confirmed"])}
                       </span>
                     </div>
                     <div className="flex items-center justify-between">
-                      <span className="text-sm">Pending Participants:</span>
+                      <span className="text-sm">{t("activityReport.completedParticipants")}</span>
                       <span className="font-medium">
-                        {activityBookings.filter(b => b.status === "pending").length}
+                        {countSeats(activityBookings, ["completed"])}
                       </span>
                     </div>
                     <div className="flex items-center justify-between">
-                      <span className="text-sm">Cancelled Participants:</span>
+                      <span className="text-sm">{t("activityReport.pendingParticipants")}</span>
                       <span className="font-medium">
-                        {activityBookings.filter(b => b.status === "cancelled").length}
+                        {countSeats(activityBookings, ["pending"])}
                       </span>
                     </div>
                     <div className="flex items-center justify-between">
-                      <span className="text-sm">Capacity Used:</span>
+                      <span className="text-sm">{t("activityReport.waitlistedParticipants")}</span>
+                      <span className="font-medium">
+                        {countSeats(activityBookings, ["waitlisted"])}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm">{t("activityReport.cancelledParticipants")}</span>
+                      <span className="font-medium">
+                        {countSeats(activityBookings, ["cancelled"])}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm">{t("activityReport.checkedIn")}</span>
+                      <span className="font-medium">
+                        {countSeats(activityBookings.filter(b => attendingStatuses.includes(b.status) && b.checkedIn))}
+                        {" / "}
+                        {countSeats(activityBookings, attendingStatuses)}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm">{t("activityReport.capacityUsed")}</span>
                       <span className="font-medium">
                         {selectedActivity.participantLimit > 0 
-                          ? `${Math.round((activityBookings.length / selectedActivity.participantLimit) * 100)}%`
-                          : "N/A"}
+                          ? `${Math.round((countSeats(activityBookings, seatHoldingStatuses) / selectedActivity.participantLimit) * 100)}%`
+                          : t("common.notAvailable")}
                       </span>
                     </div>
                   </div>
                 </div>
               </div>
               
+              <div className="border rounded-md p-4">
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-sm font-medium text-muted-foreground">{t("activityReport.participantRatings")}</h3>
+                  <div className="flex items-center gap-1 text-sm">
+                    <Star className="h-4 w-4 text-yellow-400 fill-yellow-400" />
+                    <span>{formatRating(activityRating, locale)}</span>
+                    {pendingReviews > 0 && (
+                      <span className="text-muted-foreground">{t("activityReport.awaitingModeration", { count: pendingReviews })}</span>
+                    )}
+                  </div>
+                </div>
+                
+                {activityRating.count === 0 && locationRatings.every(location => location.summary.count === 0) ? (
+                  <p className="text-sm text-muted-foreground">{t("activityReport.noReviews")}</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <BarChartComponent
+                      title={t("activityReport.activityRatings")}
+                      data={ratingValues.map(star => ({
+                        label: star === 1 ? t("rating.oneStar") : t("rating.manyStars", { count: star }),
+                        value: activityRating.distribution[star - 1]
+                      }))}
+                      height={220}
+                      color="rgb(250, 204, 21)"
+                    />
+                    <BarChartComponent
+                      title={t("activityReport.averageLocationRating")}
+                      data={locationRatings.map(location => ({
+                        label: location.label,
+                        value: location.summary.average
+                      }))}
+                      height={220}
+                    />
+                  </div>
+                )}
+              </div>
+              
               <div>
-                <h3 className="text-lg font-medium mb-4">Participant List</h3>
+                <h3 className="text-lg font-medium mb-4">{t("activityReport.participantList")}</h3>
                 
                 {loading ? (
                   <div className="flex justify-center p-4">
@@ -288,27 +375,31 @@ export default function ActivityReportSection({ setError }: ActivityReportSectio
                   </div>
                 ) : activityBookings.length === 0 ? (
                   <div className="text-center p-4 border rounded-md bg-muted">
-                    <p className="text-muted-foreground">No participants found for this activity</p>
+                    <p className="text-muted-foreground">{t("activityReport.noParticipants")}</p>
                   </div>
                 ) : (
                   <div className="border rounded-md overflow-hidden">
                     <table className="w-full">
                       <thead className="bg-muted/50">
                         <tr>
-                          <th className="px-4 py-3 text-left text-sm font-medium">Name</th>
-                          <th className="px-4 py-3 text-left text-sm font-medium">Email</th>
-                          <th className="px-4 py-3 text-left text-sm font-medium">Status</th>
-                          <th className="px-4 py-3 text-left text-sm font-medium">Booking Date</th>
+                          <th className="px-4 py-3 text-left text-sm font-medium">{t("common.name")}</th>
+                          <th className="px-4 py-3 text-left text-sm font-medium">{t("common.email")}</th>
+                          <th className="px-4 py-3 text-left text-sm font-medium">{t("myActivities.party")}</th>
+                          <th className="px-4 py-3 text-left text-sm font-medium">{t("common.status")}</th>
+                          <th className="px-4 py-3 text-left text-sm font-medium">{t("activityReport.bookingDate")}</th>
                         </tr>
                       </thead>
                       <tbody className="divide-y">
                         {activityBookings.map(booking => (
                           <tr key={booking.id}>
                             <td className="px-4 py-3 text-sm">
-                              {booking.userObject?.displayName || "Unknown User"}
+                              {booking.userObject?.displayName || t("bookings.unknownUser")}
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              {booking.userObject?.email || t("activityReport.noEmail")}
                             </td>
                             <td className="px-4 py-3 text-sm">
-                              {booking.userObject?.email || "No email"}
+                              {getSeatCount(booking)}
                             </td>
                             <td className="px-4 py-3 text-sm">
                               <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
@@ -316,9 +407,11 @@ export default function ActivityReportSection({ setError }: ActivityReportSectio
                                   ? "bg-green-100 text-green-800" 
                                   : booking.status === "pending"
                                     ? "bg-yellow-100 text-yellow-800"
-                                    : "bg-red-100 text-red-800"
+                                    : booking.status === "completed"
+                                      ? "bg-gray-100 text-gray-800"
+                                      : "bg-red-100 text-red-800"
                               }`}>
-                                {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+                                {t(`bookingStatus.${booking.status}`)}
                               </span>
                             </td>
                             <td className="px-4 py-3 text-sm">
@@ -335,9 +428,9 @@ export default function ActivityReportSection({ setError }: ActivityReportSectio
           ) : (
             <div className="flex flex-col items-center justify-center h-[400px] text-center">
               <FileText className="h-16 w-16 text-muted-foreground opacity-30 mb-4" />
-              <h3 className="text-lg font-medium">Select an Activity</h3>
+              <h3 className="text-lg font-medium">{t("activityReport.selectPrompt")}</h3>
               <p className="text-muted-foreground mt-1">
-                Choose an activity from the list to view details and generate a report
+                {t("activityReport.selectHint")}
               </p>
             </div>
           )}
@@ -18,12 +18,16 @@ import { userService } from "@/services/userService";
 import { activityService } from "@/services/activityService";
 import { locationService } from "@/services/locationService";
 import { bookingService } from "@/services/bookingService";
+import { paymentService } from "@/services/paymentService";
+import { Payment } from "@/types/payment";
+import { formatCurrency, roundMoney } from "@/utils/paymentUtils";
 import { User } from "@/types/user";
 import { Activity } from "@/types/activity";
 import { Location } from "@/types/location";
 import { Booking } from "@/types/booking";
 import { formatDate } from "@/utils/dateUtils";
 import { generateAdminReport } from "@/utils/reportUtils";
+import { useLocale } from "@/contexts/LocaleContext";
 
 // Dynamically import chart components to avoid SSR issues
 const LineChart = dynamic(() => import("@/components/dashboard/LineChart"), { ssr: false });
@@ -50,6 +54,9 @@ interface StatsData {
   averageParticipantsPerActivity: number;
   mostPopularActivity: string;
   mostActiveUser: string;
+  totalRevenue: number;
+  totalRefunds: number;
+  netRevenue: number;
 }
 
 interface ChartData {
@@ -61,6 +68,7 @@ interface ChartData {
 }
 
 export default function AdminReportSection({ setError }: AdminReportSectionProps) {
+  const { t } = useLocale();
   const [users, setUsers] = useState<User[]>([]);
   const [activities, setActivities] = useState<Activity[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
@@ -76,11 +84,12 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
       setLoading(true);
       try {
         // Load all data in parallel
-        const [usersData, activitiesData, locationsData, bookingsData] = await Promise.all([
+        const [usersData, activitiesData, locationsData, bookingsData, paymentsData] = await Promise.all([
           userService.getUsers(),
           activityService.getActivities(),
           locationService.getLocations(),
-          bookingService.getBookings()
+          bookingService.getBookings(),
+          paymentService.getPayments()
         ]);
         
         setUsers(usersData);
@@ -89,26 +98,27 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
         setBookings(bookingsData);
         
         // Calculate statistics
-        calculateStats(usersData, activitiesData, locationsData, bookingsData);
+        calculateStats(usersData, activitiesData, locationsData, bookingsData, paymentsData);
         
         // Calculate chart data
         calculateChartData(usersData, activitiesData, locationsData, bookingsData, timeframe);
       } catch (err) {
         console.error("Error loading data:", err);
-        setError("Failed to load report data. Please try again.");
+        setError(t("adminReport.loadFailed"));
       } finally {
         setLoading(false);
       }
     };
     
     loadData();
-  }, [setError, timeframe]);
+  }, [setError, t, timeframe]);
 
   const calculateStats = (
     users: User[], 
     activities: Activity[], 
     locations: Location[], 
-    bookings: Booking[]
+    bookings: Booking[],
+    payments: Payment[]
   ) => {
     // Filter active users (non-admins)
     const activeUsers = users.filter(user => user.role === "user");
@@ -141,9 +151,9 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
     const mostPopularActivity = activityBookingCounts.length > 0
       ? activityBookingCounts.reduce((max, activity) => 
           activity.count > max.count ? activity : max, 
-          { id: '', title: 'None', count: 0 }
+          { id: '', title: '', count: 0 }
         ).title
-      : 'None';
+      : '';
     
     // Find most active user
     const userBookingCounts = activeUsers.map(user => ({
@@ -155,9 +165,17 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
     const mostActiveUser = userBookingCounts.length > 0
       ? userBookingCounts.reduce((max, user) => 
           user.count > max.count ? user : max, 
-          { id: '', name: 'None', count: 0 }
+          { id: '', name: '', count: 0 }
         ).name
-      : 'None';
+      : '';
+    
+    // Revenue from the payments ledger
+    const totalRevenue = roundMoney(payments
+      .filter(payment => payment.type === "payment")
+      .reduce((sum, payment) => sum + payment.amount, 0));
+    const totalRefunds = roundMoney(payments
+      .filter(payment => payment.type === "refund")
+      .reduce((sum, payment) => sum + payment.amount, 0));
     
     setStatsData({
       totalUsers: activeUsers.length,
@@ -171,7 +189,10 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
       cancelledBookings: cancelledBookings.length,
       averageParticipantsPerActivity: parseFloat(averageParticipants.toFixed(2)),
       mostPopularActivity,
-      mostActiveUser
+      mostActiveUser,
+      totalRevenue,
+      totalRefunds,
+      netRevenue: roundMoney(totalRevenue - totalRefunds)
     });
   };
 
@@ -269,7 +290,7 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
       });
     } catch (err) {
       console.error("Error generating report:", err);
-      setError("Failed to generate report. Please try again.");
+      setError(t("reports.generateFailed"));
     } finally {
       setGenerating(false);
     }
@@ -282,11 +303,11 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
-        <h2 className="text-xl font-medium">Admin Analytics Report</h2>
+        <h2 className="text-xl font-medium">{t("reports.admin.title")}</h2>
         
         <div className="flex items-center gap-4">
           <div className="flex items-center gap-2">
-            <span className="text-sm text-muted-foreground">Timeframe:</span>
+            <span className="text-sm text-muted-foreground">{t("adminReport.timeframe")}</span>
             <div className="flex border rounded-md overflow-hidden">
               <button
                 className={`px-3 py-1 text-sm ${
@@ -296,7 +317,7 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
                 }`}
                 onClick={() => handleTimeframeChange('month')}
               >
-                Monthly
+                {t("adminReport.monthly")}
               </button>
               <button
                 className={`px-3 py-1 text-sm ${
@@ -306,7 +327,7 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
                 }`}
                 onClick={() => handleTimeframeChange('quarter')}
               >
-                Quarterly
+                {t("adminReport.quarterly")}
               </button>
               <button
                 className={`px-3 py-1 text-sm ${
@@ -316,7 +337,7 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
                 }`}
                 onClick={() => handleTimeframeChange('year')}
               >
-                Yearly
+                {t("adminReport.yearly")}
               </button>
             </div>
           </div>
@@ -329,12 +350,12 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
             {generating ? (
               <>
                 <Loader2 className="h-4 w-4 animate-spin" />
-                <span>Generating...</span>
+                <span>{t("reports.generating")}</span>
               </>
             ) : (
               <>
                 <Download className="h-4 w-4" />
-                <span>Generate Full Report</span>
+                <span>{t("adminReport.generateFull")}</span>
               </>
             )}
           </button>
@@ -351,7 +372,7 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <div className="border rounded-lg p-4 bg-card">
               <div className="flex items-center justify-between">
-                <h3 className="text-sm font-medium text-muted-foreground">Total Users</h3>
+                <h3 className="text-sm font-medium text-muted-foreground">{t("dashboard.totalUsers")}</h3>
                 <Users className="h-5 w-5 text-blue-500" />
               </div>
               <p className="text-2xl font-bold mt-2">{statsData?.totalUsers || 0}</p>
@@ -359,19 +380,19 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
             
             <div className="border rounded-lg p-4 bg-card">
               <div className="flex items-center justify-between">
-                <h3 className="text-sm font-medium text-muted-foreground">Total Activities</h3>
+                <h3 className="text-sm font-medium text-muted-foreground">{t("dashboard.totalActivities")}</h3>
                 <Calendar className="h-5 w-5 text-green-500" />
               </div>
               <p className="text-2xl font-bold mt-2">{statsData?.totalActivities || 0}</p>
               <div className="flex items-center justify-between mt-2 text-xs">
-                <span className="text-muted-foreground">Active: {statsData?.activeActivities || 0}</span>
-                <span className="text-muted-foreground">Completed: {statsData?.completedActivities || 0}</span>
+                <span className="text-muted-foreground">{t("adminReport.activeCount", { count: statsData?.activeActivities || 0 })}</span>
+                <span className="text-muted-foreground">{t("adminReport.completedCount", { count: statsData?.completedActivities || 0 })}</span>
               </div>
             </div>
             
             <div className="border rounded-lg p-4 bg-card">
               <div className="flex items-center justify-between">
-                <h3 className="text-sm font-medium text-muted-foreground">Total Locations</h3>
+                <h3 className="text-sm font-medium text-muted-foreground">{t("dashboard.totalLocations")}</h3>
                 <MapPin className="h-5 w-5 text-orange-500" />
               </div>
               <p className="text-2xl font-bold mt-2">{statsData?.totalLocations || 0}</p>
@@ -379,14 +400,14 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
             
             <div className="border rounded-lg p-4 bg-card">
               <div className="flex items-center justify-between">
-                <h3 className="text-sm font-medium text-muted-foreground">Total Bookings</h3>
+                <h3 className="text-sm font-medium text-muted-foreground">{t("adminReport.totalBookings")}</h3>
                 <Clock className="h-5 w-5 text-purple-500" />
               </div>
               <p className="text-2xl font-bold mt-2">{statsData?.totalBookings || 0}</p>
               <div className="flex items-center justify-between mt-2 text-xs">
-                <span className="text-green-500">Confirmed: {statsData?.confirmedBookings || 0}</span>
-                <span className="text-yellow-500">Pending: {statsData?.pendingBookings || 0}</span>
-                <span className="text-red-500">Cancelled: {statsData?.cancelledBookings || 0}</span>
+                <span className="text-green-500">{t("adminReport.confirmedCount", { count: statsData?.confirmedBookings || 0 })}</span>
+                <span className="text-yellow-500">{t("adminReport.pendingCount", { count: statsData?.pendingBookings || 0 })}</span>
+                <span className="text-red-500">{t("adminReport.cancelledCount", { count: statsData?.cancelledBookings || 0 })}</span>
               </div>
             </div>
           </div>
@@ -395,25 +416,35 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="border rounded-lg p-4 bg-card">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-sm font-medium">Key Insights</h3>
+                <h3 className="text-sm font-medium">{t("adminReport.keyInsights")}</h3>
                 <TrendingUp className="h-4 w-4 text-primary" />
               </div>
               
               <div className="space-y-3">
                 <div>
-                  <p className="text-sm text-muted-foreground">Average Participants Per Activity</p>
+                  <p className="text-sm text-muted-foreground">{t("adminReport.averageParticipants")}</p>
                   <p className="text-lg font-medium">{statsData?.averageParticipantsPerActivity || 0}</p>
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Most Popular Activity</p>
-                  <p className="text-lg font-medium">{statsData?.mostPopularActivity || "None"}</p>
+                  <p className="text-sm text-muted-foreground">{t("adminReport.mostPopularActivity")}</p>
+                  <p className="text-lg font-medium">{statsData?.mostPopularActivity || t("adminReport.none")}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">{t("adminReport.mostActiveUser")}</p>
+                  <p className="text-lg font-medium">{statsData?.mostActiveUser || t("adminReport.none")}</p>
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Most Active User</p>
-                  <p className="text-lg font-medium">{statsData?.mostActiveUser || "None"}</p>
+                  <p className="text-sm text-muted-foreground">{t("adminReport.netRevenue")}</p>
+                  <p className="text-lg font-medium">{formatCurrency(statsData?.netRevenue || 0)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {t("adminReport.revenueBreakdown", {
+                      collected: formatCurrency(statsData?.totalRevenue || 0),
+                      refunded: formatCurrency(statsData?.totalRefunds || 0)
+                    })}
+                  </p>
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Booking Confirmation Rate</p>
+                  <p className="text-sm text-muted-foreground">{t("adminReport.confirmationRate")}</p>
                   <p className="text-lg font-medium">
                     {statsData && statsData.totalBookings > 0
                       ? `${Math.round((statsData.confirmedBookings / statsData.totalBookings) * 100)}%`
@@ -425,14 +456,14 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
             
             <div className="border rounded-lg p-4 bg-card md:col-span-2">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-sm font-medium">Bookings Over Time</h3>
+                <h3 className="text-sm font-medium">{t("adminReport.bookingsOverTime")}</h3>
                 <BarChart3 className="h-4 w-4 text-primary" />
               </div>
               
               {chartData && (
                 <div className="h-64">
                   <LineChart 
-                    title={`Bookings by ${timeframe === 'month' ? 'Month' : timeframe === 'quarter' ? 'Quarter' : 'Year'}`}
+                    title={t(`adminReport.bookingsBy.${timeframe}`)}
                     data={Object.entries(chartData.bookingsByMonth).map(([date, count]) => ({
                       date,
                       bookings: count
@@ -448,14 +479,18 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="border rounded-lg p-4 bg-card">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-sm font-medium">Activities by Difficulty</h3>
+                <h3 className="text-sm font-medium">{t("dashboard.byDifficulty")}</h3>
                 <PieChart className="h-4 w-4 text-primary" />
               </div>
               
               {chartData && (
                 <div className="h-64">
+                  {/* The chart data keeps English labels for the downloaded report */}
                   <PieChartComponent 
-                    data={Object.entries(chartData.activityByDifficulty).map(([label, value]) => ({ label, value }))}
+                    data={Object.entries(chartData.activityByDifficulty).map(([label, value]) => ({
+                      label: t(`difficulty.${label.toLowerCase() as Activity["difficulty"]}`),
+                      value
+                    }))}
                     height={250}
                   />
                 </div>
@@ -464,14 +499,17 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
             
             <div className="border rounded-lg p-4 bg-card">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-sm font-medium">Activities by Age Group</h3>
+                <h3 className="text-sm font-medium">{t("dashboard.byAgeGroup")}</h3>
                 <PieChart className="h-4 w-4 text-primary" />
               </div>
               
               {chartData && (
                 <div className="h-64">
                   <PieChartComponent 
-                    data={Object.entries(chartData.activityByAgeGroup).map(([label, value]) => ({ label, value }))}
+                    data={Object.entries(chartData.activityByAgeGroup).map(([label, value]) => ({
+                      label: t(`ageGroup.${label.toLowerCase() as Activity["ageGroup"]}`),
+                      value
+                    }))}
                     height={250}
                   />
                 </div>
@@ -480,7 +518,7 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
             
             <div className="border rounded-lg p-4 bg-card">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-sm font-medium">User Registrations</h3>
+                <h3 className="text-sm font-medium">{t("adminReport.userRegistrations")}</h3>
                 <BarChart3 className="h-4 w-4 text-primary" />
               </div>
               
@@ -499,14 +537,17 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
             
             <div className="border rounded-lg p-4 bg-card">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-sm font-medium">Locations by Category</h3>
+                <h3 className="text-sm font-medium">{t("adminReport.locationsByCategory")}</h3>
                 <PieChart className="h-4 w-4 text-primary" />
               </div>
               
               {chartData && (
                 <div className="h-64">
                   <PieChartComponent 
-                    data={Object.entries(chartData.locationsByCategory).map(([label, value]) => ({ label, value }))}
+                    data={Object.entries(chartData.locationsByCategory).map(([label, value]) => ({
+                      label: label === "Uncategorized" ? t("map.uncategorized") : label,
+                      value
+                    }))}
                     height={250}
                   />
                 </div>
@@ -517,7 +558,7 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
           {/* Map Section */}
           <div className="border rounded-lg p-4 bg-card">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-sm font-medium">Location Map</h3>
+              <h3 className="text-sm font-medium">{t("dashboard.locationMap")}</h3>
               <Map className="h-4 w-4 text-primary" />
             </div>
             
@@ -531,7 +572,7 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
           {/* Recent Activities Table */}
           <div className="border rounded-lg p-4 bg-card">
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-sm font-medium">Recent Activities</h3>
+              <h3 className="text-sm font-medium">{t("adminReport.recentActivities")}</h3>
               <Calendar className="h-4 w-4 text-primary" />
             </div>
             
@@ -539,11 +580,11 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
               <table className="w-full">
                 <thead className="bg-muted/50">
                   <tr>
-                    <th className="px-4 py-3 text-left text-sm font-medium">Title</th>
-                    <th className="px-4 py-3 text-left text-sm font-medium">Start Date</th>
-                    <th className="px-4 py-3 text-left text-sm font-medium">Status</th>
-                    <th className="px-4 py-3 text-left text-sm font-medium">Participants</th>
-                    <th className="px-4 py-3 text-left text-sm font-medium">Difficulty</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium">{t("adminReport.title")}</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium">{t("adminReport.startDate")}</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium">{t("common.status")}</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium">{t("adminReport.participants")}</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium">{t("adminReport.difficulty")}</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y">
@@ -560,17 +601,17 @@ export default function AdminReportSection({ setError }: AdminReportSectionProps
                               : "bg-red-100 text-red-800"
                         }`}>
                           {activity.isExpired 
-                            ? "Expired" 
+                            ? t("activityReport.expired") 
                             : activity.isActive 
-                              ? "Active" 
-                              : "Inactive"}
+                              ? t("common.active") 
+                              : t("activityReport.inactive")}
                         </span>
                       </td>
                       <td className="px-4 py-3 text-sm">
                         {activity.currentParticipants || 0}/{activity.participantLimit || "∞"}
                       </td>
                       <td className="px-4 py-3 text-sm">
-                        {activity.difficulty.charAt(0).toUpperCase() + activity.difficulty.slice(1)}
+                        {t(`difficulty.${activity.difficulty}`)}
                       </td>
                     </tr>
                   ))}
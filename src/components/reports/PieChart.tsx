@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { Chart as ChartJS, ArcElement, Tooltip, Legend, TooltipItem } from 'chart.js';
 import { Pie } from 'react-chartjs-2';
+import { useLocale } from '@/contexts/LocaleContext';
 
 ChartJS.register(ArcElement, Tooltip, Legend);
 
@@ -28,6 +29,7 @@ function stringToColor(str: string) {
 }
 
 export default function PieChart({ data, height = 300 }: PieChartProps) {
+  const { t } = useLocale();
   const [chartData, setChartData] = useState<{
     labels: string[];
     datasets: {
@@ -105,7 +107,7 @@ export default function PieChart({ data, height = 300 }: PieChartProps) {
         <Pie data={chartData} options={options} />
       ) : (
         <div className="flex items-center justify-center h-full text-muted-foreground">
-          No data to display
+          {t("chart.noData")}
         </div>
       )}
     </div>
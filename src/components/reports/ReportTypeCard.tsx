@@ -1,4 +1,5 @@
 import { LucideIcon, ChevronRight } from "lucide-react";
+import { useLocale } from "@/contexts/LocaleContext";
 
 interface ReportTypeCardProps {
   title: string;
@@ -8,6 +9,7 @@ interface ReportTypeCardProps {
 }
 
 export default function ReportTypeCard({ title, description, icon: Icon, onClick }: ReportTypeCardProps) {
+  const { t } = useLocale();
   return (
     <div 
       className="border rounded-lg p-6 bg-card hover:border-primary cursor-pointer transition-all"
@@ -21,7 +23,7 @@ export default function ReportTypeCard({ title, description, icon: Icon, onClick
       <p className="text-sm text-muted-foreground">{description}</p>
       
       <div className="mt-4 text-sm text-primary flex items-center">
-        <span>Generate Report</span>
+        <span>{t("reports.generate")}</span>
         <ChevronRight className="h-4 w-4 ml-1" />
       </div>
     </div>
@@ -18,12 +18,14 @@ import { User as UserType } from "@/types/user";
 import { Booking } from "@/types/booking";
 import { formatDate } from "@/utils/dateUtils";
 import { generateUserReport } from "@/utils/reportUtils";
+import { useLocale } from "@/contexts/LocaleContext";
 
 interface UserReportSectionProps {
   setError: (error: string | null) => void;
 }
 
 export default function UserReportSection({ setError }: UserReportSectionProps) {
+  const { t } = useLocale();
   const [users, setUsers] = useState<UserType[]>([]);
   const [selectedUser, setSelectedUser] = useState<UserType | null>(null);
   const [userBookings, setUserBookings] = useState<Booking[]>([]);
@@ -41,14 +43,14 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
         setUsers(filteredUsers);
       } catch (err) {
         console.error("Error loading users:", err);
-        setError("Failed to load users. Please try again.");
+        setError(t("userReport.loadUsersFailed"));
       } finally {
         setLoading(false);
       }
     };
     
     loadUsers();
-  }, [setError]);
+  }, [setError, t]);
 
   const handleSelectUser = async (user: UserType) => {
     setSelectedUser(user);
@@ -59,7 +61,7 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
       setUserBookings(bookings);
     } catch (err) {
       console.error("Error loading user bookings:", err);
-      setError("Failed to load user bookings. Please try again.");
+      setError(t("userReport.loadBookingsFailed"));
     } finally {
       setLoading(false);
     }
@@ -70,10 +72,17 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
     
     setGenerating(true);
     try {
-      await generateUserReport(selectedUser, userBookings);
+      const histories = await Promise.all(
+        userBookings.map(booking => bookingService.getBookingHistory(booking.id))
+      );
+      await generateUserReport(
+        selectedUser,
+        userBookings,
+        Object.fromEntries(userBookings.map((booking, index) => [booking.id, histories[index]]))
+      );
     } catch (err) {
       console.error("Error generating report:", err);
-      setError("Failed to generate report. Please try again.");
+      setError(t("reports.generateFailed"));
     } finally {
       setGenerating(false);
     }
@@ -89,14 +98,14 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {/* User Selection */}
         <div className="md:col-span-1 border rounded-lg p-4 bg-card">
-          <h2 className="text-lg font-medium mb-4">Select User</h2>
+          <h2 className="text-lg font-medium mb-4">{t("userReport.selectUser")}</h2>
           
           <div className="mb-4">
             <div className="relative">
               <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
               <input
                 type="text"
-                placeholder="Search users..."
+                placeholder={t("bookings.searchUsers")}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="w-full pl-9 p-2 border rounded-md"
@@ -111,7 +120,7 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
               </div>
             ) : filteredUsers.length === 0 ? (
               <div className="text-center p-4 text-muted-foreground">
-                No users found
+                {t("bookings.noUsers")}
               </div>
             ) : (
               filteredUsers.map(user => (
@@ -155,12 +164,12 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
                   {generating ? (
                     <>
                       <Loader2 className="h-4 w-4 animate-spin" />
-                      <span>Generating...</span>
+                      <span>{t("reports.generating")}</span>
                     </>
                   ) : (
                     <>
                       <Download className="h-4 w-4" />
-                      <span>Generate Report</span>
+                      <span>{t("reports.generate")}</span>
                     </>
                   )}
                 </button>
@@ -168,54 +177,54 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="border rounded-md p-4">
-                  <h3 className="text-sm font-medium text-muted-foreground mb-2">User Information</h3>
+                  <h3 className="text-sm font-medium text-muted-foreground mb-2">{t("userReport.userInformation")}</h3>
                   
                   <div className="space-y-2">
                     <div className="flex items-center gap-2">
                       <User className="h-4 w-4 text-muted-foreground" />
-                      <span className="text-sm">Name: {selectedUser.displayName}</span>
+                      <span className="text-sm">{t("userReport.name", { name: selectedUser.displayName })}</span>
                     </div>
                     <div className="flex items-center gap-2">
                       <Mail className="h-4 w-4 text-muted-foreground" />
-                      <span className="text-sm">Email: {selectedUser.email}</span>
+                      <span className="text-sm">{t("userReport.email", { email: selectedUser.email })}</span>
                     </div>
                     <div className="flex items-center gap-2">
                       <Calendar className="h-4 w-4 text-muted-foreground" />
                       <span className="text-sm">
-                        Age: {selectedUser.dob ? userService.calculateAge(selectedUser.dob) : "N/A"}
+                        {t("userReport.age", { age: selectedUser.dob ? userService.calculateAge(selectedUser.dob) : t("common.notAvailable") })}
                       </span>
                     </div>
                     <div className="flex items-center gap-2">
                       <Clock className="h-4 w-4 text-muted-foreground" />
                       <span className="text-sm">
-                        Joined: {formatDate(selectedUser.createdAt)}
+                        {t("userReport.joined", { date: formatDate(selectedUser.createdAt) })}
                       </span>
                     </div>
                   </div>
                 </div>
                 
                 <div className="border rounded-md p-4">
-                  <h3 className="text-sm font-medium text-muted-foreground mb-2">Booking Statistics</h3>
+                  <h3 className="text-sm font-medium text-muted-foreground mb-2">{t("userReport.bookingStatistics")}</h3>
                   
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
-                      <span className="text-sm">Total Bookings:</span>
+                      <span className="text-sm">{t("userReport.totalBookings")}</span>
                       <span className="font-medium">{userBookings.length}</span>
                     </div>
                     <div className="flex items-center justify-between">
-                      <span className="text-sm">Confirmed Bookings:</span>
+                      <span className="text-sm">{t("userReport.confirmedBookings")}</span>
                       <span className="font-medium">
                         {userBookings.filter(b => b.status === "confirmed").length}
                       </span>
                     </div>
                     <div className="flex items-center justify-between">
-                      <span className="text-sm">Pending Bookings:</span>
+                      <span className="text-sm">{t("userReport.pendingBookings")}</span>
                       <span className="font-medium">
                         {userBookings.filter(b => b.status === "pending").length}
                       </span>
                     </div>
                     <div className="flex items-center justify-between">
-                      <span className="text-sm">Cancelled Bookings:</span>
+                      <span className="text-sm">{t("userReport.cancelledBookings")}</span>
                       <span className="font-medium">
                         {userBookings.filter(b => b.status === "cancelled").length}
                       </span>
@@ -225,7 +234,7 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
               </div>
               
               <div>
-                <h3 className="text-lg font-medium mb-4">Booking History</h3>
+                <h3 className="text-lg font-medium mb-4">{t("userReport.bookingHistory")}</h3>
                 
                 {loading ? (
                   <div className="flex justify-center p-4">
@@ -233,7 +242,7 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
                   </div>
                 ) : userBookings.length === 0 ? (
                   <div className="text-center p-4 border rounded-md bg-muted">
-                    <p className="text-muted-foreground">No bookings found for this user</p>
+                    <p className="text-muted-foreground">{t("userReport.noBookings")}</p>
                   </div>
                 ) : (
                   <div className="space-y-4">
@@ -242,13 +251,13 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
                         <div className="flex justify-between items-start">
                           <div>
                             <h4 className="font-medium">
-                              {booking.activityObject?.title || "Unknown Activity"}
+                              {booking.activityObject?.title || t("bookings.unknownActivity")}
                             </h4>
                             <p className="text-sm text-muted-foreground">
                               {booking.activityObject?.startDate && 
                                formatDate(booking.activityObject.startDate)}
                               {booking.activityObject?.startTime && 
-                               ` at ${booking.activityObject.startTime}`}
+                               t("reports.atTime", { time: booking.activityObject.startTime })}
                             </p>
                           </div>
                           
@@ -257,9 +266,11 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
                               ? "bg-green-100 text-green-800" 
                               : booking.status === "pending"
                                 ? "bg-yellow-100 text-yellow-800"
-                                : "bg-red-100 text-red-800"
+                                : booking.status === "completed"
+                                  ? "bg-gray-100 text-gray-800"
+                                  : "bg-red-100 text-red-800"
                           }`}>
-                            {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+                            {t(`bookingStatus.${booking.status}`)}
                           </span>
                         </div>
                         
@@ -273,7 +284,7 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
                         )}
                         
                         <div className="mt-2 text-xs text-muted-foreground">
-                          Booked on {formatDate(booking.createdAt)}
+                          {t("reports.bookedOn", { date: formatDate(booking.createdAt) })}
                         </div>
                       </div>
                     ))}
@@ -284,9 +295,9 @@ export default function UserReportSection({ setError }: UserReportSectionProps)
           ) : (
             <div className="flex flex-col items-center justify-center h-[400px] text-center">
               <FileText className="h-16 w-16 text-muted-foreground opacity-30 mb-4" />
-              <h3 className="text-lg font-medium">Select a User</h3>
+              <h3 className="text-lg font-medium">{t("userReport.selectPrompt")}</h3>
               <p className="text-muted-foreground mt-1">
-                Choose a user from the list to view details and generate a report
+                {t("userReport.selectHint")}
               </p>
             </div>
           )}
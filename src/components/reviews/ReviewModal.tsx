@@ -0,0 +1,180 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Booking } from "@/types/booking";
+import { Activity } from "@/types/activity";
+import { RatingInput } from "@/types/review";
+import { activityService } from "@/services/activityService";
+import { reviewService } from "@/services/reviewService";
+import { useAuth } from "@/contexts/AuthContext";
+import { getReviewId } from "@/utils/reviewUtils";
+import { translate } from "@/locales/messages";
+import { useLocale } from "@/contexts/LocaleContext";
+import StarRating from "./StarRating";
+
+interface ReviewModalProps {
+  booking: Booking;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+export default function ReviewModal({
+  booking,
+  onClose,
+  onSubmitted
+}: ReviewModalProps) {
+  const { currentUser } = useAuth();
+  const { t } = useLocale();
+  const [activity, setActivity] = useState<Activity | null>(null);
+  const [activityRating, setActivityRating] = useState<RatingInput>({ rating: 0, comment: "" });
+  const [locationRatings, setLocationRatings] = useState<Record<string, RatingInput>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the activity's locations and any ratings already left for the booking
+  useEffect(() => {
+    const loadReview = async () => {
+      try {
+        const [activityData, existing] = await Promise.all([
+          activityService.getActivityById(booking.activityId),
+          reviewService.getReviewsByBooking(booking.id)
+        ]);
+        setActivity(activityData);
+
+        const previous = existing.find(review => review.id === getReviewId(booking.id, "activity", booking.activityId));
+        if (previous) {
+          setActivityRating({ rating: previous.rating, comment: previous.comment });
+        }
+
+        const locations: Record<string, RatingInput> = {};
+        existing
+          .filter(review => review.targetType === "location")
+          .forEach(review => {
+            locations[review.targetId] = { rating: review.rating, comment: review.comment };
+          });
+        setLocationRatings(locations);
+      } catch (err) {
+        console.error("Error loading review:", err);
+        // Read the message directly so switching the language does not reload the form
+        setError(translate("reviewModal.loadFailed"));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReview();
+  }, [booking]);
+
+  const updateLocation = (locationId: string, changes: Partial<RatingInput>) => {
+    setLocationRatings(prev => ({
+      ...prev,
+      [locationId]: { rating: 0, comment: "", ...prev[locationId], ...changes }
+    }));
+  };
+
+  const handleSubmit = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      // Locations without stars were skipped
+      const ratedLocations = Object.fromEntries(
+        Object.entries(locationRatings).filter(([, input]) => input.rating > 0)
+      );
+      await reviewService.submitReview({
+        bookingId: booking.id,
+        submittedBy: currentUser?.uid || "",
+        activity: activityRating,
+        locations: ratedLocations
+      });
+      onSubmitted();
+    } catch (err) {
+      console.error("Error submitting review:", err);
+      setError(err instanceof Error ? err.message : t("reviewModal.saveFailed"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-1">{t("myReviews.review")}</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          {booking.userObject?.displayName || t("bookings.unknownUser")} · {activity?.title || t("bookings.activity")}
+        </p>
+
+        {error && (
+          <div className="bg-destructive/10 text-destructive p-3 rounded-md text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center p-4">
+            <div className="w-6 h-6 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : activity && (
+          <div className="space-y-4">
+            <div className="border rounded-md p-3 space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="font-medium">{t("bookings.activity")}</span>
+                <StarRating
+                  value={activityRating.rating}
+                  onChange={(rating) => setActivityRating(prev => ({ ...prev, rating }))}
+                />
+              </div>
+              <textarea
+                value={activityRating.comment}
+                onChange={(e) => setActivityRating(prev => ({ ...prev, comment: e.target.value }))}
+                placeholder={t("reviewModal.activityPlaceholder")}
+                rows={3}
+                className="w-full p-2 border rounded-md text-sm"
+              />
+            </div>
+
+            {(activity.locationObjects || []).map(location => (
+              <div key={location.id} className="border rounded-md p-3 space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">{location.name}</span>
+                  <StarRating
+                    value={locationRatings[location.id]?.rating || 0}
+                    onChange={(rating) => updateLocation(location.id, { rating })}
+                  />
+                </div>
+                <input
+                  type="text"
+                  value={locationRatings[location.id]?.comment || ""}
+                  onChange={(e) => updateLocation(location.id, { comment: e.target.value })}
+                  placeholder={t("reviewModal.locationPlaceholder")}
+                  className="w-full p-2 border rounded-md text-sm"
+                />
+              </div>
+            ))}
+
+            <p className="text-xs text-muted-foreground">
+              {t("reviewModal.hint")}
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border rounded-md"
+            disabled={saving}
+          >
+            {t("common.cancel")}
+          </button>
+          <button
+            onClick={handleSubmit}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-md disabled:opacity-50"
+            disabled={saving || loading || !activity || activityRating.rating === 0}
+          >
+            {t("reviewModal.submit")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { Star } from "lucide-react";
+import { ratingValues } from "@/utils/reviewUtils";
+import { useLocale } from "@/contexts/LocaleContext";
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void; // Read-only when not given
+  size?: "sm" | "md";
+}
+
+export default function StarRating({
+  value,
+  onChange,
+  size = "md"
+}: StarRatingProps) {
+  const { t } = useLocale();
+  const iconClass = size === "sm" ? "h-3.5 w-3.5" : "h-5 w-5";
+
+  return (
+    <div className="flex items-center gap-0.5" aria-label={t("rating.stars", { value })}>
+      {ratingValues.map(star => {
+        const icon = (
+          <Star
+            className={`${iconClass} ${
+              star <= Math.round(value) ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"
+            }`}
+          />
+        );
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            aria-label={star === 1 ? t("rating.oneStar") : t("rating.manyStars", { count: star })}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
\ No newline at end of file
@@ -13,8 +13,7 @@ import {
 import { doc, getDoc, setDoc, serverTimestamp } from "firebase/firestore";
 import { auth, db } from "@/lib/firebase";
 import { useRouter } from "next/navigation";
-
-type UserRole = "admin" | "user";
+import { UserRole } from "@/types/user";
 
 interface UserData {
   uid: string;
@@ -33,6 +32,8 @@ interface AuthContextType {
   logout: () => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
   isAdmin: boolean;
+  isGuide: boolean;
+  isParticipant: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -194,11 +195,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       
       if (userDoc.exists()) {
         const data = userDoc.data();
-        if (data.role !== "admin") {
-          // Not an admin, sign them out
-          await signOut(auth);
-          throw new Error("Access denied. Only administrators can log in to this system.");
-        }
         
         // Set user data to prevent logout
         setUserData({
@@ -272,6 +268,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   const isAdmin = userData?.role === "admin";
+  const isGuide = userData?.role === "guide";
+  // Participants can sign in to review the trips they attended; RouteGuard keeps them to those pages
+  const isParticipant = userData?.role === "user";
 
   const value = {
     currentUser,
@@ -281,7 +280,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     login,
     logout,
     resetPassword,
-    isAdmin
+    isAdmin,
+    isGuide,
+    isParticipant
   };
 
   return (
@@ -0,0 +1,60 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from "react";
+import { useRouter } from "next/navigation";
+import { Locale } from "@/types/locale";
+import { MessageKey, MessageValues, translate } from "@/locales/messages";
+import { getActiveLocale, getDirection, setActiveLocale, storeLocale } from "@/utils/localeUtils";
+
+interface LocaleContextType {
+  locale: Locale;
+  dir: "ltr" | "rtl";
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, values?: MessageValues) => string;
+}
+
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
+
+export function useLocale() {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error("useLocale must be used within a LocaleProvider");
+  }
+  return context;
+}
+
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  // Pages only render once auth has loaded in the browser, so the stored language is safe to use
+  // from the first render without a hydration mismatch
+  const [locale, setLocaleState] = useState<Locale>(getActiveLocale);
+  const dir = getDirection(locale);
+  const router = useRouter();
+  // Stable until the language changes, so pages can call it from effects and callbacks
+  const t = useCallback((key: MessageKey, values?: MessageValues) => translate(key, values, locale), [locale]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  const value = {
+    locale,
+    dir,
+    setLocale: (next: Locale) => {
+      // Formatters read the active locale directly, so it changes before the pages render again
+      setActiveLocale(next);
+      storeLocale(next);
+      setLocaleState(next);
+      // Pages format with plain functions rather than this context; refreshing the route renders
+      // them again in place, keeping their state, so dates, numbers and content fields follow
+      router.refresh();
+    },
+    t
+  };
+
+  return (
+    <LocaleContext.Provider value={value}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
\ No newline at end of file
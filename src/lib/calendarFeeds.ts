@@ -0,0 +1,30 @@
+import { locationService } from "@/services/locationService";
+import { Activity } from "@/types/activity";
+import { Location } from "@/types/location";
+import { activityToEvent, buildCalendar, toCalendarFileName } from "@/utils/calendarUtils";
+
+// Server-side helpers for the subscribable calendar feeds under /api/calendar.
+// Event times are given in CALENDAR_TIME_ZONE, or left floating when it is not set.
+
+// Calendar apps poll feeds; let them reuse a response for a few minutes
+const FEED_MAX_AGE_SECONDS = 300;
+
+export async function activitiesCalendarResponse(name: string, activities: Activity[]): Promise<Response> {
+  const locationIds = Array.from(new Set(activities.flatMap(activity => activity.locations)));
+  const locations = (await Promise.all(locationIds.map(id => locationService.getLocationById(id))))
+    .filter((location): location is Location => !!location);
+
+  const calendar = buildCalendar(
+    name,
+    activities.map(activity => activityToEvent(activity, locations)),
+    { timeZone: process.env.CALENDAR_TIME_ZONE || undefined }
+  );
+
+  return new Response(calendar, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${toCalendarFileName(name)}"`,
+      "Cache-Control": `private, max-age=${FEED_MAX_AGE_SECONDS}`
+    }
+  });
+}
\ No newline at end of file
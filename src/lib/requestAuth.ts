@@ -0,0 +1,29 @@
+import { app } from "@/lib/firebase";
+
+// Server-only helper for route handlers called by signed-in users.
+// The client sends its Firebase ID token as "Authorization: Bearer <token>". Without the Admin SDK
+// the token is checked by the Identity Toolkit API, which rejects expired, revoked and forged tokens.
+
+// Returns the signed-in user's ID, or null when the request carries no valid token
+export async function getRequestUserId(request: Request): Promise<string | null> {
+  const match = (request.headers.get("authorization") || "").match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const response = await fetch(
+    `https://identitytoolkit.googleapis.com/v1/accounts:lookup?key=${app.options.apiKey}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ idToken: match[1] }),
+      cache: "no-store"
+    }
+  );
+  if (!response.ok) {
+    return null;
+  }
+
+  const data = await response.json();
+  return data.users?.[0]?.localId || null;
+}
\ No newline at end of file
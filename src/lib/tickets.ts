@@ -0,0 +1,38 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Server-only helpers for signing and verifying booking ticket tokens.
+// A token is "<bookingId>.<signature>", so it can be checked without a database lookup.
+
+function getTicketSecret(): string {
+  const secret = process.env.TICKET_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error("TICKET_SIGNING_SECRET is not configured");
+  }
+  return secret;
+}
+
+function sign(bookingId: string): string {
+  return createHmac("sha256", getTicketSecret())
+    .update(`booking:${bookingId}`)
+    .digest("base64url");
+}
+
+export function createTicketToken(bookingId: string): string {
+  return `${bookingId}.${sign(bookingId)}`;
+}
+
+// Returns the booking ID when the token signature is valid, otherwise null
+export function verifyTicketToken(token: string): string | null {
+  const [bookingId, signature, ...rest] = token.trim().split(".");
+  if (!bookingId || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(bookingId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return bookingId;
+}
\ No newline at end of file
@@ -0,0 +1,876 @@
+import { MessageKey } from "./en";
+
+export const ar: Record<MessageKey, string> = {
+  "nav.dashboard": "لوحة التحكم",
+  "nav.myActivities": "أنشطتي",
+  "nav.locations": "الأماكن",
+  "nav.activities": "الأنشطة",
+  "nav.categories": "الفئات",
+  "nav.tags": "الوسوم",
+  "nav.users": "المستخدمون",
+  "nav.bookings": "الحجوزات",
+  "nav.reviews": "التقييمات",
+  "nav.myReviews": "قيّم رحلاتك",
+  "nav.promoCodes": "رموز الخصم",
+  "nav.reports": "التقارير",
+  "nav.settings": "الإعدادات",
+  "nav.apiAi": "إدارة الواجهات والذكاء الاصطناعي",
+  "nav.logout": "تسجيل الخروج",
+  "nav.toggleMenu": "إظهار القائمة",
+  "nav.expand": "توسيع الشريط الجانبي",
+  "nav.collapse": "طي الشريط الجانبي",
+  "header.profile": "الملف الشخصي",
+  "header.settings": "الإعدادات",
+  "header.logout": "تسجيل الخروج",
+  "header.language": "اللغة",
+  "role.admin": "مدير",
+  "role.guide": "مرشد",
+  "role.user": "مستخدم",
+  "footer.rights": "إدارة مشوار. جميع الحقوق محفوظة.",
+  "footer.privacy": "سياسة الخصوصية",
+  "footer.terms": "شروط الخدمة",
+  "footer.help": "مركز المساعدة",
+  "common.loading": "جارٍ التحميل...",
+  "common.email": "البريد الإلكتروني",
+  "common.password": "كلمة المرور",
+  "auth.appName": "إدارة مشوار",
+  "auth.signInTitle": "سجّل الدخول إلى حسابك",
+  "auth.signInFailed": "تعذّر تسجيل الدخول. يرجى التحقق من بياناتك.",
+  "auth.rememberMe": "تذكرني",
+  "auth.forgotPassword": "نسيت كلمة المرور؟",
+  "auth.signingIn": "جارٍ تسجيل الدخول...",
+  "auth.signIn": "تسجيل الدخول",
+  "auth.noAccount": "ليس لديك حساب؟",
+  "auth.signUp": "إنشاء حساب",
+  "auth.passwordsDoNotMatch": "كلمتا المرور غير متطابقتين",
+  "auth.signUpFailed": "تعذّر إنشاء الحساب. يرجى المحاولة مرة أخرى.",
+  "auth.createAdminAccount": "إنشاء حساب مدير",
+  "auth.creatingAdminAccount": "جارٍ إنشاء حساب المدير...",
+  "auth.fullName": "الاسم الكامل",
+  "auth.confirmPassword": "تأكيد كلمة المرور",
+  "auth.haveAccount": "لديك حساب بالفعل؟",
+  "auth.resetPassword": "إعادة تعيين كلمة المرور",
+  "auth.resetPasswordHint": "أدخل بريدك الإلكتروني لتصلك رابط إعادة تعيين كلمة المرور",
+  "auth.resetPasswordSent": "تحقق من بريدك الإلكتروني لمتابعة التعليمات",
+  "auth.resetPasswordFailed": "تعذّرت إعادة تعيين كلمة المرور. يرجى المحاولة مرة أخرى.",
+  "auth.resetPasswordUnknownError": "تعذّرت إعادة تعيين كلمة المرور. حدث خطأ غير معروف.",
+  "auth.sending": "جارٍ الإرسال...",
+  "auth.backToLogin": "العودة إلى تسجيل الدخول",
+  "common.saving": "جارٍ الحفظ...",
+  "common.saveChanges": "حفظ التغييرات",
+  "ageGroup.all": "جميع الأعمار",
+  "ageGroup.adults": "البالغون",
+  "ageGroup.children": "الأطفال",
+  "ageGroup.seniors": "كبار السن",
+  "ageGroup.rangeFrom": "{label} ({min}+)",
+  "ageGroup.rangeUnder": "{label} (أقل من {max})",
+  "ageGroup.rangeBetween": "{label} ({min}-{max})",
+  "difficulty.easy": "سهل",
+  "difficulty.moderate": "متوسط",
+  "difficulty.hard": "صعب",
+  "difficulty.challenging": "صعب جدًا",
+  "timeRange.day": "اليوم",
+  "timeRange.week": "آخر 7 أيام",
+  "timeRange.month": "آخر 30 يومًا",
+  "timeRange.year": "آخر 12 شهرًا",
+  "timeRange.all": "كل الأوقات",
+  "dashboard.title": "لوحة التحكم",
+  "dashboard.welcome": "مرحبًا بعودتك! إليك نظرة عامة على منصتك.",
+  "dashboard.totalUsers": "إجمالي المستخدمين",
+  "dashboard.totalLocations": "إجمالي المواقع",
+  "dashboard.totalActivities": "إجمالي الأنشطة",
+  "dashboard.activeActivities": "الأنشطة النشطة",
+  "dashboard.activityOverview": "نظرة عامة على النشاط",
+  "dashboard.activityOver.day": "النشاط اليوم",
+  "dashboard.activityOver.week": "النشاط خلال آخر 7 أيام",
+  "dashboard.activityOver.month": "النشاط خلال آخر 30 يومًا",
+  "dashboard.activityOver.year": "النشاط خلال آخر 12 شهرًا",
+  "dashboard.activityOver.all": "النشاط في كل الأوقات",
+  "dashboard.noData": "لا تتوفر بيانات لهذه الفترة",
+  "dashboard.popularLocations": "المواقع الأكثر زيارة",
+  "dashboard.topLocations": "أبرز المواقع",
+  "dashboard.locationMap": "خريطة المواقع",
+  "dashboard.noLocations": "لا توجد مواقع",
+  "dashboard.recentActivity": "النشاط الأخير",
+  "dashboard.noRecentActivity": "لا يوجد نشاط حديث",
+  "dashboard.notAvailable": "غير متوفر",
+  "dashboard.byDifficulty": "الأنشطة حسب الصعوبة",
+  "dashboard.byAgeGroup": "الأنشطة حسب الفئة العمرية",
+  "dashboard.upcomingActivities": "الأنشطة القادمة",
+  "dashboard.noUpcomingActivities": "لا توجد أنشطة قادمة",
+  "dashboard.newUser": "تسجيل مستخدم جديد",
+  "dashboard.newLocation": "إضافة موقع جديد",
+  "dashboard.newActivity": "إنشاء نشاط جديد",
+  "dashboard.newItem": "عنصر جديد",
+  "profile.loading": "جارٍ تحميل الملف الشخصي...",
+  "profile.loadFailed": "تعذّر تحميل بيانات المستخدم. يرجى المحاولة مرة أخرى.",
+  "profile.imageTooLarge": "يجب أن يكون حجم الصورة أقل من 1 ميغابايت",
+  "profile.updated": "تم تحديث الملف الشخصي بنجاح!",
+  "profile.updateFailed": "تعذّر تحديث الملف الشخصي.",
+  "profile.title": "إعدادات الملف الشخصي",
+  "profile.picture": "صورة الملف الشخصي",
+  "profile.pictureAlt": "الملف الشخصي",
+  "profile.pictureHint": "يُفضّل: صورة مربعة، بحد أقصى 1 ميغابايت",
+  "profile.displayName": "الاسم المعروض",
+  "profile.emailAddress": "عنوان البريد الإلكتروني",
+  "profile.emailLocked": "لا يمكن تغيير البريد الإلكتروني",
+  "common.unknownLocation": "موقع غير معروف",
+  "itinerary.departsBeforeArrival": "المحطة {stop} تغادر قبل أن تصل",
+  "itinerary.arrivesBeforePrevious": "المحطة {stop} تصل قبل مغادرة المحطة {previous}",
+  "itinerary.empty": "اختر المواقع أدناه لبناء خط الرحلة.",
+  "itinerary.removeStop": "إزالة المحطة",
+  "itinerary.arrival": "الوصول",
+  "itinerary.departure": "المغادرة",
+  "itinerary.dwell": "مدة التوقف (دقيقة)",
+  "itinerary.notes": "ملاحظات لهذه المحطة",
+  "itinerary.dragHint": "اسحب المحطات لتغيير ترتيب زيارتها.",
+  "conflict.capacity": "مع \"{activity}\" سيتجاوز {location} سعته",
+  "conflict.overlap": "{location} يستقبل نشاطًا واحدًا في كل مرة وهو محجوز بالفعل لـ \"{activity}\"",
+  "conflict.shared": "{location} مستخدم أيضًا في \"{activity}\"",
+  "conflict.when": "{conflict} في {date}، {start} - {end}.",
+  "conflict.viewActivity": "عرض النشاط",
+  "priceTiers.adults": "بالغ",
+  "priceTiers.children": "طفل",
+  "priceTiers.seniors": "كبير السن",
+  "priceTiers.toggle": "التسعير حسب الفئة العمرية",
+  "priceTiers.groupRate": "سعر المجموعة",
+  "priceTiers.none": "لا يوجد",
+  "priceTiers.groupFrom": "المجموعة ابتداءً من (أشخاص)",
+  "priceTiers.flat": "يُحتسب لكل مقعد التكلفة التقديرية.",
+  "common.unknown": "غير معروف",
+  "common.remove": "إزالة {name}",
+  "common.minutes": "{minutes} دقيقة",
+  "equipment.required": "إلزامي",
+  "equipment.recommended": "موصى به",
+  "equipment.itemPlaceholder": "الغرض، مثل أحذية المشي",
+  "equipment.removeItem": "إزالة الغرض",
+  "equipment.notes": "ملاحظات للمشاركين",
+  "equipment.rentable": "متاح للإيجار",
+  "equipment.rentalPrice": "سعر الإيجار",
+  "equipment.stock": "المخزون",
+  "equipment.rented": "{count} مؤجَّر",
+  "equipment.addItem": "إضافة غرض",
+  "tags.addPlaceholder": "أضف وسومًا...",
+  "tags.newTagHint": "\"{tag}\" وسم جديد وستتم إضافته إلى قائمة الوسوم.",
+  "staff.leadGuide": "المرشد الرئيسي",
+  "staff.noLeadGuide": "بدون مرشد رئيسي",
+  "staff.assistantIds": "المساعدون",
+  "staff.driverIds": "السائقون",
+  "staff.add.assistantIds": "إضافة مساعد...",
+  "staff.add.driverIds": "إضافة سائق...",
+  "staff.conflict": "{name} يدير بالفعل \"{activity}\" في {date}، {start} - {end}",
+  "staff.noGuides": "امنح المستخدمين دور المرشد لتعيينهم في الأنشطة.",
+  "common.any": "الكل",
+  "common.clear": "مسح",
+  "common.min": "الحد الأدنى",
+  "common.max": "الحد الأقصى",
+  "filters.search": "ابحث في العناوين والأوصاف...",
+  "filters.from": "من",
+  "filters.to": "إلى",
+  "filters.difficulty": "الصعوبة",
+  "filters.ageGroup": "الفئة العمرية",
+  "filters.tag": "الوسم",
+  "filters.location": "الموقع",
+  "filters.category": "الفئة",
+  "filters.cost": "التكلفة",
+  "filters.apply": "تطبيق عوامل التصفية",
+  "common.all": "الكل",
+  "common.cancel": "إلغاء",
+  "common.dismiss": "إخفاء",
+  "common.previous": "السابق",
+  "common.next": "التالي",
+  "common.unlimited": "∞",
+  "activityStatus.draft": "مسودة",
+  "activityStatus.in-review": "قيد المراجعة",
+  "activityStatus.scheduled": "مجدول",
+  "activityStatus.published": "منشور",
+  "activityStatus.archived": "مؤرشف",
+  "activityStatus.expired": "منتهي",
+  "activities.transition.submit": "إرسال للمراجعة",
+  "activities.transition.approveSchedule": "الموافقة والجدولة",
+  "activities.transition.approvePublish": "الموافقة والنشر",
+  "activities.transition.publish": "النشر الآن",
+  "activities.transition.returnToDraft": "إعادة إلى المسودة",
+  "activities.transition.unschedule": "إلغاء الجدولة",
+  "activities.transition.restore": "استعادة",
+  "activities.transition.unpublish": "إلغاء النشر",
+  "activities.transition.archive": "أرشفة",
+  "activities.loadFailed": "تعذّر تحميل الأنشطة. يرجى المحاولة مرة أخرى.",
+  "activities.returnReason": "لماذا تتم إعادة هذا النشاط؟ (اختياري)",
+  "activities.statusFailed": "تعذّر تحديث حالة النشاط. يرجى المحاولة مرة أخرى.",
+  "activities.expirationDone": "تم إنهاء {expired} نشاطًا، وإكمال {completed} حجزًا وإلغاء {cancelled} حجزًا، ونشر {published} نشاطًا مجدولًا.",
+  "activities.expirationFailed": "تعذّر تشغيل الإنهاء. يرجى المحاولة مرة أخرى.",
+  "activities.searchRebuilt": "تم تحديث حقول البحث في {count} نشاطًا.",
+  "activities.searchRebuildFailed": "تعذّرت إعادة بناء فهرس البحث. يرجى المحاولة مرة أخرى.",
+  "activities.confirmDelete": "هل أنت متأكد من حذف هذا النشاط؟",
+  "activities.deleteFailed": "تعذّر حذف النشاط. يرجى المحاولة مرة أخرى.",
+  "activities.copyStartDay": "يوم بدء النسخة (YYYY-MM-DD)",
+  "activities.duplicateFailed": "تعذّر نسخ النشاط. يرجى المحاولة مرة أخرى.",
+  "activities.templateName": "اسم القالب",
+  "activities.templateSaved": "تم حفظ \"{name}\" في مكتبة القوالب.",
+  "activities.templateFailed": "تعذّر حفظ القالب. يرجى المحاولة مرة أخرى.",
+  "activities.title": "الأنشطة",
+  "activities.subtitle": "إدارة الأنشطة ومواقعها",
+  "activities.lastRun": "آخر تشغيل {time}",
+  "activities.neverRun": "لم يُشغَّل بعد",
+  "activities.runExpiration": "تشغيل الإنهاء",
+  "activities.rebuildSearch": "إعادة بناء البحث",
+  "activities.templates": "القوالب",
+  "activities.create": "إنشاء نشاط",
+  "activities.noMatches": "لا توجد أنشطة تطابق عوامل التصفية هذه.",
+  "activities.empty": "لا توجد أنشطة. أنشئ نشاطك الأول!",
+  "activities.locations": "المواقع:",
+  "activities.difficulty": "الصعوبة:",
+  "activities.participants": "المشاركون:",
+  "activities.publishes": "يُنشر في:",
+  "activities.submittedBy": "أرسله {name}",
+  "activities.submittedByOn": "أرسله {name} في {date}",
+  "activities.approvedBy": "وافق عليه {name}",
+  "activities.approvedByOn": "وافق عليه {name} في {date}",
+  "activities.returned": "أُعيد: {note}",
+  "activities.duplicate": "نسخ النشاط",
+  "activities.saveAsTemplate": "حفظ كقالب",
+  "activities.ownSubmission": "يجب أن يوافق مدير آخر على ما أرسلته",
+  "activities.schedulePublishing": "جدولة النشر",
+  "activities.publishAt": "النشر في",
+  "activities.schedule": "جدولة",
+  "common.delete": "حذف",
+  "common.create": "إنشاء",
+  "templates.loadFailed": "تعذّر تحميل القوالب. يرجى المحاولة مرة أخرى.",
+  "templates.pickStartDay": "اختر تاريخ بدء للنشاط الجديد",
+  "templates.createFailed": "تعذّر إنشاء النشاط. يرجى المحاولة مرة أخرى.",
+  "templates.confirmDelete": "هل أنت متأكد من حذف هذا القالب؟ لن تتأثر الأنشطة التي أُنشئت منه.",
+  "templates.deleteFailed": "تعذّر حذف القالب. يرجى المحاولة مرة أخرى.",
+  "templates.title": "قوالب الأنشطة",
+  "templates.subtitle": "أعد استخدام وصف الرحلات السابقة ومحطاتها ووسومها وتسعيرها",
+  "templates.empty": "لا توجد قوالب بعد. استخدم \"حفظ كقالب\" في أي نشاط لإضافة قالب.",
+  "templates.template": "القالب",
+  "templates.details": "التفاصيل",
+  "templates.newActivity": "نشاط جديد",
+  "templates.summary": "{stops} محطات · {difficulty} · {days}، {start} - {end}",
+  "templates.days": "{count} أيام",
+  "templates.oneDay": "يوم واحد",
+  "templates.startDate": "تاريخ البدء",
+  "common.view": "عرض",
+  "activityStatus.active": "نشط",
+  "activityStatus.inactive": "غير نشط",
+  "activity.notFound": "النشاط غير موجود",
+  "activity.loadFailed": "تعذّر تحميل تفاصيل النشاط",
+  "activity.notFoundHint": "النشاط الذي تبحث عنه غير موجود أو تمت إزالته.",
+  "activity.backToActivities": "العودة إلى الأنشطة",
+  "activity.addToCalendar": "إضافة إلى التقويم",
+  "activity.description": "الوصف",
+  "activity.locations": "المواقع",
+  "activity.locationCount": "يتضمن هذا النشاط {count} موقعًا",
+  "activity.itinerary": "خط الرحلة",
+  "activity.locationDetails": "تفاصيل المواقع",
+  "activity.details": "تفاصيل النشاط",
+  "activity.date": "التاريخ",
+  "activity.time": "الوقت",
+  "activity.ageGroup": "الفئة العمرية",
+  "activity.difficulty": "الصعوبة",
+  "activity.duration": "المدة",
+  "activity.durationMinutes": "{minutes} دقيقة",
+  "activity.durationHours": " ({hours} ساعة و{minutes} دقيقة)",
+  "activity.estimatedCost": "التكلفة التقديرية",
+  "activity.participants": "المشاركون",
+  "activity.categories": "الفئات",
+  "activity.tags": "الوسوم",
+  "activity.whatToBring": "ما يجب إحضاره",
+  "activity.rentFor": "للإيجار بـ {price} · {available} من {stock} متاح",
+  "activity.actions": "الإجراءات",
+  "activity.edit": "تعديل النشاط",
+  "activity.delete": "حذف النشاط",
+  "recurrence.every.daily": "كل يوم",
+  "recurrence.every.weekly": "كل أسبوع",
+  "recurrence.every.monthly": "كل شهر",
+  "recurrence.everyN.daily": "كل {count} أيام",
+  "recurrence.everyN.weekly": "كل {count} أسابيع",
+  "recurrence.everyN.monthly": "كل {count} أشهر",
+  "recurrence.onDays": "{rule} أيام {days}",
+  "recurrence.until": "{rule} حتى {date}",
+  "recurrence.times": "{rule}، {count} مرات",
+  "translationFields.emptyHint": "اترك الترجمة فارغة لعرض النص الإنجليزي بدلًا منها.",
+  "travelMode.walking": "سيرًا على الأقدام",
+  "travelMode.driving": "بالسيارة",
+  "travelMode.bus": "بالحافلة",
+  "common.creating": "جارٍ الإنشاء...",
+  "activityForm.locationsLoadFailed": "تعذّر تحميل المواقع. يرجى المحاولة مرة أخرى.",
+  "activityForm.titleRequired": "عنوان النشاط مطلوب",
+  "activityForm.startDateRequired": "تاريخ البدء مطلوب",
+  "activityForm.endDateRequired": "تاريخ الانتهاء مطلوب",
+  "activityForm.endBeforeStart": "لا يمكن أن يكون تاريخ الانتهاء قبل تاريخ البدء",
+  "activityForm.startTimeRequired": "وقت البدء مطلوب",
+  "activityForm.endTimeRequired": "وقت الانتهاء مطلوب",
+  "activityForm.locationRequired": "يرجى اختيار موقع واحد على الأقل",
+  "activityForm.staffBusy": "بعض أعضاء الفريق مكلّفون بالفعل بنشاط آخر في الوقت نفسه",
+  "activityForm.locationsBusy": "بعض المواقع مستخدمة بالفعل في نشاط آخر في الوقت نفسه",
+  "activityForm.untilRequired": "يرجى اختيار موعد توقف تكرار النشاط",
+  "activityForm.noOccurrences": "إعدادات التكرار لا تنتج أي موعد",
+  "activityForm.createFailed": "تعذّر إنشاء النشاط. يرجى المحاولة مرة أخرى.",
+  "activityForm.newTitle": "نشاط جديد",
+  "activityForm.basicInfo": "المعلومات الأساسية",
+  "activityForm.title": "العنوان",
+  "activityForm.description": "الوصف",
+  "activityForm.dateTime": "التاريخ والوقت",
+  "activityForm.startDate": "تاريخ البدء",
+  "activityForm.endDate": "تاريخ الانتهاء",
+  "activityForm.startTime": "وقت البدء",
+  "activityForm.endTime": "وقت الانتهاء",
+  "activityForm.repeat": "تكرار هذا النشاط",
+  "activityForm.repeats": "يتكرر",
+  "activityForm.frequency.daily": "يوميًا",
+  "activityForm.frequency.weekly": "أسبوعيًا",
+  "activityForm.frequency.monthly": "شهريًا",
+  "activityForm.interval.daily": "كل (أيام)",
+  "activityForm.interval.weekly": "كل (أسابيع)",
+  "activityForm.interval.monthly": "كل (أشهر)",
+  "activityForm.on": "في",
+  "activityForm.weekdayDefault": "الافتراضي هو يوم الأسبوع لتاريخ البدء",
+  "activityForm.ends": "ينتهي",
+  "activityForm.endsAfterCount": "بعد عدد من المواعيد",
+  "activityForm.endsOnDate": "في تاريخ",
+  "activityForm.occurrences": "المواعيد",
+  "activityForm.until": "حتى",
+  "activityForm.skipDates": "تواريخ مستثناة",
+  "activityForm.occurrenceSummary": " · {count} موعد، لكل منها حجز مستقل وحد مشاركين خاص",
+  "activityForm.locations": "المواقع",
+  "activityForm.hideMap": "إخفاء الخريطة",
+  "activityForm.showMap": "إظهار الخريطة",
+  "activityForm.contains": "يتضمن هذا النشاط:",
+  "activityForm.itinerary": "خط الرحلة",
+  "activityForm.travelMode": "وسيلة التنقل",
+  "activityForm.selectLocations": "اختيار المواقع",
+  "activityForm.selectLocationsHint": "اختر موقعًا واحدًا على الأقل لهذا النشاط",
+  "activityForm.noLocations": "لا توجد مواقع. يرجى إنشاء مواقع أولًا.",
+  "activityForm.additionalDetails": "تفاصيل إضافية",
+  "activityForm.difficulty": "مستوى الصعوبة",
+  "activityForm.ageGroup": "الفئة العمرية",
+  "activityForm.duration": "المدة التقديرية (تُحسب تلقائيًا)",
+  "activityForm.estimatedCost": "التكلفة التقديرية",
+  "activityForm.pricing": "التسعير",
+  "activityForm.tags": "الوسوم",
+  "activityForm.whatToBring": "ما يجب إحضاره",
+  "activityForm.staff": "الفريق",
+  "activityForm.submitForReview": "إرسال للمراجعة",
+  "activityForm.reviewHint": "تُحفظ الأنشطة الجديدة كمسودات. يجب أن يوافق عليها مدير آخر قبل نشرها.",
+  "activityForm.participantLimit": "حد المشاركين (0 بلا حد)",
+  "activityForm.editTitle": "تعديل النشاط",
+  "activityForm.updateFailed": "تعذّر تحديث النشاط. يرجى المحاولة مرة أخرى.",
+  "activityForm.loadFailed": "تعذّر تحميل تفاصيل النشاط. يرجى المحاولة مرة أخرى.",
+  "activityForm.status": "الحالة:",
+  "activityForm.returnedFromReview": "أُعيد من المراجعة: {note}",
+  "activityForm.workflowHint": "أرسل النشاط ووافق عليه وانشره من قائمة الأنشطة.",
+  "activityForm.cancellationPolicy": "سياسة الإلغاء",
+  "activityForm.enforcePolicy": "تطبيق سياسة إلغاء",
+  "activityForm.noPolicyHint": "من دون سياسة، يمكن إلغاء الحجوزات مجانًا في أي وقت",
+  "activityForm.freeWindow": "فترة الإلغاء المجاني (ساعات قبل البدء)",
+  "activityForm.lateFee": "رسوم الإلغاء المتأخر (%)",
+  "activityForm.chargeNoShows": "تحصيل السعر كاملًا من المتغيبين",
+  "activityForm.overrideHint": "بعد بدء النشاط، لا يمكن إلغاء الحجوزات إلا بتجاوز من مدير مع تسجيل السبب",
+  "activityForm.series": "هذا النشاط جزء من سلسلة متكررة",
+  "activityForm.scopeThis": "حفظ التغييرات لهذا الموعد فقط",
+  "activityForm.scopeFuture": "حفظ التغييرات لهذا الموعد وكل المواعيد القادمة",
+  "activityForm.scopeHint": "تغيير التاريخ ينقل كل موعد محدد بالمقدار نفسه. تبقى الحجوزات مع موعدها.",
+  "calendarFeed.label": "موجز التقويم",
+  "calendarFeed.copyPrompt": "انسخ رابط التقويم",
+  "calendarFeed.subscribe": "اشترك من تطبيق التقويم",
+  "calendarFeed.copy": "نسخ رابط التقويم",
+  "calendar.today": "اليوم",
+  "calendar.weekOf": "أسبوع {date}",
+  "calendar.view.month": "شهر",
+  "calendar.view.week": "أسبوع",
+  "calendar.view.day": "يوم",
+  "calendar.hintDay": "انقر على نشاط لعرض حجوزاته، أو اسحبه إلى يوم آخر لإعادة جدولته.",
+  "calendar.hintHour": "انقر على نشاط لعرض حجوزاته، أو اسحبه إلى ساعة أخرى لإعادة جدولته.",
+  "common.back": "رجوع",
+  "ticket.bookingNotFound": "الحجز غير موجود",
+  "ticket.onlyConfirmed": "تُصدر التذاكر للحجوزات المؤكدة فقط.",
+  "ticket.loadFailed": "تعذّر تحميل التذكرة. يرجى المحاولة مرة أخرى.",
+  "ticket.print": "طباعة التذكرة",
+  "ticket.heading": "تذكرة مشوار",
+  "ticket.activity": "النشاط",
+  "ticket.qrAlt": "رمز QR للتذكرة",
+  "ticket.guest": "ضيف",
+  "ticket.party": " (مجموعة من {count})",
+  "ticket.booking": "الحجز {id}",
+  "checkIn.title": "تسجيل الحضور",
+  "checkIn.subtitle": "امسح تذاكر الحجوزات لتسجيل الحضور",
+  "checkIn.checkedIn": "تم تسجيل الحضور",
+  "checkIn.failed": "تعذّر تسجيل الحضور",
+  "checkIn.unsupported": "مسح رموز QR غير مدعوم في هذا المتصفح. أدخل رمز التذكرة يدويًا.",
+  "checkIn.cameraError": "تعذّر الوصول إلى الكاميرا. أدخل رمز التذكرة يدويًا.",
+  "checkIn.scanner": "الماسح",
+  "checkIn.stopCamera": "إيقاف الكاميرا",
+  "checkIn.startCamera": "تشغيل الكاميرا",
+  "checkIn.ticketCode": "رمز التذكرة",
+  "checkIn.checkIn": "تسجيل الحضور",
+  "checkIn.recentScans": "آخر عمليات المسح",
+  "checkIn.noScans": "لم يتم مسح أي تذاكر بعد.",
+  "checkIn.party": " · مجموعة من {count}",
+  "promoCheck.inactive": "رمز الخصم هذا لم يعد فعّالًا",
+  "promoCheck.notYetValid": "رمز الخصم هذا غير صالح بعد",
+  "promoCheck.expired": "انتهت صلاحية رمز الخصم هذا",
+  "promoCheck.limitReached": "بلغ رمز الخصم هذا حد الاستخدام",
+  "promoCheck.otherActivity": "رمز الخصم هذا لا ينطبق على هذا النشاط",
+  "discount.percent": "خصم {value}%",
+  "discount.amount": "خصم {amount}",
+  "rentals.unavailable": "بعض المعدات المطلوبة غير متاحة للإيجار",
+  "rentals.lowStock": "بقي {count} فقط من {name} للإيجار",
+  "cancellation.free": "إلغاء مجاني",
+  "cancellation.noShow": "بدأ النشاط بالفعل؛ يُعدّ الحجز عدم حضور ويُحتسب بالكامل",
+  "cancellation.closed": "بدأ النشاط بالفعل؛ الإلغاء مغلق",
+  "cancellation.late": "إلغاء متأخر: تُطبّق رسوم بنسبة {percent}%",
+  "bookingStatus.confirmed": "مؤكد",
+  "bookingStatus.pending": "قيد الانتظار",
+  "bookingStatus.cancelled": "ملغى",
+  "bookingStatus.waitlisted": "على قائمة الانتظار",
+  "bookingStatus.completed": "مكتمل",
+  "paymentStatus.unpaid": "غير مدفوع",
+  "paymentStatus.partially-paid": "مدفوع جزئيًا",
+  "paymentStatus.paid": "مدفوع",
+  "paymentStatus.refunded": "مسترد",
+  "paymentMethod.cash": "نقدًا",
+  "paymentMethod.card": "بطاقة",
+  "paymentMethod.transfer": "تحويل مصرفي",
+  "priceTiers.group": "سعر المجموعة",
+  "bookings.title": "الحجوزات",
+  "bookings.subtitle": "إدارة حجوزات الأنشطة للمستخدمين",
+  "bookings.list": "قائمة",
+  "bookings.calendar": "التقويم",
+  "bookings.checkIn": "تسجيل الحضور",
+  "bookings.recount": "إعادة عدّ المشاركين",
+  "bookings.create": "إنشاء حجز",
+  "bookings.activities": "الأنشطة",
+  "bookings.noActivities": "لم يتم العثور على أنشطة فعّالة.",
+  "bookings.onWaitlist": "{count} على قائمة الانتظار",
+  "bookings.bookingsFor": "حجوزات {title}",
+  "bookings.participants": "{current}/{limit} مشاركين",
+  "bookings.selectActivity": "يرجى اختيار نشاط لعرض الحجوزات.",
+  "bookings.noBookings": "لم يتم العثور على حجوزات لهذا النشاط.",
+  "bookings.unknownUser": "مستخدم غير معروف",
+  "bookings.unknownActivity": "نشاط غير معروف",
+  "bookings.partyOf": "مجموعة من {count}",
+  "bookings.withPromo": " مع {code} (-{discount})",
+  "bookings.renting": "استئجار {items}",
+  "bookings.paidOf": "دُفع {paid} من {due}",
+  "bookings.checkedIn": "تم تسجيل الحضور",
+  "bookings.ageCheck": "التحقق من العمر",
+  "bookings.policyOverridden": "تم تجاوز السياسة: {reason}",
+  "bookings.lateCancellation": "إلغاء متأخر، رسوم {percent}%",
+  "bookings.freeCancellation": "أُلغي دون رسوم",
+  "bookings.history": "السجل",
+  "bookings.recordPayment": "تسجيل دفعة",
+  "bookings.ticket": "التذكرة",
+  "bookings.confirm": "تأكيد",
+  "bookings.waitlist": "قائمة الانتظار ({count})",
+  "bookings.waitlistHint": "يُؤكَّد أول مستخدم في القائمة تلقائيًا عند إلغاء حجز مؤكد أو حذفه.",
+  "bookings.joined": "انضم في {date}",
+  "bookings.moveUp": "تحريك لأعلى",
+  "bookings.moveDown": "تحريك لأسفل",
+  "bookings.balance": "{name} · الرصيد {amount}",
+  "bookings.amount": "المبلغ",
+  "bookings.method": "طريقة الدفع",
+  "bookings.createTitle": "إنشاء حجز جديد",
+  "bookings.activity": "النشاط",
+  "bookings.chooseActivity": "اختر نشاطًا",
+  "bookings.fullWaitlist": "(ممتلئ - ينضم إلى قائمة الانتظار)",
+  "bookings.user": "المستخدم",
+  "bookings.searchUsers": "البحث عن مستخدمين...",
+  "bookings.noUsers": "لم يتم العثور على مستخدمين",
+  "bookings.partySize": "حجم المجموعة",
+  "bookings.attendees": "الحضور (اختياري)",
+  "bookings.addAttendee": "إضافة مشارك",
+  "bookings.attendeesHint": "سمِّ أفراد المجموعة لتسجيل فئاتهم العمرية.",
+  "bookings.name": "الاسم",
+  "bookings.removeAttendee": "إزالة المشارك",
+  "bookings.overlaps": "يتعارض مع حجوزات أخرى لهذا المستخدم",
+  "bookings.bookAnyway": "احجز على أي حال",
+  "bookings.overlapAdminOnly": "يمكن للمسؤول فقط حجز أنشطة متعارضة.",
+  "bookings.ageFlagged": "سيُعلَّم الحجز ليتحقق الموظفون من العمر.",
+  "bookings.bookAnywayFlag": "احجز على أي حال وعلِّم الحجز",
+  "bookings.ageAdminOnly": "يمكن للمسؤول فقط الحجز خارج الفئة العمرية للنشاط.",
+  "bookings.promoCode": "رمز الخصم",
+  "bookings.optional": "اختياري",
+  "bookings.apply": "تطبيق",
+  "bookings.discountApplied": "تم تطبيق {discount}",
+  "bookings.equipmentRental": "استئجار المعدات",
+  "bookings.rentalStock": "({price} للقطعة، بقي {count})",
+  "bookings.discount": "الخصم ({code})",
+  "bookings.rentalLine": "استئجار {name} × {quantity}",
+  "bookings.total": "المجموع",
+  "bookings.status": "الحالة",
+  "bookings.close": "إغلاق",
+  "bookings.partySizeLabel": "حجم المجموعة",
+  "bookings.bookedOn": "تاريخ الحجز",
+  "bookings.noHistory": "لا يوجد سجل لهذا الحجز.",
+  "bookings.historyCreated": "حُجز بحالة {status}",
+  "bookings.historyStatusChanged": "تغيّرت الحالة من {from} إلى {to}",
+  "bookings.historyWaitlistMoved": "تغيّر الترتيب في قائمة الانتظار",
+  "bookings.historyDeleted": "حُذف الحجز",
+  "bookings.historyUpdated": "حُدّث الحجز",
+  "bookings.loadFailed": "تعذّر تحميل الحجوزات. يرجى المحاولة مرة أخرى.",
+  "bookings.loadDataFailed": "تعذّر تحميل البيانات: {message}. راجع وحدة التحكم للتفاصيل.",
+  "bookings.selectBoth": "يرجى اختيار مستخدم ونشاط",
+  "bookings.tooManyAttendees": "عدد الحضور أكبر من حجم المجموعة",
+  "bookings.createFailed": "تعذّر إنشاء الحجز. يرجى المحاولة مرة أخرى.",
+  "bookings.createFailedUnknown": "تعذّر إنشاء الحجز. حدث خطأ غير معروف.",
+  "bookings.promoNotFound": "لم يتم العثور على رمز الخصم",
+  "bookings.promoCheckFailed": "تعذّر التحقق من رمز الخصم. يرجى المحاولة مرة أخرى.",
+  "bookings.overridePrompt": "{message}.\nأدخل سببًا لتجاوز سياسة الإلغاء:",
+  "bookings.waivePrompt": "{message}.\nأدخل سببًا للإعفاء من الرسوم، أو اتركه فارغًا لتحصيلها:",
+  "bookings.cancelFailed": "تعذّر إلغاء الحجز. يرجى المحاولة مرة أخرى.",
+  "bookings.confirmFailed": "تعذّر تأكيد الحجز. يرجى المحاولة مرة أخرى.",
+  "bookings.confirmDelete": "هل أنت متأكد من حذف هذا الحجز؟",
+  "bookings.deleteFailed": "تعذّر حذف الحجز. يرجى المحاولة مرة أخرى.",
+  "bookings.historyFailed": "تعذّر تحميل سجل الحجز. يرجى المحاولة مرة أخرى.",
+  "bookings.paymentFailed": "تعذّر تسجيل الدفعة. يرجى المحاولة مرة أخرى.",
+  "bookings.confirmRecount": "إعادة بناء أعداد المشاركين لكل نشاط من مجموعة الحجوزات؟",
+  "bookings.recountCorrect": "كانت جميع أعداد المشاركين صحيحة بالفعل.",
+  "bookings.recountOne": "تم تصحيح أعداد المشاركين لنشاط واحد.",
+  "bookings.recountMany": "تم تصحيح أعداد المشاركين لـ {count} أنشطة.",
+  "bookings.recountFailed": "تعذّرت إعادة عدّ المشاركين. يرجى المحاولة مرة أخرى.",
+  "bookings.reorderFailed": "تعذّرت إعادة ترتيب قائمة الانتظار. يرجى المحاولة مرة أخرى.",
+  "bookings.exportFailed": "تعذّر تصدير الحجز. يرجى المحاولة مرة أخرى.",
+  "bookings.confirmReschedule": "نقل \"{title}\" إلى {date}، {start} - {end}؟",
+  "bookings.rescheduleAffected": " سيتأثر {count} من المشاركين المحجوزين.",
+  "bookings.rescheduleFailed": "تعذّرت إعادة جدولة النشاط. يرجى المحاولة مرة أخرى.",
+  "common.edit": "تعديل",
+  "common.activate": "تفعيل",
+  "common.deactivate": "إلغاء التفعيل",
+  "common.noDescription": "لا يوجد وصف",
+  "locations.title": "المواقع",
+  "locations.subtitle": "إدارة مواقعك",
+  "locations.add": "إضافة موقع",
+  "locations.empty": "لم يتم العثور على مواقع. أنشئ موقعك الأول!",
+  "locations.openInMaps": "فتح في خرائط Google",
+  "locations.loadFailed": "تعذّر تحميل المواقع. يرجى المحاولة مرة أخرى.",
+  "locations.statusFailed": "تعذّر تحديث حالة الموقع. يرجى المحاولة مرة أخرى.",
+  "locations.confirmDelete": "هل أنت متأكد من حذف هذا الموقع؟",
+  "locations.deleteFailed": "تعذّر حذف الموقع. يرجى المحاولة مرة أخرى.",
+  "locationForm.newTitle": "موقع جديد",
+  "locationForm.editTitle": "تعديل الموقع",
+  "locationForm.name": "الاسم",
+  "locationForm.description": "الوصف",
+  "locationForm.icon": "أيقونة الموقع",
+  "locationForm.iconAlt": "أيقونة الموقع",
+  "locationForm.changeIcon": "تغيير الأيقونة",
+  "locationForm.uploadIcon": "رفع أيقونة",
+  "locationForm.iconHint": "تُستخدم الأيقونة لتمثيل هذا الموقع على الخرائط والقوائم.",
+  "locationForm.category": "الفئة",
+  "locationForm.selectCategory": "اختر فئة",
+  "locationForm.address": "العنوان",
+  "locationForm.location": "الموقع",
+  "locationForm.hideMap": "إخفاء الخريطة",
+  "locationForm.showMap": "عرض الخريطة",
+  "locationForm.mapHint": "انقر على الخريطة لاختيار موقع",
+  "locationForm.latitude": "خط العرض",
+  "locationForm.longitude": "خط الطول",
+  "locationForm.images": "الصور",
+  "locationForm.imageAlt": "صورة الموقع {number}",
+  "locationForm.addImage": "إضافة صورة",
+  "locationForm.imagesHint": "يُعاد تحجيم الصور تلقائيًا وتُخزَّن كبيانات base64.",
+  "locationForm.capacity": "السعة",
+  "locationForm.capacityHint": "أقصى عدد من المشاركين يتسع له الموقع في وقت واحد عبر الأنشطة. اتركه 0 لعدم وجود حد.",
+  "locationForm.exclusive": "نشاط واحد في كل مرة",
+  "common.active": "فعّال",
+  "locationForm.save": "حفظ الموقع",
+  "locationForm.categoriesFailed": "تعذّر تحميل الفئات. يرجى تحديث الصفحة.",
+  "locationForm.iconFailed": "تعذّرت معالجة الأيقونة. يرجى المحاولة مرة أخرى.",
+  "locationForm.imageFailed": "تعذّرت معالجة الصورة. يرجى المحاولة مرة أخرى.",
+  "locationForm.nameRequired": "اسم الموقع مطلوب",
+  "locationForm.addressRequired": "العنوان مطلوب",
+  "locationForm.coordinatesRequired": "الإحداثيات مطلوبة",
+  "locationForm.categoryRequired": "يرجى اختيار فئة",
+  "locationForm.createFailed": "تعذّر إنشاء الموقع. يرجى المحاولة مرة أخرى.",
+  "locationForm.updateFailed": "تعذّر تحديث الموقع. يرجى المحاولة مرة أخرى.",
+  "locationForm.loadFailed": "تعذّر تحميل تفاصيل الموقع. يرجى المحاولة مرة أخرى.",
+  "location.notFound": "الموقع غير موجود",
+  "location.notFoundHint": "الموقع الذي تبحث عنه غير موجود أو تمت إزالته.",
+  "location.backToLocations": "العودة إلى المواقع",
+  "location.loadFailed": "تعذّر تحميل تفاصيل الموقع",
+  "location.openInMaps": "فتح في الخرائط",
+  "location.iconAlt": "أيقونة {name}",
+  "location.imageAlt": "{name} - الصورة {number}",
+  "location.thumbnailAlt": "صورة مصغّرة {number}",
+  "location.noImages": "لا توجد صور",
+  "location.about": "عن هذا الموقع",
+  "location.noDescription": "لا يوجد وصف.",
+  "location.details": "تفاصيل الموقع",
+  "location.capacityAtOnce": "{capacity} مشاركين في وقت واحد",
+  "location.noLimit": "بلا حد",
+  "location.addedOn": "أُضيف في",
+  "location.coordinates": "الإحداثيات",
+  "common.name": "الاسم",
+  "common.description": "الوصف",
+  "common.status": "الحالة",
+  "common.actions": "الإجراءات",
+  "common.save": "حفظ",
+  "categories.title": "الفئات",
+  "categories.subtitle": "إدارة فئات المواقع",
+  "categories.add": "إضافة فئة",
+  "categories.empty": "لم يتم العثور على فئات. أنشئ فئتك الأولى!",
+  "categories.loadFailed": "تعذّر تحميل الفئات. يرجى المحاولة مرة أخرى.",
+  "categories.statusFailed": "تعذّر تحديث حالة الفئة. يرجى المحاولة مرة أخرى.",
+  "categories.confirmDelete": "هل أنت متأكد من حذف هذه الفئة؟",
+  "categories.deleteFailed": "تعذّر حذف الفئة. يرجى المحاولة مرة أخرى.",
+  "categoryForm.newTitle": "فئة جديدة",
+  "categoryForm.editTitle": "تعديل الفئة",
+  "categoryForm.nameRequired": "اسم الفئة مطلوب",
+  "categoryForm.createFailed": "تعذّر إنشاء الفئة. يرجى المحاولة مرة أخرى.",
+  "categoryForm.updateFailed": "تعذّر تحديث الفئة. يرجى المحاولة مرة أخرى.",
+  "categoryForm.loadFailed": "تعذّر تحميل تفاصيل الفئة",
+  "categoryForm.notFound": "الفئة غير موجودة",
+  "categoryForm.notFoundHint": "الفئة التي تبحث عنها غير موجودة أو تمت إزالتها.",
+  "categoryForm.backToCategories": "العودة إلى الفئات",
+  "tags.title": "الوسوم",
+  "tags.subtitle": "إدارة الوسوم المستخدمة لوصف الأنشطة",
+  "tags.migrate": "تنظيف الوسوم القديمة",
+  "tags.newTagName": "اسم الوسم الجديد",
+  "tags.add": "إضافة وسم",
+  "tags.mergeSelected": "دمج {count} محددة في",
+  "tags.mergeTarget": "وسم موجود أو جديد",
+  "tags.merge": "دمج",
+  "tags.clearSelection": "مسح التحديد",
+  "tags.empty": "لا توجد وسوم بعد. أضف وسمًا أعلاه، أو نظّف الوسوم القديمة لاستيراد الموجودة على الأنشطة.",
+  "tags.synonyms": "المرادفات",
+  "tags.used": "الاستخدام",
+  "tags.select": "تحديد {name}",
+  "tags.usedOnOne": "نشاط واحد",
+  "tags.usedOnMany": "{count} أنشطة",
+  "tags.rename": "إعادة تسمية",
+  "tags.deleteInUse": "ادمج الوسوم المستخدمة بدلًا من حذفها",
+  "tags.loadFailed": "تعذّر تحميل الوسوم. يرجى المحاولة مرة أخرى.",
+  "tags.createFailed": "تعذّر إنشاء الوسم.",
+  "tags.renamePrompt": "أعد تسمية الوسم. يُحدَّث كل نشاط يستخدمه.",
+  "tags.renamed": "تمت إعادة تسمية \"{from}\" إلى \"{to}\".",
+  "tags.renameFailed": "تعذّرت إعادة تسمية الوسم.",
+  "tags.synonymsPrompt": "المرادفات، مفصولة بفواصل",
+  "tags.synonymsFailed": "تعذّر تحديث المرادفات.",
+  "tags.confirmMerge": "دمج {count} وسوم في \"{name}\"؟ يُحدَّث كل نشاط يستخدمها.",
+  "tags.merged": "تم دمج {count} وسوم في \"{name}\".",
+  "tags.mergeFailed": "تعذّر دمج الوسوم.",
+  "tags.confirmDelete": "هل أنت متأكد من حذف الوسم \"{name}\"؟",
+  "tags.deleteFailed": "تعذّر حذف الوسم.",
+  "tags.confirmMigrate": "تقسيم الوسوم المفصولة بفواصل في كل نشاط وإعادة عدّ استخدامها؟",
+  "tags.migrated": "تم تنظيف الوسوم في {activities} أنشطة وإضافة {tags} وسوم جديدة.",
+  "tags.migrateFailed": "تعذّر ترحيل الوسوم القديمة.",
+  "common.notAvailable": "غير متوفر",
+  "users.title": "المستخدمون",
+  "users.subtitle": "إدارة المستخدمين وصلاحياتهم",
+  "users.add": "إضافة مستخدم",
+  "users.empty": "لم يتم العثور على مستخدمين. أنشئ مستخدمك الأول!",
+  "users.role": "الدور",
+  "users.age": "العمر",
+  "users.loadFailed": "تعذّر تحميل المستخدمين. يرجى المحاولة مرة أخرى.",
+  "users.confirmDelete": "هل أنت متأكد من حذف هذا المستخدم؟",
+  "users.deleteFailed": "تعذّر حذف المستخدم. يرجى المحاولة مرة أخرى.",
+  "userForm.newTitle": "مستخدم جديد",
+  "userForm.editTitle": "تعديل المستخدم",
+  "userForm.dob": "تاريخ الميلاد",
+  "userForm.passwordHint": "يجب ألا تقل كلمة المرور عن 6 أحرف",
+  "userForm.create": "إنشاء مستخدم",
+  "userForm.emailRequired": "البريد الإلكتروني مطلوب",
+  "userForm.nameRequired": "الاسم مطلوب",
+  "userForm.passwordRequired": "كلمة المرور مطلوبة",
+  "userForm.dobRequired": "تاريخ الميلاد مطلوب",
+  "userForm.createFailed": "تعذّر إنشاء المستخدم. يرجى المحاولة مرة أخرى.",
+  "userForm.updateFailed": "تعذّر تحديث المستخدم. يرجى المحاولة مرة أخرى.",
+  "userForm.loadFailed": "تعذّر تحميل تفاصيل المستخدم",
+  "userForm.notFound": "المستخدم غير موجود",
+  "userForm.notFoundHint": "المستخدم الذي تبحث عنه غير موجود أو تمت إزالته.",
+  "userForm.backToUsers": "العودة إلى المستخدمين",
+  "promoCodes.title": "رموز الخصم",
+  "promoCodes.subtitle": "إدارة رموز الخصم للحجوزات",
+  "promoCodes.add": "إضافة رمز خصم",
+  "promoCodes.empty": "لم يتم العثور على رموز خصم. أنشئ رمزك الأول!",
+  "promoCodes.code": "الرمز",
+  "promoCodes.discount": "الخصم",
+  "promoCodes.valid": "الصلاحية",
+  "promoCodes.used": "الاستخدام",
+  "promoCodes.oneActivity": "نشاط واحد",
+  "promoCodes.activities": "{count} أنشطة",
+  "promoCodes.validFrom": "من {date}",
+  "promoCodes.validUntil": "حتى {date}",
+  "promoCodes.always": "دائمًا",
+  "promoCodes.loadFailed": "تعذّر تحميل رموز الخصم. يرجى المحاولة مرة أخرى.",
+  "promoCodes.statusFailed": "تعذّر تحديث حالة رمز الخصم. يرجى المحاولة مرة أخرى.",
+  "promoCodes.confirmDelete": "هل أنت متأكد من حذف رمز الخصم هذا؟ تحتفظ الحجوزات الحالية بخصمها.",
+  "promoCodes.deleteFailed": "تعذّر حذف رمز الخصم. يرجى المحاولة مرة أخرى.",
+  "promoCodes.newTitle": "رمز خصم جديد",
+  "promoCodes.editTitle": "تعديل رمز الخصم",
+  "promoCodes.notFound": "رمز الخصم غير موجود",
+  "promoCodes.detailsFailed": "تعذّر تحميل تفاصيل رمز الخصم",
+  "promoForm.codeRequired": "الرمز مطلوب",
+  "promoForm.percentRange": "يجب أن تكون نسبة الخصم بين 0 و100",
+  "promoForm.amountPositive": "يجب أن يكون مبلغ الخصم أكبر من 0",
+  "promoForm.endBeforeStart": "يجب أن يكون تاريخ الانتهاء في تاريخ البدء أو بعده",
+  "promoForm.saveFailed": "تعذّر حفظ رمز الخصم. يرجى المحاولة مرة أخرى.",
+  "promoForm.discountType": "نوع الخصم",
+  "promoForm.percent": "نسبة مئوية",
+  "promoForm.fixed": "مبلغ ثابت",
+  "promoForm.discountPercent": "الخصم (%)",
+  "promoForm.discountAmount": "مبلغ الخصم",
+  "promoForm.validFrom": "صالح من",
+  "promoForm.validUntil": "صالح حتى",
+  "promoForm.usageLimit": "حد الاستخدام (0 لغير محدود)",
+  "promoForm.usedSoFar": "استُخدم {count} مرات حتى الآن",
+  "promoForm.appliesTo": "ينطبق على",
+  "promoForm.appliesToHint": "اترك الكل دون تحديد لتطبيق الرمز على كل الأنشطة.",
+  "reviewStatus.pending": "قيد المراجعة",
+  "reviewStatus.approved": "مقبولة",
+  "reviewStatus.hidden": "مخفية",
+  "rating.stars": "{value} من 5 نجوم",
+  "rating.oneStar": "نجمة واحدة",
+  "rating.manyStars": "{count} نجوم",
+  "rating.none": "لا توجد تقييمات",
+  "rating.summaryOne": "{average} / 5 (مراجعة واحدة)",
+  "rating.summaryMany": "{average} / 5 ({count} مراجعات)",
+  "reviews.title": "المراجعات",
+  "reviews.subtitle": "اقبل تقييمات المشاركين أو أخفها قبل احتسابها في المتوسطات",
+  "reviews.loadFailed": "تعذّر تحميل المراجعات. يرجى المحاولة مرة أخرى.",
+  "reviews.moderateFailed": "تعذّر تحديث المراجعة. يرجى المحاولة مرة أخرى.",
+  "reviews.deletedActivity": "نشاط محذوف",
+  "reviews.deletedLocation": "موقع محذوف",
+  "reviews.empty": "لا توجد مراجعات لعرضها.",
+  "reviews.during": " · خلال {activity}",
+  "reviews.duringDeleted": "نشاط محذوف",
+  "reviews.approve": "قبول",
+  "reviews.hide": "إخفاء",
+  "myReviews.title": "قيّم رحلاتك",
+  "myReviews.subtitle": "قيّم الأنشطة التي حضرتها والأماكن التي زرتها",
+  "myReviews.loadFailed": "تعذّر تحميل رحلاتك. يرجى المحاولة مرة أخرى.",
+  "myReviews.empty": "تظهر هنا الرحلات التي حضرتها بعد انتهائها.",
+  "myReviews.editReview": "تعديل المراجعة",
+  "myReviews.review": "مراجعة",
+  "reviewModal.loadFailed": "تعذّر تحميل النشاط. يرجى المحاولة مرة أخرى.",
+  "reviewModal.saveFailed": "تعذّر حفظ المراجعة. يرجى المحاولة مرة أخرى.",
+  "reviewModal.activityPlaceholder": "كيف كان النشاط؟",
+  "reviewModal.locationPlaceholder": "علّق على هذا الموقع (اختياري)",
+  "reviewModal.hint": "لا تُقيَّم المواقع دون نجوم. تُنشر المراجعات بعد موافقة المسؤول.",
+  "reviewModal.submit": "إرسال المراجعة",
+  "staffRole.lead": "المرشد الرئيسي",
+  "staffRole.assistant": "مساعد",
+  "staffRole.driver": "سائق",
+  "myActivities.title": "أنشطتي",
+  "myActivities.subtitle": "الرحلات القادمة التي تقودها ومن سيحضر",
+  "myActivities.loadFailed": "تعذر تحميل أنشطتك. يرجى المحاولة مرة أخرى.",
+  "myActivities.resetPrompt": "إعادة تعيين رابط التقويم؟ ستتوقف التقويمات المشتركة بالرابط القديم عن التحديث.",
+  "myActivities.resetFailed": "تعذرت إعادة تعيين رابط التقويم. يرجى المحاولة مرة أخرى.",
+  "myActivities.subscribe": "اشترك",
+  "myActivities.resetLinkTitle": "إعادة تعيين رابط التقويم",
+  "myActivities.resetLink": "إعادة تعيين الرابط",
+  "myActivities.empty": "لم يتم تعيينك لأي أنشطة قادمة.",
+  "myActivities.confirmed": "{count} مؤكد",
+  "myActivities.confirmedOf": "{count} مؤكد من {limit}",
+  "myActivities.noParticipants": "لا يوجد مشاركون بعد.",
+  "myActivities.participant": "المشارك",
+  "myActivities.party": "المجموعة",
+  "map.leg": "المحطة {from} ← {to}: {distance}، {duration}",
+  "map.stop": "المحطة رقم {number}",
+  "map.noAddress": "لم يتم تقديم عنوان",
+  "map.category": "الفئة:",
+  "map.unknownCategory": "فئة غير معروفة",
+  "map.uncategorized": "غير مصنف",
+  "map.activities": "الأنشطة: {count}",
+  "map.more": "...و{count} أخرى",
+  "dashboard.vsLastMonth": "مقارنة بالشهر الماضي",
+  "chart.noData": "لا توجد بيانات للعرض",
+  "reports.title": "التقارير",
+  "reports.subtitle": "إنشاء تقارير وتحليلات مفصلة",
+  "reports.backToTypes": "العودة إلى أنواع التقارير",
+  "reports.generate": "إنشاء التقرير",
+  "reports.user.title": "تقارير المستخدمين",
+  "reports.user.description": "إنشاء تقارير مفصلة لكل مستخدم، بما في ذلك أنشطته وحجوزاته.",
+  "reports.activity.title": "تقارير الأنشطة",
+  "reports.activity.description": "إنشاء تقارير للأنشطة، بما في ذلك معلومات المشاركين والإحصاءات.",
+  "reports.admin.title": "تقرير تحليلات الإدارة",
+  "reports.admin.description": "تحليل شامل لبيانات المنصة بأكملها، بما في ذلك المستخدمون والأنشطة والمواقع والحجوزات.",
+  "reports.generating": "جارٍ الإنشاء...",
+  "reports.generateFailed": "تعذر إنشاء التقرير. يرجى المحاولة مرة أخرى.",
+  "reports.atTime": " في {time}",
+  "reports.bookedOn": "تم الحجز في {date}",
+  "userReport.loadUsersFailed": "تعذر تحميل المستخدمين. يرجى المحاولة مرة أخرى.",
+  "userReport.loadBookingsFailed": "تعذر تحميل حجوزات المستخدم. يرجى المحاولة مرة أخرى.",
+  "userReport.selectUser": "اختر مستخدمًا",
+  "userReport.userInformation": "معلومات المستخدم",
+  "userReport.name": "الاسم: {name}",
+  "userReport.email": "البريد الإلكتروني: {email}",
+  "userReport.age": "العمر: {age}",
+  "userReport.joined": "تاريخ الانضمام: {date}",
+  "userReport.bookingStatistics": "إحصاءات الحجز",
+  "userReport.totalBookings": "إجمالي الحجوزات:",
+  "userReport.confirmedBookings": "الحجوزات المؤكدة:",
+  "userReport.pendingBookings": "الحجوزات المعلقة:",
+  "userReport.cancelledBookings": "الحجوزات الملغاة:",
+  "userReport.bookingHistory": "سجل الحجوزات",
+  "userReport.noBookings": "لا توجد حجوزات لهذا المستخدم",
+  "userReport.selectPrompt": "اختر مستخدمًا",
+  "userReport.selectHint": "اختر مستخدمًا من القائمة لعرض التفاصيل وإنشاء تقرير",
+  "activityReport.loadActivitiesFailed": "تعذر تحميل الأنشطة. يرجى المحاولة مرة أخرى.",
+  "activityReport.loadBookingsFailed": "تعذر تحميل حجوزات النشاط. يرجى المحاولة مرة أخرى.",
+  "activityReport.selectActivity": "اختر نشاطًا",
+  "activityReport.searchActivities": "ابحث في الأنشطة...",
+  "activityReport.noActivities": "لم يتم العثور على أنشطة",
+  "activityReport.expired": "منتهي",
+  "activityReport.inactive": "غير نشط",
+  "activityReport.details": "تفاصيل النشاط",
+  "activityReport.date": "التاريخ: {start} - {end}",
+  "activityReport.time": "الوقت: {start} - {end}",
+  "activityReport.locations": "المواقع: {locations}",
+  "activityReport.locationsNotLoaded": "{count} موقع (لم يتم تحميل التفاصيل)",
+  "activityReport.difficulty": "الصعوبة: {difficulty}",
+  "activityReport.ageGroup": "الفئة العمرية: {ageGroup}",
+  "activityReport.estimatedCost": "التكلفة التقديرية: ${cost}",
+  "activityReport.tags": "الوسوم: {tags}",
+  "activityReport.totalParticipants": "إجمالي المشاركين:",
+  "activityReport.confirmedParticipants": "المشاركون المؤكدون:",
+  "activityReport.completedParticipants": "المشاركون المكتملون:",
+  "activityReport.pendingParticipants": "المشاركون المعلقون:",
+  "activityReport.waitlistedParticipants": "المشاركون في قائمة الانتظار:",
+  "activityReport.cancelledParticipants": "المشاركون الملغون:",
+  "activityReport.checkedIn": "تم تسجيل الحضور:",
+  "activityReport.capacityUsed": "السعة المستخدمة:",
+  "activityReport.participantRatings": "تقييمات المشاركين",
+  "activityReport.awaitingModeration": "· {count} بانتظار المراجعة",
+  "activityReport.noReviews": "لا توجد مراجعات معتمدة لهذا النشاط بعد.",
+  "activityReport.activityRatings": "تقييمات النشاط",
+  "activityReport.averageLocationRating": "متوسط تقييم المواقع",
+  "activityReport.participantList": "قائمة المشاركين",
+  "activityReport.noParticipants": "لا يوجد مشاركون في هذا النشاط",
+  "activityReport.noEmail": "لا يوجد بريد إلكتروني",
+  "activityReport.bookingDate": "تاريخ الحجز",
+  "activityReport.selectPrompt": "اختر نشاطًا",
+  "activityReport.selectHint": "اختر نشاطًا من القائمة لعرض التفاصيل وإنشاء تقرير",
+  "adminReport.loadFailed": "تعذر تحميل بيانات التقرير. يرجى المحاولة مرة أخرى.",
+  "adminReport.timeframe": "الفترة الزمنية:",
+  "adminReport.monthly": "شهري",
+  "adminReport.quarterly": "ربع سنوي",
+  "adminReport.yearly": "سنوي",
+  "adminReport.generateFull": "إنشاء التقرير الكامل",
+  "adminReport.totalBookings": "إجمالي الحجوزات",
+  "adminReport.activeCount": "نشط: {count}",
+  "adminReport.completedCount": "مكتمل: {count}",
+  "adminReport.confirmedCount": "مؤكد: {count}",
+  "adminReport.pendingCount": "معلق: {count}",
+  "adminReport.cancelledCount": "ملغى: {count}",
+  "adminReport.keyInsights": "أبرز المؤشرات",
+  "adminReport.averageParticipants": "متوسط المشاركين لكل نشاط",
+  "adminReport.mostPopularActivity": "النشاط الأكثر شعبية",
+  "adminReport.mostActiveUser": "المستخدم الأكثر نشاطًا",
+  "adminReport.none": "لا يوجد",
+  "adminReport.netRevenue": "صافي الإيرادات",
+  "adminReport.revenueBreakdown": "تم تحصيل {collected}، وتم رد {refunded}",
+  "adminReport.confirmationRate": "معدل تأكيد الحجوزات",
+  "adminReport.bookingsOverTime": "الحجوزات عبر الزمن",
+  "adminReport.bookingsBy.month": "الحجوزات حسب الشهر",
+  "adminReport.bookingsBy.quarter": "الحجوزات حسب الربع",
+  "adminReport.bookingsBy.year": "الحجوزات حسب السنة",
+  "adminReport.userRegistrations": "تسجيلات المستخدمين",
+  "adminReport.locationsByCategory": "المواقع حسب الفئة",
+  "adminReport.recentActivities": "الأنشطة الأخيرة",
+  "adminReport.title": "العنوان",
+  "adminReport.startDate": "تاريخ البدء",
+  "adminReport.participants": "المشاركون",
+  "adminReport.difficulty": "الصعوبة"
+};
\ No newline at end of file
@@ -0,0 +1,878 @@
+// Interface strings in the fallback language; every other locale translates the same keys.
+// Keys are grouped by the page or component that shows them; "common" strings are shared.
+export const en = {
+  "nav.dashboard": "Dashboard",
+  "nav.myActivities": "My Activities",
+  "nav.locations": "Locations",
+  "nav.activities": "Activities",
+  "nav.categories": "Categories",
+  "nav.tags": "Tags",
+  "nav.users": "Users",
+  "nav.bookings": "Bookings",
+  "nav.reviews": "Reviews",
+  "nav.myReviews": "Rate Your Trips",
+  "nav.promoCodes": "Promo Codes",
+  "nav.reports": "Reports",
+  "nav.settings": "Settings",
+  "nav.apiAi": "API & AI Management",
+  "nav.logout": "Logout",
+  "nav.toggleMenu": "Toggle menu",
+  "nav.expand": "Expand sidebar",
+  "nav.collapse": "Collapse sidebar",
+  "header.profile": "Profile",
+  "header.settings": "Settings",
+  "header.logout": "Logout",
+  "header.language": "Language",
+  "role.admin": "Administrator",
+  "role.guide": "Guide",
+  "role.user": "User",
+  "footer.rights": "Meshwar Admin. All rights reserved.",
+  "footer.privacy": "Privacy Policy",
+  "footer.terms": "Terms of Service",
+  "footer.help": "Help Center",
+  "common.loading": "Loading...",
+  "common.email": "Email",
+  "common.password": "Password",
+  "auth.appName": "Meshwar Admin",
+  "auth.signInTitle": "Sign in to your account",
+  "auth.signInFailed": "Failed to sign in. Please check your credentials.",
+  "auth.rememberMe": "Remember me",
+  "auth.forgotPassword": "Forgot password?",
+  "auth.signingIn": "Signing in...",
+  "auth.signIn": "Sign in",
+  "auth.noAccount": "Don't have an account?",
+  "auth.signUp": "Sign up",
+  "auth.passwordsDoNotMatch": "Passwords do not match",
+  "auth.signUpFailed": "Failed to create an account. Please try again.",
+  "auth.createAdminAccount": "Create Admin Account",
+  "auth.creatingAdminAccount": "Creating admin account...",
+  "auth.fullName": "Full Name",
+  "auth.confirmPassword": "Confirm Password",
+  "auth.haveAccount": "Already have an account?",
+  "auth.resetPassword": "Reset Password",
+  "auth.resetPasswordHint": "Enter your email to receive a password reset link",
+  "auth.resetPasswordSent": "Check your email for further instructions",
+  "auth.resetPasswordFailed": "Failed to reset password. Please try again.",
+  "auth.resetPasswordUnknownError": "Failed to reset password. An unknown error occurred.",
+  "auth.sending": "Sending...",
+  "auth.backToLogin": "Back to login",
+  "common.saving": "Saving...",
+  "common.saveChanges": "Save Changes",
+  "ageGroup.all": "All Ages",
+  "ageGroup.adults": "Adults",
+  "ageGroup.children": "Children",
+  "ageGroup.seniors": "Seniors",
+  "ageGroup.rangeFrom": "{label} ({min}+)",
+  "ageGroup.rangeUnder": "{label} (under {max})",
+  "ageGroup.rangeBetween": "{label} ({min}-{max})",
+  "difficulty.easy": "Easy",
+  "difficulty.moderate": "Moderate",
+  "difficulty.hard": "Hard",
+  "difficulty.challenging": "Challenging",
+  "timeRange.day": "Today",
+  "timeRange.week": "Last 7 days",
+  "timeRange.month": "Last 30 days",
+  "timeRange.year": "Last 12 months",
+  "timeRange.all": "All time",
+  "dashboard.title": "Dashboard",
+  "dashboard.welcome": "Welcome back! Here's an overview of your platform.",
+  "dashboard.totalUsers": "Total Users",
+  "dashboard.totalLocations": "Total Locations",
+  "dashboard.totalActivities": "Total Activities",
+  "dashboard.activeActivities": "Active Activities",
+  "dashboard.activityOverview": "Activity Overview",
+  "dashboard.activityOver.day": "Activity over today",
+  "dashboard.activityOver.week": "Activity over the last 7 days",
+  "dashboard.activityOver.month": "Activity over the last 30 days",
+  "dashboard.activityOver.year": "Activity over the last 12 months",
+  "dashboard.activityOver.all": "Activity over all time",
+  "dashboard.noData": "No data available for this time period",
+  "dashboard.popularLocations": "Popular Locations",
+  "dashboard.topLocations": "Top Locations",
+  "dashboard.locationMap": "Location Map",
+  "dashboard.noLocations": "No locations available",
+  "dashboard.recentActivity": "Recent Activity",
+  "dashboard.noRecentActivity": "No recent activity",
+  "dashboard.notAvailable": "N/A",
+  "dashboard.byDifficulty": "Activities by Difficulty",
+  "dashboard.byAgeGroup": "Activities by Age Group",
+  "dashboard.upcomingActivities": "Upcoming Activities",
+  "dashboard.noUpcomingActivities": "No upcoming activities",
+  "dashboard.newUser": "New user registered",
+  "dashboard.newLocation": "New location added",
+  "dashboard.newActivity": "New activity created",
+  "dashboard.newItem": "New item",
+  "profile.loading": "Loading profile...",
+  "profile.loadFailed": "Failed to load user data. Please try again.",
+  "profile.imageTooLarge": "Image size should be less than 1MB",
+  "profile.updated": "Profile updated successfully!",
+  "profile.updateFailed": "Failed to update profile.",
+  "profile.title": "Profile Settings",
+  "profile.picture": "Profile Picture",
+  "profile.pictureAlt": "Profile",
+  "profile.pictureHint": "Recommended: Square image, max 1MB",
+  "profile.displayName": "Display Name",
+  "profile.emailAddress": "Email Address",
+  "profile.emailLocked": "Email cannot be changed",
+  "common.unknownLocation": "Unknown location",
+  "itinerary.departsBeforeArrival": "Stop {stop} departs before it arrives",
+  "itinerary.arrivesBeforePrevious": "Stop {stop} arrives before stop {previous} departs",
+  "itinerary.empty": "Select locations below to build the itinerary.",
+  "itinerary.removeStop": "Remove stop",
+  "itinerary.arrival": "Arrival",
+  "itinerary.departure": "Departure",
+  "itinerary.dwell": "Dwell (min)",
+  "itinerary.notes": "Notes for this stop",
+  "itinerary.dragHint": "Drag stops to change the order they are visited in.",
+  "conflict.capacity": "Together with \"{activity}\", {location} would be over its capacity",
+  "conflict.overlap": "{location} takes one activity at a time and is already booked for \"{activity}\"",
+  "conflict.shared": "{location} is also used by \"{activity}\"",
+  "conflict.when": "{conflict} on {date}, {start} - {end}.",
+  "conflict.viewActivity": "View activity",
+  "priceTiers.adults": "Adult",
+  "priceTiers.children": "Child",
+  "priceTiers.seniors": "Senior",
+  "priceTiers.toggle": "Price by age group",
+  "priceTiers.groupRate": "Group rate",
+  "priceTiers.none": "None",
+  "priceTiers.groupFrom": "Group from (people)",
+  "priceTiers.flat": "Every seat is charged the estimated cost.",
+  "common.unknown": "Unknown",
+  "common.remove": "Remove {name}",
+  "common.minutes": "{minutes} min",
+  "equipment.required": "Required",
+  "equipment.recommended": "Recommended",
+  "equipment.itemPlaceholder": "Item, e.g. hiking boots",
+  "equipment.removeItem": "Remove item",
+  "equipment.notes": "Notes for participants",
+  "equipment.rentable": "Available to rent",
+  "equipment.rentalPrice": "Rental price",
+  "equipment.stock": "Stock",
+  "equipment.rented": "{count} rented",
+  "equipment.addItem": "Add item",
+  "tags.addPlaceholder": "Add tags...",
+  "tags.newTagHint": "\"{tag}\" is a new tag and will be added to the tag list.",
+  "staff.leadGuide": "Lead guide",
+  "staff.noLeadGuide": "No lead guide",
+  "staff.assistantIds": "Assistants",
+  "staff.driverIds": "Drivers",
+  "staff.add.assistantIds": "Add assistant...",
+  "staff.add.driverIds": "Add driver...",
+  "staff.conflict": "{name} is already running \"{activity}\" on {date}, {start} - {end}",
+  "staff.noGuides": "Give users the guide role to assign them to activities.",
+  "common.any": "Any",
+  "common.clear": "Clear",
+  "common.min": "Min",
+  "common.max": "Max",
+  "filters.search": "Search titles and descriptions...",
+  "filters.from": "From",
+  "filters.to": "To",
+  "filters.difficulty": "Difficulty",
+  "filters.ageGroup": "Age Group",
+  "filters.tag": "Tag",
+  "filters.location": "Location",
+  "filters.category": "Category",
+  "filters.cost": "Cost",
+  "filters.apply": "Apply Filters",
+  "common.all": "All",
+  "common.cancel": "Cancel",
+  "common.dismiss": "Dismiss",
+  "common.previous": "Previous",
+  "common.next": "Next",
+  "common.unlimited": "∞",
+  "activityStatus.draft": "Draft",
+  "activityStatus.in-review": "In Review",
+  "activityStatus.scheduled": "Scheduled",
+  "activityStatus.published": "Published",
+  "activityStatus.archived": "Archived",
+  "activityStatus.expired": "Expired",
+  "activities.transition.submit": "Submit for review",
+  "activities.transition.approveSchedule": "Approve & schedule",
+  "activities.transition.approvePublish": "Approve & publish",
+  "activities.transition.publish": "Publish now",
+  "activities.transition.returnToDraft": "Return to draft",
+  "activities.transition.unschedule": "Unschedule",
+  "activities.transition.restore": "Restore",
+  "activities.transition.unpublish": "Unpublish",
+  "activities.transition.archive": "Archive",
+  "activities.loadFailed": "Failed to load activities. Please try again.",
+  "activities.returnReason": "Why is this activity being sent back? (optional)",
+  "activities.statusFailed": "Failed to update activity status. Please try again.",
+  "activities.expirationDone": "Expired {expired} activities, completed {completed} and cancelled {cancelled} bookings, published {published} scheduled activities.",
+  "activities.expirationFailed": "Failed to run expiration. Please try again.",
+  "activities.searchRebuilt": "Updated search fields on {count} activities.",
+  "activities.searchRebuildFailed": "Failed to rebuild the search index. Please try again.",
+  "activities.confirmDelete": "Are you sure you want to delete this activity?",
+  "activities.deleteFailed": "Failed to delete activity. Please try again.",
+  "activities.copyStartDay": "Start day of the copy (YYYY-MM-DD)",
+  "activities.duplicateFailed": "Failed to duplicate activity. Please try again.",
+  "activities.templateName": "Template name",
+  "activities.templateSaved": "Saved \"{name}\" to the template library.",
+  "activities.templateFailed": "Failed to save template. Please try again.",
+  "activities.title": "Activities",
+  "activities.subtitle": "Manage activities and their locations",
+  "activities.lastRun": "Last run {time}",
+  "activities.neverRun": "Never run",
+  "activities.runExpiration": "Run Expiration",
+  "activities.rebuildSearch": "Rebuild Search",
+  "activities.templates": "Templates",
+  "activities.create": "Create Activity",
+  "activities.noMatches": "No activities match these filters.",
+  "activities.empty": "No activities found. Create your first activity!",
+  "activities.locations": "Locations:",
+  "activities.difficulty": "Difficulty:",
+  "activities.participants": "Participants:",
+  "activities.publishes": "Publishes:",
+  "activities.submittedBy": "Submitted by {name}",
+  "activities.submittedByOn": "Submitted by {name} on {date}",
+  "activities.approvedBy": "Approved by {name}",
+  "activities.approvedByOn": "Approved by {name} on {date}",
+  "activities.returned": "Returned: {note}",
+  "activities.duplicate": "Duplicate activity",
+  "activities.saveAsTemplate": "Save as template",
+  "activities.ownSubmission": "Another admin must approve your submission",
+  "activities.schedulePublishing": "Schedule Publishing",
+  "activities.publishAt": "Publish at",
+  "activities.schedule": "Schedule",
+  "common.delete": "Delete",
+  "common.create": "Create",
+  "templates.loadFailed": "Failed to load templates. Please try again.",
+  "templates.pickStartDay": "Pick a start date for the new activity",
+  "templates.createFailed": "Failed to create activity. Please try again.",
+  "templates.confirmDelete": "Are you sure you want to delete this template? Activities created from it are not affected.",
+  "templates.deleteFailed": "Failed to delete template. Please try again.",
+  "templates.title": "Activity Templates",
+  "templates.subtitle": "Reuse the description, stops, tags and pricing of past trips",
+  "templates.empty": "No templates yet. Use \"Save as template\" on an activity to add one.",
+  "templates.template": "Template",
+  "templates.details": "Details",
+  "templates.newActivity": "New Activity",
+  "templates.summary": "{stops} stops · {difficulty} · {days}, {start} - {end}",
+  "templates.days": "{count} days",
+  "templates.oneDay": "1 day",
+  "templates.startDate": "Start date",
+  "common.view": "View",
+  "activityStatus.active": "Active",
+  "activityStatus.inactive": "Inactive",
+  "activity.notFound": "Activity not found",
+  "activity.loadFailed": "Failed to load activity details",
+  "activity.notFoundHint": "The activity you're looking for doesn't exist or has been removed.",
+  "activity.backToActivities": "Back to Activities",
+  "activity.addToCalendar": "Add to Calendar",
+  "activity.description": "Description",
+  "activity.locations": "Locations",
+  "activity.locationCount": "This activity includes {count} location(s)",
+  "activity.itinerary": "Itinerary",
+  "activity.locationDetails": "Location Details",
+  "activity.details": "Activity Details",
+  "activity.date": "Date",
+  "activity.time": "Time",
+  "activity.ageGroup": "Age Group",
+  "activity.difficulty": "Difficulty",
+  "activity.duration": "Duration",
+  "activity.durationMinutes": "{minutes} minutes",
+  "activity.durationHours": " ({hours} hours {minutes} minutes)",
+  "activity.estimatedCost": "Estimated Cost",
+  "activity.participants": "Participants",
+  "activity.categories": "Categories",
+  "activity.tags": "Tags",
+  "activity.whatToBring": "What to Bring",
+  "activity.rentFor": "Rent for {price} · {available} of {stock} available",
+  "activity.actions": "Actions",
+  "activity.edit": "Edit Activity",
+  "activity.delete": "Delete Activity",
+  "recurrence.every.daily": "Every day",
+  "recurrence.every.weekly": "Every week",
+  "recurrence.every.monthly": "Every month",
+  "recurrence.everyN.daily": "Every {count} days",
+  "recurrence.everyN.weekly": "Every {count} weeks",
+  "recurrence.everyN.monthly": "Every {count} months",
+  "recurrence.onDays": "{rule} on {days}",
+  "recurrence.until": "{rule} until {date}",
+  "recurrence.times": "{rule}, {count} times",
+  "translationFields.emptyHint": "Leave a translation empty to show the English text instead.",
+  "travelMode.walking": "Walking",
+  "travelMode.driving": "Driving",
+  "travelMode.bus": "Bus",
+  "common.creating": "Creating...",
+  "activityForm.locationsLoadFailed": "Failed to load locations. Please try again.",
+  "activityForm.titleRequired": "Activity title is required",
+  "activityForm.startDateRequired": "Start date is required",
+  "activityForm.endDateRequired": "End date is required",
+  "activityForm.endBeforeStart": "End date cannot be before start date",
+  "activityForm.startTimeRequired": "Start time is required",
+  "activityForm.endTimeRequired": "End time is required",
+  "activityForm.locationRequired": "Please select at least one location",
+  "activityForm.staffBusy": "Some staff members are already assigned to another activity at the same time",
+  "activityForm.locationsBusy": "Some locations are already in use by another activity at the same time",
+  "activityForm.untilRequired": "Please choose when the activity stops repeating",
+  "activityForm.noOccurrences": "The repeat settings do not produce any occurrences",
+  "activityForm.createFailed": "Failed to create activity. Please try again.",
+  "activityForm.newTitle": "New Activity",
+  "activityForm.basicInfo": "Basic Information",
+  "activityForm.title": "Title",
+  "activityForm.description": "Description",
+  "activityForm.dateTime": "Date & Time",
+  "activityForm.startDate": "Start Date",
+  "activityForm.endDate": "End Date",
+  "activityForm.startTime": "Start Time",
+  "activityForm.endTime": "End Time",
+  "activityForm.repeat": "Repeat this activity",
+  "activityForm.repeats": "Repeats",
+  "activityForm.frequency.daily": "Daily",
+  "activityForm.frequency.weekly": "Weekly",
+  "activityForm.frequency.monthly": "Monthly",
+  "activityForm.interval.daily": "Every (days)",
+  "activityForm.interval.weekly": "Every (weeks)",
+  "activityForm.interval.monthly": "Every (months)",
+  "activityForm.on": "On",
+  "activityForm.weekdayDefault": "Defaults to the start date's weekday",
+  "activityForm.ends": "Ends",
+  "activityForm.endsAfterCount": "After a number of occurrences",
+  "activityForm.endsOnDate": "On a date",
+  "activityForm.occurrences": "Occurrences",
+  "activityForm.until": "Until",
+  "activityForm.skipDates": "Skip dates",
+  "activityForm.occurrenceSummary": " · {count} occurrence(s), each bookable with its own participant limit",
+  "activityForm.locations": "Locations",
+  "activityForm.hideMap": "Hide Map",
+  "activityForm.showMap": "Show Map",
+  "activityForm.contains": "This activity contains:",
+  "activityForm.itinerary": "Itinerary",
+  "activityForm.travelMode": "Travel mode",
+  "activityForm.selectLocations": "Select Locations",
+  "activityForm.selectLocationsHint": "Select at least one location for this activity",
+  "activityForm.noLocations": "No locations available. Please create locations first.",
+  "activityForm.additionalDetails": "Additional Details",
+  "activityForm.difficulty": "Difficulty Level",
+  "activityForm.ageGroup": "Age Group",
+  "activityForm.duration": "Estimated Duration (calculated automatically)",
+  "activityForm.estimatedCost": "Estimated Cost",
+  "activityForm.pricing": "Pricing",
+  "activityForm.tags": "Tags",
+  "activityForm.whatToBring": "What to Bring",
+  "activityForm.staff": "Staff",
+  "activityForm.submitForReview": "Submit for review",
+  "activityForm.reviewHint": "New activities are saved as drafts. Another admin must approve them before they are published.",
+  "activityForm.participantLimit": "Participant Limit (0 for unlimited)",
+  "activityForm.editTitle": "Edit Activity",
+  "activityForm.updateFailed": "Failed to update activity. Please try again.",
+  "activityForm.loadFailed": "Failed to load activity details. Please try again.",
+  "activityForm.status": "Status:",
+  "activityForm.returnedFromReview": "Returned from review: {note}",
+  "activityForm.workflowHint": "Submit, approve and publish the activity from the activities list.",
+  "activityForm.cancellationPolicy": "Cancellation Policy",
+  "activityForm.enforcePolicy": "Enforce a cancellation policy",
+  "activityForm.noPolicyHint": "Without a policy, bookings can be cancelled free of charge at any time",
+  "activityForm.freeWindow": "Free Cancellation Window (hours before start)",
+  "activityForm.lateFee": "Late Cancellation Fee (%)",
+  "activityForm.chargeNoShows": "Charge no-shows the full price",
+  "activityForm.overrideHint": "Once the activity starts, bookings can only be cancelled by an admin override with a recorded reason",
+  "activityForm.series": "This activity is part of a recurring series",
+  "activityForm.scopeThis": "Save changes to this occurrence only",
+  "activityForm.scopeFuture": "Save changes to this and all future occurrences",
+  "activityForm.scopeHint": "Date changes move every selected occurrence by the same amount. Bookings stay with their occurrence.",
+  "calendarFeed.label": "Calendar Feed",
+  "calendarFeed.copyPrompt": "Copy the calendar link",
+  "calendarFeed.subscribe": "Subscribe in your calendar app",
+  "calendarFeed.copy": "Copy calendar link",
+  "calendar.today": "Today",
+  "calendar.weekOf": "Week of {date}",
+  "calendar.view.month": "Month",
+  "calendar.view.week": "Week",
+  "calendar.view.day": "Day",
+  "calendar.hintDay": "Click an activity to see its bookings, or drag it to another day to reschedule.",
+  "calendar.hintHour": "Click an activity to see its bookings, or drag it to another hour to reschedule.",
+  "common.back": "Back",
+  "ticket.bookingNotFound": "Booking not found",
+  "ticket.onlyConfirmed": "Tickets are only issued for confirmed bookings.",
+  "ticket.loadFailed": "Failed to load ticket. Please try again.",
+  "ticket.print": "Print Ticket",
+  "ticket.heading": "Meshwar Ticket",
+  "ticket.activity": "Activity",
+  "ticket.qrAlt": "Ticket QR code",
+  "ticket.guest": "Guest",
+  "ticket.party": " (party of {count})",
+  "ticket.booking": "Booking {id}",
+  "checkIn.title": "Check-in",
+  "checkIn.subtitle": "Scan booking tickets to record attendance",
+  "checkIn.checkedIn": "Checked in",
+  "checkIn.failed": "Check-in failed",
+  "checkIn.unsupported": "QR scanning is not supported in this browser. Enter the ticket code manually.",
+  "checkIn.cameraError": "Could not access the camera. Enter the ticket code manually.",
+  "checkIn.scanner": "Scanner",
+  "checkIn.stopCamera": "Stop Camera",
+  "checkIn.startCamera": "Start Camera",
+  "checkIn.ticketCode": "Ticket code",
+  "checkIn.checkIn": "Check In",
+  "checkIn.recentScans": "Recent Scans",
+  "checkIn.noScans": "No tickets scanned yet.",
+  "checkIn.party": " · party of {count}",
+  "promoCheck.inactive": "This promo code is no longer active",
+  "promoCheck.notYetValid": "This promo code is not valid yet",
+  "promoCheck.expired": "This promo code has expired",
+  "promoCheck.limitReached": "This promo code has reached its usage limit",
+  "promoCheck.otherActivity": "This promo code does not apply to this activity",
+  "discount.percent": "{value}% off",
+  "discount.amount": "{amount} off",
+  "rentals.unavailable": "Some of the requested equipment is not available to rent",
+  "rentals.lowStock": "Only {count} {name} left to rent",
+  "cancellation.free": "Free cancellation",
+  "cancellation.noShow": "The activity has already started; the booking counts as a no-show and is charged in full",
+  "cancellation.closed": "The activity has already started; cancellations are closed",
+  "cancellation.late": "Late cancellation: a {percent}% fee applies",
+  "bookingStatus.confirmed": "Confirmed",
+  "bookingStatus.pending": "Pending",
+  "bookingStatus.cancelled": "Cancelled",
+  "bookingStatus.waitlisted": "Waitlisted",
+  "bookingStatus.completed": "Completed",
+  "paymentStatus.unpaid": "Unpaid",
+  "paymentStatus.partially-paid": "Partially paid",
+  "paymentStatus.paid": "Paid",
+  "paymentStatus.refunded": "Refunded",
+  "paymentMethod.cash": "Cash",
+  "paymentMethod.card": "Card",
+  "paymentMethod.transfer": "Bank Transfer",
+  "priceTiers.group": "Group rate",
+  "bookings.title": "Bookings",
+  "bookings.subtitle": "Manage activity bookings for users",
+  "bookings.list": "List",
+  "bookings.calendar": "Calendar",
+  "bookings.checkIn": "Check-in",
+  "bookings.recount": "Recount Participants",
+  "bookings.create": "Create Booking",
+  "bookings.activities": "Activities",
+  "bookings.noActivities": "No active activities found.",
+  "bookings.onWaitlist": "{count} on waitlist",
+  "bookings.bookingsFor": "Bookings for {title}",
+  "bookings.participants": "{current}/{limit} participants",
+  "bookings.selectActivity": "Please select an activity to view bookings.",
+  "bookings.noBookings": "No bookings found for this activity.",
+  "bookings.unknownUser": "Unknown User",
+  "bookings.unknownActivity": "Unknown Activity",
+  "bookings.partyOf": "Party of {count}",
+  "bookings.withPromo": " with {code} (-{discount})",
+  "bookings.renting": "Renting {items}",
+  "bookings.paidOf": "Paid {paid} of {due}",
+  "bookings.checkedIn": "Checked in",
+  "bookings.ageCheck": "Age check",
+  "bookings.policyOverridden": "Policy overridden: {reason}",
+  "bookings.lateCancellation": "Late cancellation, {percent}% fee",
+  "bookings.freeCancellation": "Cancelled free of charge",
+  "bookings.history": "History",
+  "bookings.recordPayment": "Record Payment",
+  "bookings.ticket": "Ticket",
+  "bookings.confirm": "Confirm",
+  "bookings.waitlist": "Waitlist ({count})",
+  "bookings.waitlistHint": "The first user in the queue is confirmed automatically when a confirmed booking is cancelled or deleted.",
+  "bookings.joined": "Joined {date}",
+  "bookings.moveUp": "Move up",
+  "bookings.moveDown": "Move down",
+  "bookings.balance": "{name} · Balance {amount}",
+  "bookings.amount": "Amount",
+  "bookings.method": "Method",
+  "bookings.createTitle": "Create New Booking",
+  "bookings.activity": "Activity",
+  "bookings.chooseActivity": "Select an activity",
+  "bookings.fullWaitlist": "(Full - joins waitlist)",
+  "bookings.user": "User",
+  "bookings.searchUsers": "Search users...",
+  "bookings.noUsers": "No users found",
+  "bookings.partySize": "Party Size",
+  "bookings.attendees": "Attendees (optional)",
+  "bookings.addAttendee": "Add attendee",
+  "bookings.attendeesHint": "Name the members of the party to record their age groups.",
+  "bookings.name": "Name",
+  "bookings.removeAttendee": "Remove attendee",
+  "bookings.overlaps": "Overlaps with this user's other bookings",
+  "bookings.bookAnyway": "Book anyway",
+  "bookings.overlapAdminOnly": "Only an admin can book overlapping activities.",
+  "bookings.ageFlagged": "The booking will be flagged for staff to verify the age.",
+  "bookings.bookAnywayFlag": "Book anyway and flag the booking",
+  "bookings.ageAdminOnly": "Only an admin can book outside the activity's age group.",
+  "bookings.promoCode": "Promo Code",
+  "bookings.optional": "Optional",
+  "bookings.apply": "Apply",
+  "bookings.discountApplied": "{discount} applied",
+  "bookings.equipmentRental": "Equipment Rental",
+  "bookings.rentalStock": "({price} each, {count} left)",
+  "bookings.discount": "Discount ({code})",
+  "bookings.rentalLine": "{name} rental × {quantity}",
+  "bookings.total": "Total",
+  "bookings.status": "Status",
+  "bookings.close": "Close",
+  "bookings.partySizeLabel": "Party size",
+  "bookings.bookedOn": "Booked on",
+  "bookings.noHistory": "No history recorded for this booking.",
+  "bookings.historyCreated": "Booked as {status}",
+  "bookings.historyStatusChanged": "Status changed from {from} to {to}",
+  "bookings.historyWaitlistMoved": "Waitlist position changed",
+  "bookings.historyDeleted": "Booking deleted",
+  "bookings.historyUpdated": "Booking updated",
+  "bookings.loadFailed": "Failed to load bookings. Please try again.",
+  "bookings.loadDataFailed": "Failed to load data: {message}. See console for details.",
+  "bookings.selectBoth": "Please select both a user and an activity",
+  "bookings.tooManyAttendees": "The party has more attendees than its party size",
+  "bookings.createFailed": "Failed to create booking. Please try again.",
+  "bookings.createFailedUnknown": "Failed to create booking. An unknown error occurred.",
+  "bookings.promoNotFound": "Promo code not found",
+  "bookings.promoCheckFailed": "Failed to check the promo code. Please try again.",
+  "bookings.overridePrompt": "{message}.\nEnter a reason to override the cancellation policy:",
+  "bookings.waivePrompt": "{message}.\nEnter a reason to waive the fee, or leave empty to charge it:",
+  "bookings.cancelFailed": "Failed to cancel booking. Please try again.",
+  "bookings.confirmFailed": "Failed to confirm booking. Please try again.",
+  "bookings.confirmDelete": "Are you sure you want to delete this booking?",
+  "bookings.deleteFailed": "Failed to delete booking. Please try again.",
+  "bookings.historyFailed": "Failed to load booking history. Please try again.",
+  "bookings.paymentFailed": "Failed to record payment. Please try again.",
+  "bookings.confirmRecount": "Rebuild participant counts for every activity from the bookings collection?",
+  "bookings.recountCorrect": "All participant counts were already correct.",
+  "bookings.recountOne": "Corrected participant counts for 1 activity.",
+  "bookings.recountMany": "Corrected participant counts for {count} activities.",
+  "bookings.recountFailed": "Failed to recount participants. Please try again.",
+  "bookings.reorderFailed": "Failed to reorder waitlist. Please try again.",
+  "bookings.exportFailed": "Failed to export the booking. Please try again.",
+  "bookings.confirmReschedule": "Move \"{title}\" to {date}, {start} - {end}?",
+  "bookings.rescheduleAffected": " {count} booked participants will be affected.",
+  "bookings.rescheduleFailed": "Failed to reschedule activity. Please try again.",
+  "common.edit": "Edit",
+  "common.activate": "Activate",
+  "common.deactivate": "Deactivate",
+  "common.noDescription": "No description",
+  "locations.title": "Locations",
+  "locations.subtitle": "Manage your locations",
+  "locations.add": "Add Location",
+  "locations.empty": "No locations found. Create your first location!",
+  "locations.openInMaps": "Open in Google Maps",
+  "locations.loadFailed": "Failed to load locations. Please try again.",
+  "locations.statusFailed": "Failed to update location status. Please try again.",
+  "locations.confirmDelete": "Are you sure you want to delete this location?",
+  "locations.deleteFailed": "Failed to delete location. Please try again.",
+  "locationForm.newTitle": "New Location",
+  "locationForm.editTitle": "Edit Location",
+  "locationForm.name": "Name",
+  "locationForm.description": "Description",
+  "locationForm.icon": "Location Icon",
+  "locationForm.iconAlt": "Location icon",
+  "locationForm.changeIcon": "Change Icon",
+  "locationForm.uploadIcon": "Upload Icon",
+  "locationForm.iconHint": "The icon will be used to represent this location on maps and lists.",
+  "locationForm.category": "Category",
+  "locationForm.selectCategory": "Select a category",
+  "locationForm.address": "Address",
+  "locationForm.location": "Location",
+  "locationForm.hideMap": "Hide Map",
+  "locationForm.showMap": "Show Map",
+  "locationForm.mapHint": "Click on the map to select a location",
+  "locationForm.latitude": "Latitude",
+  "locationForm.longitude": "Longitude",
+  "locationForm.images": "Images",
+  "locationForm.imageAlt": "Location image {number}",
+  "locationForm.addImage": "Add Image",
+  "locationForm.imagesHint": "Images will be automatically resized and stored as base64 data.",
+  "locationForm.capacity": "Capacity",
+  "locationForm.capacityHint": "Most participants the location holds at once, across activities. Leave at 0 for no limit.",
+  "locationForm.exclusive": "One activity at a time",
+  "common.active": "Active",
+  "locationForm.save": "Save Location",
+  "locationForm.categoriesFailed": "Failed to load categories. Please refresh the page.",
+  "locationForm.iconFailed": "Failed to process icon. Please try again.",
+  "locationForm.imageFailed": "Failed to process image. Please try again.",
+  "locationForm.nameRequired": "Location name is required",
+  "locationForm.addressRequired": "Address is required",
+  "locationForm.coordinatesRequired": "Coordinates are required",
+  "locationForm.categoryRequired": "Please select a category",
+  "locationForm.createFailed": "Failed to create location. Please try again.",
+  "locationForm.updateFailed": "Failed to update location. Please try again.",
+  "locationForm.loadFailed": "Failed to load location details. Please try again.",
+  "location.notFound": "Location not found",
+  "location.notFoundHint": "The location you're looking for doesn't exist or has been removed.",
+  "location.backToLocations": "Back to Locations",
+  "location.loadFailed": "Failed to load location details",
+  "location.openInMaps": "Open in Maps",
+  "location.iconAlt": "{name} icon",
+  "location.imageAlt": "{name} - Image {number}",
+  "location.thumbnailAlt": "Thumbnail {number}",
+  "location.noImages": "No images available",
+  "location.about": "About this location",
+  "location.noDescription": "No description available.",
+  "location.details": "Location Details",
+  "location.capacityAtOnce": "{capacity} participants at once",
+  "location.noLimit": "No limit",
+  "location.addedOn": "Added on",
+  "location.coordinates": "Coordinates",
+  "common.name": "Name",
+  "common.description": "Description",
+  "common.status": "Status",
+  "common.actions": "Actions",
+  "common.save": "Save",
+  "categories.title": "Categories",
+  "categories.subtitle": "Manage categories for locations",
+  "categories.add": "Add Category",
+  "categories.empty": "No categories found. Create your first category!",
+  "categories.loadFailed": "Failed to load categories. Please try again.",
+  "categories.statusFailed": "Failed to update category status. Please try again.",
+  "categories.confirmDelete": "Are you sure you want to delete this category?",
+  "categories.deleteFailed": "Failed to delete category. Please try again.",
+  "categoryForm.newTitle": "New Category",
+  "categoryForm.editTitle": "Edit Category",
+  "categoryForm.nameRequired": "Category name is required",
+  "categoryForm.createFailed": "Failed to create category. Please try again.",
+  "categoryForm.updateFailed": "Failed to update category. Please try again.",
+  "categoryForm.loadFailed": "Failed to load category details",
+  "categoryForm.notFound": "Category not found",
+  "categoryForm.notFoundHint": "The category you're looking for doesn't exist or has been removed.",
+  "categoryForm.backToCategories": "Back to Categories",
+  "tags.title": "Tags",
+  "tags.subtitle": "Manage the tags used to describe activities",
+  "tags.migrate": "Clean Up Legacy Tags",
+  "tags.newTagName": "New tag name",
+  "tags.add": "Add Tag",
+  "tags.mergeSelected": "Merge {count} selected into",
+  "tags.mergeTarget": "Existing or new tag",
+  "tags.merge": "Merge",
+  "tags.clearSelection": "Clear selection",
+  "tags.empty": "No tags yet. Add one above, or clean up legacy tags to import those already on activities.",
+  "tags.synonyms": "Synonyms",
+  "tags.used": "Used",
+  "tags.select": "Select {name}",
+  "tags.usedOnOne": "1 activity",
+  "tags.usedOnMany": "{count} activities",
+  "tags.rename": "Rename",
+  "tags.deleteInUse": "Merge tags that are in use instead of deleting them",
+  "tags.loadFailed": "Failed to load tags. Please try again.",
+  "tags.createFailed": "Failed to create tag.",
+  "tags.renamePrompt": "Rename tag. Every activity using it is updated.",
+  "tags.renamed": "Renamed \"{from}\" to \"{to}\".",
+  "tags.renameFailed": "Failed to rename tag.",
+  "tags.synonymsPrompt": "Synonyms, separated by commas",
+  "tags.synonymsFailed": "Failed to update synonyms.",
+  "tags.confirmMerge": "Merge {count} tags into \"{name}\"? Every activity using them is updated.",
+  "tags.merged": "Merged {count} tags into \"{name}\".",
+  "tags.mergeFailed": "Failed to merge tags.",
+  "tags.confirmDelete": "Are you sure you want to delete the tag \"{name}\"?",
+  "tags.deleteFailed": "Failed to delete tag.",
+  "tags.confirmMigrate": "Split comma-separated tags on every activity and recount tag usage?",
+  "tags.migrated": "Cleaned up tags on {activities} activities and added {tags} new tags.",
+  "tags.migrateFailed": "Failed to migrate legacy tags.",
+  "common.notAvailable": "N/A",
+  "users.title": "Users",
+  "users.subtitle": "Manage users and their access",
+  "users.add": "Add User",
+  "users.empty": "No users found. Create your first user!",
+  "users.role": "Role",
+  "users.age": "Age",
+  "users.loadFailed": "Failed to load users. Please try again.",
+  "users.confirmDelete": "Are you sure you want to delete this user?",
+  "users.deleteFailed": "Failed to delete user. Please try again.",
+  "userForm.newTitle": "New User",
+  "userForm.editTitle": "Edit User",
+  "userForm.dob": "Date of Birth",
+  "userForm.passwordHint": "Password must be at least 6 characters",
+  "userForm.create": "Create User",
+  "userForm.emailRequired": "Email is required",
+  "userForm.nameRequired": "Name is required",
+  "userForm.passwordRequired": "Password is required",
+  "userForm.dobRequired": "Date of birth is required",
+  "userForm.createFailed": "Failed to create user. Please try again.",
+  "userForm.updateFailed": "Failed to update user. Please try again.",
+  "userForm.loadFailed": "Failed to load user details",
+  "userForm.notFound": "User not found",
+  "userForm.notFoundHint": "The user you're looking for doesn't exist or has been removed.",
+  "userForm.backToUsers": "Back to Users",
+  "promoCodes.title": "Promo Codes",
+  "promoCodes.subtitle": "Manage discount codes for bookings",
+  "promoCodes.add": "Add Promo Code",
+  "promoCodes.empty": "No promo codes found. Create your first promo code!",
+  "promoCodes.code": "Code",
+  "promoCodes.discount": "Discount",
+  "promoCodes.valid": "Valid",
+  "promoCodes.used": "Used",
+  "promoCodes.oneActivity": "1 activity",
+  "promoCodes.activities": "{count} activities",
+  "promoCodes.validFrom": "From {date}",
+  "promoCodes.validUntil": "Until {date}",
+  "promoCodes.always": "Always",
+  "promoCodes.loadFailed": "Failed to load promo codes. Please try again.",
+  "promoCodes.statusFailed": "Failed to update promo code status. Please try again.",
+  "promoCodes.confirmDelete": "Are you sure you want to delete this promo code? Existing bookings keep their discount.",
+  "promoCodes.deleteFailed": "Failed to delete promo code. Please try again.",
+  "promoCodes.newTitle": "New Promo Code",
+  "promoCodes.editTitle": "Edit Promo Code",
+  "promoCodes.notFound": "Promo code not found",
+  "promoCodes.detailsFailed": "Failed to load promo code details",
+  "promoForm.codeRequired": "Code is required",
+  "promoForm.percentRange": "Percentage discounts must be between 0 and 100",
+  "promoForm.amountPositive": "Discount amount must be greater than 0",
+  "promoForm.endBeforeStart": "The end date must be on or after the start date",
+  "promoForm.saveFailed": "Failed to save promo code. Please try again.",
+  "promoForm.discountType": "Discount Type",
+  "promoForm.percent": "Percentage",
+  "promoForm.fixed": "Fixed amount",
+  "promoForm.discountPercent": "Discount (%)",
+  "promoForm.discountAmount": "Discount Amount",
+  "promoForm.validFrom": "Valid From",
+  "promoForm.validUntil": "Valid Until",
+  "promoForm.usageLimit": "Usage Limit (0 for unlimited)",
+  "promoForm.usedSoFar": "Used {count} times so far",
+  "promoForm.appliesTo": "Applies To",
+  "promoForm.appliesToHint": "Leave all unchecked to apply the code to every activity.",
+  "reviewStatus.pending": "Pending",
+  "reviewStatus.approved": "Approved",
+  "reviewStatus.hidden": "Hidden",
+  "rating.stars": "{value} of 5 stars",
+  "rating.oneStar": "1 star",
+  "rating.manyStars": "{count} stars",
+  "rating.none": "No ratings",
+  "rating.summaryOne": "{average} / 5 (1 review)",
+  "rating.summaryMany": "{average} / 5 ({count} reviews)",
+  "reviews.title": "Reviews",
+  "reviews.subtitle": "Approve or hide participant ratings before they count towards averages",
+  "reviews.loadFailed": "Failed to load reviews. Please try again.",
+  "reviews.moderateFailed": "Failed to update the review. Please try again.",
+  "reviews.deletedActivity": "Deleted activity",
+  "reviews.deletedLocation": "Deleted location",
+  "reviews.empty": "No reviews to show.",
+  "reviews.during": " · during {activity}",
+  "reviews.duringDeleted": "a deleted activity",
+  "reviews.approve": "Approve",
+  "reviews.hide": "Hide",
+  "myReviews.title": "Rate Your Trips",
+  "myReviews.subtitle": "Rate the activities you attended and the places you visited",
+  "myReviews.loadFailed": "Failed to load your trips. Please try again.",
+  "myReviews.empty": "Trips you attended show up here once they are over.",
+  "myReviews.editReview": "Edit Review",
+  "myReviews.review": "Review",
+  "reviewModal.loadFailed": "Failed to load the activity. Please try again.",
+  "reviewModal.saveFailed": "Failed to save the review. Please try again.",
+  "reviewModal.activityPlaceholder": "How was the activity?",
+  "reviewModal.locationPlaceholder": "Comment on this location (optional)",
+  "reviewModal.hint": "Locations without stars are not rated. Reviews are published once an admin approves them.",
+  "reviewModal.submit": "Submit Review",
+  "staffRole.lead": "Lead guide",
+  "staffRole.assistant": "Assistant",
+  "staffRole.driver": "Driver",
+  "myActivities.title": "My Activities",
+  "myActivities.subtitle": "Upcoming trips you are running and who is coming",
+  "myActivities.loadFailed": "Failed to load your activities. Please try again.",
+  "myActivities.resetPrompt": "Reset your calendar link? Calendars subscribed with the old link will stop updating.",
+  "myActivities.resetFailed": "Failed to reset the calendar link. Please try again.",
+  "myActivities.subscribe": "Subscribe",
+  "myActivities.resetLinkTitle": "Reset calendar link",
+  "myActivities.resetLink": "Reset Link",
+  "myActivities.empty": "You are not assigned to any upcoming activities.",
+  "myActivities.confirmed": "{count} confirmed",
+  "myActivities.confirmedOf": "{count} confirmed of {limit}",
+  "myActivities.noParticipants": "No participants yet.",
+  "myActivities.participant": "Participant",
+  "myActivities.party": "Party",
+  "map.leg": "Stop {from} → {to}: {distance}, {duration}",
+  "map.stop": "Stop #{number}",
+  "map.noAddress": "No address provided",
+  "map.category": "Category:",
+  "map.unknownCategory": "Unknown Category",
+  "map.uncategorized": "Uncategorized",
+  "map.activities": "Activities: {count}",
+  "map.more": "...and {count} more",
+  "dashboard.vsLastMonth": "vs last month",
+  "chart.noData": "No data to display",
+  "reports.title": "Reports",
+  "reports.subtitle": "Generate detailed reports and analytics",
+  "reports.backToTypes": "Back to Report Types",
+  "reports.generate": "Generate Report",
+  "reports.user.title": "User Reports",
+  "reports.user.description": "Generate detailed reports for individual users, including their activities and bookings.",
+  "reports.activity.title": "Activity Reports",
+  "reports.activity.description": "Generate reports for activities, including participant information and statistics.",
+  "reports.admin.title": "Admin Analytics Report",
+  "reports.admin.description": "Comprehensive data analysis of the entire platform, including users, activities, locations, and bookings.",
+  "reports.generating": "Generating...",
+  "reports.generateFailed": "Failed to generate report. Please try again.",
+  "reports.atTime": " at {time}",
+  "reports.bookedOn": "Booked on {date}",
+  "userReport.loadUsersFailed": "Failed to load users. Please try again.",
+  "userReport.loadBookingsFailed": "Failed to load user bookings. Please try again.",
+  "userReport.selectUser": "Select User",
+  "userReport.userInformation": "User Information",
+  "userReport.name": "Name: {name}",
+  "userReport.email": "Email: {email}",
+  "userReport.age": "Age: {age}",
+  "userReport.joined": "Joined: {date}",
+  "userReport.bookingStatistics": "Booking Statistics",
+  "userReport.totalBookings": "Total Bookings:",
+  "userReport.confirmedBookings": "Confirmed Bookings:",
+  "userReport.pendingBookings": "Pending Bookings:",
+  "userReport.cancelledBookings": "Cancelled Bookings:",
+  "userReport.bookingHistory": "Booking History",
+  "userReport.noBookings": "No bookings found for this user",
+  "userReport.selectPrompt": "Select a User",
+  "userReport.selectHint": "Choose a user from the list to view details and generate a report",
+  "activityReport.loadActivitiesFailed": "Failed to load activities. Please try again.",
+  "activityReport.loadBookingsFailed": "Failed to load activity bookings. Please try again.",
+  "activityReport.selectActivity": "Select Activity",
+  "activityReport.searchActivities": "Search activities...",
+  "activityReport.noActivities": "No activities found",
+  "activityReport.expired": "Expired",
+  "activityReport.inactive": "Inactive",
+  "activityReport.details": "Activity Details",
+  "activityReport.date": "Date: {start} - {end}",
+  "activityReport.time": "Time: {start} - {end}",
+  "activityReport.locations": "Locations: {locations}",
+  "activityReport.locationsNotLoaded": "{count} location(s) (details not loaded)",
+  "activityReport.difficulty": "Difficulty: {difficulty}",
+  "activityReport.ageGroup": "Age Group: {ageGroup}",
+  "activityReport.estimatedCost": "Estimated Cost: ${cost}",
+  "activityReport.tags": "Tags: {tags}",
+  "activityReport.totalParticipants": "Total Participants:",
+  "activityReport.confirmedParticipants": "Confirmed Participants:",
+  "activityReport.completedParticipants": "Completed Participants:",
+  "activityReport.pendingParticipants": "Pending Participants:",
+  "activityReport.waitlistedParticipants": "Waitlisted Participants:",
+  "activityReport.cancelledParticipants": "Cancelled Participants:",
+  "activityReport.checkedIn": "Checked In:",
+  "activityReport.capacityUsed": "Capacity Used:",
+  "activityReport.participantRatings": "Participant Ratings",
+  "activityReport.awaitingModeration": "· {count} awaiting moderation",
+  "activityReport.noReviews": "No approved reviews for this activity yet.",
+  "activityReport.activityRatings": "Activity Ratings",
+  "activityReport.averageLocationRating": "Average Location Rating",
+  "activityReport.participantList": "Participant List",
+  "activityReport.noParticipants": "No participants found for this activity",
+  "activityReport.noEmail": "No email",
+  "activityReport.bookingDate": "Booking Date",
+  "activityReport.selectPrompt": "Select an Activity",
+  "activityReport.selectHint": "Choose an activity from the list to view details and generate a report",
+  "adminReport.loadFailed": "Failed to load report data. Please try again.",
+  "adminReport.timeframe": "Timeframe:",
+  "adminReport.monthly": "Monthly",
+  "adminReport.quarterly": "Quarterly",
+  "adminReport.yearly": "Yearly",
+  "adminReport.generateFull": "Generate Full Report",
+  "adminReport.totalBookings": "Total Bookings",
+  "adminReport.activeCount": "Active: {count}",
+  "adminReport.completedCount": "Completed: {count}",
+  "adminReport.confirmedCount": "Confirmed: {count}",
+  "adminReport.pendingCount": "Pending: {count}",
+  "adminReport.cancelledCount": "Cancelled: {count}",
+  "adminReport.keyInsights": "Key Insights",
+  "adminReport.averageParticipants": "Average Participants Per Activity",
+  "adminReport.mostPopularActivity": "Most Popular Activity",
+  "adminReport.mostActiveUser": "Most Active User",
+  "adminReport.none": "None",
+  "adminReport.netRevenue": "Net Revenue",
+  "adminReport.revenueBreakdown": "{collected} collected, {refunded} refunded",
+  "adminReport.confirmationRate": "Booking Confirmation Rate",
+  "adminReport.bookingsOverTime": "Bookings Over Time",
+  "adminReport.bookingsBy.month": "Bookings by Month",
+  "adminReport.bookingsBy.quarter": "Bookings by Quarter",
+  "adminReport.bookingsBy.year": "Bookings by Year",
+  "adminReport.userRegistrations": "User Registrations",
+  "adminReport.locationsByCategory": "Locations by Category",
+  "adminReport.recentActivities": "Recent Activities",
+  "adminReport.title": "Title",
+  "adminReport.startDate": "Start Date",
+  "adminReport.participants": "Participants",
+  "adminReport.difficulty": "Difficulty"
+};
+
+export type MessageKey = keyof typeof en;
\ No newline at end of file
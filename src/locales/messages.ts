@@ -0,0 +1,16 @@
+import { Locale } from "@/types/locale";
+import { fallbackLocale, getActiveLocale } from "@/utils/localeUtils";
+import { en, MessageKey } from "./en";
+import { ar } from "./ar";
+
+export type { MessageKey };
+
+export type MessageValues = Record<string, string | number>;
+
+export const messages: Record<Locale, Record<MessageKey, string>> = { en, ar };
+
+// Interface string in the given language, with {name} placeholders filled in from the values
+export function translate(key: MessageKey, values: MessageValues = {}, locale: Locale = getActiveLocale()): string {
+  const message = messages[locale][key] || messages[fallbackLocale][key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name) => name in values ? String(values[name]) : placeholder);
+}
\ No newline at end of file
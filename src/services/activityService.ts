@@ -10,15 +10,243 @@ import {
   where,
   orderBy,
   serverTimestamp,
-  Timestamp
+  Timestamp,
+  writeBatch,
+  limit,
+  startAfter,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  DocumentData
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { Activity } from "@/types/activity";
+import { 
+  Activity, 
+  ActivityPage, 
+  ActivitySearchFilters, 
+  ActivityStaff, 
+  ActivityStatus, 
+  LocationConflict, 
+  RecurrenceRule, 
+  StaffConflict 
+} from "@/types/activity";
+import { Location } from "@/types/location";
 import { locationService } from "./locationService";
+import { tagService } from "./tagService";
 import { safeToDate } from "@/utils/dateUtils";
+import { expandRecurrence } from "@/utils/recurrenceUtils";
+import { getSearchableText, getSearchKeywords, getSearchTerms, matchesFilters } from "@/utils/activitySearchUtils";
+import { findStaffConflicts, getStaffIds, validateStaff } from "@/utils/staffUtils";
+import { keepRentedCounts } from "@/utils/equipmentUtils";
+import { describeLocationConflict, findLocationConflicts, getItinerary, isBlockingConflict, isSameConflict, LocationPlan } from "@/utils/itineraryUtils";
+import { fallbackLocale } from "@/utils/localeUtils";
+import { 
+  getCopyDates, 
+  getDurationDays, 
+  getTemplateFields, 
+  canTransitionActivity, 
+  isApproval, 
+  isActivityOver, 
+  getActivityStatusLabel 
+} from "@/utils/activityUtils";
 
 const activitiesCollection = collection(db, "activities");
 
+// Which occurrences of a recurring activity an edit applies to
+export type OccurrenceScope = "this" | "future";
+
+export interface ActivityStatusChangeOptions {
+  changedBy?: string; // ID of the admin making the change
+  publishAt?: Date | null; // Required when scheduling
+  note?: string; // Reason recorded when a review sends the activity back to draft
+}
+
+// Fields that belong to a single occurrence and are never copied across a series
+const occurrenceOnlyFields = ["id", "seriesId", "recurrence", "currentParticipants", "isExpired", "locationObjects", "staffIds", "createdAt", "updatedAt"];
+
+function toRecurrence(data: DocumentData | null | undefined): RecurrenceRule | null {
+  if (!data) return null;
+  return {
+    frequency: data.frequency || 'weekly',
+    interval: data.interval || 1,
+    byWeekday: data.byWeekday || [],
+    until: data.until ? safeToDate(data.until) : null,
+    count: data.count || null,
+    exceptionDates: data.exceptionDates || [],
+  };
+}
+
+function toStaff(data: DocumentData | null | undefined): ActivityStaff | null {
+  if (!data) return null;
+  return {
+    leadGuideId: data.leadGuideId || null,
+    assistantIds: data.assistantIds || [],
+    driverIds: data.driverIds || [],
+  };
+}
+
+// Keep the queryable list of staff IDs in step whenever staff is written
+function staffFields(data: Partial<Activity>) {
+  return data.staff !== undefined ? { staffIds: getStaffIds(data.staff) } : {};
+}
+
+// Most query rounds a search page may take when filters are applied after fetching
+const MAX_SEARCH_ROUNDS = 5;
+
+// Keywords to store whenever the title and description are written, covering every language
+function searchFields(data: Partial<Activity>) {
+  if (data.title === undefined || data.description === undefined) return {};
+  
+  const { title, description } = getSearchableText(data);
+  return { searchKeywords: getSearchKeywords(title, description) };
+}
+
+// Server-side part of a search. Firestore allows one array filter per query, so the first of
+// search word, tag, location and category is queried; matchesFilters checks the rest.
+// Equality filters combined with the sort order need composite indexes.
+function searchConstraints(filters: ActivitySearchFilters, categoryLocationIds: string[]): QueryConstraint[] {
+  const constraints: QueryConstraint[] = [];
+  
+  if (filters.difficulty) constraints.push(where("difficulty", "==", filters.difficulty));
+  if (filters.ageGroup) constraints.push(where("ageGroup", "==", filters.ageGroup));
+  if (filters.status) constraints.push(where("status", "==", filters.status));
+  
+  const [firstTerm] = getSearchTerms(filters.search || '');
+  if (firstTerm) {
+    constraints.push(where("searchKeywords", "array-contains", firstTerm));
+  } else if (filters.tag) {
+    constraints.push(where("tags", "array-contains", filters.tag));
+  } else if (filters.locationId) {
+    constraints.push(where("locations", "array-contains", filters.locationId));
+  } else if (filters.categoryId) {
+    // array-contains-any accepts at most 30 values
+    constraints.push(where("locations", "array-contains-any", categoryLocationIds.slice(0, 30)));
+  }
+  
+  // A date range sorts by start date; otherwise newest first
+  if (filters.from || filters.to) {
+    if (filters.from) constraints.push(where("startDate", ">=", Timestamp.fromDate(new Date(filters.from))));
+    if (filters.to) constraints.push(where("startDate", "<=", Timestamp.fromDate(new Date(filters.to))));
+    constraints.push(orderBy("startDate", "asc"));
+  } else {
+    constraints.push(orderBy("createdAt", "desc"));
+  }
+  
+  return constraints;
+}
+
+// Helper function to convert a Firestore activity document into an Activity
+function toActivity(id: string, data: DocumentData): Activity {
+  return {
+    id,
+    title: data.title || '',
+    description: data.description || '',
+    translations: data.translations || {},
+    startDate: safeToDate(data.startDate),
+    endDate: safeToDate(data.endDate),
+    startTime: data.startTime || '',
+    endTime: data.endTime || '',
+    locations: data.locations || [],
+    itinerary: data.itinerary || [],
+    travelMode: data.travelMode || 'walking',
+    isActive: data.isActive !== undefined ? data.isActive : true,
+    isExpired: data.isExpired || false,
+    status: data.status || (data.isActive === false ? 'draft' : 'published'),
+    publishAt: data.publishAt ? safeToDate(data.publishAt) : null,
+    submittedBy: data.submittedBy || null,
+    submittedAt: data.submittedAt ? safeToDate(data.submittedAt) : null,
+    approvedBy: data.approvedBy || null,
+    approvedAt: data.approvedAt ? safeToDate(data.approvedAt) : null,
+    reviewNote: data.reviewNote || null,
+    difficulty: data.difficulty || 'easy',
+    ageGroup: data.ageGroup || 'all',
+    estimatedDuration: data.estimatedDuration || 0,
+    estimatedCost: data.estimatedCost || 0,
+    priceTiers: data.priceTiers || null,
+    tags: data.tags || [],
+    participantLimit: data.participantLimit || 0,
+    currentParticipants: data.currentParticipants || 0,
+    cancellationPolicy: data.cancellationPolicy || null,
+    equipment: data.equipment || [],
+    staff: toStaff(data.staff),
+    staffIds: data.staffIds || [],
+    rating: data.rating || null,
+    seriesId: data.seriesId || null,
+    recurrence: toRecurrence(data.recurrence),
+    createdAt: safeToDate(data.createdAt),
+    updatedAt: safeToDate(data.updatedAt),
+  };
+}
+
+type Schedule = Pick<Activity, "startDate" | "startTime" | "endDate" | "endTime">;
+
+// Other activities that share staff with the given assignment and overlap any of the schedules
+async function loadStaffConflicts(
+  staff: ActivityStaff | null | undefined,
+  schedules: Schedule[],
+  excludeIds: string[]
+): Promise<StaffConflict[]> {
+  const staffIds = getStaffIds(staff);
+  if (staffIds.length === 0 || schedules.length === 0) return [];
+  
+  // array-contains-any accepts at most 30 values, far more than one activity's staff
+  const q = query(activitiesCollection, where("staffIds", "array-contains-any", staffIds.slice(0, 30)));
+  const snapshot = await getDocs(q);
+  const others = snapshot.docs.map(docSnap => toActivity(docSnap.id, docSnap.data()));
+  
+  return findStaffConflicts(staff, schedules, others, excludeIds);
+}
+
+async function assertStaffAvailable(
+  staff: ActivityStaff | null | undefined,
+  schedules: Schedule[],
+  excludeIds: string[] = []
+): Promise<void> {
+  const [problem] = validateStaff(staff);
+  if (problem) {
+    throw new Error(problem);
+  }
+  
+  const [conflict] = await loadStaffConflicts(staff, schedules, excludeIds);
+  if (conflict) {
+    throw new Error(`A staff member is already assigned to "${conflict.activity.title}" at the same time`);
+  }
+}
+
+// Other activities at the plans' locations at the same time, with whether each one is allowed there
+async function loadLocationConflicts(plans: LocationPlan[], excludeIds: string[]): Promise<LocationConflict[]> {
+  const locationIds = Array.from(new Set(plans.flatMap(plan => getItinerary(plan).map(stop => stop.locationId))));
+  if (locationIds.length === 0) return [];
+  
+  // array-contains-any accepts at most 30 values, far more than one activity's stops
+  const q = query(activitiesCollection, where("locations", "array-contains-any", locationIds.slice(0, 30)));
+  const [snapshot, locations] = await Promise.all([
+    getDocs(q),
+    Promise.all(locationIds.map(locationId => locationService.getLocationById(locationId)))
+  ]);
+  const others = snapshot.docs.map(docSnap => toActivity(docSnap.id, docSnap.data()));
+  
+  return findLocationConflicts(plans, others, locations.filter((location): location is Location => !!location), excludeIds);
+}
+
+// Conflicts the previous plans already had are left alone, so an edit is only refused for the ones it adds
+async function assertLocationsAvailable(
+  plans: LocationPlan[],
+  excludeIds: string[] = [],
+  previous: LocationPlan[] = []
+): Promise<void> {
+  const [conflicts, existing] = await Promise.all([
+    loadLocationConflicts(plans, excludeIds),
+    previous.length > 0 ? loadLocationConflicts(previous, excludeIds) : Promise.resolve([])
+  ]);
+  const conflict = conflicts.find(item =>
+    isBlockingConflict(item) && !existing.some(other => isBlockingConflict(other) && isSameConflict(item, other))
+  );
+  if (conflict) {
+    const location = await locationService.getLocationById(conflict.locationId);
+    throw new Error(`${describeLocationConflict(conflict, location?.name || "A location", fallbackLocale)} at the same time`);
+  }
+}
+
 export const activityService = {
   // Get all activities
   async getActivities(): Promise<Activity[]> {
@@ -48,27 +276,7 @@ export const activityService = {
           
           console.log(`[DEBUG] Raw data for ${docSnap.id}:`, data);
           
-          const activity: Activity = {
-            id: docSnap.id,
-            title: data.title ?? '',
-            description: data.description || '',
-            startDate: safeToDate(data.startDate),
-            endDate: safeToDate(data.endDate),
-            startTime: data.startTime || '',
-            endTime: data.endTime || '',
-            locations: data.locations || [],
-            isActive: data.isActive !== undefined ? data.isActive : true,
-            isExpired: data.isExpired || false,
-            difficulty: data.difficulty || 'easy',
-            ageGroup: data.ageGroup || 'all',
-            estimatedDuration: data.estimatedDuration || 0,
-            estimatedCost: data.estimatedCost || 0,
-            tags: data.tags || [],
-            participantLimit: data.participantLimit || 0,
-            currentParticipants: data.currentParticipants || 0,
-            createdAt: safeToDate(data.createdAt),
-            updatedAt: safeToDate(data.updatedAt),
-          };
+          const activity = toActivity(docSnap.id, data);
           
           console.log(`[DEBUG] Converted activity ${docSnap.id}:`, activity);
           activities.push(activity);
@@ -79,18 +287,11 @@ export const activityService = {
       
       console.log(`[DEBUG] Successfully processed ${activities.length} activities`);
       
-      // Check if activities are expired
+      // Show ended activities as expired even before the expiration job has stored it
       const now = new Date();
-      for (const activity of activities) {
-        if (activity.endDate && activity.endDate < now && !activity.isExpired) {
-          activity.isExpired = true;
-          try {
-            await this.updateActivity(activity.id, { isExpired: true });
-          } catch (error) {
-            console.error("Error updating expired status:", error);
-          }
-        }
-      }
+      activities.forEach(activity => {
+        activity.isExpired = activity.isExpired || isActivityOver(activity, now);
+      });
       
       return activities;
     } catch (error) {
@@ -99,6 +300,80 @@ export const activityService = {
     }
   },
   
+  // One page of activities matching the filters, starting after the activity with ID cursor
+  async searchActivities(
+    filters: ActivitySearchFilters,
+    cursor: string | null = null,
+    pageSize = 12
+  ): Promise<ActivityPage> {
+    try {
+      const categoryLocationIds = filters.categoryId
+        ? (await locationService.getLocationsByCategory(filters.categoryId)).map(location => location.id)
+        : [];
+      if (filters.categoryId && categoryLocationIds.length === 0) {
+        return { activities: [], nextCursor: null };
+      }
+      
+      const constraints = searchConstraints(filters, categoryLocationIds);
+      const cursorSnap = cursor ? await getDoc(doc(activitiesCollection, cursor)) : null;
+      let last: QueryDocumentSnapshot | null = null;
+      let exhausted = false;
+      const activities: Activity[] = [];
+      const now = new Date();
+      
+      // Keep fetching while filters applied here leave the page short
+      for (let round = 0; round < MAX_SEARCH_ROUNDS && activities.length < pageSize && !exhausted; round++) {
+        const after = last || (cursorSnap?.exists() ? cursorSnap : null);
+        const q = query(activitiesCollection, ...constraints, ...(after ? [startAfter(after)] : []), limit(pageSize));
+        const snapshot = await getDocs(q);
+        exhausted = snapshot.docs.length < pageSize;
+        
+        for (const docSnap of snapshot.docs) {
+          last = docSnap;
+          const activity = toActivity(docSnap.id, docSnap.data());
+          activity.isExpired = activity.isExpired || isActivityOver(activity, now);
+          if (matchesFilters(activity, filters, categoryLocationIds)) {
+            activities.push(activity);
+          }
+          if (activities.length === pageSize) {
+            exhausted = exhausted && docSnap.id === snapshot.docs[snapshot.docs.length - 1].id;
+            break;
+          }
+        }
+      }
+      
+      return { activities, nextCursor: exhausted || !last ? null : last.id };
+    } catch (error) {
+      console.error("Error searching activities:", error);
+      throw error;
+    }
+  },
+  
+  // Store search keywords and a workflow status on activities saved before search existed
+  async backfillSearchFields(): Promise<number> {
+    try {
+      const snapshot = await getDocs(activitiesCollection);
+      const stale = snapshot.docs.filter(docSnap => !docSnap.data().searchKeywords || !docSnap.data().status);
+      
+      for (let i = 0; i < stale.length; i += 500) {
+        const batch = writeBatch(db);
+        stale.slice(i, i + 500).forEach(docSnap => {
+          const activity = toActivity(docSnap.id, docSnap.data());
+          batch.update(docSnap.ref, {
+            ...searchFields(activity),
+            status: activity.status
+          });
+        });
+        await batch.commit();
+      }
+      
+      return stale.length;
+    } catch (error) {
+      console.error("Error backfilling activity search fields:", error);
+      throw error;
+    }
+  },
+  
   // Get a single activity by ID
   async getActivityById(id: string): Promise<Activity | null> {
     try {
@@ -133,38 +408,10 @@ export const activityService = {
         return null;
       }
       
-      const activity: Activity = {
-        id: docSnap.id,
-        title: data.title || '',
-        description: data.description || '',
-        startDate: safeToDate(data.startDate),
-        endDate: safeToDate(data.endDate),
-        startTime: data.startTime || '',
-        endTime: data.endTime || '',
-        locations: data.locations || [],
-        isActive: data.isActive !== undefined ? data.isActive : true,
-        isExpired: data.isExpired || false,
-        difficulty: data.difficulty || 'easy',
-        ageGroup: data.ageGroup || 'all',
-        estimatedDuration: data.estimatedDuration || 0,
-        estimatedCost: data.estimatedCost || 0,
-        tags: data.tags || [],
-        participantLimit: data.participantLimit || 0,
-        currentParticipants: data.currentParticipants || 0,
-        createdAt: safeToDate(data.createdAt),
-        updatedAt: safeToDate(data.updatedAt),
-      };
+      const activity = toActivity(docSnap.id, data);
       
-      // Check if activity is expired
-      const now = new Date();
-      if (activity.endDate && activity.endDate < now && !activity.isExpired) {
-        activity.isExpired = true;
-        try {
-          await this.updateActivity(activity.id, { isExpired: true });
-        } catch (error) {
-          console.error("Error updating expired status:", error);
-        }
-      }
+      // The expiration job stores isExpired; until it runs, derive it here without writing
+      activity.isExpired = activity.isExpired || isActivityOver(activity);
       
       // Fetch location objects
       if (activity.locations && activity.locations.length > 0) {
@@ -193,18 +440,28 @@ export const activityService = {
   // Create a new activity
   async createActivity(activityData: Omit<Activity, "id" | "createdAt" | "updatedAt" | "isExpired">): Promise<string> {
     try {
-      const now = new Date();
-      const isExpired = new Date(activityData.endDate) < now;
+      const status = activityData.status || "draft";
+      if (status === "in-review" && !activityData.submittedBy) {
+        throw new Error("Sign in to submit or approve activities");
+      }
+      await assertStaffAvailable(activityData.staff, [activityData]);
+      await assertLocationsAvailable([activityData]);
       
       const docRef = await addDoc(activitiesCollection, {
         ...activityData,
+        ...searchFields(activityData),
+        ...staffFields(activityData),
+        status,
+        isActive: status === "published",
         startDate: Timestamp.fromDate(new Date(activityData.startDate)),
         endDate: Timestamp.fromDate(new Date(activityData.endDate)),
-        isExpired,
+        // Only the expiration job sets isExpired, once it has closed out the bookings
+        isExpired: false,
         currentParticipants: 0,
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp(),
       });
+      await tagService.recordUsage([], activityData.tags || []);
       
       return docRef.id;
     } catch (error) {
@@ -213,28 +470,316 @@ export const activityService = {
     }
   },
   
+  // Create one activity per occurrence of the rule, starting with activityData's own dates.
+  // Each occurrence is bookable on its own with its own capacity; they share a seriesId.
+  async createRecurringActivity(
+    activityData: Omit<Activity, "id" | "createdAt" | "updatedAt" | "isExpired">,
+    rule: RecurrenceRule
+  ): Promise<string[]> {
+    try {
+      const firstStart = new Date(activityData.startDate);
+      const span = new Date(activityData.endDate).getTime() - firstStart.getTime();
+      const days = expandRecurrence(firstStart, rule);
+      
+      if (days.length === 0) {
+        throw new Error("The recurrence rule does not produce any occurrences");
+      }
+      
+      const refs = days.map(() => doc(activitiesCollection));
+      const seriesId = refs[0].id;
+      const recurrence = {
+        frequency: rule.frequency,
+        interval: Math.max(1, Math.floor(rule.interval || 1)),
+        byWeekday: rule.frequency === "weekly" ? rule.byWeekday || [] : [],
+        until: rule.until ? Timestamp.fromDate(new Date(rule.until)) : null,
+        count: rule.count || null,
+        exceptionDates: rule.exceptionDates || [],
+      };
+      
+      const status = activityData.status || "draft";
+      if (status === "in-review" && !activityData.submittedBy) {
+        throw new Error("Sign in to submit or approve activities");
+      }
+      const schedules = days.map(day => ({
+        ...activityData,
+        startDate: day,
+        endDate: new Date(day.getTime() + span)
+      }));
+      await assertStaffAvailable(activityData.staff, schedules);
+      await assertLocationsAvailable(schedules);
+      
+      // Occurrences are capped well below the 500-write batch limit
+      const batch = writeBatch(db);
+      days.forEach((day, index) => {
+        const endDate = new Date(day.getTime() + span);
+        batch.set(refs[index], {
+          ...activityData,
+          ...searchFields(activityData),
+          ...staffFields(activityData),
+          status,
+          isActive: status === "published",
+          startDate: Timestamp.fromDate(day),
+          endDate: Timestamp.fromDate(endDate),
+          isExpired: false,
+          currentParticipants: 0,
+          seriesId,
+          recurrence: index === 0 ? recurrence : null,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+      });
+      await batch.commit();
+      await tagService.recordUsage([], activityData.tags || [], days.length);
+      
+      return refs.map(ref => ref.id);
+    } catch (error) {
+      console.error("Error creating recurring activity:", error);
+      throw error;
+    }
+  },
+  
+  // Copy an activity as a new, inactive one-off activity on another start day (YYYY-MM-DD), with no
+  // participants or bookings. The copy keeps the staff and stops, so it is checked like any new activity.
+  async duplicateActivity(id: string, startDay: string): Promise<string> {
+    try {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(startDay) || isNaN(new Date(startDay).getTime())) {
+        throw new Error("Enter the day the copy starts as YYYY-MM-DD");
+      }
+      
+      const activity = await this.getActivityById(id);
+      if (!activity) {
+        throw new Error("Activity not found");
+      }
+      
+      const fields = getTemplateFields(activity);
+      
+      return await this.createActivity({
+        ...fields,
+        ...getCopyDates(startDay, getDurationDays(activity)),
+        title: `${fields.title} (copy)`,
+        isActive: false
+      });
+    } catch (error) {
+      console.error("Error duplicating activity:", error);
+      throw error;
+    }
+  },
+  
+  // Get all occurrences of a series, in date order
+  async getSeriesOccurrences(seriesId: string): Promise<Activity[]> {
+    try {
+      const q = query(activitiesCollection, where("seriesId", "==", seriesId));
+      const snapshot = await getDocs(q);
+      
+      // Sorted client-side so no composite index is needed
+      return snapshot.docs
+        .map(docSnap => toActivity(docSnap.id, docSnap.data()))
+        .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+    } catch (error) {
+      console.error(`Error fetching occurrences for series ${seriesId}:`, error);
+      throw error;
+    }
+  },
+  
+  // Other activities the assigned staff are already running while any of the schedules runs
+  async getStaffConflicts(
+    staff: ActivityStaff | null | undefined,
+    schedules: Schedule[],
+    excludeIds: string[] = []
+  ): Promise<StaffConflict[]> {
+    try {
+      return await loadStaffConflicts(staff, schedules, excludeIds);
+    } catch (error) {
+      console.error("Error checking staff availability:", error);
+      throw error;
+    }
+  },
+  
+  // Other activities competing for the plan's locations while it visits them
+  async getLocationConflicts(plan: LocationPlan, excludeIds: string[] = []): Promise<LocationConflict[]> {
+    try {
+      return await loadLocationConflicts([plan], excludeIds);
+    } catch (error) {
+      console.error("Error checking location availability:", error);
+      throw error;
+    }
+  },
+  
+  // Activities a staff member is assigned to, in date order
+  async getActivitiesForStaff(userId: string): Promise<Activity[]> {
+    try {
+      const q = query(activitiesCollection, where("staffIds", "array-contains", userId));
+      const snapshot = await getDocs(q);
+      
+      // Sorted client-side so no composite index is needed
+      return snapshot.docs
+        .map(docSnap => toActivity(docSnap.id, docSnap.data()))
+        .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+    } catch (error) {
+      console.error(`Error fetching activities for staff member ${userId}:`, error);
+      throw error;
+    }
+  },
+  
+  // Published activities in date order, optionally only those visiting a location
+  async getPublishedActivities(locationId?: string): Promise<Activity[]> {
+    try {
+      const constraints: QueryConstraint[] = [where("status", "==", "published")];
+      if (locationId) {
+        constraints.push(where("locations", "array-contains", locationId));
+      }
+      const snapshot = await getDocs(query(activitiesCollection, ...constraints));
+      
+      // Sorted client-side so no composite index is needed
+      return snapshot.docs
+        .map(docSnap => toActivity(docSnap.id, docSnap.data()))
+        .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+    } catch (error) {
+      console.error("Error fetching published activities:", error);
+      throw error;
+    }
+  },
+  
+  // Get every activity occurrence starting within [from, to], in date order
+  async getOccurrences(from: Date, to: Date): Promise<Activity[]> {
+    try {
+      const q = query(
+        activitiesCollection,
+        where("startDate", ">=", Timestamp.fromDate(from)),
+        where("startDate", "<=", Timestamp.fromDate(to)),
+        orderBy("startDate", "asc")
+      );
+      const snapshot = await getDocs(q);
+      
+      return snapshot.docs.map(docSnap => toActivity(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error("Error fetching occurrences in range:", error);
+      throw error;
+    }
+  },
+  
+  // Update one occurrence, or it and every later occurrence of its series.
+  // A date change on a series edit shifts each later occurrence by the same amount.
+  async updateOccurrences(id: string, data: Partial<Activity>, scope: OccurrenceScope = "this"): Promise<void> {
+    try {
+      const activity = await this.getActivityById(id);
+      if (!activity) {
+        throw new Error("Activity not found");
+      }
+      
+      if (scope === "this" || !activity.seriesId) {
+        await this.updateActivity(id, data);
+        return;
+      }
+      
+      const { startDate, endDate, ...rest } = data;
+      const shared = Object.fromEntries(
+        Object.entries(rest).filter(([key]) => !occurrenceOnlyFields.includes(key))
+      );
+      const newStart = startDate ? new Date(startDate) : activity.startDate;
+      const shift = newStart.getTime() - activity.startDate.getTime();
+      const span = (endDate ? new Date(endDate) : activity.endDate).getTime() - newStart.getTime();
+      
+      const occurrences = (await this.getSeriesOccurrences(activity.seriesId))
+        .filter(occurrence => occurrence.startDate >= activity.startDate);
+      const schedules = occurrences.map(occurrence => {
+        const occurrenceStart = new Date(occurrence.startDate.getTime() + shift);
+        return {
+          startDate: occurrenceStart,
+          endDate: new Date(occurrenceStart.getTime() + span),
+          startTime: rest.startTime ?? occurrence.startTime,
+          endTime: rest.endTime ?? occurrence.endTime
+        };
+      });
+      
+      // The series' own occurrences never conflict with each other
+      const occurrenceIds = occurrences.map(occurrence => occurrence.id);
+      if (rest.staff !== undefined) {
+        await assertStaffAvailable(rest.staff, schedules, occurrenceIds);
+      } else {
+        for (let i = 0; i < occurrences.length; i++) {
+          await assertStaffAvailable(occurrences[i].staff, [schedules[i]], occurrenceIds);
+        }
+      }
+      await assertLocationsAvailable(
+        occurrences.map((occurrence, index) => ({ ...occurrence, ...shared, ...schedules[index] })),
+        occurrenceIds,
+        occurrences
+      );
+      
+      const batch = writeBatch(db);
+      occurrences.forEach((occurrence, index) => {
+        const { startDate: occurrenceStart, endDate: occurrenceEnd } = schedules[index];
+        batch.update(doc(activitiesCollection, occurrence.id), {
+          ...shared,
+          ...searchFields(shared),
+          ...staffFields(shared),
+          ...(rest.equipment ? { equipment: keepRentedCounts(rest.equipment, occurrence.equipment || []) } : {}),
+          startDate: Timestamp.fromDate(occurrenceStart),
+          endDate: Timestamp.fromDate(occurrenceEnd),
+          updatedAt: serverTimestamp(),
+        });
+      });
+      await batch.commit();
+      
+      if (rest.tags) {
+        for (const occurrence of occurrences) {
+          await tagService.recordUsage(occurrence.tags, rest.tags);
+        }
+      }
+    } catch (error) {
+      console.error("Error updating activity occurrences:", error);
+      throw error;
+    }
+  },
+  
   // Update an activity
   async updateActivity(id: string, data: Partial<Activity>): Promise<void> {
     try {
       const docRef = doc(activitiesCollection, id);
       const updateData: any = { ...data };
       
+      // Tag counts, staff and location availability and rental stock all need the activity as it is now
+      const movesSchedule = ["startDate", "endDate", "startTime", "endTime"].some(key => key in data);
+      const checksStaff = data.staff !== undefined || movesSchedule;
+      const checksLocations = movesSchedule || ["locations", "itinerary", "participantLimit"].some(key => key in data);
+      const existing = data.tags || data.equipment || checksStaff || checksLocations
+        ? toActivity(id, (await getDoc(docRef)).data() || {})
+        : null;
+      if (existing && data.equipment) {
+        updateData.equipment = keepRentedCounts(data.equipment, existing.equipment || []);
+      }
+      if (existing && checksStaff) {
+        await assertStaffAvailable(
+          data.staff !== undefined ? data.staff : existing.staff,
+          [{ ...existing, ...data }],
+          [id]
+        );
+      }
+      if (existing && checksLocations) {
+        await assertLocationsAvailable([{ ...existing, ...data }], [id], [existing]);
+      }
+      
       if (updateData.startDate) {
         updateData.startDate = Timestamp.fromDate(new Date(updateData.startDate));
       }
       
       if (updateData.endDate) {
         updateData.endDate = Timestamp.fromDate(new Date(updateData.endDate));
-        const now = new Date();
-        if (new Date(updateData.endDate) < now) {
-          updateData.isExpired = true;
-        }
       }
+      // An activity moved into the past stays open until the expiration job closes out its bookings
+      delete updateData.isExpired;
       
       await updateDoc(docRef, {
         ...updateData,
+        ...searchFields(data),
+        ...staffFields(data),
         updatedAt: serverTimestamp()
       });
+      
+      if (data.tags && existing) {
+        await tagService.recordUsage(existing.tags, data.tags);
+      }
     } catch (error) {
       console.error("Error updating activity:", error);
       throw error;
@@ -245,24 +790,75 @@ export const activityService = {
   async deleteActivity(id: string): Promise<void> {
     try {
       const docRef = doc(activitiesCollection, id);
+      const docSnap = await getDoc(docRef);
       await deleteDoc(docRef);
+      await tagService.recordUsage(docSnap.data()?.tags || [], []);
     } catch (error) {
       console.error("Error deleting activity:", error);
       throw error;
     }
   },
   
-  // Toggle activity status
-  async toggleActivityStatus(id: string, isActive: boolean): Promise<void> {
+  // Move an activity through the publishing workflow
+  async changeActivityStatus(
+    id: string,
+    status: ActivityStatus,
+    options: ActivityStatusChangeOptions = {}
+  ): Promise<void> {
     try {
-      const docRef = doc(activitiesCollection, id);
-      await updateDoc(docRef, { 
-        isActive,
+      const activity = await this.getActivityById(id);
+      if (!activity) {
+        throw new Error("Activity not found");
+      }
+      
+      const from = activity.status || "draft";
+      if (!canTransitionActivity(from, status)) {
+        throw new Error(`Cannot move an activity from ${getActivityStatusLabel(from)} to ${getActivityStatusLabel(status)}`);
+      }
+      
+      // Reviews are only meaningful when both the submitter and the approver are known
+      if ((status === "in-review" || isApproval(from, status)) && !options.changedBy) {
+        throw new Error("Sign in to submit or approve activities");
+      }
+      if (isApproval(from, status) && !activity.submittedBy) {
+        throw new Error("The submitter of this activity is unknown. Send it back to draft and submit it again");
+      }
+      if (isApproval(from, status) && options.changedBy === activity.submittedBy) {
+        throw new Error("A different admin must approve the activity");
+      }
+      
+      const publishAt = options.publishAt ? new Date(options.publishAt) : null;
+      if (status === "scheduled" && (!publishAt || publishAt <= new Date())) {
+        throw new Error("Scheduled activities need a publish time in the future");
+      }
+      
+      const changes: Record<string, unknown> = {
+        status,
+        isActive: status === "published",
+        publishAt: status === "scheduled" && publishAt ? Timestamp.fromDate(publishAt) : null,
         updatedAt: serverTimestamp()
-      });
+      };
+      
+      if (status === "in-review") {
+        changes.submittedBy = options.changedBy;
+        changes.submittedAt = serverTimestamp();
+        changes.approvedBy = null;
+        changes.approvedAt = null;
+        changes.reviewNote = null;
+      } else if (isApproval(from, status)) {
+        changes.approvedBy = options.changedBy;
+        changes.approvedAt = serverTimestamp();
+      } else if (status === "draft") {
+        // Any change after approval needs a fresh review
+        changes.approvedBy = null;
+        changes.approvedAt = null;
+        changes.reviewNote = from === "in-review" ? options.note?.trim() || null : null;
+      }
+      
+      await updateDoc(doc(activitiesCollection, id), changes);
     } catch (error) {
-      console.error("Error toggling activity status:", error);
+      console.error("Error changing activity status:", error);
       throw error;
     }
   }
-}; 
\ No newline at end of file
+};
\ No newline at end of file
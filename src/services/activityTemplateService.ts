@@ -0,0 +1,118 @@
+import { 
+  collection, 
+  doc, 
+  getDocs, 
+  getDoc, 
+  addDoc, 
+  deleteDoc, 
+  query, 
+  orderBy,
+  serverTimestamp,
+  DocumentData
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Activity, ActivityTemplate } from "@/types/activity";
+import { activityService } from "./activityService";
+import { safeToDate } from "@/utils/dateUtils";
+import { getCopyDates, getDurationDays, getTemplateFields } from "@/utils/activityUtils";
+
+const templatesCollection = collection(db, "activityTemplates");
+
+// Helper function to convert a Firestore template document into an ActivityTemplate
+function toActivityTemplate(id: string, data: DocumentData): ActivityTemplate {
+  return {
+    id,
+    name: data.name || data.title || '',
+    durationDays: data.durationDays || 0,
+    ...getTemplateFields({
+      title: data.title || '',
+      description: data.description || '',
+      translations: data.translations || {},
+      startTime: data.startTime || '',
+      endTime: data.endTime || '',
+      locations: data.locations || [],
+      itinerary: data.itinerary || [],
+      travelMode: data.travelMode || 'walking',
+      difficulty: data.difficulty || 'easy',
+      ageGroup: data.ageGroup || 'all',
+      estimatedDuration: data.estimatedDuration || 0,
+      estimatedCost: data.estimatedCost || 0,
+      priceTiers: data.priceTiers || null,
+      tags: data.tags || [],
+      participantLimit: data.participantLimit || 0,
+      cancellationPolicy: data.cancellationPolicy || null,
+      equipment: data.equipment || [],
+    }),
+    createdAt: safeToDate(data.createdAt) || new Date(),
+    updatedAt: safeToDate(data.updatedAt) || new Date(),
+  };
+}
+
+export const activityTemplateService = {
+  // Get all templates, newest first
+  async getTemplates(): Promise<ActivityTemplate[]> {
+    try {
+      const q = query(templatesCollection, orderBy("createdAt", "desc"));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap => toActivityTemplate(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error("Error getting activity templates:", error);
+      throw error;
+    }
+  },
+  
+  async getTemplateById(id: string): Promise<ActivityTemplate | null> {
+    try {
+      const docSnap = await getDoc(doc(templatesCollection, id));
+      return docSnap.exists() ? toActivityTemplate(docSnap.id, docSnap.data()) : null;
+    } catch (error) {
+      console.error("Error getting activity template:", error);
+      throw error;
+    }
+  },
+  
+  // Save the reusable parts of an activity under a name
+  async createTemplateFromActivity(activity: Activity, name: string): Promise<string> {
+    try {
+      const docRef = await addDoc(templatesCollection, {
+        ...getTemplateFields(activity),
+        name: name.trim() || activity.title,
+        durationDays: getDurationDays(activity),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      return docRef.id;
+    } catch (error) {
+      console.error("Error creating activity template:", error);
+      throw error;
+    }
+  },
+  
+  // Create an inactive activity from a template, starting on the given YYYY-MM-DD day
+  async createActivityFromTemplate(id: string, startDay: string): Promise<string> {
+    try {
+      const template = await this.getTemplateById(id);
+      if (!template) {
+        throw new Error("Template not found");
+      }
+      
+      return await activityService.createActivity({
+        ...getTemplateFields(template),
+        ...getCopyDates(startDay, template.durationDays),
+        isActive: false
+      });
+    } catch (error) {
+      console.error("Error creating activity from template:", error);
+      throw error;
+    }
+  },
+  
+  async deleteTemplate(id: string): Promise<void> {
+    try {
+      await deleteDoc(doc(templatesCollection, id));
+    } catch (error) {
+      console.error("Error deleting activity template:", error);
+      throw error;
+    }
+  }
+};
\ No newline at end of file
@@ -4,22 +4,56 @@ import {
   getDocs, 
   getDoc, 
   addDoc, 
-  updateDoc, 
   deleteDoc, 
   query, 
   where,
   orderBy,
   serverTimestamp,
   increment,
-  runTransaction
+  runTransaction,
+  writeBatch,
+  DocumentData,
+  DocumentReference
 } from "firebase/firestore";
-import { db } from "@/lib/firebase";
-import { Booking } from "@/types/booking";
+import { auth, db } from "@/lib/firebase";
+import { Booking, BookingStatus, BookingHistoryEntry, BookingRental } from "@/types/booking";
+import { EquipmentItem } from "@/types/activity";
 import { userService } from "./userService";
 import { activityService } from "./activityService";
+import { paymentService } from "./paymentService";
+import { 
+  canTransitionBooking, 
+  holdsSeat, 
+  getSeatCount, 
+  checkCancellation, 
+  findOverlappingPairs, 
+  checkBookingEligibility 
+} from "@/utils/bookingUtils";
+import { activitiesOverlap } from "@/utils/activityUtils";
+import { calculateBookingPrice, checkPromoCode } from "@/utils/pricingUtils";
+import { applyRentals, checkRentals, getRentalLines, holdsEquipment } from "@/utils/equipmentUtils";
+import { promoCodeService, toPromoCode } from "./promoCodeService";
+import { fallbackLocale } from "@/utils/localeUtils";
 
 const bookingsCollection = collection(db, "bookings");
 
+// Fields updateBooking refuses: they decide the seats, rented stock, price and promo use that were
+// counted when the booking was made, so changing them means cancelling and booking again
+const lockedBookingFields = ["userId", "activityId", "partySize", "attendees", "rentals", "price", "promoCodeId", "waitlistPosition"];
+
+export interface BookingStatusChangeOptions {
+  changedBy?: string; // ID of the user making the change
+  overrideReason?: string; // Admin reason for bypassing the cancellation policy
+  reason?: string; // Note recorded in the booking history
+}
+
+export interface CreateBookingOptions {
+  changedBy?: string;
+  allowOverlap?: boolean;
+  allowAgeMismatch?: boolean;
+  promoCode?: string; // Code as typed by the customer
+}
+
 // Helper function to safely convert Firestore timestamp to Date
 function safeToDate(timestamp: any): Date {
   if (!timestamp) return new Date();
@@ -32,6 +66,71 @@ function safeToDate(timestamp: any): Date {
   return new Date(timestamp);
 }
 
+// Helper function to convert a Firestore booking document into a Booking
+function toBooking(id: string, data: DocumentData): Booking {
+  return {
+    id,
+    userId: data.userId || '',
+    activityId: data.activityId || '',
+    status: data.status || 'pending',
+    partySize: data.partySize || 1,
+    attendees: data.attendees || [],
+    waitlistPosition: data.waitlistPosition ?? null,
+    checkedIn: data.checkedIn || false,
+    checkedInAt: data.checkedInAt ? safeToDate(data.checkedInAt) : null,
+    checkedInBy: data.checkedInBy || null,
+    cancellation: data.cancellation
+      ? { ...data.cancellation, cancelledAt: data.cancellation.cancelledAt ? safeToDate(data.cancellation.cancelledAt) : null }
+      : null,
+    eligibilityFlag: data.eligibilityFlag || null,
+    price: data.price || null,
+    promoCodeId: data.promoCodeId || null,
+    rentals: data.rentals || [],
+    createdAt: safeToDate(data.createdAt),
+    updatedAt: safeToDate(data.updatedAt),
+  };
+}
+
+// Promo code document a booking's discount came from. Bookings made before promoCodeId was
+// stored are matched by the code in their price.
+async function findPromoRef(
+  booking: { promoCodeId?: string | null; price?: { promoCode: string | null } | null } | undefined
+): Promise<DocumentReference | null> {
+  if (booking?.promoCodeId) {
+    return doc(db, "promoCodes", booking.promoCodeId);
+  }
+  if (!booking?.price?.promoCode) {
+    return null;
+  }
+  const promo = await promoCodeService.getPromoCodeByCode(booking.price.promoCode);
+  return promo ? doc(db, "promoCodes", promo.id) : null;
+}
+
+// Each booking keeps its audit trail in a "history" subcollection
+export function historyCollection(bookingId: string) {
+  return collection(db, "bookings", bookingId, "history");
+}
+
+export function historyEntry(entry: Omit<BookingHistoryEntry, "id" | "bookingId" | "createdAt" | "changedByName">) {
+  return {
+    ...entry,
+    createdAt: serverTimestamp()
+  };
+}
+
+function toHistoryEntry(bookingId: string, id: string, data: DocumentData): BookingHistoryEntry {
+  return {
+    id,
+    bookingId,
+    action: data.action || "updated",
+    fromStatus: data.fromStatus || null,
+    toStatus: data.toStatus || null,
+    changedBy: data.changedBy || null,
+    reason: data.reason || null,
+    createdAt: safeToDate(data.createdAt),
+  };
+}
+
 export const bookingService = {
   // Get all bookings
   async getBookings(): Promise<Booking[]> {
@@ -61,14 +160,7 @@ export const bookingService = {
           
           console.log(`[DEBUG] Raw booking data for ${docSnap.id}:`, data);
           
-          const booking: Booking = {
-            id: docSnap.id,
-            userId: data.userId || '',
-            activityId: data.activityId || '',
-            status: data.status || 'pending',
-            createdAt: safeToDate(data.createdAt),
-            updatedAt: safeToDate(data.updatedAt),
-          };
+          const booking = toBooking(docSnap.id, data);
           
           console.log(`[DEBUG] Converted booking ${docSnap.id}:`, booking);
           bookings.push(booking);
@@ -112,14 +204,7 @@ export const bookingService = {
             continue;
           }
           
-          const booking: Booking = {
-            id: docSnap.id,
-            userId: data.userId || '',
-            activityId: data.activityId || '',
-            status: data.status || 'pending',
-            createdAt: safeToDate(data.createdAt),
-            updatedAt: safeToDate(data.updatedAt),
-          };
+          const booking = toBooking(docSnap.id, data);
           
           // Fetch user details for each booking
           try {
@@ -167,14 +252,7 @@ export const bookingService = {
             continue;
           }
           
-          const booking: Booking = {
-            id: docSnap.id,
-            userId: data.userId || '',
-            activityId: data.activityId || '',
-            status: data.status || 'pending',
-            createdAt: safeToDate(data.createdAt),
-            updatedAt: safeToDate(data.updatedAt),
-          };
+          const booking = toBooking(docSnap.id, data);
           
           // Fetch activity details for each booking
           try {
@@ -215,14 +293,7 @@ export const bookingService = {
         return null;
       }
       
-      const booking: Booking = {
-        id: docSnap.id,
-        userId: data.userId || '',
-        activityId: data.activityId || '',
-        status: data.status || 'pending',
-        createdAt: safeToDate(data.createdAt),
-        updatedAt: safeToDate(data.updatedAt),
-      };
+      const booking = toBooking(docSnap.id, data);
       
       // Fetch related objects
       try {
@@ -239,23 +310,110 @@ export const bookingService = {
     }
   },
   
-  // Create a new booking
-  async createBooking(bookingData: Omit<Booking, "id" | "createdAt" | "updatedAt">): Promise<string> {
+  // Get the waitlist for an activity, ordered by queue position
+  async getWaitlist(activityId: string): Promise<Booking[]> {
     try {
-      // Check if the activity has reached its participant limit
-      const activityRef = doc(db, "activities", bookingData.activityId);
-      const activitySnap = await getDoc(activityRef);
+      const q = query(
+        bookingsCollection,
+        where("activityId", "==", activityId),
+        where("status", "==", "waitlisted")
+      );
+      const snapshot = await getDocs(q);
       
-      if (!activitySnap.exists()) {
+      const waitlist = snapshot.docs
+        .filter(docSnap => docSnap.exists())
+        .map(docSnap => toBooking(docSnap.id, docSnap.data()));
+      
+      // Sort client-side so no composite index is needed; fall back to booking time
+      waitlist.sort((a, b) => 
+        (a.waitlistPosition ?? Number.MAX_SAFE_INTEGER) - (b.waitlistPosition ?? Number.MAX_SAFE_INTEGER) ||
+        a.createdAt.getTime() - b.createdAt.getTime()
+      );
+      
+      for (const booking of waitlist) {
+        try {
+          booking.userObject = await userService.getUserById(booking.userId);
+        } catch (error) {
+          console.error(`Error fetching user for booking ${booking.id}:`, error);
+          booking.userObject = null;
+        }
+      }
+      
+      return waitlist;
+    } catch (error) {
+      console.error(`[ERROR] Error in getWaitlist for ${activityId}:`, error);
+      throw new Error(`Failed to fetch waitlist for activity: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+  
+  // Get a booking's audit trail, oldest entry first
+  async getBookingHistory(bookingId: string): Promise<BookingHistoryEntry[]> {
+    try {
+      const q = query(historyCollection(bookingId), orderBy("createdAt", "asc"));
+      const snapshot = await getDocs(q);
+      const entries = snapshot.docs.map(docSnap => toHistoryEntry(bookingId, docSnap.id, docSnap.data()));
+      
+      // Resolve each distinct user once
+      const names: Record<string, string> = {};
+      for (const userId of new Set(entries.map(entry => entry.changedBy).filter((id): id is string => !!id))) {
+        const user = await userService.getUserById(userId);
+        names[userId] = user?.displayName || user?.email || userId;
+      }
+      
+      return entries.map(entry => ({
+        ...entry,
+        changedByName: entry.changedBy ? names[entry.changedBy] : "System"
+      }));
+    } catch (error) {
+      console.error(`Error fetching history for booking ${bookingId}:`, error);
+      throw error;
+    }
+  },
+  
+  // Get the user's confirmed or pending bookings whose activity times overlap the given activity
+  async findOverlappingBookings(userId: string, activityId: string): Promise<Booking[]> {
+    try {
+      const activity = await activityService.getActivityById(activityId);
+      if (!activity) {
         throw new Error("Activity not found");
       }
       
-      const activityData = activitySnap.data();
-      const currentParticipants = activityData.currentParticipants || 0;
-      const participantLimit = activityData.participantLimit || 0;
+      const bookings = await this.getBookingsByUser(userId);
+      return bookings.filter(booking => 
+        booking.activityId !== activityId &&
+        holdsSeat(booking.status) &&
+        booking.activityObject &&
+        activitiesOverlap(activity, booking.activityObject)
+      );
+    } catch (error) {
+      console.error(`Error finding overlapping bookings for user ${userId}:`, error);
+      throw error;
+    }
+  },
+  
+  // Get every pair of overlapping confirmed or pending bookings in a user's schedule
+  async getScheduleConflicts(userId: string): Promise<Array<[Booking, Booking]>> {
+    try {
+      const bookings = await this.getBookingsByUser(userId);
+      return findOverlappingPairs(bookings);
+    } catch (error) {
+      console.error(`Error getting schedule conflicts for user ${userId}:`, error);
+      throw error;
+    }
+  },
+  
+  // Create a new booking; overlapping bookings and age-group mismatches are rejected
+  // unless the matching override option is set, in which case mismatches are flagged
+  async createBooking(
+    bookingData: Omit<Booking, "id" | "createdAt" | "updatedAt">,
+    options: CreateBookingOptions = {}
+  ): Promise<string> {
+    try {
+      const activityRef = doc(db, "activities", bookingData.activityId);
+      const activitySnap = await getDoc(activityRef);
       
-      if (participantLimit > 0 && currentParticipants >= participantLimit) {
-        throw new Error("Activity has reached its participant limit");
+      if (!activitySnap.exists()) {
+        throw new Error("Activity not found");
       }
       
       // Check if the user is already booked for this activity
@@ -263,7 +421,7 @@ export const bookingService = {
         bookingsCollection,
         where("userId", "==", bookingData.userId),
         where("activityId", "==", bookingData.activityId),
-        where("status", "in", ["confirmed", "pending"]) // Only check active bookings
+        where("status", "in", ["confirmed", "pending", "waitlisted"]) // Only check active bookings
       );
       
       const existingBookingSnapshot = await getDocs(existingBookingQuery);
@@ -272,22 +430,178 @@ export const bookingService = {
         throw new Error("This user is already booked for this activity");
       }
       
-      // Use a transaction to create booking and update activity participant count
+      if (bookingData.status !== "cancelled" && !options.allowOverlap) {
+        const overlapping = await this.findOverlappingBookings(bookingData.userId, bookingData.activityId);
+        if (overlapping.length > 0) {
+          const titles = overlapping.map(booking => booking.activityObject?.title || booking.activityId);
+          throw new Error(`This booking overlaps the user's existing booking for ${titles.join(", ")}`);
+        }
+      }
+      
+      const [user, activity] = await Promise.all([
+        userService.getUserById(bookingData.userId),
+        activityService.getActivityById(bookingData.activityId)
+      ]);
+      const eligibility = activity
+        ? checkBookingEligibility(user?.dob, bookingData.attendees, activity)
+        : { allowed: true, flag: null };
+      
+      if (!eligibility.allowed && !options.allowAgeMismatch) {
+        throw new Error(`This booking does not meet the activity's age group: ${eligibility.flag}`);
+      }
+      const eligibilityFlag = eligibility.flag;
+      
+      const notes: string[] = [];
+      if (options.allowOverlap) notes.push("schedule overlap allowed");
+      if (!eligibility.allowed) notes.push(`age group overridden (${eligibility.flag})`);
+      
+      const promo = options.promoCode
+        ? await promoCodeService.getPromoCodeByCode(options.promoCode)
+        : null;
+      if (options.promoCode && !promo) {
+        throw new Error(`Promo code ${options.promoCode} does not exist`);
+      }
+      const promoRef = promo ? doc(db, "promoCodes", promo.id) : null;
+      
+      // Activities waitlisted before the counter existed start from their highest position
+      const waitlist = await this.getWaitlist(bookingData.activityId);
+      const queuedPosition = waitlist.reduce(
+        (max, booking) => Math.max(max, booking.waitlistPosition || 0),
+        0
+      );
+      
+      // Use a transaction so the participant limit is checked against the latest count
       return await runTransaction(db, async (transaction) => {
-        // Create the booking
+        const latestActivitySnap = await transaction.get(activityRef);
+        if (!latestActivitySnap.exists()) {
+          throw new Error("Activity not found");
+        }
+        
+        // Read the promo code before any writes so its usage count is current
+        const latestPromoSnap = promoRef ? await transaction.get(promoRef) : null;
+        const latestPromo = latestPromoSnap?.exists()
+          ? toPromoCode(latestPromoSnap.id, latestPromoSnap.data())
+          : null;
+        if (latestPromo) {
+          const problem = checkPromoCode(latestPromo, bookingData.activityId, new Date(), fallbackLocale);
+          if (problem) {
+            throw new Error(problem);
+          }
+        }
+        
+        const activityData = latestActivitySnap.data();
+        const currentParticipants = activityData.currentParticipants || 0;
+        
+        // The counter is read and bumped in the transaction, so concurrent joins get their own positions
+        const nextPosition = Math.max(activityData.waitlistCounter || 0, queuedPosition) + 1;
+        const claimWaitlistPosition = () => {
+          transaction.update(activityRef, { waitlistCounter: nextPosition });
+          return nextPosition;
+        };
+        const participantLimit = activityData.participantLimit || 0;
+        const seats = getSeatCount(bookingData);
         const bookingRef = doc(collection(db, "bookings"));
+        
+        if (participantLimit > 0 && seats > participantLimit) {
+          throw new Error(`A party of ${seats} exceeds the participant limit of ${participantLimit}`);
+        }
+        
+        // Rentals are priced and checked against the latest stock
+        const equipment: EquipmentItem[] = activityData.equipment || [];
+        const rentals = getRentalLines(equipment, bookingData.rentals || []);
+        const reservesEquipment = rentals.length > 0 && holdsEquipment(bookingData.status);
+        if (reservesEquipment) {
+          const problem = checkRentals(equipment, rentals, fallbackLocale);
+          if (problem) {
+            throw new Error(problem);
+          }
+        }
+        
+        const price = calculateBookingPrice(
+          { estimatedCost: activityData.estimatedCost || 0, priceTiers: activityData.priceTiers || null },
+          bookingData,
+          latestPromo,
+          rentals
+        );
+        if (reservesEquipment) {
+          transaction.update(activityRef, {
+            equipment: applyRentals(equipment, rentals, 1),
+            updatedAt: serverTimestamp()
+          });
+        }
+        
+        const recordCreation = (status: BookingStatus, reason: string | null) => {
+          transaction.set(doc(historyCollection(bookingRef.id)), historyEntry({
+            action: "created",
+            fromStatus: null,
+            toStatus: status,
+            changedBy: options.changedBy || null,
+            reason: [reason, ...notes].filter(Boolean).join("; ") || null
+          }));
+        };
+        
+        if (!holdsSeat(bookingData.status)) {
+          transaction.set(bookingRef, {
+            ...bookingData,
+            partySize: seats,
+            eligibilityFlag,
+            price,
+            promoCodeId: latestPromo?.id || null,
+            rentals,
+            waitlistPosition: bookingData.status === "waitlisted" ? claimWaitlistPosition() : null,
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+          });
+          recordCreation(bookingData.status, null);
+          return bookingRef.id;
+        }
+        
+        if (participantLimit > 0 && currentParticipants + seats > participantLimit) {
+          // Not enough seats left, so queue the party at the end of the waitlist
+          transaction.set(bookingRef, {
+            ...bookingData,
+            partySize: seats,
+            eligibilityFlag,
+            price,
+            promoCodeId: latestPromo?.id || null,
+            rentals,
+            status: "waitlisted",
+            waitlistPosition: claimWaitlistPosition(),
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+          });
+          recordCreation("waitlisted", "Activity full, added to the waitlist");
+          return bookingRef.id;
+        }
+        
+        // Create the booking
         transaction.set(bookingRef, {
           ...bookingData,
+          partySize: seats,
+          eligibilityFlag,
+          price,
+          promoCodeId: latestPromo?.id || null,
+          rentals,
+          waitlistPosition: null,
           createdAt: serverTimestamp(),
           updatedAt: serverTimestamp(),
         });
+        recordCreation(bookingData.status, null);
         
-        // Update the activity's participant count
+        // Reserve one seat per party member
         transaction.update(activityRef, {
-          currentParticipants: increment(1),
+          currentParticipants: increment(seats),
           updatedAt: serverTimestamp()
         });
         
+        // Only bookings that hold a seat use up the promo code
+        if (latestPromo && promoRef) {
+          transaction.update(promoRef, {
+            usageCount: increment(1),
+            updatedAt: serverTimestamp()
+          });
+        }
+        
         return bookingRef.id;
       });
     } catch (error) {
@@ -296,53 +610,530 @@ export const bookingService = {
     }
   },
   
-  // Update a booking
-  async updateBooking(id: string, data: Partial<Booking>): Promise<void> {
-    const docRef = doc(bookingsCollection, id);
-    await updateDoc(docRef, {
-      ...data,
-      updatedAt: serverTimestamp()
-    });
+  // Update a booking; status changes go through changeBookingStatus
+  async updateBooking(id: string, data: Partial<Booking>, options: BookingStatusChangeOptions = {}): Promise<void> {
+    const { status, ...rest } = data;
+    
+    const locked = Object.keys(rest).filter(key => lockedBookingFields.includes(key));
+    if (locked.length > 0) {
+      throw new Error(`${locked.join(", ")} cannot be changed on an existing booking; cancel it and book again`);
+    }
+    
+    if (status) {
+      await this.changeBookingStatus(id, status, options);
+    }
+    
+    if (Object.keys(rest).length > 0) {
+      const batch = writeBatch(db);
+      batch.update(doc(bookingsCollection, id), {
+        ...rest,
+        updatedAt: serverTimestamp()
+      });
+      batch.set(doc(historyCollection(id)), historyEntry({
+        action: "updated",
+        fromStatus: null,
+        toStatus: null,
+        changedBy: options.changedBy || null,
+        reason: options.reason || `Updated ${Object.keys(rest).join(", ")}`
+      }));
+      await batch.commit();
+    }
   },
   
-  // Delete a booking
-  async deleteBooking(id: string): Promise<void> {
+  // Delete a booking. Its history subcollection stays behind, ending with a "deleted" entry.
+  async deleteBooking(id: string, options: BookingStatusChangeOptions = {}): Promise<void> {
     try {
-      // Get the booking to get the activity ID
       const bookingRef = doc(bookingsCollection, id);
-      const bookingSnap = await getDoc(bookingRef);
-      
-      if (!bookingSnap.exists()) {
-        throw new Error("Booking not found");
-      }
-      
-      const bookingData = bookingSnap.data();
-      const activityId = bookingData.activityId;
+      const promoRef = await findPromoRef((await getDoc(bookingRef)).data());
       
-      // Use a transaction to delete booking and update activity participant count
-      await runTransaction(db, async (transaction) => {
+      // Use a transaction to delete booking and release its seat, if it held one
+      const deleted = await runTransaction(db, async (transaction) => {
+        const bookingSnap = await transaction.get(bookingRef);
+        
+        if (!bookingSnap.exists()) {
+          throw new Error("Booking not found");
+        }
+        
+        const bookingData = bookingSnap.data();
+        const hadSeat = holdsSeat(bookingData.status);
+        const activityRef = doc(db, "activities", bookingData.activityId);
+        
+        // Read the activity before any writes when rented equipment goes back into stock
+        const rentals: BookingRental[] = holdsEquipment(bookingData.status) ? bookingData.rentals || [] : [];
+        const activitySnap = rentals.length > 0 ? await transaction.get(activityRef) : null;
+        const promoSnap = hadSeat && promoRef ? await transaction.get(promoRef) : null;
+        
         // Delete the booking
         transaction.delete(bookingRef);
+        transaction.set(doc(historyCollection(id)), historyEntry({
+          action: "deleted",
+          fromStatus: bookingData.status as BookingStatus,
+          toStatus: null,
+          changedBy: options.changedBy || null,
+          reason: options.reason || null
+        }));
         
         // Update the activity's participant count
+        if (hadSeat) {
+          transaction.update(activityRef, {
+            currentParticipants: increment(-getSeatCount(bookingData)),
+            updatedAt: serverTimestamp()
+          });
+        }
+        
+        if (activitySnap?.exists()) {
+          transaction.update(activityRef, {
+            equipment: applyRentals(activitySnap.data().equipment || [], rentals, -1),
+            updatedAt: serverTimestamp()
+          });
+        }
+        
+        // The promo code use goes back with the seat
+        if (promoSnap?.exists()) {
+          transaction.update(promoSnap.ref, {
+            usageCount: increment(-1),
+            updatedAt: serverTimestamp()
+          });
+        }
+        
+        return { activityId: bookingData.activityId as string, status: bookingData.status as BookingStatus, hadSeat };
+      });
+      
+      if (deleted.hadSeat) {
+        await this.promoteFromWaitlist(deleted.activityId);
+      } else if (deleted.status === "waitlisted") {
+        await this.renumberWaitlist(deleted.activityId);
+      }
+    } catch (error) {
+      console.error("Error deleting booking:", error);
+      throw error;
+    }
+  },
+  
+  // Change booking status, keeping the activity's participant count in sync.
+  // Cancellations follow the activity's cancellation policy unless an override reason is given.
+  async changeBookingStatus(id: string, status: BookingStatus, options: BookingStatusChangeOptions = {}): Promise<void> {
+    try {
+      const bookingRef = doc(bookingsCollection, id);
+      const promoRef = await findPromoRef((await getDoc(bookingRef)).data());
+      
+      const previous = await runTransaction(db, async (transaction) => {
+        const bookingSnap = await transaction.get(bookingRef);
+        
+        if (!bookingSnap.exists()) {
+          throw new Error("Booking not found");
+        }
+        
+        const bookingData = bookingSnap.data();
+        const from = bookingData.status as BookingStatus;
+        const activityId = bookingData.activityId as string;
+        
+        if (from === status) {
+          return { status: from, activityId };
+        }
+        
+        if (!canTransitionBooking(from, status)) {
+          throw new Error(`Cannot change a ${from} booking to ${status}`);
+        }
+        
         const activityRef = doc(db, "activities", activityId);
-        transaction.update(activityRef, {
-          currentParticipants: increment(-1),
+        const activitySnap = await transaction.get(activityRef);
+        
+        if (!activitySnap.exists()) {
+          throw new Error("Activity not found");
+        }
+        
+        // A promo code is used while the booking holds a seat. The price was agreed when the booking
+        // was made, so a waitlisted booking taking a seat is not held to the usage limit again.
+        const usageDelta = Number(holdsSeat(status)) - Number(holdsSeat(from));
+        const promoSnap = usageDelta !== 0 && promoRef ? await transaction.get(promoRef) : null;
+        
+        const seatDelta = (Number(holdsSeat(status)) - Number(holdsSeat(from))) * getSeatCount(bookingData);
+        const rentals: BookingRental[] = bookingData.rentals || [];
+        const rentalDirection = Number(holdsEquipment(status)) - Number(holdsEquipment(from));
+        const equipment: EquipmentItem[] = activitySnap.data().equipment || [];
+        
+        // Reinstating a cancelled booking needs its rented equipment back in stock
+        if (rentalDirection > 0) {
+          const problem = checkRentals(equipment, rentals, fallbackLocale);
+          if (problem) {
+            throw new Error(problem);
+          }
+        }
+        
+        let cancellation: Record<string, unknown> | null = null;
+        
+        if (status === "cancelled" && holdsSeat(from)) {
+          const activityData = activitySnap.data();
+          const check = checkCancellation({
+            startDate: safeToDate(activityData.startDate),
+            startTime: activityData.startTime || '',
+            cancellationPolicy: activityData.cancellationPolicy || null
+          }, new Date(), fallbackLocale);
+          const overrideReason = options.overrideReason?.trim() || null;
+          
+          if (!check.allowed && !overrideReason) {
+            throw new Error(check.message);
+          }
+          
+          cancellation = {
+            late: check.late,
+            feePercent: overrideReason ? 0 : check.feePercent,
+            overrideReason,
+            cancelledBy: options.changedBy || null,
+            cancelledAt: serverTimestamp()
+          };
+        }
+        
+        if (seatDelta > 0) {
+          const activityData = activitySnap.data();
+          const currentParticipants = activityData.currentParticipants || 0;
+          const participantLimit = activityData.participantLimit || 0;
+          
+          if (participantLimit > 0 && currentParticipants + seatDelta > participantLimit) {
+            throw new Error("Activity has reached its participant limit");
+          }
+        }
+        
+        transaction.update(bookingRef, {
+          status,
+          waitlistPosition: null,
+          cancellation,
           updatedAt: serverTimestamp()
         });
+        
+        transaction.set(doc(historyCollection(id)), historyEntry({
+          action: "status-changed",
+          fromStatus: from,
+          toStatus: status,
+          changedBy: options.changedBy || null,
+          reason: options.overrideReason?.trim() || options.reason || null
+        }));
+        
+        if (seatDelta !== 0) {
+          transaction.update(activityRef, {
+            currentParticipants: increment(seatDelta),
+            updatedAt: serverTimestamp()
+          });
+        }
+        
+        if (rentalDirection !== 0 && rentals.length > 0) {
+          transaction.update(activityRef, {
+            equipment: applyRentals(equipment, rentals, rentalDirection > 0 ? 1 : -1),
+            updatedAt: serverTimestamp()
+          });
+        }
+        
+        if (promoSnap?.exists()) {
+          transaction.update(promoSnap.ref, {
+            usageCount: increment(usageDelta),
+            updatedAt: serverTimestamp()
+          });
+        }
+        
+        return { status: from, activityId };
       });
+      
+      if (previous.status === status) {
+        return;
+      }
+      
+      // Refund anything paid beyond the late-cancellation fee
+      if (status === "cancelled" && holdsSeat(previous.status)) {
+        try {
+          await paymentService.refundCancelledBooking(id);
+        } catch (error) {
+          console.error(`Error refunding cancelled booking ${id}:`, error);
+        }
+      }
+      
+      // Hand a released seat to the next user in the queue
+      if (holdsSeat(previous.status) && !holdsSeat(status)) {
+        await this.promoteFromWaitlist(previous.activityId);
+      } else if (previous.status === "waitlisted") {
+        await this.renumberWaitlist(previous.activityId);
+      }
     } catch (error) {
-      console.error("Error deleting booking:", error);
+      console.error("Error changing booking status:", error);
+      throw error;
+    }
+  },
+  
+  // Fetch the signed ticket token for a confirmed booking; the server checks who is asking
+  async getTicketToken(id: string): Promise<string> {
+    if (!auth.currentUser) {
+      throw new Error("Sign in to view tickets");
+    }
+    
+    const response = await fetch(`/api/tickets/${encodeURIComponent(id)}`, {
+      headers: {
+        Authorization: `Bearer ${await auth.currentUser.getIdToken()}`
+      }
+    });
+    
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to create ticket");
+    }
+    
+    return data.token;
+  },
+  
+  // Resolve a scanned ticket token to its booking ID; rejects tampered tokens
+  async verifyTicketToken(token: string): Promise<string> {
+    const response = await fetch("/api/tickets/verify", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ token })
+    });
+    
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Invalid ticket");
+    }
+    
+    return data.bookingId;
+  },
+  
+  // Mark a confirmed booking as attended, rejecting cancelled bookings and repeat scans
+  async checkInBooking(id: string, staffUserId: string): Promise<Booking> {
+    try {
+      const bookingRef = doc(bookingsCollection, id);
+      
+      await runTransaction(db, async (transaction) => {
+        const bookingSnap = await transaction.get(bookingRef);
+        
+        if (!bookingSnap.exists()) {
+          throw new Error("Booking not found");
+        }
+        
+        const data = bookingSnap.data();
+        
+        if (data.status === "cancelled") {
+          throw new Error("This booking has been cancelled");
+        }
+        
+        if (data.status !== "confirmed") {
+          throw new Error(`Only confirmed bookings can be checked in (this booking is ${data.status})`);
+        }
+        
+        if (data.checkedIn) {
+          const scannedAt = data.checkedInAt ? safeToDate(data.checkedInAt).toLocaleString() : "an earlier scan";
+          throw new Error(`This ticket was already checked in at ${scannedAt}`);
+        }
+        
+        transaction.update(bookingRef, {
+          checkedIn: true,
+          checkedInAt: serverTimestamp(),
+          checkedInBy: staffUserId,
+          updatedAt: serverTimestamp()
+        });
+        
+        transaction.set(doc(historyCollection(id)), historyEntry({
+          action: "checked-in",
+          fromStatus: null,
+          toStatus: null,
+          changedBy: staffUserId || null,
+          reason: null
+        }));
+      });
+      
+      return await this.getBookingById(id);
+    } catch (error) {
+      console.error("Error checking in booking:", error);
+      throw error;
+    }
+  },
+  
+  // Rebuild currentParticipants for every activity from the bookings collection
+  async recountParticipants(): Promise<Array<{ activityId: string; previous: number; actual: number }>> {
+    try {
+      const [bookingsSnapshot, activitiesSnapshot] = await Promise.all([
+        getDocs(bookingsCollection),
+        getDocs(collection(db, "activities"))
+      ]);
+      
+      const seatCounts: Record<string, number> = {};
+      bookingsSnapshot.docs.forEach(docSnap => {
+        const data = docSnap.data();
+        if (data.activityId && holdsSeat(data.status || "pending")) {
+          seatCounts[data.activityId] = (seatCounts[data.activityId] || 0) + getSeatCount(data);
+        }
+      });
+      
+      const changes: Array<{ activityId: string; previous: number; actual: number }> = [];
+      activitiesSnapshot.docs.forEach(docSnap => {
+        const previous = docSnap.data().currentParticipants || 0;
+        const actual = seatCounts[docSnap.id] || 0;
+        if (previous !== actual) {
+          changes.push({ activityId: docSnap.id, previous, actual });
+        }
+      });
+      
+      // Firestore batches are limited to 500 writes
+      for (let i = 0; i < changes.length; i += 500) {
+        const batch = writeBatch(db);
+        changes.slice(i, i + 500).forEach(change => {
+          batch.update(doc(db, "activities", change.activityId), {
+            currentParticipants: change.actual,
+            updatedAt: serverTimestamp()
+          });
+        });
+        await batch.commit();
+      }
+      
+      console.log(`[DEBUG] Recounted participants, ${changes.length} activities corrected`);
+      return changes;
+    } catch (error) {
+      console.error("Error recounting participants:", error);
+      throw error;
+    }
+  },
+  
+  // Confirm waitlisted bookings in queue order while their parties fit in the free seats
+  async promoteFromWaitlist(activityId: string): Promise<string[]> {
+    try {
+      const waitlist = await this.getWaitlist(activityId);
+      if (waitlist.length === 0) {
+        return [];
+      }
+      
+      const activityRef = doc(db, "activities", activityId);
+      const promoRefs = await Promise.all(waitlist.map(findPromoRef));
+      const promotedIds = await runTransaction(db, async (transaction) => {
+        const activitySnap = await transaction.get(activityRef);
+        if (!activitySnap.exists()) {
+          return [];
+        }
+        
+        // Firestore transactions need every read to happen before the first write
+        const candidateSnaps = await Promise.all(
+          waitlist.map(candidate => transaction.get(doc(bookingsCollection, candidate.id)))
+        );
+        const promoPaths = Array.from(new Set(promoRefs.flatMap(ref => ref ? [ref.path] : [])));
+        const promoSnaps = await Promise.all(promoPaths.map(path => transaction.get(doc(db, path))));
+        const promoUses: Record<string, number> = {};
+        
+        const activityData = activitySnap.data();
+        const participantLimit = activityData.participantLimit || 0;
+        let currentParticipants = activityData.currentParticipants || 0;
+        const promoted: string[] = [];
+        
+        for (const [index, candidateSnap] of candidateSnaps.entries()) {
+          // Skip entries that changed since the waitlist was read
+          if (!candidateSnap.exists() || candidateSnap.data().status !== "waitlisted") {
+            continue;
+          }
+          
+          // Stop at the first party that does not fit so nobody jumps the queue
+          const seats = getSeatCount(candidateSnap.data());
+          if (participantLimit > 0 && currentParticipants + seats > participantLimit) {
+            break;
+          }
+          
+          transaction.update(candidateSnap.ref, {
+            status: "confirmed",
+            waitlistPosition: null,
+            updatedAt: serverTimestamp()
+          });
+          transaction.set(doc(historyCollection(candidateSnap.id)), historyEntry({
+            action: "status-changed",
+            fromStatus: "waitlisted",
+            toStatus: "confirmed",
+            changedBy: null,
+            reason: "Promoted from the waitlist"
+          }));
+          currentParticipants += seats;
+          promoted.push(candidateSnap.id);
+          
+          const promoPath = promoRefs[index]?.path;
+          if (promoPath) {
+            promoUses[promoPath] = (promoUses[promoPath] || 0) + 1;
+          }
+        }
+        
+        if (promoted.length > 0) {
+          transaction.update(activityRef, {
+            currentParticipants,
+            updatedAt: serverTimestamp()
+          });
+        }
+        
+        // Promoted bookings now hold seats, so they use their promo codes
+        promoSnaps
+          .filter(promoSnap => promoSnap.exists() && promoUses[promoSnap.ref.path])
+          .forEach(promoSnap => transaction.update(promoSnap.ref, {
+            usageCount: increment(promoUses[promoSnap.ref.path]),
+            updatedAt: serverTimestamp()
+          }));
+        
+        return promoted;
+      });
+      
+      await this.renumberWaitlist(activityId);
+      return promotedIds;
+    } catch (error) {
+      console.error(`Error promoting waitlist for activity ${activityId}:`, error);
       throw error;
     }
   },
   
-  // Change booking status
-  async changeBookingStatus(id: string, status: "confirmed" | "pending" | "cancelled"): Promise<void> {
-    const docRef = doc(bookingsCollection, id);
-    await updateDoc(docRef, {
-      status,
-      updatedAt: serverTimestamp()
+  // Reorder an activity's waitlist; bookingIds lists the waitlisted bookings in their new order
+  async reorderWaitlist(activityId: string, bookingIds: string[], changedBy?: string): Promise<void> {
+    try {
+      const waitlist = await this.getWaitlist(activityId);
+      const waitlistIds = new Set(waitlist.map(booking => booking.id));
+      
+      if (
+        bookingIds.length !== waitlistIds.size ||
+        bookingIds.some(bookingId => !waitlistIds.has(bookingId))
+      ) {
+        throw new Error("The waitlist has changed. Please reload and try again.");
+      }
+      
+      const previousPositions = new Map(waitlist.map((booking, index) => [booking.id, index + 1]));
+      const batch = writeBatch(db);
+      bookingIds.forEach((bookingId, index) => {
+        batch.update(doc(bookingsCollection, bookingId), {
+          waitlistPosition: index + 1,
+          updatedAt: serverTimestamp()
+        });
+        
+        const previousPosition = previousPositions.get(bookingId);
+        if (previousPosition !== index + 1) {
+          batch.set(doc(historyCollection(bookingId)), historyEntry({
+            action: "waitlist-moved",
+            fromStatus: null,
+            toStatus: null,
+            changedBy: changedBy || null,
+            reason: `Moved from waitlist position ${previousPosition} to ${index + 1}`
+          }));
+        }
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error(`Error reordering waitlist for activity ${activityId}:`, error);
+      throw error;
+    }
+  },
+  
+  // Close gaps in waitlist positions after bookings leave the queue
+  async renumberWaitlist(activityId: string): Promise<void> {
+    const waitlist = await this.getWaitlist(activityId);
+    const batch = writeBatch(db);
+    let changed = false;
+    
+    waitlist.forEach((booking, index) => {
+      if (booking.waitlistPosition !== index + 1) {
+        batch.update(doc(bookingsCollection, booking.id), { waitlistPosition: index + 1 });
+        changed = true;
+      }
     });
+    
+    if (changed) {
+      await batch.commit();
+    }
   }
 }; 
\ No newline at end of file
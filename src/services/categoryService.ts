@@ -41,6 +41,7 @@ export const categoryService = {
           id: docSnapshot.id,
           name: data.name || '',
           description: data.description || '',
+          translations: data.translations || {},
           isActive: data.isActive !== undefined ? data.isActive : true,
           createdAt: safeToDate(data.createdAt),
           updatedAt: safeToDate(data.updatedAt),
@@ -67,6 +68,7 @@ export const categoryService = {
         id: docSnap.id,
         name: data.name || '',
         description: data.description || '',
+        translations: data.translations || {},
         isActive: data.isActive !== undefined ? data.isActive : true,
         createdAt: safeToDate(data.createdAt),
         updatedAt: safeToDate(data.updatedAt),
@@ -0,0 +1,178 @@
+import { 
+  collection, 
+  doc, 
+  getDocs, 
+  addDoc, 
+  query, 
+  where,
+  orderBy,
+  limit,
+  serverTimestamp,
+  writeBatch,
+  WriteBatch,
+  DocumentData
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { ExpirationRun, ExpirationTrigger } from "@/types/expiration";
+import { BookingStatus } from "@/types/booking";
+import { bookingService, historyCollection, historyEntry } from "./bookingService";
+import { safeToDate } from "@/utils/dateUtils";
+import { isActivityOver, isPublishDue } from "@/utils/activityUtils";
+
+const activitiesCollection = collection(db, "activities");
+const bookingsCollection = collection(db, "bookings");
+const runsCollection = collection(db, "expirationRuns");
+
+// Firestore rejects batches with more than 500 writes
+const BATCH_LIMIT = 500;
+
+type Write = (batch: WriteBatch) => void;
+
+async function commitInBatches(writes: Write[]): Promise<void> {
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_LIMIT).forEach(write => write(batch));
+    await batch.commit();
+  }
+}
+
+// Helper function to convert a Firestore run document into an ExpirationRun
+function toExpirationRun(id: string, data: DocumentData): ExpirationRun {
+  return {
+    id,
+    trigger: data.trigger || 'cron',
+    triggeredBy: data.triggeredBy || null,
+    expiredActivityIds: data.expiredActivityIds || [],
+    publishedActivityIds: data.publishedActivityIds || [],
+    completedBookings: data.completedBookings || 0,
+    cancelledBookings: data.cancelledBookings || 0,
+    startedAt: safeToDate(data.startedAt) || new Date(),
+    finishedAt: safeToDate(data.finishedAt) || new Date(),
+  };
+}
+
+export const expirationService = {
+  // Mark ended activities as expired and close out their bookings: confirmed bookings are
+  // completed, while pending and waitlisted ones are cancelled. Also publishes scheduled
+  // activities whose publish time has passed. Every run is logged in "expirationRuns".
+  async runExpiration(trigger: ExpirationTrigger, triggeredBy: string | null = null): Promise<ExpirationRun> {
+    try {
+      const startedAt = new Date();
+      const writes: Write[] = [];
+      const cancellations: Array<{ id: string; status: BookingStatus }> = [];
+      let completedBookings = 0;
+      let cancelledBookings = 0;
+      
+      // Filtered client-side so no composite index is needed
+      const [openSnapshot, scheduledSnapshot] = await Promise.all([
+        getDocs(query(activitiesCollection, where("isExpired", "==", false))),
+        getDocs(query(activitiesCollection, where("status", "==", "scheduled")))
+      ]);
+      
+      const expired = openSnapshot.docs.filter(docSnap => {
+        const data = docSnap.data();
+        return isActivityOver({
+          startDate: safeToDate(data.startDate),
+          startTime: data.startTime || '',
+          endDate: safeToDate(data.endDate),
+          endTime: data.endTime || ''
+        }, startedAt);
+      });
+      
+      const published = scheduledSnapshot.docs.filter(docSnap => isPublishDue({
+        status: "scheduled",
+        publishAt: safeToDate(docSnap.data().publishAt)
+      }, startedAt));
+      
+      for (const activitySnap of expired) {
+        writes.push(batch => batch.update(activitySnap.ref, {
+          isExpired: true,
+          updatedAt: serverTimestamp()
+        }));
+        
+        const bookingsSnapshot = await getDocs(query(bookingsCollection, where("activityId", "==", activitySnap.id)));
+        bookingsSnapshot.docs.forEach(bookingSnap => {
+          const from = bookingSnap.data().status as BookingStatus;
+          if (from === "pending" || from === "waitlisted") {
+            cancellations.push({ id: bookingSnap.id, status: from });
+            return;
+          }
+          if (from !== "confirmed") return;
+          
+          // Completed bookings keep their seats, so the participant count stays as it is
+          completedBookings++;
+          writes.push(batch => batch.update(bookingSnap.ref, {
+            status: "completed",
+            waitlistPosition: null,
+            updatedAt: serverTimestamp()
+          }));
+          writes.push(batch => batch.set(doc(historyCollection(bookingSnap.id)), historyEntry({
+            action: "status-changed",
+            fromStatus: from,
+            toStatus: "completed",
+            changedBy: null,
+            reason: "Activity ended"
+          })));
+        });
+      }
+      
+      published.forEach(activitySnap => {
+        writes.push(batch => batch.update(activitySnap.ref, {
+          status: "published",
+          isActive: true,
+          updatedAt: serverTimestamp()
+        }));
+      });
+      
+      await commitInBatches(writes);
+      
+      // Cancellations go through the booking service so seats, rented equipment, promo code usage and
+      // refunds are released as for any other cancellation. Waitlisted bookings go first so that
+      // cancelling a pending booking has nobody left to promote.
+      cancellations.sort((a, b) => Number(a.status === "pending") - Number(b.status === "pending"));
+      for (const cancellation of cancellations) {
+        try {
+          await bookingService.changeBookingStatus(cancellation.id, "cancelled", {
+            overrideReason: "Activity ended before the booking was confirmed"
+          });
+          cancelledBookings++;
+        } catch (error) {
+          console.error(`Error cancelling booking ${cancellation.id} of an ended activity:`, error);
+        }
+      }
+      
+      const run = {
+        trigger,
+        triggeredBy,
+        expiredActivityIds: expired.map(docSnap => docSnap.id),
+        publishedActivityIds: published.map(docSnap => docSnap.id),
+        completedBookings,
+        cancelledBookings,
+        startedAt,
+        finishedAt: new Date()
+      };
+      const runRef = await addDoc(runsCollection, run);
+      
+      console.log(`Expiration run ${runRef.id}: expired ${run.expiredActivityIds.length} activities, ` +
+        `completed ${completedBookings} and cancelled ${cancelledBookings} bookings, ` +
+        `published ${run.publishedActivityIds.length} scheduled activities`);
+      
+      return { id: runRef.id, ...run };
+    } catch (error) {
+      console.error("Error running activity expiration:", error);
+      throw error;
+    }
+  },
+  
+  // Most recent runs first
+  async getRecentRuns(count = 10): Promise<ExpirationRun[]> {
+    try {
+      const q = query(runsCollection, orderBy("startedAt", "desc"), limit(count));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap => toExpirationRun(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error("Error getting expiration runs:", error);
+      throw error;
+    }
+  }
+};
\ No newline at end of file
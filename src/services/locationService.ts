@@ -43,12 +43,16 @@ export const locationService = {
           id: docSnapshot.id,
           name: data.name || '',
           description: data.description || '',
+          translations: data.translations || {},
           address: data.address || '',
           coordinates: data.coordinates || { lat: 0, lng: 0 },
           categoryId: data.categoryId || '',
           isActive: data.isActive !== undefined ? data.isActive : true,
+          capacity: data.capacity || 0,
+          exclusive: data.exclusive || false,
           icon: data.icon || '',
           images: data.images || [],
+          rating: data.rating || null,
           createdAt: safeToDate(data.createdAt),
           updatedAt: safeToDate(data.updatedAt),
         } as Location;
@@ -89,12 +93,16 @@ export const locationService = {
           id: docSnapshot.id,
           name: data.name || '',
           description: data.description || '',
+          translations: data.translations || {},
           address: data.address || '',
           coordinates: data.coordinates || { lat: 0, lng: 0 },
           categoryId: data.categoryId || '',
           isActive: data.isActive !== undefined ? data.isActive : true,
+          capacity: data.capacity || 0,
+          exclusive: data.exclusive || false,
           icon: data.icon || '',
           images: data.images || [],
+          rating: data.rating || null,
           createdAt: safeToDate(data.createdAt),
           updatedAt: safeToDate(data.updatedAt),
         } as Location;
@@ -129,12 +137,16 @@ export const locationService = {
         id: docSnap.id,
         name: data.name || '',
         description: data.description || '',
+        translations: data.translations || {},
         address: data.address || '',
         coordinates: data.coordinates || { lat: 0, lng: 0 },
         categoryId: data.categoryId || '',
         isActive: data.isActive !== undefined ? data.isActive : true,
+        capacity: data.capacity || 0,
+        exclusive: data.exclusive || false,
         icon: data.icon || '',
         images: data.images || [],
+        rating: data.rating || null,
         createdAt: safeToDate(data.createdAt),
         updatedAt: safeToDate(data.updatedAt),
       } as Location;
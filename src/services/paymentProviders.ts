@@ -0,0 +1,50 @@
+import { PaymentMethod } from "@/types/payment";
+
+export interface PaymentProviderRequest {
+  bookingId: string;
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+}
+
+export interface PaymentProviderResult {
+  success: boolean;
+  reference: string | null;
+  error?: string;
+}
+
+// A payment provider charges and refunds money; the ledger only records what it reports back
+export interface PaymentProvider {
+  id: string;
+  name: string;
+  charge(request: PaymentProviderRequest): Promise<PaymentProviderResult>;
+  refund(request: PaymentProviderRequest & { originalReference?: string | null }): Promise<PaymentProviderResult>;
+}
+
+// Records money handled at the desk (cash, card terminal, bank transfer); always succeeds
+export const localPaymentProvider: PaymentProvider = {
+  id: "local",
+  name: "Local (manual)",
+  async charge(request) {
+    return { success: true, reference: `local-${request.method}-${Date.now()}` };
+  },
+  async refund(request) {
+    return { success: true, reference: `local-refund-${request.method}-${Date.now()}` };
+  }
+};
+
+const providers: Record<string, PaymentProvider> = {
+  [localPaymentProvider.id]: localPaymentProvider
+};
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers[provider.id] = provider;
+}
+
+export function getPaymentProvider(id: string = localPaymentProvider.id): PaymentProvider {
+  const provider = providers[id];
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${id}`);
+  }
+  return provider;
+}
\ No newline at end of file
@@ -0,0 +1,198 @@
+import { 
+  collection, 
+  doc, 
+  getDocs, 
+  getDoc, 
+  addDoc, 
+  query, 
+  where,
+  orderBy,
+  serverTimestamp,
+  DocumentData
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Payment, PaymentMethod } from "@/types/payment";
+import { getPaymentProvider } from "./paymentProviders";
+import { safeToDate } from "@/utils/dateUtils";
+import { DEFAULT_CURRENCY, getAmountDue, roundMoney, summarizePayments } from "@/utils/paymentUtils";
+
+const paymentsCollection = collection(db, "payments");
+
+// Helper function to convert a Firestore payment document into a Payment
+function toPayment(id: string, data: DocumentData): Payment {
+  return {
+    id,
+    bookingId: data.bookingId || '',
+    activityId: data.activityId || '',
+    userId: data.userId || '',
+    type: data.type || 'payment',
+    amount: data.amount || 0,
+    currency: data.currency || DEFAULT_CURRENCY,
+    method: data.method || 'cash',
+    provider: data.provider || 'local',
+    providerReference: data.providerReference || null,
+    note: data.note || null,
+    createdAt: safeToDate(data.createdAt),
+  };
+}
+
+export interface RecordPaymentInput {
+  bookingId: string;
+  amount: number;
+  method: PaymentMethod;
+  currency?: string;
+  providerId?: string;
+  note?: string;
+}
+
+export const paymentService = {
+  // Get all payments and refunds
+  async getPayments(): Promise<Payment[]> {
+    try {
+      const q = query(paymentsCollection, orderBy("createdAt", "desc"));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap => toPayment(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error("Error in getPayments:", error);
+      throw new Error("Failed to fetch payments");
+    }
+  },
+  
+  // Get the ledger entries of a booking, oldest first
+  async getPaymentsByBooking(bookingId: string): Promise<Payment[]> {
+    try {
+      const q = query(paymentsCollection, where("bookingId", "==", bookingId));
+      const snapshot = await getDocs(q);
+      return snapshot.docs
+        .map(docSnap => toPayment(docSnap.id, docSnap.data()))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      console.error(`Error in getPaymentsByBooking for ${bookingId}:`, error);
+      throw new Error("Failed to fetch payments for booking");
+    }
+  },
+  
+  // Get the ledger entries of every booking of an activity
+  async getPaymentsByActivity(activityId: string): Promise<Payment[]> {
+    try {
+      const q = query(paymentsCollection, where("activityId", "==", activityId));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap => toPayment(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error(`Error in getPaymentsByActivity for ${activityId}:`, error);
+      throw new Error("Failed to fetch payments for activity");
+    }
+  },
+  
+  // Charge a booking through a payment provider and record the payment
+  async recordPayment(input: RecordPaymentInput): Promise<string> {
+    try {
+      const amount = roundMoney(input.amount);
+      if (amount <= 0) {
+        throw new Error("Payment amount must be greater than zero");
+      }
+      
+      const bookingSnap = await getDoc(doc(db, "bookings", input.bookingId));
+      if (!bookingSnap.exists()) {
+        throw new Error("Booking not found");
+      }
+      
+      const booking = bookingSnap.data();
+      const currency = input.currency || DEFAULT_CURRENCY;
+      const provider = getPaymentProvider(input.providerId);
+      const result = await provider.charge({
+        bookingId: input.bookingId,
+        amount,
+        currency,
+        method: input.method
+      });
+      
+      if (!result.success) {
+        throw new Error(result.error || "Payment was declined");
+      }
+      
+      const docRef = await addDoc(paymentsCollection, {
+        bookingId: input.bookingId,
+        activityId: booking.activityId,
+        userId: booking.userId,
+        type: "payment",
+        amount,
+        currency,
+        method: input.method,
+        provider: provider.id,
+        providerReference: result.reference,
+        note: input.note || null,
+        createdAt: serverTimestamp(),
+      });
+      
+      return docRef.id;
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      throw error;
+    }
+  },
+  
+  // Refund what was paid for a cancelled booking, keeping any late-cancellation fee
+  async refundCancelledBooking(bookingId: string): Promise<string | null> {
+    try {
+      const bookingSnap = await getDoc(doc(db, "bookings", bookingId));
+      if (!bookingSnap.exists()) {
+        throw new Error("Booking not found");
+      }
+      
+      const booking = bookingSnap.data();
+      if (booking.status !== "cancelled") {
+        throw new Error("Only cancelled bookings can be refunded");
+      }
+      
+      const payments = await this.getPaymentsByBooking(bookingId);
+      const lastPayment = [...payments].reverse().find(p => p.type === "payment");
+      if (!lastPayment) {
+        return null;
+      }
+      
+      const activitySnap = await getDoc(doc(db, "activities", booking.activityId));
+      const amountDue = getAmountDue(booking, activitySnap.exists() ? activitySnap.data() : null);
+      const feePercent = booking.cancellation?.feePercent || 0;
+      const fee = roundMoney(amountDue * feePercent / 100);
+      const { net } = summarizePayments(payments, amountDue);
+      const refundAmount = roundMoney(net - fee);
+      
+      if (refundAmount <= 0) {
+        return null;
+      }
+      
+      const provider = getPaymentProvider(lastPayment.provider);
+      const result = await provider.refund({
+        bookingId,
+        amount: refundAmount,
+        currency: lastPayment.currency,
+        method: lastPayment.method,
+        originalReference: lastPayment.providerReference
+      });
+      
+      if (!result.success) {
+        throw new Error(result.error || "Refund was declined");
+      }
+      
+      const docRef = await addDoc(paymentsCollection, {
+        bookingId,
+        activityId: booking.activityId,
+        userId: booking.userId,
+        type: "refund",
+        amount: refundAmount,
+        currency: lastPayment.currency,
+        method: lastPayment.method,
+        provider: provider.id,
+        providerReference: result.reference,
+        note: fee > 0 ? `Cancellation refund, ${feePercent}% fee retained` : "Cancellation refund",
+        createdAt: serverTimestamp(),
+      });
+      
+      return docRef.id;
+    } catch (error) {
+      console.error(`Error refunding cancelled booking ${bookingId}:`, error);
+      throw error;
+    }
+  }
+};
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { 
+  collection, 
+  doc, 
+  getDocs, 
+  getDoc, 
+  addDoc, 
+  updateDoc, 
+  deleteDoc, 
+  query, 
+  where,
+  orderBy,
+  limit,
+  serverTimestamp,
+  DocumentData
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { PromoCode } from "@/types/promoCode";
+import { safeToDate } from "@/utils/dateUtils";
+import { normalizePromoCode } from "@/utils/pricingUtils";
+
+const promoCodesCollection = collection(db, "promoCodes");
+
+export type PromoCodeInput = Omit<PromoCode, "id" | "usageCount" | "createdAt" | "updatedAt">;
+
+// Helper function to convert a Firestore promo code document into a PromoCode
+export function toPromoCode(id: string, data: DocumentData): PromoCode {
+  return {
+    id,
+    code: data.code || '',
+    description: data.description || '',
+    discountType: data.discountType || 'percent',
+    discountValue: data.discountValue || 0,
+    validFrom: data.validFrom ? safeToDate(data.validFrom) : null,
+    validUntil: data.validUntil ? safeToDate(data.validUntil) : null,
+    usageLimit: data.usageLimit ?? null,
+    usageCount: data.usageCount || 0,
+    activityIds: data.activityIds || [],
+    isActive: data.isActive !== undefined ? data.isActive : true,
+    createdAt: safeToDate(data.createdAt),
+    updatedAt: safeToDate(data.updatedAt),
+  };
+}
+
+// Codes are unique regardless of case
+async function assertCodeAvailable(code: string, ignoreId?: string): Promise<void> {
+  const q = query(promoCodesCollection, where("code", "==", code));
+  const snapshot = await getDocs(q);
+  if (snapshot.docs.some(docSnap => docSnap.id !== ignoreId)) {
+    throw new Error(`Promo code ${code} already exists`);
+  }
+}
+
+export const promoCodeService = {
+  // Get all promo codes
+  async getPromoCodes(): Promise<PromoCode[]> {
+    try {
+      const q = query(promoCodesCollection, orderBy("createdAt", "desc"));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap => toPromoCode(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error("Error getting promo codes:", error);
+      throw error;
+    }
+  },
+  
+  // Look up a promo code as typed by a customer
+  async getPromoCodeByCode(code: string): Promise<PromoCode | null> {
+    try {
+      const q = query(promoCodesCollection, where("code", "==", normalizePromoCode(code)), limit(1));
+      const snapshot = await getDocs(q);
+      if (snapshot.empty) {
+        return null;
+      }
+      
+      const docSnap = snapshot.docs[0];
+      return toPromoCode(docSnap.id, docSnap.data());
+    } catch (error) {
+      console.error("Error getting promo code:", error);
+      throw error;
+    }
+  },
+  
+  async getPromoCodeById(id: string): Promise<PromoCode | null> {
+    try {
+      const docSnap = await getDoc(doc(promoCodesCollection, id));
+      return docSnap.exists() ? toPromoCode(docSnap.id, docSnap.data()) : null;
+    } catch (error) {
+      console.error("Error getting promo code:", error);
+      throw error;
+    }
+  },
+  
+  async createPromoCode(promo: PromoCodeInput): Promise<string> {
+    try {
+      const code = normalizePromoCode(promo.code);
+      await assertCodeAvailable(code);
+      
+      const docRef = await addDoc(promoCodesCollection, {
+        ...promo,
+        code,
+        usageCount: 0,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      return docRef.id;
+    } catch (error) {
+      console.error("Error creating promo code:", error);
+      throw error;
+    }
+  },
+  
+  async updatePromoCode(id: string, promo: Partial<PromoCodeInput>): Promise<void> {
+    try {
+      const changes = { ...promo };
+      if (changes.code !== undefined) {
+        changes.code = normalizePromoCode(changes.code);
+        await assertCodeAvailable(changes.code, id);
+      }
+      
+      await updateDoc(doc(promoCodesCollection, id), {
+        ...changes,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error("Error updating promo code:", error);
+      throw error;
+    }
+  },
+  
+  async deletePromoCode(id: string): Promise<void> {
+    try {
+      await deleteDoc(doc(promoCodesCollection, id));
+    } catch (error) {
+      console.error("Error deleting promo code:", error);
+      throw error;
+    }
+  },
+  
+  async togglePromoCodeStatus(id: string, isActive: boolean): Promise<void> {
+    try {
+      await updateDoc(doc(promoCodesCollection, id), {
+        isActive,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error("Error toggling promo code status:", error);
+      throw error;
+    }
+  }
+};
\ No newline at end of file
@@ -0,0 +1,228 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  getDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  serverTimestamp,
+  writeBatch,
+  DocumentData
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Review, ReviewStatus, ReviewSubmission, ReviewTarget } from "@/types/review";
+import { BookingStatus } from "@/types/booking";
+import { activityService } from "./activityService";
+import { userService } from "./userService";
+import { safeToDate } from "@/utils/dateUtils";
+import { checkReviewEligibility, getReviewId, summarizeRatings, validateRating } from "@/utils/reviewUtils";
+import { getStaffIds } from "@/utils/staffUtils";
+
+const reviewsCollection = collection(db, "reviews");
+
+// Helper function to convert a Firestore review document into a Review
+function toReview(id: string, data: DocumentData): Review {
+  return {
+    id,
+    bookingId: data.bookingId || '',
+    userId: data.userId || '',
+    activityId: data.activityId || '',
+    targetType: data.targetType || 'activity',
+    targetId: data.targetId || '',
+    rating: data.rating || 0,
+    comment: data.comment || '',
+    status: data.status || 'pending',
+    moderatedBy: data.moderatedBy || null,
+    moderatedAt: data.moderatedAt ? safeToDate(data.moderatedAt) : null,
+    createdAt: safeToDate(data.createdAt),
+    updatedAt: safeToDate(data.updatedAt),
+  };
+}
+
+function byNewest(a: Review, b: Review): number {
+  return b.createdAt.getTime() - a.createdAt.getTime();
+}
+
+// Recompute the rating stored on an activity or location from its approved reviews
+async function refreshRating(targetType: ReviewTarget, targetId: string): Promise<void> {
+  const targetRef = doc(db, targetType === "activity" ? "activities" : "locations", targetId);
+  const targetSnap = await getDoc(targetRef);
+  // Reviews outlive deleted activities and locations
+  if (!targetSnap.exists()) return;
+
+  const q = query(reviewsCollection, where("targetId", "==", targetId));
+  const snapshot = await getDocs(q);
+  const reviews = snapshot.docs
+    .map(docSnap => toReview(docSnap.id, docSnap.data()))
+    .filter(review => review.targetType === targetType);
+
+  await updateDoc(targetRef, { rating: summarizeRatings(reviews) });
+}
+
+export const reviewService = {
+  // Get all reviews, newest first
+  async getReviews(): Promise<Review[]> {
+    try {
+      const q = query(reviewsCollection, orderBy("createdAt", "desc"));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap => toReview(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error("Error getting reviews:", error);
+      throw error;
+    }
+  },
+
+  // Reviews left by participants of an activity, for the activity and its locations
+  async getReviewsByActivity(activityId: string): Promise<Review[]> {
+    try {
+      const q = query(reviewsCollection, where("activityId", "==", activityId));
+      const snapshot = await getDocs(q);
+      // Sorted here so the query needs no composite index
+      return snapshot.docs
+        .map(docSnap => toReview(docSnap.id, docSnap.data()))
+        .sort(byNewest);
+    } catch (error) {
+      console.error("Error getting activity reviews:", error);
+      throw error;
+    }
+  },
+
+  // Get the reviews left for a booking
+  async getReviewsByBooking(bookingId: string): Promise<Review[]> {
+    try {
+      const q = query(reviewsCollection, where("bookingId", "==", bookingId));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap => toReview(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error("Error getting booking reviews:", error);
+      throw error;
+    }
+  },
+
+  // Get the reviews a user has left, across all their bookings
+  async getReviewsByUser(userId: string): Promise<Review[]> {
+    try {
+      const q = query(reviewsCollection, where("userId", "==", userId));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap => toReview(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error("Error getting user reviews:", error);
+      throw error;
+    }
+  },
+
+  // Rate the activity and its locations for a confirmed booking once the activity is over, as the
+  // participant or for them as staff. Submitting again replaces the earlier ratings and sends them
+  // back for moderation.
+  async submitReview(submission: ReviewSubmission): Promise<Review[]> {
+    try {
+      const bookingSnap = await getDoc(doc(db, "bookings", submission.bookingId));
+      if (!bookingSnap.exists()) {
+        throw new Error("Booking not found");
+      }
+
+      const booking = bookingSnap.data();
+      const activity = await activityService.getActivityById(booking.activityId);
+      if (!activity) {
+        throw new Error("Activity not found");
+      }
+
+      if (!submission.submittedBy) {
+        throw new Error("Sign in to review your trips");
+      }
+      if (booking.userId !== submission.submittedBy) {
+        const user = await userService.getUserById(submission.submittedBy);
+        const isStaff = user?.role === "admin" || getStaffIds(activity.staff).includes(submission.submittedBy);
+        if (!isStaff) {
+          throw new Error("Only the participant or the activity's staff can review this booking");
+        }
+      }
+
+      const eligibilityError = checkReviewEligibility({ status: booking.status as BookingStatus }, activity);
+      if (eligibilityError) {
+        throw new Error(eligibilityError);
+      }
+
+      const ratings: Array<{ targetType: ReviewTarget; targetId: string; rating: number; comment: string }> = [
+        { targetType: "activity", targetId: activity.id, ...submission.activity }
+      ];
+      for (const [locationId, input] of Object.entries(submission.locations)) {
+        if (!activity.locations.includes(locationId)) {
+          throw new Error("Only the activity's own locations can be rated");
+        }
+        ratings.push({ targetType: "location", targetId: locationId, ...input });
+      }
+
+      for (const rating of ratings) {
+        const ratingError = validateRating(rating);
+        if (ratingError) {
+          throw new Error(ratingError);
+        }
+      }
+
+      const existing = await reviewService.getReviewsByBooking(submission.bookingId);
+      const batch = writeBatch(db);
+
+      for (const rating of ratings) {
+        const id = getReviewId(submission.bookingId, rating.targetType, rating.targetId);
+        const previous = existing.find(review => review.id === id);
+        batch.set(doc(reviewsCollection, id), {
+          bookingId: submission.bookingId,
+          userId: booking.userId || '',
+          activityId: activity.id,
+          targetType: rating.targetType,
+          targetId: rating.targetId,
+          rating: rating.rating,
+          comment: rating.comment.trim(),
+          status: "pending",
+          moderatedBy: null,
+          moderatedAt: null,
+          createdAt: previous ? previous.createdAt : serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+      }
+
+      await batch.commit();
+
+      // Replaced reviews that were approved no longer count until they are approved again
+      const replacedApproved = existing.filter(review =>
+        review.status === "approved" &&
+        ratings.some(rating => rating.targetType === review.targetType && rating.targetId === review.targetId)
+      );
+      for (const review of replacedApproved) {
+        await refreshRating(review.targetType, review.targetId);
+      }
+
+      return await reviewService.getReviewsByBooking(submission.bookingId);
+    } catch (error) {
+      console.error("Error submitting review:", error);
+      throw error;
+    }
+  },
+
+  // Approve or hide a review and update the rating of what it rates
+  async moderateReview(id: string, status: Exclude<ReviewStatus, "pending">, moderatorId: string): Promise<void> {
+    try {
+      const reviewRef = doc(reviewsCollection, id);
+      const reviewSnap = await getDoc(reviewRef);
+      if (!reviewSnap.exists()) {
+        throw new Error("Review not found");
+      }
+
+      const review = toReview(reviewSnap.id, reviewSnap.data());
+      await updateDoc(reviewRef, {
+        status,
+        moderatedBy: moderatorId,
+        moderatedAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+
+      await refreshRating(review.targetType, review.targetId);
+    } catch (error) {
+      console.error("Error moderating review:", error);
+      throw error;
+    }
+  }
+};
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { TravelMode } from "@/types/activity";
+import { Coordinates, RouteSummary, getStraightLineRoute } from "@/utils/routeUtils";
+
+// A router measures the legs between consecutive stops. Register a provider backed by a
+// locally hosted routing engine to replace the straight-line estimate with road distances.
+export interface RouteProvider {
+  id: string;
+  name: string;
+  route(stops: Coordinates[], mode: TravelMode): Promise<RouteSummary>;
+}
+
+// Haversine distance between stops with travel time from the configured average speeds
+export const straightLineRouteProvider: RouteProvider = {
+  id: "straight-line",
+  name: "Straight line",
+  async route(stops, mode) {
+    return getStraightLineRoute(stops, mode);
+  }
+};
+
+const providers: Record<string, RouteProvider> = {
+  [straightLineRouteProvider.id]: straightLineRouteProvider
+};
+
+let defaultProviderId = straightLineRouteProvider.id;
+
+export function registerRouteProvider(provider: RouteProvider, makeDefault = false): void {
+  providers[provider.id] = provider;
+  if (makeDefault) {
+    defaultProviderId = provider.id;
+  }
+}
+
+export function getRouteProvider(id: string = defaultProviderId): RouteProvider {
+  const provider = providers[id];
+  if (!provider) {
+    throw new Error(`Unknown route provider: ${id}`);
+  }
+  return provider;
+}
+
+// Route through the stops with the default provider, falling back to straight lines if it fails
+export async function getRoute(stops: Coordinates[], mode: TravelMode): Promise<RouteSummary> {
+  const provider = getRouteProvider();
+  try {
+    return await provider.route(stops, mode);
+  } catch (error) {
+    console.error(`Route provider ${provider.id} failed, using straight-line distances:`, error);
+    return getStraightLineRoute(stops, mode);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,278 @@
+import { 
+  collection, 
+  doc, 
+  getDocs, 
+  getDoc, 
+  setDoc, 
+  updateDoc, 
+  deleteDoc, 
+  query, 
+  orderBy,
+  runTransaction,
+  serverTimestamp,
+  writeBatch,
+  WriteBatch,
+  DocumentData
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Tag, TagMigrationResult } from "@/types/tag";
+import { safeToDate } from "@/utils/dateUtils";
+import { getTagUsageChanges, normalizeTagList, toTagSlug } from "@/utils/tagUtils";
+
+const tagsCollection = collection(db, "tags");
+const activitiesCollection = collection(db, "activities");
+const templatesCollection = collection(db, "activityTemplates");
+
+// Firestore rejects batches with more than 500 writes
+const BATCH_LIMIT = 500;
+
+type Write = (batch: WriteBatch) => void;
+
+async function commitInBatches(writes: Write[]): Promise<void> {
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_LIMIT).forEach(write => write(batch));
+    await batch.commit();
+  }
+}
+
+// Helper function to convert a Firestore tag document into a Tag
+function toTag(id: string, data: DocumentData): Tag {
+  return {
+    id,
+    name: data.name || id,
+    synonyms: data.synonyms || [],
+    usageCount: data.usageCount || 0,
+    createdAt: safeToDate(data.createdAt),
+    updatedAt: safeToDate(data.updatedAt),
+  };
+}
+
+// Number of activities carrying each tag slug
+async function countUsage(): Promise<Map<string, { name: string; count: number }>> {
+  const snapshot = await getDocs(activitiesCollection);
+  const usage = new Map<string, { name: string; count: number }>();
+  
+  snapshot.docs.forEach(docSnap => {
+    const names: string[] = docSnap.data().tags || [];
+    new Set(names).forEach(name => {
+      const slug = toTagSlug(name);
+      if (!slug) return;
+      const entry = usage.get(slug) || { name, count: 0 };
+      usage.set(slug, { ...entry, count: entry.count + 1 });
+    });
+  });
+  
+  return usage;
+}
+
+export const tagService = {
+  // Get all tags, alphabetically
+  async getTags(): Promise<Tag[]> {
+    try {
+      const q = query(tagsCollection, orderBy("name", "asc"));
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap => toTag(docSnap.id, docSnap.data()));
+    } catch (error) {
+      console.error("Error getting tags:", error);
+      throw error;
+    }
+  },
+  
+  async createTag(name: string, synonyms: string[] = []): Promise<string> {
+    try {
+      const slug = toTagSlug(name);
+      if (!slug) {
+        throw new Error("Tag name is required");
+      }
+      
+      const tagRef = doc(tagsCollection, slug);
+      if ((await getDoc(tagRef)).exists()) {
+        throw new Error(`A tag matching "${name.trim()}" already exists`);
+      }
+      
+      await setDoc(tagRef, {
+        name: name.trim(),
+        synonyms,
+        usageCount: 0,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      return slug;
+    } catch (error) {
+      console.error("Error creating tag:", error);
+      throw error;
+    }
+  },
+  
+  async updateSynonyms(id: string, synonyms: string[]): Promise<void> {
+    try {
+      await updateDoc(doc(tagsCollection, id), {
+        synonyms: synonyms.filter(synonym => toTagSlug(synonym) && toTagSlug(synonym) !== id),
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error("Error updating tag synonyms:", error);
+      throw error;
+    }
+  },
+  
+  // Only unused tags can be deleted; merge a tag in use into another instead
+  async deleteTag(id: string): Promise<void> {
+    try {
+      const tagSnap = await getDoc(doc(tagsCollection, id));
+      if (tagSnap.exists() && toTag(tagSnap.id, tagSnap.data()).usageCount > 0) {
+        throw new Error("This tag is still used by activities. Merge it into another tag instead.");
+      }
+      
+      await deleteDoc(doc(tagsCollection, id));
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      throw error;
+    }
+  },
+  
+  // Keep usage counts in step with a change to an activity's tags, creating tags seen for the first time.
+  // times applies the change to several activities at once, e.g. every occurrence of a series.
+  // Failures are logged rather than thrown so they never fail the activity save that caused
+  // them; migrateLegacyTags recounts everything.
+  async recordUsage(previous: string[], next: string[], times = 1): Promise<void> {
+    const changes = getTagUsageChanges(previous, next);
+    if (changes.size === 0 || times === 0) return;
+    
+    try {
+      await runTransaction(db, async (transaction) => {
+        const entries = Array.from(changes.entries());
+        const snaps = await Promise.all(entries.map(([slug]) => transaction.get(doc(tagsCollection, slug))));
+        
+        entries.forEach(([slug, { name, delta }], index) => {
+          const tagSnap = snaps[index];
+          if (tagSnap.exists()) {
+            transaction.update(tagSnap.ref, {
+              usageCount: Math.max(0, (tagSnap.data().usageCount || 0) + delta * times),
+              updatedAt: serverTimestamp(),
+            });
+          } else if (delta > 0) {
+            transaction.set(doc(tagsCollection, slug), {
+              name,
+              synonyms: [],
+              usageCount: delta * times,
+              createdAt: serverTimestamp(),
+              updatedAt: serverTimestamp(),
+            });
+          }
+        });
+      });
+    } catch (error) {
+      console.error("Error recording tag usage:", error);
+    }
+  },
+  
+  // Replace the source tags with the target name on every activity and template.
+  // The source names become synonyms of the target, so old spellings still resolve.
+  // Renaming a tag is a merge of that tag into the new name.
+  async mergeTags(sourceIds: string[], targetName: string): Promise<void> {
+    try {
+      const targetId = toTagSlug(targetName);
+      if (!targetId) {
+        throw new Error("Tag name is required");
+      }
+      
+      const tags = await this.getTags();
+      const target = tags.find(tag => tag.id === targetId);
+      const sources = tags.filter(tag => sourceIds.includes(tag.id) && tag.id !== targetId);
+      const sourceIdSet = new Set(sources.map(tag => tag.id));
+      const name = targetName.trim();
+      
+      const writes: Write[] = [];
+      for (const tagged of [activitiesCollection, templatesCollection]) {
+        const snapshot = await getDocs(tagged);
+        snapshot.docs.forEach(docSnap => {
+          const names: string[] = docSnap.data().tags || [];
+          const touched = names.some(tagName => sourceIdSet.has(toTagSlug(tagName)) || toTagSlug(tagName) === targetId);
+          if (!touched) return;
+          
+          const replaced = names.map(tagName => {
+            const slug = toTagSlug(tagName);
+            return sourceIdSet.has(slug) || slug === targetId ? name : tagName;
+          });
+          const merged = normalizeTagList(replaced, []);
+          if (merged.join("\n") !== names.join("\n")) {
+            writes.push(batch => batch.update(docSnap.ref, { tags: merged }));
+          }
+        });
+      }
+      await commitInBatches(writes);
+      
+      const synonyms = Array.from(new Set([
+        ...(target?.synonyms || []),
+        ...(target && target.name !== name ? [target.name] : []),
+        ...sources.flatMap(source => [source.name, ...source.synonyms])
+      ])).filter(synonym => toTagSlug(synonym) !== targetId);
+      const usage = await countUsage();
+      
+      const batch = writeBatch(db);
+      batch.set(doc(tagsCollection, targetId), {
+        name,
+        synonyms,
+        usageCount: usage.get(targetId)?.count || 0,
+        createdAt: target ? target.createdAt : serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      sources.forEach(source => batch.delete(doc(tagsCollection, source.id)));
+      await batch.commit();
+    } catch (error) {
+      console.error("Error merging tags:", error);
+      throw error;
+    }
+  },
+  
+  // One-off clean-up of free-form tags: splits comma-separated tags such as "eating , jezzine",
+  // resolves synonyms, then creates any missing tags and recounts usage for all of them.
+  async migrateLegacyTags(): Promise<TagMigrationResult> {
+    try {
+      const tags = await this.getTags();
+      const snapshot = await getDocs(activitiesCollection);
+      
+      const writes: Write[] = [];
+      snapshot.docs.forEach(docSnap => {
+        const names: string[] = docSnap.data().tags || [];
+        const normalized = normalizeTagList(names, tags);
+        if (normalized.join("\n") !== names.join("\n")) {
+          writes.push(batch => batch.update(docSnap.ref, { tags: normalized }));
+        }
+      });
+      const activitiesUpdated = writes.length;
+      await commitInBatches(writes);
+      
+      const usage = await countUsage();
+      const existing = new Set(tags.map(tag => tag.id));
+      const tagWrites: Write[] = [];
+      let tagsCreated = 0;
+      
+      usage.forEach(({ name, count }, slug) => {
+        if (existing.has(slug)) {
+          tagWrites.push(batch => batch.update(doc(tagsCollection, slug), { usageCount: count }));
+        } else {
+          tagsCreated++;
+          tagWrites.push(batch => batch.set(doc(tagsCollection, slug), {
+            name,
+            synonyms: [],
+            usageCount: count,
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+          }));
+        }
+      });
+      tags
+        .filter(tag => !usage.has(tag.id) && tag.usageCount !== 0)
+        .forEach(tag => tagWrites.push(batch => batch.update(doc(tagsCollection, tag.id), { usageCount: 0 })));
+      await commitInBatches(tagWrites);
+      
+      return { activitiesUpdated, tagsCreated };
+    } catch (error) {
+      console.error("Error migrating legacy tags:", error);
+      throw error;
+    }
+  }
+};
\ No newline at end of file
@@ -190,6 +190,44 @@ export const userService = {
     }
   },
   
+  // Secret part of a staff member's calendar feed URL, created on first use.
+  // It is kept out of the User mapping so user lists never carry it.
+  async getCalendarFeedKey(id: string): Promise<string> {
+    try {
+      const docSnap = await getDoc(doc(usersCollection, id));
+      const existing = docSnap.exists() ? docSnap.data().calendarFeedKey : null;
+      if (existing) {
+        return existing;
+      }
+      return await userService.resetCalendarFeedKey(id);
+    } catch (error) {
+      console.error("Error getting calendar feed key:", error);
+      throw error;
+    }
+  },
+  
+  // Replace the calendar feed key, which stops the old feed URL from working
+  async resetCalendarFeedKey(id: string): Promise<string> {
+    try {
+      const key = crypto.randomUUID().replace(/-/g, '');
+      await updateDoc(doc(usersCollection, id), { calendarFeedKey: key });
+      return key;
+    } catch (error) {
+      console.error("Error resetting calendar feed key:", error);
+      throw error;
+    }
+  },
+  
+  async verifyCalendarFeedKey(id: string, key: string): Promise<boolean> {
+    try {
+      const docSnap = await getDoc(doc(usersCollection, id));
+      return !!key && docSnap.exists() && docSnap.data().calendarFeedKey === key;
+    } catch (error) {
+      console.error("Error verifying calendar feed key:", error);
+      return false;
+    }
+  },
+  
   // Calculate age from date of birth
   calculateAge(dob: Date): number {
     const today = new Date();
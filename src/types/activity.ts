@@ -1,24 +1,158 @@
 import { Location } from "./location";
+import { RatingSummary } from "./review";
+import { Translations } from "./locale";
+
+export interface CancellationPolicy {
+  freeCancellationHours: number; // Free cancellation until this many hours before the start
+  lateCancellationFeePercent: number; // Fee charged for cancellations inside that window
+  noShowCharged: boolean; // Whether no-shows pay the full price
+}
+
+// Per-seat prices; the group rate replaces them for parties of groupMinSize or more
+export interface PriceTiers {
+  adults: number;
+  children: number;
+  seniors: number;
+  groupRate: number | null;
+  groupMinSize: number;
+}
+
+// One stop of an activity's itinerary; stops are visited in array order
+export interface ItineraryStop {
+  locationId: string;
+  arrivalTime: string; // Planned arrival, "HH:mm"
+  departureTime: string; // Planned departure, "HH:mm"
+  dwellMinutes: number; // Planned time spent at the stop
+  notes: string;
+}
+
+export type TravelMode = "walking" | "driving" | "bus";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Repeat every n days, weeks or months
+  byWeekday?: number[]; // Weekly rules only; 0 = Sunday
+  until?: Date | null; // Last possible occurrence date
+  count?: number | null; // Maximum number of occurrences
+  exceptionDates?: string[]; // Skipped days as "YYYY-MM-DD"
+}
+
+// Publishing lifecycle: drafts are submitted for review, and a second admin approves them
+// to publish now or at publishAt. Only published activities are active.
+export type ActivityStatus = "draft" | "in-review" | "scheduled" | "published" | "archived";
 
 export interface Activity {
   id: string;
   title: string;
   description: string;
+  translations?: Translations<"title" | "description">; // Title and description in other languages
   startDate: Date | any;
   endDate: Date | any;
   startTime: string;
   endTime: string;
-  locations: string[]; // Array of location IDs
+  locations: string[]; // Array of location IDs, in itinerary order
+  itinerary?: ItineraryStop[]; // Ordered stops with planned times
+  travelMode?: TravelMode; // How participants travel between stops
   locationObjects?: Location[]; // Populated location objects
-  isActive: boolean;
+  isActive: boolean; // Kept in step with status: true only while published
   isExpired: boolean;
+  status?: ActivityStatus; // Missing on activities created before the workflow
+  publishAt?: Date | null; // When a scheduled activity is published
+  submittedBy?: string | null; // ID of the admin who submitted it for review
+  submittedAt?: Date | null;
+  approvedBy?: string | null; // ID of the second admin who approved it
+  approvedAt?: Date | null;
+  reviewNote?: string | null; // Reason given when a review sends it back to draft
   difficulty: "easy" | "moderate" | "hard";
   ageGroup: "all" | "adults" | "children" | "seniors";
   estimatedDuration: number; // In minutes
-  estimatedCost: number; // In currency
+  estimatedCost: number; // In currency; the per-seat price when no tiers are set
+  priceTiers?: PriceTiers | null;
   tags: string[];
   participantLimit: number; // Maximum number of participants
   currentParticipants?: number; // Current number of participants
+  cancellationPolicy?: CancellationPolicy | null;
+  equipment?: EquipmentItem[]; // What participants bring or can rent
+  staff?: ActivityStaff | null;
+  staffIds?: string[]; // Every assigned staff member, kept in step with staff for querying
+  rating?: RatingSummary | null; // Approved participant reviews
+  seriesId?: string | null; // Shared by every occurrence of a recurring activity; the first occurrence's ID
+  recurrence?: RecurrenceRule | null; // Stored on the first occurrence of a series
   createdAt: Date | any;
   updatedAt: Date | any;
-} 
\ No newline at end of file
+} 
+export type EquipmentRequirement = "required" | "recommended";
+
+// An item on an activity's packing list; rentable items can be added to bookings
+export interface EquipmentItem {
+  id: string; // Referenced by booking rentals
+  name: string;
+  requirement: EquipmentRequirement;
+  notes: string;
+  rentable: boolean;
+  rentalPrice: number; // Per item, in currency
+  stock: number; // Items available to rent for this activity
+  rented: number; // Items reserved by bookings that are not cancelled
+}
+
+export type StaffRole = "lead" | "assistant" | "driver";
+
+// People running an activity, by user ID
+export interface ActivityStaff {
+  leadGuideId: string | null;
+  assistantIds: string[];
+  driverIds: string[];
+}
+
+// A staff member who is already assigned to another activity at the same time
+export interface StaffConflict {
+  userId: string;
+  activity: Activity;
+}
+
+// "overlap": the location is exclusive to one activity at a time; "capacity": together they exceed its
+// capacity; "shared": both use the location at once, which it allows
+export type LocationConflictReason = "overlap" | "capacity" | "shared";
+
+export interface LocationConflict {
+  locationId: string;
+  activity: Activity; // The other activity at the location
+  reason: LocationConflictReason;
+}
+
+// Fields carried over when an activity is duplicated or saved as a template
+export type ActivityTemplateFields = Pick<Activity,
+  "title" | "description" | "translations" | "startTime" | "endTime" | "locations" | "itinerary" | "travelMode" |
+  "difficulty" | "ageGroup" | "estimatedDuration" | "estimatedCost" | "priceTiers" | "tags" |
+  "participantLimit" | "cancellationPolicy" | "equipment"
+>;
+
+export interface ActivityTemplate extends ActivityTemplateFields {
+  id: string;
+  name: string;
+  durationDays: number; // Days from the start date to the end date
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Filters for the paginated activity search; dates are YYYY-MM-DD
+export interface ActivitySearchFilters {
+  search?: string; // Words matched against the title and description
+  from?: string;
+  to?: string;
+  difficulty?: Activity["difficulty"];
+  ageGroup?: Activity["ageGroup"];
+  tag?: string;
+  locationId?: string;
+  categoryId?: string;
+  minCost?: number;
+  maxCost?: number;
+  status?: ActivityStatus;
+}
+
+export interface ActivityPage {
+  activities: Activity[];
+  nextCursor: string | null; // ID of the last activity scanned, null on the last page
+}
\ No newline at end of file
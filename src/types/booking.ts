@@ -1,13 +1,85 @@
 import { User } from "./user";
 import { Activity } from "./activity";
 
+// Completed is set by the expiration job once the activity has ended
+export type BookingStatus = "confirmed" | "pending" | "cancelled" | "waitlisted" | "completed";
+
+export interface BookingAttendee {
+  name: string;
+  ageGroup: "adults" | "children" | "seniors";
+}
+
+export interface BookingCancellation {
+  late: boolean; // Cancelled inside the free-cancellation window
+  feePercent: number; // Late-cancellation fee applied, as a percentage of the price
+  overrideReason?: string | null; // Set when an admin bypassed the cancellation policy
+  cancelledBy?: string | null;
+  cancelledAt: Date | null;
+}
+
+// "deleted" is the last entry of a deleted booking; its history is kept as the audit trail
+export type BookingHistoryAction = "created" | "status-changed" | "checked-in" | "waitlist-moved" | "updated" | "deleted";
+
+// One audit entry in a booking's history subcollection
+export interface BookingHistoryEntry {
+  id: string;
+  bookingId: string;
+  action: BookingHistoryAction;
+  fromStatus: BookingStatus | null;
+  toStatus: BookingStatus | null;
+  changedBy: string | null; // User ID, null for automatic changes
+  changedByName?: string;
+  reason: string | null;
+  createdAt: Date;
+}
+
+export type PriceTier = "adults" | "children" | "seniors" | "group";
+
+export interface BookingPriceLine {
+  tier: PriceTier;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+// Equipment rented with a booking, priced when the booking was made
+export interface BookingRental {
+  itemId: string; // EquipmentItem id on the activity
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+// Price worked out when the booking was made, so later price changes do not alter it
+export interface BookingPrice {
+  lines: BookingPriceLine[];
+  subtotal: number;
+  discount: number;
+  rentals?: number; // Equipment rental amount, added after the discount
+  total: number;
+  currency: string;
+  promoCode: string | null;
+}
+
 export interface Booking {
   id: string;
   userId: string;
   activityId: string;
   userObject?: User;
   activityObject?: Activity;
-  status: "confirmed" | "pending" | "cancelled";
+  status: BookingStatus;
+  partySize: number; // Number of seats reserved by this booking
+  attendees?: BookingAttendee[]; // Optional named members of the party
+  waitlistPosition?: number | null; // 1-based position in the activity's waitlist
+  checkedIn?: boolean;
+  checkedInAt?: Date | null;
+  checkedInBy?: string | null; // ID of the staff user who scanned the ticket
+  cancellation?: BookingCancellation | null;
+  eligibilityFlag?: string | null; // Age-group issue that staff should verify
+  price?: BookingPrice | null;
+  promoCodeId?: string | null; // Promo code document the discount came from
+  rentals?: BookingRental[];
   createdAt: Date | any;
   updatedAt: Date | any;
 } 
\ No newline at end of file
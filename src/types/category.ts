@@ -1,7 +1,10 @@
+import { Translations } from "./locale";
+
 export interface Category {
   id: string;
   name: string;
   description?: string;
+  translations?: Translations<"name" | "description">; // Name and description in other languages
   createdAt: Date | any;
   updatedAt: Date | any;
   isActive: boolean;
@@ -0,0 +1,14 @@
+export type ExpirationTrigger = "cron" | "manual";
+
+// Log of one run of the activity expiration job
+export interface ExpirationRun {
+  id: string;
+  trigger: ExpirationTrigger;
+  triggeredBy: string | null; // Admin user ID for manual runs
+  expiredActivityIds: string[];
+  publishedActivityIds: string[]; // Scheduled activities whose publish time had passed
+  completedBookings: number;
+  cancelledBookings: number;
+  startedAt: Date;
+  finishedAt: Date;
+}
\ No newline at end of file
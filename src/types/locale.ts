@@ -0,0 +1,4 @@
+export type Locale = "en" | "ar";
+
+// Translated text fields keyed by locale; the entity's own fields hold the fallback language
+export type Translations<Field extends string> = Partial<Record<Locale, Partial<Record<Field, string>>>>;
\ No newline at end of file
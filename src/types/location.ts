@@ -1,9 +1,12 @@
 import { Category } from "./category";
+import { RatingSummary } from "./review";
+import { Translations } from "./locale";
 
 export interface Location {
   id: string;
   name: string;
   description?: string;
+  translations?: Translations<"name" | "description">; // Name and description in other languages
   address: string;
   coordinates: {
     lat: number;
@@ -14,6 +17,9 @@ export interface Location {
   icon?: string; // Base64 encoded icon
   images: string[]; // Base64 encoded images
   isActive: boolean;
+  capacity: number; // Most participants at once across activities; 0 for no limit
+  exclusive: boolean; // Takes one activity at a time, whatever the capacity
+  rating?: RatingSummary | null; // Approved participant reviews
   createdAt: Date | any;
   updatedAt: Date | any;
 } 
\ No newline at end of file
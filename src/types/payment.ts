@@ -0,0 +1,21 @@
+export type PaymentMethod = "cash" | "card" | "transfer";
+
+export type PaymentType = "payment" | "refund";
+
+// Payment state of a booking, derived from its ledger entries
+export type PaymentStatus = "unpaid" | "partially-paid" | "paid" | "refunded";
+
+export interface Payment {
+  id: string;
+  bookingId: string;
+  activityId: string;
+  userId: string;
+  type: PaymentType;
+  amount: number; // Always positive; refunds are subtracted
+  currency: string;
+  method: PaymentMethod;
+  provider: string; // ID of the payment provider that processed the entry
+  providerReference?: string | null;
+  note?: string | null;
+  createdAt: Date;
+}
\ No newline at end of file
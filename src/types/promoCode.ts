@@ -0,0 +1,17 @@
+export type DiscountType = "percent" | "fixed";
+
+export interface PromoCode {
+  id: string;
+  code: string; // Stored upper-case
+  description: string;
+  discountType: DiscountType;
+  discountValue: number; // Percentage or amount in currency
+  validFrom: Date | null;
+  validUntil: Date | null;
+  usageLimit: number | null; // Null for unlimited redemptions
+  usageCount: number; // Bookings holding a seat with the code; released when they are cancelled or deleted
+  activityIds: string[]; // Empty applies to every activity
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { User } from "./user";
+
+export type ReviewTarget = "activity" | "location";
+
+// New reviews wait for an admin; only approved reviews count towards the averages
+export type ReviewStatus = "pending" | "approved" | "hidden";
+
+export interface Review {
+  id: string; // `${bookingId}_${targetType}_${targetId}`, so a booking rates each target once
+  bookingId: string;
+  userId: string;
+  userObject?: User | null; // Populated user
+  activityId: string; // The booked activity, also set on location reviews
+  targetType: ReviewTarget;
+  targetId: string; // Activity or location ID
+  rating: number; // 1 to 5 stars
+  comment: string;
+  status: ReviewStatus;
+  moderatedBy?: string | null; // ID of the admin who last approved or hid it
+  moderatedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Aggregate of the approved reviews, stored on the rated activity or location
+export interface RatingSummary {
+  average: number; // Rounded to one decimal
+  count: number;
+  distribution: number[]; // Number of reviews per star, index 0 is one star
+}
+
+export interface RatingInput {
+  rating: number;
+  comment: string;
+}
+
+export interface ReviewSubmission {
+  bookingId: string;
+  submittedBy: string; // Signed-in user: the booking's owner, an admin or the activity's staff
+  activity: RatingInput;
+  locations: Record<string, RatingInput>; // Keyed by location ID; unrated locations are left out
+}
\ No newline at end of file
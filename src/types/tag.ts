@@ -0,0 +1,13 @@
+export interface Tag {
+  id: string; // Slug of the name, also the document ID
+  name: string; // Display name stored on activities
+  synonyms: string[]; // Other spellings that resolve to this tag
+  usageCount: number; // Number of activities carrying the tag
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TagMigrationResult {
+  activitiesUpdated: number;
+  tagsCreated: number;
+}
\ No newline at end of file
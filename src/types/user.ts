@@ -1,4 +1,5 @@
-export type UserRole = "admin" | "user";
+// Guides can log in to see the activities they are assigned to
+export type UserRole = "admin" | "guide" | "user";
 
 export interface User {
   id: string;
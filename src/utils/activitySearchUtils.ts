@@ -0,0 +1,96 @@
+import { Activity, ActivitySearchFilters } from "@/types/activity";
+
+const MAX_KEYWORDS = 300;
+
+// Lower-cased words, keeping letters and digits in any script
+export function getSearchTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 0);
+}
+
+// Title and description text in every language an activity is written in
+export function getSearchableText(
+  activity: Partial<Pick<Activity, "title" | "description" | "translations">>
+): { title: string; description: string } {
+  const translated = Object.values(activity.translations || {});
+  return {
+    title: [activity.title, ...translated.map(fields => fields?.title)].filter(Boolean).join(" "),
+    description: [activity.description, ...translated.map(fields => fields?.description)].filter(Boolean).join(" ")
+  };
+}
+
+// Keywords stored on each activity so search can use an array-contains query.
+// Title words are indexed by every prefix so partial words match; description words whole.
+export function getSearchKeywords(title: string, description: string): string[] {
+  const keywords = new Set<string>();
+  
+  getSearchTerms(title).forEach(word => {
+    for (let length = 1; length <= Math.min(word.length, 20); length++) {
+      keywords.add(word.slice(0, length));
+    }
+  });
+  getSearchTerms(description).forEach(word => keywords.add(word));
+  
+  return Array.from(keywords).slice(0, MAX_KEYWORDS);
+}
+
+// Whether an activity satisfies every filter; categoryLocationIds are the locations in filters.categoryId
+export function matchesFilters(
+  activity: Activity,
+  filters: ActivitySearchFilters,
+  categoryLocationIds: string[] = []
+): boolean {
+  if (filters.search) {
+    const { title, description } = getSearchableText(activity);
+    const text = `${title} ${description}`.toLowerCase();
+    if (!getSearchTerms(filters.search).every(term => text.includes(term))) return false;
+  }
+  if (filters.from && new Date(activity.startDate) < new Date(filters.from)) return false;
+  if (filters.to && new Date(activity.startDate) > new Date(filters.to)) return false;
+  if (filters.difficulty && activity.difficulty !== filters.difficulty) return false;
+  if (filters.ageGroup && activity.ageGroup !== filters.ageGroup) return false;
+  if (filters.tag && !activity.tags.some(tag => tag.toLowerCase() === filters.tag?.toLowerCase())) return false;
+  if (filters.locationId && !activity.locations.includes(filters.locationId)) return false;
+  if (filters.categoryId && !activity.locations.some(id => categoryLocationIds.includes(id))) return false;
+  if (filters.minCost !== undefined && activity.estimatedCost < filters.minCost) return false;
+  if (filters.maxCost !== undefined && activity.estimatedCost > filters.maxCost) return false;
+  if (filters.status && (activity.status || "draft") !== filters.status) return false;
+  return true;
+}
+
+const textFilterKeys = ["search", "from", "to", "difficulty", "ageGroup", "tag", "locationId", "categoryId", "status"] as const;
+const numberFilterKeys = ["minCost", "maxCost"] as const;
+
+// Read filters from the page URL, ignoring empty and invalid values
+export function filtersFromSearchParams(params: URLSearchParams): ActivitySearchFilters {
+  const filters: Record<string, string | number> = {};
+  
+  textFilterKeys.forEach(key => {
+    const value = params.get(key)?.trim();
+    if (value) filters[key] = value;
+  });
+  numberFilterKeys.forEach(key => {
+    const value = parseFloat(params.get(key) || "");
+    if (!isNaN(value)) filters[key] = value;
+  });
+  
+  return filters as ActivitySearchFilters;
+}
+
+export function filtersToSearchParams(filters: ActivitySearchFilters, cursor?: string | null): URLSearchParams {
+  const params = new URLSearchParams();
+  
+  [...textFilterKeys, ...numberFilterKeys].forEach(key => {
+    const value = filters[key];
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+  if (cursor) params.set("cursor", cursor);
+  
+  return params;
+}
+
+export function hasActiveFilters(filters: ActivitySearchFilters): boolean {
+  return Object.values(filters).some(value => value !== undefined && value !== "");
+}
\ No newline at end of file
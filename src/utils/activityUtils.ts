@@ -0,0 +1,144 @@
+import { Activity, ActivityStatus, ActivityTemplateFields } from "@/types/activity";
+import { combineDateAndTime, toDateKey, toTimeString } from "./dateUtils";
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+// Full time span of an activity, from startDate/startTime to endDate/endTime
+export function getActivityWindow(activity: Pick<Activity, "startDate" | "startTime" | "endDate" | "endTime">): TimeWindow {
+  const start = combineDateAndTime(activity.startDate, activity.startTime);
+  let end = combineDateAndTime(activity.endDate || activity.startDate, activity.endTime);
+  
+  // An end time before the start time on the same day runs past midnight
+  if (end <= start) {
+    end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+  }
+  
+  return { start, end };
+}
+
+// Windows that only touch (one ends exactly when the other starts) do not overlap
+export function windowsOverlap(a: TimeWindow, b: TimeWindow): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+export function activitiesOverlap(
+  a: Pick<Activity, "startDate" | "startTime" | "endDate" | "endTime">,
+  b: Pick<Activity, "startDate" | "startTime" | "endDate" | "endTime">
+): boolean {
+  return windowsOverlap(getActivityWindow(a), getActivityWindow(b));
+}
+
+// New schedule fields for moving an activity to start at newStart, keeping its duration.
+// Dates are stored the way the activity forms save them: the day at UTC midnight.
+export function rescheduleActivity(
+  activity: Pick<Activity, "startDate" | "startTime" | "endDate" | "endTime">,
+  newStart: Date
+): Pick<Activity, "startDate" | "startTime" | "endDate" | "endTime"> {
+  const { start, end } = getActivityWindow(activity);
+  const newEnd = new Date(newStart.getTime() + (end.getTime() - start.getTime()));
+  
+  return {
+    startDate: new Date(toDateKey(newStart)),
+    startTime: toTimeString(newStart),
+    endDate: new Date(toDateKey(newEnd)),
+    endTime: toTimeString(newEnd)
+  };
+}
+
+// How full an activity is, for colour-coded badges; limit 0 means unlimited
+export function getFillLevel(activity: Pick<Activity, "currentParticipants" | "participantLimit">): "open" | "filling" | "full" | "unlimited" {
+  if (!activity.participantLimit) return "unlimited";
+  const ratio = (activity.currentParticipants || 0) / activity.participantLimit;
+  if (ratio >= 1) return "full";
+  if (ratio >= 0.7) return "filling";
+  return "open";
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Copy the reusable parts of an activity, leaving out dates, bookings and series links
+export function getTemplateFields(activity: ActivityTemplateFields): ActivityTemplateFields {
+  return {
+    title: activity.title,
+    description: activity.description,
+    translations: Object.fromEntries(
+      Object.entries(activity.translations || {}).map(([locale, fields]) => [locale, { ...fields }])
+    ),
+    startTime: activity.startTime,
+    endTime: activity.endTime,
+    locations: [...activity.locations],
+    itinerary: (activity.itinerary || []).map(stop => ({ ...stop })),
+    travelMode: activity.travelMode || "walking",
+    difficulty: activity.difficulty,
+    ageGroup: activity.ageGroup,
+    estimatedDuration: activity.estimatedDuration,
+    estimatedCost: activity.estimatedCost,
+    priceTiers: activity.priceTiers ? { ...activity.priceTiers } : null,
+    tags: [...activity.tags],
+    participantLimit: activity.participantLimit,
+    cancellationPolicy: activity.cancellationPolicy ? { ...activity.cancellationPolicy } : null,
+    // A copy starts with all of its rental stock free
+    equipment: (activity.equipment || []).map(item => ({ ...item, rented: 0 }))
+  };
+}
+
+// Number of days an activity runs past its start date; 0 for a single-day activity
+export function getDurationDays(activity: Pick<Activity, "startDate" | "endDate">): number {
+  const span = new Date(activity.endDate).getTime() - new Date(activity.startDate).getTime();
+  return Math.max(0, Math.round(span / DAY_MS));
+}
+
+// Start and end dates for a copy that starts on the given YYYY-MM-DD day
+export function getCopyDates(startDay: string, durationDays: number): Pick<Activity, "startDate" | "endDate"> {
+  const startDate = new Date(startDay);
+  return {
+    startDate,
+    endDate: new Date(startDate.getTime() + durationDays * DAY_MS)
+  };
+}
+
+export const activityStatusOptions: { value: ActivityStatus; label: string }[] = [
+  { value: "draft", label: "Draft" },
+  { value: "in-review", label: "In Review" },
+  { value: "scheduled", label: "Scheduled" },
+  { value: "published", label: "Published" },
+  { value: "archived", label: "Archived" }
+];
+
+// Allowed activity status changes; anything not listed here is rejected
+export const activityStatusTransitions: Record<ActivityStatus, ActivityStatus[]> = {
+  draft: ["in-review", "archived"],
+  "in-review": ["draft", "scheduled", "published"],
+  scheduled: ["draft", "published", "archived"],
+  published: ["draft", "archived"],
+  archived: ["draft"]
+};
+
+export function canTransitionActivity(from: ActivityStatus, to: ActivityStatus): boolean {
+  return activityStatusTransitions[from]?.includes(to) ?? false;
+}
+
+// Moving out of review is an approval and needs a second admin
+export function isApproval(from: ActivityStatus, to: ActivityStatus): boolean {
+  return from === "in-review" && (to === "scheduled" || to === "published");
+}
+
+export function getActivityStatusLabel(status: ActivityStatus): string {
+  return activityStatusOptions.find(option => option.value === status)?.label || status;
+}
+
+// Scheduled activities whose publish time has passed
+export function isPublishDue(activity: Pick<Activity, "status" | "publishAt">, now: Date = new Date()): boolean {
+  return activity.status === "scheduled" && !!activity.publishAt && new Date(activity.publishAt) <= now;
+}
+
+// An activity is over once its end date and time have passed
+export function isActivityOver(
+  activity: Pick<Activity, "startDate" | "startTime" | "endDate" | "endTime">,
+  now: Date = new Date()
+): boolean {
+  return getActivityWindow(activity).end <= now;
+}
\ No newline at end of file
@@ -1,11 +1,89 @@
-export const ageGroupOptions = [
-  { value: 'all', label: 'All Ages' },
-  { value: 'adults', label: 'Adults' },
-  { value: 'children', label: 'Children' },
-  { value: 'seniors', label: 'Seniors' }
+import { Locale } from "@/types/locale";
+import { translate } from "@/locales/messages";
+import { fallbackLocale, getActiveLocale } from "./localeUtils";
+
+export type AgeGroup = "all" | "adults" | "children" | "seniors";
+
+export interface AgeGroupOption {
+  value: AgeGroup;
+  label: string;
+  minAge: number | null; // Inclusive lower bound, null for no limit
+  maxAge: number | null; // Inclusive upper bound, null for no limit
+}
+
+// Age boundaries used to check booking eligibility; adjust here to change the rules everywhere
+export const ageGroupOptions: AgeGroupOption[] = [
+  { value: 'all', label: 'All Ages', minAge: null, maxAge: null },
+  { value: 'adults', label: 'Adults', minAge: 18, maxAge: 64 },
+  { value: 'children', label: 'Children', minAge: 0, maxAge: 17 },
+  { value: 'seniors', label: 'Seniors', minAge: 65, maxAge: null }
 ];
 
-export function getAgeGroupLabel(value: string): string {
+export interface AgeEligibility {
+  eligible: boolean;
+  age: number | null; // Null when the date of birth is unknown
+  reason?: string;
+}
+
+export function getAgeGroupLabel(value: string, locale: Locale = getActiveLocale()): string {
   const option = ageGroupOptions.find(opt => opt.value === value);
-  return option ? option.label : value.charAt(0).toUpperCase() + value.slice(1);
-} 
\ No newline at end of file
+  return option ? translate(`ageGroup.${option.value}`, {}, locale) : value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export function getAgeGroupRangeLabel(value: string, locale: Locale = getActiveLocale()): string {
+  const option = ageGroupOptions.find(opt => opt.value === value);
+  if (!option || (option.minAge === null && option.maxAge === null)) return getAgeGroupLabel(value, locale);
+  const label = getAgeGroupLabel(value, locale);
+  if (option.maxAge === null) return translate("ageGroup.rangeFrom", { label, min: option.minAge ?? 0 }, locale);
+  if (option.minAge === null || option.minAge === 0) return translate("ageGroup.rangeUnder", { label, max: option.maxAge + 1 }, locale);
+  return translate("ageGroup.rangeBetween", { label, min: option.minAge, max: option.maxAge }, locale);
+}
+
+// Age in whole years on the given date
+export function getAgeOn(dob: Date | string, on: Date | string): number | null {
+  const birthDate = new Date(dob);
+  const date = new Date(on);
+  if (isNaN(birthDate.getTime()) || isNaN(date.getTime())) return null;
+  
+  let age = date.getFullYear() - birthDate.getFullYear();
+  const monthDiff = date.getMonth() - birthDate.getMonth();
+  
+  if (monthDiff < 0 || (monthDiff === 0 && date.getDate() < birthDate.getDate())) {
+    age--;
+  }
+  
+  return age;
+}
+
+export function isAgeInGroup(age: number, group: string): boolean {
+  const option = ageGroupOptions.find(opt => opt.value === group);
+  if (!option) return true;
+  
+  return (option.minAge === null || age >= option.minAge) &&
+    (option.maxAge === null || age <= option.maxAge);
+}
+
+// Check a participant's date of birth against an activity's age group at the activity start date
+export function checkAgeEligibility(
+  dob: Date | string | null | undefined,
+  activity: { ageGroup: string; startDate: Date | string }
+): AgeEligibility {
+  if (activity.ageGroup === "all") {
+    return { eligible: true, age: dob ? getAgeOn(dob, activity.startDate) : null };
+  }
+  
+  const age = dob ? getAgeOn(dob, activity.startDate) : null;
+  if (age === null) {
+    return { eligible: false, age: null, reason: "Date of birth is unknown" };
+  }
+  
+  if (!isAgeInGroup(age, activity.ageGroup)) {
+    return {
+      eligible: false,
+      age,
+      reason: `Age ${age} is outside the ${getAgeGroupRangeLabel(activity.ageGroup, fallbackLocale)} age group`
+    };
+  }
+  
+  return { eligible: true, age };
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { Booking, BookingStatus } from "@/types/booking";
+import { bookingStatusTransitions, canTransitionBooking, checkCancellation, countSeats, holdsSeat } from "./bookingUtils";
+
+const statuses = Object.keys(bookingStatusTransitions) as BookingStatus[];
+
+describe("canTransitionBooking", () => {
+  it("allows the listed transitions", () => {
+    expect(canTransitionBooking("pending", "confirmed")).toBe(true);
+    expect(canTransitionBooking("waitlisted", "confirmed")).toBe(true);
+    expect(canTransitionBooking("waitlisted", "pending")).toBe(true);
+    expect(canTransitionBooking("cancelled", "pending")).toBe(true);
+    expect(canTransitionBooking("confirmed", "cancelled")).toBe(true);
+  });
+
+  it("rejects transitions that are not listed", () => {
+    expect(canTransitionBooking("confirmed", "pending")).toBe(false);
+    expect(canTransitionBooking("confirmed", "waitlisted")).toBe(false);
+    expect(canTransitionBooking("pending", "waitlisted")).toBe(false);
+    expect(canTransitionBooking("cancelled", "waitlisted")).toBe(false);
+  });
+
+  it("never leaves completed", () => {
+    statuses.forEach(status => expect(canTransitionBooking("completed", status)).toBe(false));
+  });
+
+  it("never moves a booking to its own status", () => {
+    statuses.forEach(status => expect(canTransitionBooking(status, status)).toBe(false));
+  });
+});
+
+describe("holdsSeat", () => {
+  it("counts confirmed, pending and completed bookings", () => {
+    expect(statuses.filter(holdsSeat).sort()).toEqual(["completed", "confirmed", "pending"]);
+  });
+});
+
+describe("countSeats", () => {
+  const bookings = [
+    { status: "confirmed", partySize: 3 },
+    { status: "pending", partySize: 0 },
+    { status: "waitlisted", partySize: 2 },
+    { status: "cancelled", partySize: 4 }
+  ] as Booking[];
+
+  it("adds up party sizes, counting at least one seat per booking", () => {
+    expect(countSeats(bookings)).toBe(10);
+  });
+
+  it("limits the count to the given statuses", () => {
+    expect(countSeats(bookings, ["confirmed", "pending"])).toBe(4);
+  });
+});
+
+describe("checkCancellation", () => {
+  const policy = { freeCancellationHours: 24, lateCancellationFeePercent: 50, noShowCharged: false };
+  const activity = { startDate: new Date("2026-06-10"), startTime: "09:00", cancellationPolicy: policy };
+  const hoursBefore = (hours: number) => new Date(new Date(2026, 5, 10, 9).getTime() - hours * 60 * 60 * 1000);
+
+  it("is free without a policy", () => {
+    const check = checkCancellation({ ...activity, cancellationPolicy: null }, hoursBefore(-5));
+    expect(check).toMatchObject({ allowed: true, late: false, feePercent: 0 });
+  });
+
+  it("is free before the cancellation window", () => {
+    expect(checkCancellation(activity, hoursBefore(25))).toMatchObject({ allowed: true, late: false, feePercent: 0 });
+    expect(checkCancellation(activity, hoursBefore(24))).toMatchObject({ allowed: true, late: false });
+  });
+
+  it("charges the late fee inside the window", () => {
+    expect(checkCancellation(activity, hoursBefore(2))).toMatchObject({ allowed: true, late: true, feePercent: 50 });
+  });
+
+  it("measures the window from the start time, not the start of the day", () => {
+    expect(checkCancellation(activity, hoursBefore(28)).late).toBe(false);
+    expect(checkCancellation({ ...activity, startTime: "" }, hoursBefore(28)).late).toBe(true);
+  });
+
+  it("closes cancellations once the activity has started", () => {
+    expect(checkCancellation(activity, hoursBefore(0))).toMatchObject({ allowed: false, late: true, feePercent: 50 });
+  });
+
+  it("charges no-shows in full when the policy says so", () => {
+    const check = checkCancellation({ ...activity, cancellationPolicy: { ...policy, noShowCharged: true } }, hoursBefore(-1));
+    expect(check).toMatchObject({ allowed: false, feePercent: 100 });
+  });
+});
\ No newline at end of file
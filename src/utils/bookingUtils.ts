@@ -0,0 +1,143 @@
+import { Booking, BookingAttendee, BookingStatus } from "@/types/booking";
+import { Activity } from "@/types/activity";
+import { combineDateAndTime } from "./dateUtils";
+import { activitiesOverlap } from "./activityUtils";
+import { checkAgeEligibility, getAgeGroupLabel } from "./ageGroupUtils";
+import { Locale } from "@/types/locale";
+import { translate } from "@/locales/messages";
+import { fallbackLocale, getActiveLocale } from "./localeUtils";
+
+// Allowed booking status changes; anything not listed here is rejected
+export const bookingStatusTransitions: Record<BookingStatus, BookingStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["cancelled"],
+  waitlisted: ["confirmed", "pending", "cancelled"],
+  cancelled: ["pending", "confirmed"],
+  completed: []
+};
+
+// Statuses that occupy a seat counted in activities.currentParticipants. Completed bookings
+// attended the activity, so they keep their seats once it ends.
+export const seatHoldingStatuses: BookingStatus[] = ["confirmed", "pending", "completed"];
+
+// Statuses of bookings expected to attend; confirmed bookings become completed once the activity ends
+export const attendingStatuses: BookingStatus[] = ["confirmed", "completed"];
+
+export function canTransitionBooking(from: BookingStatus, to: BookingStatus): boolean {
+  return bookingStatusTransitions[from]?.includes(to) ?? false;
+}
+
+export function holdsSeat(status: BookingStatus): boolean {
+  return seatHoldingStatuses.includes(status);
+}
+
+// Number of seats a booking occupies when it holds a seat
+export function getSeatCount(booking: { partySize?: number }): number {
+  return Math.max(1, Math.floor(booking.partySize || 1));
+}
+
+// Total seats across bookings, optionally limited to the given statuses
+export function countSeats(bookings: Booking[], statuses?: BookingStatus[]): number {
+  return bookings
+    .filter(booking => !statuses || statuses.includes(booking.status))
+    .reduce((total, booking) => total + getSeatCount(booking), 0);
+}
+
+export interface CancellationCheck {
+  allowed: boolean; // False once the activity has started; only an admin override can cancel then
+  late: boolean;
+  feePercent: number;
+  message: string;
+}
+
+// Apply an activity's cancellation policy to a cancellation made at the given time
+export function checkCancellation(
+  activity: Pick<Activity, "startDate" | "startTime" | "cancellationPolicy">,
+  at: Date = new Date(),
+  locale: Locale = getActiveLocale()
+): CancellationCheck {
+  const policy = activity.cancellationPolicy;
+  if (!policy) {
+    return { allowed: true, late: false, feePercent: 0, message: translate("cancellation.free", {}, locale) };
+  }
+  
+  const start = combineDateAndTime(activity.startDate, activity.startTime);
+  const hoursUntilStart = (start.getTime() - at.getTime()) / (60 * 60 * 1000);
+  
+  if (hoursUntilStart <= 0) {
+    return {
+      allowed: false,
+      late: true,
+      feePercent: policy.noShowCharged ? 100 : policy.lateCancellationFeePercent,
+      message: policy.noShowCharged
+        ? translate("cancellation.noShow", {}, locale)
+        : translate("cancellation.closed", {}, locale)
+    };
+  }
+  
+  if (hoursUntilStart < policy.freeCancellationHours) {
+    return {
+      allowed: true,
+      late: true,
+      feePercent: policy.lateCancellationFeePercent,
+      message: translate("cancellation.late", { percent: policy.lateCancellationFeePercent }, locale)
+    };
+  }
+  
+  return { allowed: true, late: false, feePercent: 0, message: translate("cancellation.free", {}, locale) };
+}
+
+// Pairs of active bookings whose activities run at the same time; bookings need activityObject loaded
+export function findOverlappingPairs(bookings: Booking[]): Array<[Booking, Booking]> {
+  const active = bookings.filter(booking => holdsSeat(booking.status) && booking.activityObject);
+  const pairs: Array<[Booking, Booking]> = [];
+  
+  for (let i = 0; i < active.length; i++) {
+    for (let j = i + 1; j < active.length; j++) {
+      if (
+        active[i].activityId !== active[j].activityId &&
+        activitiesOverlap(active[i].activityObject, active[j].activityObject)
+      ) {
+        pairs.push([active[i], active[j]]);
+      }
+    }
+  }
+  
+  return pairs;
+}
+
+export interface EligibilityCheck {
+  allowed: boolean; // False when the party does not fit the activity's age group
+  flag: string | null; // Reason to show staff, also set for bookings that could not be verified
+}
+
+// Check a booking against the activity's age group. Named attendees are checked by their declared
+// age group; otherwise the booking user is the participant and is checked by date of birth.
+export function checkBookingEligibility(
+  dob: Date | string | null | undefined,
+  attendees: BookingAttendee[] | undefined,
+  activity: Pick<Activity, "ageGroup" | "startDate">
+): EligibilityCheck {
+  if (activity.ageGroup === "all") {
+    return { allowed: true, flag: null };
+  }
+  
+  if (attendees && attendees.length > 0) {
+    const mismatched = attendees.filter(attendee => attendee.ageGroup !== activity.ageGroup);
+    if (mismatched.length > 0) {
+      return {
+        allowed: false,
+        flag: `${mismatched.map(attendee => attendee.name).join(", ")} not in the ${getAgeGroupLabel(activity.ageGroup, fallbackLocale)} age group`
+      };
+    }
+    return { allowed: true, flag: null };
+  }
+  
+  const eligibility = checkAgeEligibility(dob, activity);
+  if (eligibility.eligible) {
+    return { allowed: true, flag: null };
+  }
+  
+  // Without a date of birth the booking goes through but is flagged for staff to verify
+  return { allowed: eligibility.age === null, flag: eligibility.reason || null };
+}
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { Activity } from "@/types/activity";
+import { Booking } from "@/types/booking";
+import { Location } from "@/types/location";
+import { activityToEvent, bookingToEvent, buildCalendar, CalendarEvent, toCalendarFileName } from "./calendarUtils";
+
+const locations = [
+  { id: "harbour", name: "Old Harbour", address: "Byblos", coordinates: { lat: 34.12, lng: 35.64 } },
+  { id: "castle", name: "Crusader Castle", address: "", coordinates: { lat: 0, lng: 0 } }
+] as Location[];
+
+const activity = {
+  id: "walk",
+  title: "Harbour walk",
+  description: "Meet at the gate",
+  startDate: new Date("2026-06-01T00:00:00Z"),
+  endDate: new Date("2026-06-01T00:00:00Z"),
+  startTime: "22:00",
+  endTime: "01:30",
+  locations: ["harbour", "castle"],
+  itinerary: [],
+  status: "published"
+} as Activity;
+
+const event: CalendarEvent = {
+  uid: "activity-walk@meshwar",
+  start: new Date(Date.UTC(2026, 5, 1, 9, 0)),
+  end: new Date(Date.UTC(2026, 5, 1, 11, 30)),
+  summary: "Walk; talk, eat",
+  description: "Line one\nLine two",
+  location: "",
+  geo: { lat: 34.12, lng: 35.64 }
+};
+
+describe("activityToEvent", () => {
+  it("uses the stored day and times as wall-clock times, running past midnight when needed", () => {
+    const result = activityToEvent(activity, locations);
+    expect(result.start.toISOString()).toBe("2026-06-01T22:00:00.000Z");
+    expect(result.end.toISOString()).toBe("2026-06-02T01:30:00.000Z");
+  });
+
+  it("places the event at the first stop and lists the itinerary", () => {
+    const result = activityToEvent(activity, locations);
+    expect(result.location).toBe("Old Harbour, Byblos");
+    expect(result.geo).toEqual({ lat: 34.12, lng: 35.64 });
+    expect(result.description).toBe("Meet at the gate\n\nItinerary:\n1. Old Harbour, Byblos\n2. Crusader Castle");
+  });
+
+  it("cancels archived activities", () => {
+    expect(activityToEvent({ ...activity, status: "archived" }, locations).cancelled).toBe(true);
+  });
+});
+
+describe("bookingToEvent", () => {
+  it("adds the booking reference and party, and cancels cancelled bookings", () => {
+    const booking = { id: "b1", status: "cancelled", partySize: 3 } as Booking;
+    const result = bookingToEvent(booking, activity, locations);
+    expect(result.uid).toBe("booking-b1@meshwar");
+    expect(result.description.startsWith("Booking b1, party of 3\n\n")).toBe(true);
+    expect(result.cancelled).toBe(true);
+  });
+});
+
+describe("buildCalendar", () => {
+  it("writes CRLF lines with escaped text", () => {
+    const calendar = buildCalendar("Trips", [event]);
+    const lines = calendar.split("\r\n");
+    expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(lines).toContain("BEGIN:VEVENT");
+    expect(lines).toContain("SUMMARY:Walk\\; talk\\, eat");
+    expect(lines).toContain("DESCRIPTION:Line one\\nLine two");
+    expect(lines).toContain("GEO:34.12;35.64");
+    expect(lines).toContain("STATUS:CONFIRMED");
+    expect(lines.some(line => line.startsWith("LOCATION"))).toBe(false);
+  });
+
+  it("writes floating times without a time zone and UTC times with one", () => {
+    expect(buildCalendar("Trips", [event]).split("\r\n")).toContain("DTSTART:20260601T090000");
+    const zoned = buildCalendar("Trips", [event], { timeZone: "Asia/Beirut" }).split("\r\n");
+    expect(zoned).toContain("DTSTART:20260601T060000Z");
+    expect(zoned).toContain("DTEND:20260601T083000Z");
+    expect(zoned.some(line => line.includes("TZID"))).toBe(false);
+  });
+
+  it("follows daylight saving time in the zone", () => {
+    const winter = { ...event, start: new Date(Date.UTC(2026, 0, 15, 9)), end: new Date(Date.UTC(2026, 0, 15, 10)) };
+    expect(buildCalendar("Trips", [winter], { timeZone: "Asia/Beirut" }).split("\r\n")).toContain("DTSTART:20260115T070000Z");
+    // 02:30 on the spring-forward night in New York does not exist; it is read with the offset before the change
+    const gap = { ...event, start: new Date(Date.UTC(2026, 2, 8, 2, 30)), end: new Date(Date.UTC(2026, 2, 8, 4)) };
+    const lines = buildCalendar("Trips", [gap], { timeZone: "America/New_York" }).split("\r\n");
+    expect(lines).toContain("DTSTART:20260308T073000Z");
+    expect(lines).toContain("DTEND:20260308T080000Z");
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const calendar = buildCalendar("Trips", [{ ...event, description: "رحلة ".repeat(40) }]);
+    const lines = calendar.split("\r\n");
+    lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(lines.some(line => line.includes("�"))).toBe(false);
+    expect(calendar.replace(/\r\n /g, "")).toContain(`DESCRIPTION:${"رحلة ".repeat(40)}`);
+  });
+});
+
+describe("toCalendarFileName", () => {
+  it("makes an ASCII slug", () => {
+    expect(toCalendarFileName("Byblos: Old Harbour walk!")).toBe("byblos-old-harbour-walk.ics");
+    expect(toCalendarFileName("جولة")).toBe("event.ics");
+  });
+});
@@ -0,0 +1,214 @@
+import { Activity } from "@/types/activity";
+import { Booking } from "@/types/booking";
+import { Location } from "@/types/location";
+import { getItinerary } from "./itineraryUtils";
+import { getSeatCount } from "./bookingUtils";
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date; // Wall-clock time, read through the UTC getters
+  end: Date;
+  summary: string;
+  description: string;
+  location: string;
+  geo?: { lat: number; lng: number };
+  cancelled?: boolean;
+}
+
+export interface CalendarOptions {
+  timeZone?: string; // IANA zone the event times are in; written as UTC. Floating local times when missing
+}
+
+const UID_DOMAIN = "meshwar";
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+// Stored dates are the day at UTC midnight, so the calendar day is read in UTC and the
+// "HH:mm" time added on top. The result is a wall-clock time, independent of the server zone.
+function toWallClock(date: Date | string, time: string): Date {
+  const day = new Date(date);
+  const [hours, minutes] = (time || "00:00").split(":").map(Number);
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hours || 0, minutes || 0));
+}
+
+function formatWallClock(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}00`;
+}
+
+function formatTimestamp(date: Date): string {
+  return `${formatWallClock(date)}Z`;
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function getZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric"
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(item => item.type === type)?.value);
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The instant a wall-clock time happens in the zone. The offset is checked again at the result in
+// case a daylight saving change lies in between. Times skipped by a change keep the offset from
+// before it, as RFC 5545 reads them.
+function toInstant(wallClock: Date, timeZone: string): Date {
+  const guess = wallClock.getTime() - getZoneOffset(wallClock, timeZone);
+  const offset = getZoneOffset(new Date(guess), timeZone);
+  const instant = wallClock.getTime() - offset;
+  return new Date(getZoneOffset(new Date(instant), timeZone) === offset ? instant : guess);
+}
+
+// Text values escape backslashes, separators and line breaks (RFC 5545 section 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let length = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (length + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      length = 0;
+    }
+    current += char;
+    length += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function describeLocation(location: Location): string {
+  return [location.name, location.address].filter(Boolean).join(", ");
+}
+
+// Event for an activity; locations are looked up for the itinerary stops
+export function activityToEvent(activity: Activity, locations: Location[]): CalendarEvent {
+  const start = toWallClock(activity.startDate, activity.startTime);
+  let end = toWallClock(activity.endDate || activity.startDate, activity.endTime);
+  // An end time before the start time on the same day runs past midnight
+  if (end <= start) {
+    end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+  }
+
+  const stops = getItinerary(activity)
+    .map(stop => ({ stop, location: locations.find(location => location.id === stop.locationId) }))
+    .filter((item): item is { stop: typeof item.stop; location: Location } => !!item.location);
+  const first = stops[0]?.location;
+
+  const description = [activity.description];
+  if (stops.length > 1) {
+    description.push("", "Itinerary:");
+    stops.forEach(({ stop, location }, index) => {
+      const times = [stop.arrivalTime, stop.departureTime].filter(Boolean).join(" - ");
+      description.push(`${index + 1}. ${describeLocation(location)}${times ? ` (${times})` : ""}`);
+    });
+  }
+
+  return {
+    uid: `activity-${activity.id}@${UID_DOMAIN}`,
+    start,
+    end,
+    summary: activity.title,
+    description: description.join("\n").trim(),
+    location: first ? describeLocation(first) : "",
+    geo: first?.coordinates,
+    cancelled: activity.status === "archived"
+  };
+}
+
+// Event for a booking: the activity, with the party and booking reference added
+export function bookingToEvent(booking: Booking, activity: Activity, locations: Location[]): CalendarEvent {
+  const event = activityToEvent(activity, locations);
+  const seats = getSeatCount(booking);
+
+  return {
+    ...event,
+    uid: `booking-${booking.id}@${UID_DOMAIN}`,
+    description: [
+      `Booking ${booking.id}${seats > 1 ? `, party of ${seats}` : ""}`,
+      event.description
+    ].filter(Boolean).join("\n\n"),
+    cancelled: event.cancelled || booking.status === "cancelled"
+  };
+}
+
+// iCalendar document with the given events
+export function buildCalendar(name: string, events: CalendarEvent[], options: CalendarOptions = {}): string {
+  const timeZone = options.timeZone;
+  // Zoned times are written in UTC, so the calendar needs no VTIMEZONE definition of the zone
+  const dateTime = (property: string, date: Date) =>
+    timeZone ? `${property}:${formatTimestamp(toInstant(date, timeZone))}` : `${property}:${formatWallClock(date)}`;
+  const stamp = formatTimestamp(new Date());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Meshwar//Activities//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...(timeZone ? [`X-WR-TIMEZONE:${timeZone}`] : [])
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      dateTime("DTSTART", event.start),
+      dateTime("DTEND", event.end),
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.geo && (event.geo.lat || event.geo.lng)) lines.push(`GEO:${event.geo.lat};${event.geo.lng}`);
+    lines.push(`STATUS:${event.cancelled ? "CANCELLED" : "CONFIRMED"}`, "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// File name for a calendar download, from a title. ASCII only, as it is also sent in headers.
+export function toCalendarFileName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "event"}.ics`;
+}
+
+// Save events as an .ics file from the browser. Times are given in the browser's zone,
+// which is the zone the activity forms entered them in.
+export function downloadCalendar(name: string, events: CalendarEvent[]): void {
+  const content = buildCalendar(name, events, { timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+  const url = URL.createObjectURL(new Blob([content], { type: "text/calendar;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = toCalendarFileName(name);
+  link.click();
+  URL.revokeObjectURL(url);
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { combineDateAndTime } from "./dateUtils";
+
+describe("combineDateAndTime", () => {
+  it("keeps the stored day and takes the time as local time", () => {
+    expect(combineDateAndTime(new Date("2026-06-01"), "09:30")).toEqual(new Date(2026, 5, 1, 9, 30));
+    expect(combineDateAndTime("2026-06-01T00:00:00.000Z", "23:45")).toEqual(new Date(2026, 5, 1, 23, 45));
+  });
+
+  it("starts the day at local midnight without a time", () => {
+    expect(combineDateAndTime(new Date("2026-06-01"), "")).toEqual(new Date(2026, 5, 1));
+  });
+});
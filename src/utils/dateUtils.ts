@@ -1,7 +1,11 @@
-export function formatDate(date: Date | string): string {
+import { Locale } from "@/types/locale";
+import { getFormatTag } from "./localeUtils";
+
+// Formatted in the active interface language unless a locale is given
+export function formatDate(date: Date | string, locale?: Locale): string {
   if (!date) return '';
   const d = typeof date === 'string' ? new Date(date) : date;
-  return d.toLocaleDateString('en-US', {
+  return d.toLocaleDateString(getFormatTag(locale), {
     year: 'numeric',
     month: 'short',
     day: 'numeric'
@@ -13,6 +17,26 @@ export function formatTime(time: string): string {
   return time;
 }
 
+// Combine a stored date with an "HH:mm" time string into a single Date. Stored dates are the day
+// at UTC midnight, so the day is read in UTC and the time taken as local time on that day.
+export function combineDateAndTime(date: Date | string, time: string): Date {
+  const day = new Date(date);
+  const [hours, minutes] = (time || '00:00').split(':').map(Number);
+  return new Date(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hours || 0, minutes || 0);
+}
+
+// Local calendar day as "YYYY-MM-DD", the format used by date inputs
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+export function toTimeString(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
 export function isDateInPast(date: Date | string): boolean {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
@@ -0,0 +1,98 @@
+import { EquipmentItem, EquipmentRequirement } from "@/types/activity";
+import { BookingRental, BookingStatus } from "@/types/booking";
+import { roundMoney } from "./paymentUtils";
+import { Locale } from "@/types/locale";
+import { translate } from "@/locales/messages";
+import { getActiveLocale } from "./localeUtils";
+
+export const equipmentRequirementLabels: Record<EquipmentRequirement, string> = {
+  required: "Required",
+  recommended: "Recommended"
+};
+
+export function createEquipmentItem(): EquipmentItem {
+  return {
+    id: Math.random().toString(36).slice(2, 10),
+    name: "",
+    requirement: "required",
+    notes: "",
+    rentable: false,
+    rentalPrice: 0,
+    stock: 0,
+    rented: 0
+  };
+}
+
+// Rented equipment stays reserved for every booking that is not cancelled, waitlisted ones included
+export function holdsEquipment(status: BookingStatus): boolean {
+  return status !== "cancelled";
+}
+
+export function getAvailableStock(item: Pick<EquipmentItem, "stock" | "rented">): number {
+  return Math.max(0, item.stock - item.rented);
+}
+
+// Reason the requested rentals cannot be reserved, or null when they can
+export function checkRentals(
+  equipment: EquipmentItem[],
+  rentals: Pick<BookingRental, "itemId" | "quantity">[],
+  locale: Locale = getActiveLocale()
+): string | null {
+  for (const rental of rentals) {
+    if (rental.quantity <= 0) continue;
+    const item = equipment.find(candidate => candidate.id === rental.itemId);
+    if (!item || !item.rentable) {
+      return translate("rentals.unavailable", {}, locale);
+    }
+    if (rental.quantity > getAvailableStock(item)) {
+      return translate("rentals.lowStock", { count: getAvailableStock(item), name: item.name }, locale);
+    }
+  }
+  return null;
+}
+
+// Priced rental lines at the activity's current rental prices
+export function getRentalLines(
+  equipment: EquipmentItem[],
+  rentals: Pick<BookingRental, "itemId" | "quantity">[]
+): BookingRental[] {
+  return rentals.flatMap(rental => {
+    const item = equipment.find(candidate => candidate.id === rental.itemId && candidate.rentable);
+    const quantity = Math.floor(rental.quantity);
+    if (!item || quantity <= 0) return [];
+    return [{
+      itemId: item.id,
+      name: item.name,
+      quantity,
+      unitPrice: item.rentalPrice,
+      amount: roundMoney(quantity * item.rentalPrice)
+    }];
+  });
+}
+
+export function getRentalTotal(rentals: Pick<BookingRental, "amount">[]): number {
+  return roundMoney(rentals.reduce((total, rental) => total + rental.amount, 0));
+}
+
+// Reserve (direction 1) or release (direction -1) the rented items on the activity's equipment
+export function applyRentals(
+  equipment: EquipmentItem[],
+  rentals: Pick<BookingRental, "itemId" | "quantity">[],
+  direction: 1 | -1
+): EquipmentItem[] {
+  return equipment.map(item => {
+    const quantity = rentals
+      .filter(rental => rental.itemId === item.id)
+      .reduce((total, rental) => total + rental.quantity, 0);
+    return quantity > 0 ? { ...item, rented: Math.max(0, item.rented + direction * quantity) } : item;
+  });
+}
+
+// Edited equipment with the rented counts currently stored, since bookings may have
+// reserved items while the form was open
+export function keepRentedCounts(edited: EquipmentItem[], current: EquipmentItem[]): EquipmentItem[] {
+  return edited.map(item => ({
+    ...item,
+    rented: current.find(stored => stored.id === item.id)?.rented || 0
+  }));
+}
\ No newline at end of file
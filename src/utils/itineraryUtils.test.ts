@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { Activity, ItineraryStop } from "@/types/activity";
+import { Location } from "@/types/location";
+import { findLocationConflicts, isBlockingConflict, LocationPlan } from "./itineraryUtils";
+
+const location = (id: string, capacity: number, exclusive = false) => ({ id, capacity, exclusive }) as Location;
+
+const stop = (locationId: string, arrivalTime = "", departureTime = ""): ItineraryStop =>
+  ({ locationId, arrivalTime, departureTime, dwellMinutes: 0, notes: "" });
+
+const plan = (startTime: string, endTime: string, itinerary: ItineraryStop[], participantLimit = 10): LocationPlan => ({
+  startDate: new Date("2026-06-01"),
+  endDate: new Date("2026-06-01"),
+  startTime,
+  endTime,
+  locations: itinerary.map(item => item.locationId),
+  itinerary,
+  participantLimit
+});
+
+const other = (id: string, fields: LocationPlan, status: Activity["status"] = "published") =>
+  ({ ...fields, id, title: id, status }) as Activity;
+
+describe("findLocationConflicts", () => {
+  const locations = [location("museum", 0), location("cave", 0, true), location("park", 30)];
+
+  it("lists activities sharing a location without a limit, without blocking", () => {
+    const others = [other("a", plan("09:00", "12:00", [stop("museum")]))];
+    const conflicts = findLocationConflicts([plan("10:00", "11:00", [stop("museum")])], others, locations);
+    expect(conflicts.map(conflict => conflict.reason)).toEqual(["shared"]);
+    expect(conflicts.some(isBlockingConflict)).toBe(false);
+  });
+
+  it("keeps exclusive locations for one activity at a time", () => {
+    const others = [other("a", plan("09:00", "12:00", [stop("cave")]))];
+    const conflicts = findLocationConflicts([plan("11:00", "13:00", [stop("cave")])], others, locations);
+    expect(conflicts.map(({ locationId, activity, reason }) => [locationId, activity.id, reason]))
+      .toEqual([["cave", "a", "overlap"]]);
+  });
+
+  it("lets activities that only touch share an exclusive location", () => {
+    const others = [other("a", plan("09:00", "12:00", [stop("cave")]))];
+    expect(findLocationConflicts([plan("12:00", "14:00", [stop("cave")])], others, locations)).toEqual([]);
+  });
+
+  it("uses stop times where both are given", () => {
+    const others = [other("a", plan("09:00", "17:00", [stop("museum"), stop("cave", "14:00", "15:00")]))];
+    expect(findLocationConflicts([plan("10:00", "12:00", [stop("cave")])], others, locations)).toEqual([]);
+    expect(findLocationConflicts([plan("14:30", "16:00", [stop("cave")])], others, locations)).toHaveLength(1);
+  });
+
+  it("shares a location with a capacity while the participant limits fit", () => {
+    const others = [other("a", plan("09:00", "12:00", [stop("park")], 20))];
+    expect(findLocationConflicts([plan("10:00", "11:00", [stop("park")], 10)], others, locations).map(conflict => conflict.reason))
+      .toEqual(["shared"]);
+
+    const conflicts = findLocationConflicts([plan("10:00", "11:00", [stop("park")], 11)], others, locations);
+    expect(conflicts.map(conflict => conflict.reason)).toEqual(["capacity"]);
+  });
+
+  it("counts an activity without a participant limit as filling the location", () => {
+    const others = [other("a", plan("09:00", "12:00", [stop("park")], 0))];
+    expect(findLocationConflicts([plan("10:00", "11:00", [stop("park")], 1)], others, locations)).toHaveLength(1);
+  });
+
+  it("skips excluded and archived activities", () => {
+    const others = [
+      other("a", plan("09:00", "12:00", [stop("cave")])),
+      other("b", plan("09:00", "12:00", [stop("cave")]), "archived")
+    ];
+    expect(findLocationConflicts([plan("10:00", "11:00", [stop("cave")])], others, locations, ["a"])).toEqual([]);
+  });
+
+  it("reports each location and activity once", () => {
+    const others = [other("a", plan("09:00", "12:00", [stop("cave")]))];
+    const plans = [plan("09:00", "10:00", [stop("cave")]), plan("10:00", "11:00", [stop("cave")])];
+    expect(findLocationConflicts(plans, others, locations)).toHaveLength(1);
+  });
+
+  it("keeps the blocking reason when another plan goes over the capacity", () => {
+    const others = [other("a", plan("09:00", "12:00", [stop("park")], 20))];
+    const plans = [plan("09:00", "10:00", [stop("park")], 5), plan("10:00", "11:00", [stop("park")], 15)];
+    expect(findLocationConflicts(plans, others, locations).map(conflict => conflict.reason)).toEqual(["capacity"]);
+  });
+});
@@ -0,0 +1,156 @@
+import { Activity, ItineraryStop, LocationConflict, LocationConflictReason } from "@/types/activity";
+import { Location } from "@/types/location";
+import { Locale } from "@/types/locale";
+import { translate } from "@/locales/messages";
+import { combineDateAndTime } from "./dateUtils";
+import { getActivityWindow, TimeWindow, windowsOverlap } from "./activityUtils";
+import { getActiveLocale } from "./localeUtils";
+
+// What the location checks need to know about an activity
+export type LocationPlan = Pick<Activity,
+  "startDate" | "startTime" | "endDate" | "endTime" | "locations" | "itinerary" | "participantLimit">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createItineraryStop(locationId: string): ItineraryStop {
+  return { locationId, arrivalTime: "", departureTime: "", dwellMinutes: 0, notes: "" };
+}
+
+function toMinutes(time: string): number | null {
+  if (!time) return null;
+  const [hours, minutes] = time.split(":").map(Number);
+  return isNaN(hours) ? null : hours * 60 + (minutes || 0);
+}
+
+// Minutes between arrival and departure, or null when either time is missing or out of order
+export function getDwellMinutes(arrivalTime: string, departureTime: string): number | null {
+  const arrival = toMinutes(arrivalTime);
+  const departure = toMinutes(departureTime);
+  if (arrival === null || departure === null || departure < arrival) return null;
+  return departure - arrival;
+}
+
+// Stops for an activity; activities saved before itineraries existed get one blank stop per location
+export function getItinerary(activity: Pick<Activity, "locations" | "itinerary">): ItineraryStop[] {
+  if (activity.itinerary && activity.itinerary.length > 0) {
+    return activity.itinerary;
+  }
+  return (activity.locations || []).map(createItineraryStop);
+}
+
+// Locations in itinerary order, skipping stops whose location no longer exists
+export function getItineraryLocations(stops: ItineraryStop[], locations: Location[]): Location[] {
+  return stops
+    .map(stop => locations.find(location => location.id === stop.locationId))
+    .filter((location): location is Location => !!location);
+}
+
+// Problems with the planned times, such as a stop that starts before the previous one ends
+export function validateItinerary(stops: ItineraryStop[], locale: Locale = getActiveLocale()): string[] {
+  const problems: string[] = [];
+  let previousDeparture: number | null = null;
+  
+  stops.forEach((stop, index) => {
+    const arrival = toMinutes(stop.arrivalTime);
+    const departure = toMinutes(stop.departureTime);
+    
+    if (arrival !== null && departure !== null && departure < arrival) {
+      problems.push(translate("itinerary.departsBeforeArrival", { stop: index + 1 }, locale));
+    }
+    if (arrival !== null && previousDeparture !== null && arrival < previousDeparture) {
+      problems.push(translate("itinerary.arrivesBeforePrevious", { stop: index + 1, previous: index }, locale));
+    }
+    previousDeparture = departure ?? arrival ?? previousDeparture;
+  });
+  
+  return problems;
+}
+
+// When the activity is at each stop. Stop times fall on the first day, or the next one for
+// times before the activity starts; stops without both times take the whole activity.
+export function getStopWindows(plan: LocationPlan): Array<{ locationId: string; window: TimeWindow }> {
+  const whole = getActivityWindow(plan);
+  const dayStart = combineDateAndTime(plan.startDate, "00:00");
+  const at = (minutes: number) => {
+    const time = new Date(dayStart.getTime() + minutes * 60 * 1000);
+    return time < whole.start ? new Date(time.getTime() + DAY_MS) : time;
+  };
+  
+  return getItinerary(plan).map(stop => {
+    const arrival = toMinutes(stop.arrivalTime);
+    const departure = toMinutes(stop.departureTime);
+    if (arrival === null || departure === null) {
+      return { locationId: stop.locationId, window: whole };
+    }
+    
+    const start = at(arrival);
+    let end = at(departure);
+    if (end <= start) {
+      end = new Date(end.getTime() + DAY_MS);
+    }
+    return { locationId: stop.locationId, window: { start, end } };
+  });
+}
+
+// Other activities at one of the plans' locations while the plan is there. Every overlap is
+// listed, but only locations that ask for it turn it into a conflict: an exclusive location takes
+// one activity at a time, and one with a capacity takes any number whose participant limits fit,
+// counted as if all were there at once. An activity without a limit could fill it alone.
+// Archived activities no longer use their locations.
+export function findLocationConflicts(
+  plans: LocationPlan[],
+  others: Activity[],
+  locations: Location[],
+  excludeIds: string[] = []
+): LocationConflict[] {
+  const conflicts: LocationConflict[] = [];
+  const active = others.filter(other => !excludeIds.includes(other.id) && other.status !== "archived");
+  
+  plans.forEach(plan => {
+    getStopWindows(plan).forEach(({ locationId, window }) => {
+      const location = locations.find(item => item.id === locationId);
+      const overlapping = active.filter(other =>
+        getStopWindows(other).some(stop => stop.locationId === locationId && windowsOverlap(stop.window, window))
+      );
+      if (!location || overlapping.length === 0) return;
+      
+      let reason: LocationConflictReason = "shared";
+      if (location.exclusive) {
+        reason = "overlap";
+      } else if (location.capacity > 0) {
+        const seats = [plan, ...overlapping]
+          .reduce((total, activity) => total + (activity.participantLimit > 0 ? activity.participantLimit : location.capacity), 0);
+        if (seats > location.capacity) reason = "capacity";
+      }
+      
+      overlapping.forEach(other => {
+        const listed = conflicts.find(conflict => isSameConflict(conflict, { locationId, activity: other }));
+        if (!listed) {
+          conflicts.push({ locationId, activity: other, reason });
+        } else if (listed.reason === "shared") {
+          // Another of the plans may be the one that goes over the limit
+          listed.reason = reason;
+        }
+      });
+    });
+  });
+  
+  return conflicts;
+}
+
+// Conflicts that stop the activity from being saved; shared use of an unlimited location is only a warning
+export function isBlockingConflict(conflict: LocationConflict): boolean {
+  return conflict.reason !== "shared";
+}
+
+// Same location and other activity, whatever the reason
+export function isSameConflict(
+  a: Pick<LocationConflict, "locationId" | "activity">,
+  b: Pick<LocationConflict, "locationId" | "activity">
+): boolean {
+  return a.locationId === b.locationId && a.activity.id === b.activity.id;
+}
+
+export function describeLocationConflict(conflict: LocationConflict, locationName: string, locale: Locale = getActiveLocale()): string {
+  return translate(`conflict.${conflict.reason}`, { activity: conflict.activity.title, location: locationName }, locale);
+}
\ No newline at end of file
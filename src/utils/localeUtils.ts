@@ -0,0 +1,80 @@
+import { Locale, Translations } from "@/types/locale";
+
+// Language of the plain content fields, shown when a translation is missing
+export const fallbackLocale: Locale = "en";
+
+export const localeOptions: Array<{ value: Locale; label: string; dir: "ltr" | "rtl"; formatTag: string }> = [
+  { value: "en", label: "English", dir: "ltr", formatTag: "en-US" },
+  { value: "ar", label: "العربية", dir: "rtl", formatTag: "ar-LB" }
+];
+
+// Languages content can be translated into
+export const translationLocales = localeOptions.filter(option => option.value !== fallbackLocale);
+
+export function isLocale(value: unknown): value is Locale {
+  return localeOptions.some(option => option.value === value);
+}
+
+export function getDirection(locale: Locale): "ltr" | "rtl" {
+  return localeOptions.find(option => option.value === locale)?.dir || "ltr";
+}
+
+const LOCALE_STORAGE_KEY = "locale";
+
+// Language picked in this browser
+export function getStoredLocale(): Locale {
+  if (typeof window === "undefined") return fallbackLocale;
+  const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+  return isLocale(stored) ? stored : fallbackLocale;
+}
+
+export function storeLocale(locale: Locale): void {
+  window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+}
+
+// Locale used by the date and number formatters. Until the language is switched it is the stored
+// one, so the first render in the browser is already formatted in the right language.
+let activeLocale: Locale | null = null;
+
+export function setActiveLocale(locale: Locale): void {
+  activeLocale = locale;
+}
+
+export function getActiveLocale(): Locale {
+  if (activeLocale === null && typeof window !== "undefined") {
+    activeLocale = getStoredLocale();
+  }
+  return activeLocale ?? fallbackLocale;
+}
+
+// BCP 47 tag passed to Intl for a locale
+export function getFormatTag(locale: Locale = getActiveLocale()): string {
+  return localeOptions.find(option => option.value === locale)?.formatTag || "en-US";
+}
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions, locale: Locale = getActiveLocale()): string {
+  return new Intl.NumberFormat(getFormatTag(locale), options).format(value);
+}
+
+// A content field in the given language, falling back to the untranslated field
+export function localize<Field extends string>(
+  entity: Partial<Record<Field, string>> & { translations?: Translations<Field> },
+  field: Field,
+  locale: Locale = getActiveLocale()
+): string {
+  return entity.translations?.[locale]?.[field]?.trim() || entity[field] || "";
+}
+
+// Drop empty translations so documents only store what was entered
+export function cleanTranslations<Field extends string>(translations: Translations<Field>): Translations<Field> {
+  const cleaned: Translations<Field> = {};
+  for (const [locale, fields] of Object.entries(translations) as Array<[Locale, Partial<Record<Field, string>>]>) {
+    const entries = Object.entries(fields || {})
+      .map(([field, value]) => [field, (value as string | undefined)?.trim() || ""])
+      .filter(([, value]) => value);
+    if (entries.length > 0) {
+      cleaned[locale] = Object.fromEntries(entries) as Partial<Record<Field, string>>;
+    }
+  }
+  return cleaned;
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { Payment, PaymentMethod, PaymentStatus } from "@/types/payment";
+import { getSeatCount } from "./bookingUtils";
+import { getFormatTag } from "./localeUtils";
+
+export const DEFAULT_CURRENCY = "USD";
+
+export const paymentMethodOptions: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'transfer', label: 'Bank Transfer' }
+];
+
+export interface PaymentSummary {
+  paid: number;
+  refunded: number;
+  net: number;
+  balance: number; // Amount still owed; negative when overpaid
+  status: PaymentStatus;
+}
+
+// Price of a booking: the total priced when it was booked, or the activity cost for every
+// seat in the party for bookings made before pricing was stored
+export function getAmountDue(
+  booking: { partySize?: number; price?: { total: number } | null },
+  activity: { estimatedCost?: number } | null | undefined
+): number {
+  if (booking.price) return roundMoney(booking.price.total);
+  return roundMoney((activity?.estimatedCost || 0) * getSeatCount(booking));
+}
+
+export function summarizePayments(payments: Payment[], amountDue: number): PaymentSummary {
+  const paid = roundMoney(payments.filter(p => p.type === "payment").reduce((sum, p) => sum + p.amount, 0));
+  const refunded = roundMoney(payments.filter(p => p.type === "refund").reduce((sum, p) => sum + p.amount, 0));
+  const net = roundMoney(paid - refunded);
+  
+  let status: PaymentStatus = "unpaid";
+  if (refunded > 0 && net <= 0) {
+    status = "refunded";
+  } else if (net > 0 && net < amountDue) {
+    status = "partially-paid";
+  } else if (net > 0) {
+    status = "paid";
+  }
+  
+  return { paid, refunded, net, balance: roundMoney(amountDue - net), status };
+}
+
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat(getFormatTag(), { style: 'currency', currency }).format(amount);
+}
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
\ No newline at end of file
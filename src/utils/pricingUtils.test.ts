@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { BookingPrice } from "@/types/booking";
+import { PromoCode } from "@/types/promoCode";
+import { calculateBookingPrice, checkPromoCode, getPriceLines, getPromoDiscount, summarizeRevenue } from "./pricingUtils";
+
+const activity = {
+  estimatedCost: 40,
+  priceTiers: { adults: 40, children: 20, seniors: 30, groupRate: 25, groupMinSize: 8 }
+};
+
+const promo: PromoCode = {
+  id: "promo",
+  code: "SUMMER",
+  description: "",
+  discountType: "percent",
+  discountValue: 10,
+  validFrom: new Date(2026, 5, 1),
+  validUntil: new Date(2026, 7, 31),
+  usageLimit: 5,
+  usageCount: 0,
+  activityIds: [],
+  isActive: true,
+  createdAt: new Date(2026, 0, 1),
+  updatedAt: new Date(2026, 0, 1)
+};
+
+describe("getPriceLines", () => {
+  it("charges every seat the estimated cost without tiers", () => {
+    expect(getPriceLines({ estimatedCost: 15, priceTiers: null }, { partySize: 3 }))
+      .toEqual([{ tier: "adults", quantity: 3, unitPrice: 15, amount: 45 }]);
+  });
+
+  it("prices named attendees by age group and the other seats as adults", () => {
+    const lines = getPriceLines(activity, {
+      partySize: 4,
+      attendees: [{ name: "Lea", ageGroup: "children" }, { name: "Sami", ageGroup: "seniors" }]
+    });
+    expect(lines).toEqual([
+      { tier: "adults", quantity: 2, unitPrice: 40, amount: 80 },
+      { tier: "children", quantity: 1, unitPrice: 20, amount: 20 },
+      { tier: "seniors", quantity: 1, unitPrice: 30, amount: 30 }
+    ]);
+  });
+
+  it("switches to the group rate from the group size on", () => {
+    expect(getPriceLines(activity, { partySize: 7 })).toEqual([{ tier: "adults", quantity: 7, unitPrice: 40, amount: 280 }]);
+    expect(getPriceLines(activity, { partySize: 8 })).toEqual([{ tier: "group", quantity: 8, unitPrice: 25, amount: 200 }]);
+  });
+});
+
+describe("checkPromoCode", () => {
+  const at = new Date(2026, 6, 1);
+
+  it("accepts a valid code", () => {
+    expect(checkPromoCode(promo, "activity", at)).toBeNull();
+  });
+
+  it("rejects inactive, out-of-date and used-up codes", () => {
+    expect(checkPromoCode({ ...promo, isActive: false }, "activity", at)).toMatch(/no longer active/);
+    expect(checkPromoCode(promo, "activity", new Date(2026, 4, 31))).toMatch(/not valid yet/);
+    expect(checkPromoCode(promo, "activity", new Date(2026, 8, 1))).toMatch(/expired/);
+    expect(checkPromoCode({ ...promo, usageCount: 5 }, "activity", at)).toMatch(/usage limit/);
+    expect(checkPromoCode({ ...promo, usageLimit: null, usageCount: 500 }, "activity", at)).toBeNull();
+  });
+
+  it("limits codes to their activities", () => {
+    expect(checkPromoCode({ ...promo, activityIds: ["other"] }, "activity", at)).toMatch(/does not apply/);
+    expect(checkPromoCode({ ...promo, activityIds: ["activity"] }, "activity", at)).toBeNull();
+  });
+});
+
+describe("getPromoDiscount", () => {
+  it("never discounts more than the subtotal", () => {
+    expect(getPromoDiscount({ discountType: "percent", discountValue: 150 }, 80)).toBe(80);
+    expect(getPromoDiscount({ discountType: "fixed", discountValue: 100 }, 80)).toBe(80);
+    expect(getPromoDiscount({ discountType: "fixed", discountValue: -5 }, 80)).toBe(0);
+  });
+
+  it("rounds percentage discounts to cents", () => {
+    expect(getPromoDiscount({ discountType: "percent", discountValue: 15 }, 33.33)).toBe(5);
+  });
+});
+
+describe("calculateBookingPrice", () => {
+  it("discounts the seats and adds rentals at full price", () => {
+    const price = calculateBookingPrice(activity, { partySize: 2 }, promo, [{ amount: 12.5 }]);
+    expect(price).toMatchObject({ subtotal: 80, discount: 8, rentals: 12.5, total: 84.5, promoCode: "SUMMER" });
+  });
+});
+
+describe("summarizeRevenue", () => {
+  const price = (total: number, promoCode: string | null = null): BookingPrice => ({
+    lines: [{ tier: "adults", quantity: 1, unitPrice: total, amount: total }],
+    subtotal: total,
+    discount: 0,
+    total,
+    currency: "USD",
+    promoCode
+  });
+
+  it("only counts bookings that hold a seat", () => {
+    const summary = summarizeRevenue([
+      { status: "confirmed", price: price(40, "SUMMER") },
+      { status: "completed", price: price(30) },
+      { status: "waitlisted", price: price(100, "SUMMER") },
+      { status: "cancelled", price: price(100) },
+      { status: "pending", price: null }
+    ]);
+    expect(summary.total).toBe(70);
+    expect(summary.byTier.adults).toEqual({ quantity: 2, amount: 70 });
+    expect(summary.byPromoCode.SUMMER).toEqual({ bookings: 1, discount: 0, total: 40 });
+  });
+});
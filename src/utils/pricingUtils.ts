@@ -0,0 +1,153 @@
+import { Activity } from "@/types/activity";
+import { Booking, BookingAttendee, BookingPrice, BookingPriceLine, BookingRental, PriceTier } from "@/types/booking";
+import { PromoCode } from "@/types/promoCode";
+import { getSeatCount, holdsSeat } from "./bookingUtils";
+import { DEFAULT_CURRENCY, formatCurrency, roundMoney } from "./paymentUtils";
+import { getRentalTotal } from "./equipmentUtils";
+import { Locale } from "@/types/locale";
+import { translate } from "@/locales/messages";
+import { getActiveLocale } from "./localeUtils";
+
+export const priceTierLabels: Record<PriceTier, string> = {
+  adults: "Adult",
+  children: "Child",
+  seniors: "Senior",
+  group: "Group rate"
+};
+
+// Reason the promo code cannot be used for this activity at the given time, or null when it can
+export function checkPromoCode(
+  promo: PromoCode,
+  activityId: string,
+  at: Date = new Date(),
+  locale: Locale = getActiveLocale()
+): string | null {
+  if (!promo.isActive) return translate("promoCheck.inactive", {}, locale);
+  if (promo.validFrom && at < new Date(promo.validFrom)) return translate("promoCheck.notYetValid", {}, locale);
+  if (promo.validUntil && at > new Date(promo.validUntil)) return translate("promoCheck.expired", {}, locale);
+  if (promo.usageLimit !== null && promo.usageCount >= promo.usageLimit) {
+    return translate("promoCheck.limitReached", {}, locale);
+  }
+  if (promo.activityIds.length > 0 && !promo.activityIds.includes(activityId)) {
+    return translate("promoCheck.otherActivity", {}, locale);
+  }
+  return null;
+}
+
+// Price lines for a party. Named attendees are priced by their age group and the remaining
+// seats at the adult price; large enough parties get the group rate instead.
+export function getPriceLines(
+  activity: Pick<Activity, "estimatedCost" | "priceTiers">,
+  booking: { partySize?: number; attendees?: BookingAttendee[] }
+): BookingPriceLine[] {
+  const seats = getSeatCount(booking);
+  const tiers = activity.priceTiers;
+  const line = (tier: PriceTier, quantity: number, unitPrice: number): BookingPriceLine => ({
+    tier,
+    quantity,
+    unitPrice,
+    amount: roundMoney(quantity * unitPrice)
+  });
+  
+  if (!tiers) {
+    return [line("adults", seats, activity.estimatedCost || 0)];
+  }
+  
+  if (tiers.groupRate !== null && tiers.groupMinSize > 0 && seats >= tiers.groupMinSize) {
+    return [line("group", seats, tiers.groupRate)];
+  }
+  
+  const attendees = (booking.attendees || []).slice(0, seats);
+  const counts = {
+    adults: seats - attendees.length + attendees.filter(attendee => attendee.ageGroup === "adults").length,
+    children: attendees.filter(attendee => attendee.ageGroup === "children").length,
+    seniors: attendees.filter(attendee => attendee.ageGroup === "seniors").length
+  };
+  
+  return (["adults", "children", "seniors"] as const)
+    .filter(tier => counts[tier] > 0)
+    .map(tier => line(tier, counts[tier], tiers[tier]));
+}
+
+export function getPromoDiscount(promo: Pick<PromoCode, "discountType" | "discountValue">, subtotal: number): number {
+  const discount = promo.discountType === "percent"
+    ? subtotal * Math.min(100, promo.discountValue) / 100
+    : promo.discountValue;
+  return roundMoney(Math.min(subtotal, Math.max(0, discount)));
+}
+
+export function describeDiscount(
+  promo: Pick<PromoCode, "discountType" | "discountValue">,
+  locale: Locale = getActiveLocale()
+): string {
+  return promo.discountType === "percent"
+    ? translate("discount.percent", { value: promo.discountValue }, locale)
+    : translate("discount.amount", { amount: formatCurrency(promo.discountValue) }, locale);
+}
+
+// Promo codes discount the seats only; equipment rentals are added at full price
+export function calculateBookingPrice(
+  activity: Pick<Activity, "estimatedCost" | "priceTiers">,
+  booking: { partySize?: number; attendees?: BookingAttendee[] },
+  promo?: Pick<PromoCode, "code" | "discountType" | "discountValue"> | null,
+  rentals: Pick<BookingRental, "amount">[] = []
+): BookingPrice {
+  const lines = getPriceLines(activity, booking);
+  const subtotal = roundMoney(lines.reduce((total, line) => total + line.amount, 0));
+  const discount = promo ? getPromoDiscount(promo, subtotal) : 0;
+  const rentalTotal = getRentalTotal(rentals);
+  
+  return {
+    lines,
+    subtotal,
+    discount,
+    rentals: rentalTotal,
+    total: roundMoney(subtotal - discount + rentalTotal),
+    currency: DEFAULT_CURRENCY,
+    promoCode: promo?.code || null
+  };
+}
+
+export interface RevenueSummary {
+  subtotal: number;
+  discount: number;
+  total: number;
+  byTier: Partial<Record<PriceTier, { quantity: number; amount: number }>>;
+  byPromoCode: Record<string, { bookings: number; discount: number; total: number }>;
+}
+
+// Revenue from the prices stored on bookings; cancelled bookings and bookings made
+// before prices were stored are left out. Tier amounts are before discounts.
+export function summarizeRevenue(bookings: Pick<Booking, "status" | "price">[]): RevenueSummary {
+  const summary: RevenueSummary = { subtotal: 0, discount: 0, total: 0, byTier: {}, byPromoCode: {} };
+  
+  bookings.forEach(({ status, price }) => {
+    // Waitlisted and cancelled bookings have not taken a seat, so they bring in nothing
+    if (!holdsSeat(status) || !price) return;
+    
+    summary.subtotal = roundMoney(summary.subtotal + price.subtotal);
+    summary.discount = roundMoney(summary.discount + price.discount);
+    summary.total = roundMoney(summary.total + price.total);
+    
+    price.lines.forEach(line => {
+      const tier = summary.byTier[line.tier] || { quantity: 0, amount: 0 };
+      summary.byTier[line.tier] = { quantity: tier.quantity + line.quantity, amount: roundMoney(tier.amount + line.amount) };
+    });
+    
+    if (price.promoCode) {
+      const promo = summary.byPromoCode[price.promoCode] || { bookings: 0, discount: 0, total: 0 };
+      summary.byPromoCode[price.promoCode] = {
+        bookings: promo.bookings + 1,
+        discount: roundMoney(promo.discount + price.discount),
+        total: roundMoney(promo.total + price.total)
+      };
+    }
+  });
+  
+  return summary;
+}
+
+// Upper-case and trim so codes match however they are typed
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
\ No newline at end of file
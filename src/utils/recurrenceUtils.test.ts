@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { RecurrenceRule } from "@/types/activity";
+import { describeRecurrence, expandRecurrence, MAX_OCCURRENCES } from "./recurrenceUtils";
+
+const days = (startDate: string, rule: RecurrenceRule) =>
+  expandRecurrence(startDate, rule).map(day => day.toISOString().split("T")[0]);
+
+describe("expandRecurrence", () => {
+  it("repeats daily at the interval", () => {
+    expect(days("2026-06-01", { frequency: "daily", interval: 2, count: 3 }))
+      .toEqual(["2026-06-01", "2026-06-03", "2026-06-05"]);
+  });
+
+  it("repeats weekly on the chosen weekdays, from the start day on", () => {
+    // 2026-06-03 is a Wednesday, so that week's Monday is skipped
+    expect(days("2026-06-03", { frequency: "weekly", interval: 1, byWeekday: [5, 1], count: 4 }))
+      .toEqual(["2026-06-05", "2026-06-08", "2026-06-12", "2026-06-15"]);
+  });
+
+  it("repeats weekly on the start weekday without chosen weekdays", () => {
+    expect(days("2026-06-01", { frequency: "weekly", interval: 2, count: 3 }))
+      .toEqual(["2026-06-01", "2026-06-15", "2026-06-29"]);
+  });
+
+  it("skips months too short for the start day", () => {
+    expect(days("2026-01-31", { frequency: "monthly", interval: 1, count: 3 }))
+      .toEqual(["2026-01-31", "2026-03-31", "2026-05-31"]);
+  });
+
+  it("stops after the until date, including it", () => {
+    expect(days("2026-06-01", { frequency: "daily", interval: 1, until: new Date("2026-06-03") }))
+      .toEqual(["2026-06-01", "2026-06-02", "2026-06-03"]);
+  });
+
+  it("counts exception dates toward the count before removing them", () => {
+    expect(days("2026-06-01", { frequency: "daily", interval: 1, count: 3, exceptionDates: ["2026-06-02"] }))
+      .toEqual(["2026-06-01", "2026-06-03"]);
+  });
+
+  it("caps open-ended rules", () => {
+    expect(expandRecurrence("2026-06-01", { frequency: "daily", interval: 1 })).toHaveLength(MAX_OCCURRENCES);
+    expect(expandRecurrence("2026-06-01", { frequency: "daily", interval: 1, count: 1000 })).toHaveLength(MAX_OCCURRENCES);
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("names the interval, weekdays and end", () => {
+    expect(describeRecurrence({ frequency: "weekly", interval: 2, byWeekday: [3, 1], count: 5 }))
+      .toBe("Every 2 weeks on Mon, Wed, 5 times");
+    expect(describeRecurrence({ frequency: "daily", interval: 1, until: new Date("2026-06-30") }))
+      .toBe("Every day until 2026-06-30");
+  });
+});
@@ -0,0 +1,111 @@
+import { RecurrenceRule } from "@/types/activity";
+import { Locale } from "@/types/locale";
+import { translate } from "@/locales/messages";
+import { getActiveLocale, getFormatTag } from "./localeUtils";
+
+// Upper bound on generated occurrences so an open-ended rule cannot create unbounded documents
+export const MAX_OCCURRENCES = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const weekdayOptions = [
+  { value: 0, label: "Sun" },
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" }
+];
+
+// Short weekday name in the given language; 4 January 2026 was a Sunday
+export function getWeekdayLabel(weekday: number, locale: Locale = getActiveLocale()): string {
+  return new Intl.DateTimeFormat(getFormatTag(locale), { weekday: "short", timeZone: "UTC" })
+    .format(new Date(Date.UTC(2026, 0, 4 + weekday)));
+}
+
+// Activity dates are stored as the day at UTC midnight, so recurrence works on UTC days
+function toDayKey(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function utcDay(date: Date | string): Date {
+  const d = new Date(date);
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+// Candidate days in order, before count/until/exception handling
+function* candidateDays(start: Date, rule: RecurrenceRule): Generator<Date> {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  
+  if (rule.frequency === "daily") {
+    for (let i = 0; ; i++) {
+      yield new Date(start.getTime() + i * interval * DAY_MS);
+    }
+  }
+  
+  if (rule.frequency === "weekly") {
+    const weekdays = rule.byWeekday && rule.byWeekday.length > 0
+      ? [...rule.byWeekday].sort((a, b) => a - b)
+      : [start.getUTCDay()];
+    const weekStart = new Date(start.getTime() - start.getUTCDay() * DAY_MS);
+    
+    for (let week = 0; ; week += interval) {
+      for (const weekday of weekdays) {
+        const day = new Date(weekStart.getTime() + (week * 7 + weekday) * DAY_MS);
+        if (day >= start) yield day;
+      }
+    }
+  }
+  
+  // Monthly: same day of the month, skipping months that are too short
+  for (let month = 0; ; month += interval) {
+    const day = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + month, start.getUTCDate()));
+    if (day.getUTCDate() === start.getUTCDate()) yield day;
+  }
+}
+
+// Expand a rule into the start days of its occurrences, beginning with the first activity's start day.
+// The count limit applies before exception dates are removed, as in iCalendar.
+export function expandRecurrence(startDate: Date | string, rule: RecurrenceRule): Date[] {
+  const start = utcDay(startDate);
+  const until = rule.until ? utcDay(rule.until) : null;
+  // Rules without a count are still capped at MAX_OCCURRENCES
+  const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const exceptions = new Set(rule.exceptionDates || []);
+  const days: Date[] = [];
+  let generated = 0;
+  
+  for (const day of candidateDays(start, rule)) {
+    if ((until && day > until) || generated >= limit) break;
+    generated++;
+    
+    if (!exceptions.has(toDayKey(day))) {
+      days.push(day);
+    }
+  }
+  
+  return days;
+}
+
+export function describeRecurrence(rule: RecurrenceRule, locale: Locale = getActiveLocale()): string {
+  const interval = Math.max(1, rule.interval || 1);
+  let description = interval === 1
+    ? translate(`recurrence.every.${rule.frequency}`, {}, locale)
+    : translate(`recurrence.everyN.${rule.frequency}`, { count: interval }, locale);
+  
+  if (rule.frequency === "weekly" && rule.byWeekday && rule.byWeekday.length > 0) {
+    const labels = [...rule.byWeekday]
+      .sort((a, b) => a - b)
+      .map(value => getWeekdayLabel(value, locale));
+    description = translate("recurrence.onDays", { rule: description, days: labels.join(", ") }, locale);
+  }
+  
+  if (rule.until) {
+    description = translate("recurrence.until", { rule: description, date: toDayKey(utcDay(rule.until)) }, locale);
+  } else if (rule.count) {
+    description = translate("recurrence.times", { rule: description, count: rule.count }, locale);
+  }
+  
+  return description;
+}
\ No newline at end of file
@@ -1,8 +1,13 @@
 import { User } from "@/types/user";
 import { Activity } from "@/types/activity";
-import { Booking } from "@/types/booking";
+import { Booking, BookingHistoryEntry } from "@/types/booking";
 import { Location } from "@/types/location";
 import { formatDate } from "./dateUtils";
+import { countSeats, getSeatCount, findOverlappingPairs, attendingStatuses, seatHoldingStatuses } from "./bookingUtils";
+import { formatCurrency } from "./paymentUtils";
+import { formatDistance, formatDuration } from "./routeUtils";
+import { priceTierLabels, summarizeRevenue } from "./pricingUtils";
+import { getRoute } from "@/services/routeProviders";
 
 interface AdminReportData {
   users: User[];
@@ -14,7 +19,11 @@ interface AdminReportData {
 }
 
 // Generate a user report with their bookings
-export async function generateUserReport(user: User, bookings: Booking[]) {
+export async function generateUserReport(
+  user: User, 
+  bookings: Booking[], 
+  history: Record<string, BookingHistoryEntry[]> = {}
+) {
   try {
     // Create report content
     let reportContent = `
@@ -50,6 +59,33 @@ export async function generateUserReport(user: User, bookings: Booking[]) {
         - Locations: ${booking.activityObject?.locationObjects?.map(loc => loc.name).join(", ") || "N/A"}
         - Booked on: ${formatDate(booking.createdAt)}
         `;
+        
+        const entries = history[booking.id] || [];
+        if (entries.length > 0) {
+          reportContent += "- History:";
+          entries.forEach(entry => {
+            const change = entry.fromStatus && entry.toStatus
+              ? `${entry.fromStatus} -> ${entry.toStatus}`
+              : entry.toStatus || entry.action;
+            reportContent += `\n          - ${entry.createdAt.toLocaleString()}: ${entry.action} (${change}) by ${entry.changedByName || entry.changedBy || "System"}${entry.reason ? ` - ${entry.reason}` : ""}`;
+          });
+          reportContent += "\n";
+        }
+      });
+    }
+    
+    const conflicts = findOverlappingPairs(bookings);
+    reportContent += `
+      
+      ## Schedule Conflicts
+    `;
+    if (conflicts.length === 0) {
+      reportContent += "\nNo overlapping bookings.";
+    } else {
+      conflicts.forEach(([first, second]) => {
+        reportContent += `
+        - ${first.activityObject?.title || "Unknown Activity"} (${first.activityObject?.startTime || "N/A"} - ${first.activityObject?.endTime || "N/A"}) overlaps ${second.activityObject?.title || "Unknown Activity"} (${second.activityObject?.startTime || "N/A"} - ${second.activityObject?.endTime || "N/A"}) on ${first.activityObject?.startDate ? formatDate(first.activityObject.startDate) : "N/A"}
+        `;
       });
     }
     
@@ -76,6 +112,43 @@ export async function generateUserReport(user: User, bookings: Booking[]) {
 // Generate an activity report with its bookings
 export async function generateActivityReport(activity: Activity, bookings: Booking[]) {
   try {
+    // Attendance counts confirmed and completed bookings; no-shows are known once the activity has started
+    const confirmedBookings = bookings.filter(b => attendingStatuses.includes(b.status));
+    const confirmedSeats = countSeats(confirmedBookings);
+    const attended = countSeats(confirmedBookings.filter(b => b.checkedIn));
+    const notCheckedIn = confirmedSeats - attended;
+    const hasStarted = activity.startDate ? new Date(activity.startDate) <= new Date() : false;
+    
+    // Legs between consecutive stops, in itinerary order
+    const stops = activity.locationObjects || [];
+    const travelMode = activity.travelMode || "walking";
+    const route = stops.length > 1 ? await getRoute(stops.map(loc => loc.coordinates), travelMode) : null;
+    const routeSection = route
+      ? [
+          `- Travel Mode: ${travelMode.charAt(0).toUpperCase() + travelMode.slice(1)}`,
+          `- Total Distance: ${formatDistance(route.totalDistanceKm)}`,
+          `- Estimated Travel Time: ${formatDuration(route.totalDurationMinutes)}`,
+          ...route.legs.map(leg => 
+            `- Leg ${leg.fromIndex + 1}: ${stops[leg.fromIndex].name} -> ${stops[leg.toIndex].name}, ${formatDistance(leg.distanceKm)}, ${formatDuration(leg.durationMinutes)}`
+          )
+        ].join("\n      ")
+      : "- Fewer than two stops, no travel between locations";
+    
+    // Revenue from the totals stored on each booking
+    const revenue = summarizeRevenue(bookings);
+    const tierLines = Object.entries(revenue.byTier).map(([tier, { quantity, amount }]) => 
+      `- ${priceTierLabels[tier as keyof typeof priceTierLabels]}: ${quantity} seats, ${formatCurrency(amount)}`
+    );
+    const promoLines = Object.entries(revenue.byPromoCode).map(([code, promo]) => 
+      `- ${code}: ${promo.bookings} bookings, ${formatCurrency(promo.discount)} discounted, ${formatCurrency(promo.total)} revenue`
+    );
+    const pricingSection = activity.priceTiers
+      ? `Adult ${formatCurrency(activity.priceTiers.adults)}, Child ${formatCurrency(activity.priceTiers.children)}, Senior ${formatCurrency(activity.priceTiers.seniors)}${
+          activity.priceTiers.groupRate !== null 
+            ? `, Group ${formatCurrency(activity.priceTiers.groupRate)} from ${activity.priceTiers.groupMinSize} people` 
+            : ""}`
+      : "Single price";
+    
     // Create report content
     let reportContent = `
       # Activity Report: ${activity.title}
@@ -89,19 +162,41 @@ export async function generateActivityReport(activity: Activity, bookings: Booki
       - Difficulty: ${activity.difficulty.charAt(0).toUpperCase() + activity.difficulty.slice(1)}
       - Age Group: ${activity.ageGroup.charAt(0).toUpperCase() + activity.ageGroup.slice(1)}
       - Estimated Cost: $${activity.estimatedCost}
+      - Price Tiers: ${pricingSection}
       - Estimated Duration: ${activity.estimatedDuration} minutes
       - Status: ${activity.isExpired ? "Expired" : activity.isActive ? "Active" : "Inactive"}
       - Participant Limit: ${activity.participantLimit || "Unlimited"}
       - Current Participants: ${activity.currentParticipants || 0}
       - Tags: ${activity.tags?.join(", ") || "None"}
       
+      ## Route
+      ${routeSection}
+      
       ## Booking Summary
-      - Total Participants: ${bookings.length}
-      - Confirmed Participants: ${bookings.filter(b => b.status === "confirmed").length}
-      - Pending Participants: ${bookings.filter(b => b.status === "pending").length}
-      - Cancelled Participants: ${bookings.filter(b => b.status === "cancelled").length}
+      - Total Bookings: ${bookings.length}
+      - Total Participants: ${countSeats(bookings, seatHoldingStatuses)}
+      - Confirmed Participants: ${countSeats(bookings, ["confirmed"])}
+      - Completed Participants: ${countSeats(bookings, ["completed"])}
+      - Pending Participants: ${countSeats(bookings, ["pending"])}
+      - Waitlisted Participants: ${countSeats(bookings, ["waitlisted"])}
+      - Cancelled Participants: ${countSeats(bookings, ["cancelled"])}
       - Capacity Utilization: ${activity.participantLimit 
-          ? `${Math.round((bookings.length / activity.participantLimit) * 100)}%` 
+          ? `${Math.round((countSeats(bookings, seatHoldingStatuses) / activity.participantLimit) * 100)}%` 
+          : "N/A"}
+      
+      ## Revenue by Tier
+      ${tierLines.length > 0 ? tierLines.join("\n      ") : "- No priced bookings"}
+      - Discounts: ${formatCurrency(revenue.discount)}
+      - Total Revenue: ${formatCurrency(revenue.total)}
+      
+      ## Promo Codes
+      ${promoLines.length > 0 ? promoLines.join("\n      ") : "- No promo codes used"}
+      
+      ## Attendance
+      - Attended: ${attended}
+      - ${hasStarted ? "No-shows" : "Not yet checked in"}: ${notCheckedIn}
+      - Attendance Rate: ${confirmedSeats > 0 && hasStarted 
+          ? `${Math.round((attended / confirmedSeats) * 100)}%` 
           : "N/A"}
       
       ## Participant Details
@@ -112,10 +207,18 @@ export async function generateActivityReport(activity: Activity, bookings: Booki
     } else {
       bookings.forEach((booking, index) => {
         reportContent += `
-        ### Participant ${index + 1}
+        ### Booking ${index + 1}
         - Name: ${booking.userObject?.displayName || "Unknown User"}
         - Email: ${booking.userObject?.email || "N/A"}
         - Status: ${booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+        - Party Size: ${getSeatCount(booking)}
+        - Price: ${booking.price 
+            ? `${formatCurrency(booking.price.total)}${booking.price.promoCode ? ` (${booking.price.promoCode}, -${formatCurrency(booking.price.discount)})` : ""}` 
+            : "N/A"}
+        - Checked In: ${booking.checkedIn 
+            ? `Yes${booking.checkedInAt ? ` (${new Date(booking.checkedInAt).toLocaleString()})` : ""}` 
+            : "No"}
+        - Attendees: ${booking.attendees?.map(attendee => `${attendee.name} (${attendee.ageGroup})`).join(", ") || "N/A"}
         - Booked on: ${formatDate(booking.createdAt)}
         `;
       });
@@ -164,7 +267,7 @@ export async function generateAdminReport(data: AdminReportData) {
       - Active Activities: ${stats.activeActivities}
       - Completed Activities: ${stats.completedActivities}
       - Average Participants Per Activity: ${stats.averageParticipantsPerActivity}
-      - Most Popular Activity: ${stats.mostPopularActivity}
+      - Most Popular Activity: ${stats.mostPopularActivity || "None"}
       
       ## Booking Analysis
       - Confirmed Bookings: ${stats.confirmedBookings}
@@ -174,8 +277,13 @@ export async function generateAdminReport(data: AdminReportData) {
           ? `${Math.round((stats.confirmedBookings / stats.totalBookings) * 100)}%` 
           : "N/A"}
       
+      ## Revenue
+      - Total Collected: ${formatCurrency(stats.totalRevenue || 0)}
+      - Total Refunded: ${formatCurrency(stats.totalRefunds || 0)}
+      - Net Revenue: ${formatCurrency(stats.netRevenue || 0)}
+      
       ## User Analysis
-      - Most Active User: ${stats.mostActiveUser}
+      - Most Active User: ${stats.mostActiveUser || "None"}
       
       ## Activities by Difficulty
     `;
@@ -0,0 +1,69 @@
+import { Activity } from "@/types/activity";
+import { Booking } from "@/types/booking";
+import { RatingInput, RatingSummary, Review, ReviewTarget } from "@/types/review";
+import { isActivityOver } from "./activityUtils";
+import { attendingStatuses } from "./bookingUtils";
+import { Locale } from "@/types/locale";
+import { translate } from "@/locales/messages";
+import { getActiveLocale } from "./localeUtils";
+
+export const ratingValues = [1, 2, 3, 4, 5];
+
+export function getReviewId(bookingId: string, targetType: ReviewTarget, targetId: string): string {
+  return `${bookingId}_${targetType}_${targetId}`;
+}
+
+export function emptyRatingSummary(): RatingSummary {
+  return { average: 0, count: 0, distribution: ratingValues.map(() => 0) };
+}
+
+// Reason the booking cannot be reviewed yet, or null when it can
+export function checkReviewEligibility(
+  booking: Pick<Booking, "status">,
+  activity: Pick<Activity, "startDate" | "startTime" | "endDate" | "endTime">,
+  now: Date = new Date()
+): string | null {
+  if (!attendingStatuses.includes(booking.status)) {
+    return "Only confirmed bookings can be reviewed";
+  }
+  if (!isActivityOver(activity, now)) {
+    return "The activity can be reviewed once it is over";
+  }
+  return null;
+}
+
+// Reason the rating cannot be saved, or null when it is valid
+export function validateRating(input: RatingInput): string | null {
+  if (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5) {
+    return "Ratings must be between 1 and 5 stars";
+  }
+  if (input.comment.length > 2000) {
+    return "Comments are limited to 2000 characters";
+  }
+  return null;
+}
+
+// Average and star distribution of the approved reviews
+export function summarizeRatings(reviews: Pick<Review, "rating" | "status">[]): RatingSummary {
+  const summary = emptyRatingSummary();
+  const approved = reviews.filter(review => review.status === "approved");
+  if (approved.length === 0) return summary;
+
+  let total = 0;
+  for (const review of approved) {
+    summary.distribution[review.rating - 1]++;
+    total += review.rating;
+  }
+
+  summary.count = approved.length;
+  summary.average = Math.round((total / approved.length) * 10) / 10;
+  return summary;
+}
+
+export function formatRating(summary: RatingSummary | null | undefined, locale: Locale = getActiveLocale()): string {
+  if (!summary || summary.count === 0) return translate("rating.none", {}, locale);
+  const average = summary.average.toFixed(1);
+  return summary.count === 1
+    ? translate("rating.summaryOne", { average }, locale)
+    : translate("rating.summaryMany", { average, count: summary.count }, locale);
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { TravelMode } from "@/types/activity";
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+// Average speeds used to estimate travel time, in km/h; adjust here to tune every estimate
+export const travelSpeeds: Record<TravelMode, number> = {
+  walking: 4.5,
+  driving: 50,
+  bus: 25
+};
+
+export const travelModeOptions: { value: TravelMode; label: string }[] = [
+  { value: "walking", label: "Walking" },
+  { value: "driving", label: "Driving" },
+  { value: "bus", label: "Bus" }
+];
+
+export interface RouteLeg {
+  fromIndex: number; // Stop indexes within the requested stops
+  toIndex: number;
+  distanceKm: number;
+  durationMinutes: number;
+  path?: Coordinates[]; // Road geometry when the router provides one; otherwise a straight line
+}
+
+export interface RouteSummary {
+  legs: RouteLeg[];
+  totalDistanceKm: number;
+  totalDurationMinutes: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+// Great-circle distance between two points, in km
+export function haversineDistance(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+export function estimateTravelMinutes(distanceKm: number, mode: TravelMode): number {
+  return distanceKm / travelSpeeds[mode] * 60;
+}
+
+export function summarizeLegs(legs: RouteLeg[]): RouteSummary {
+  return {
+    legs,
+    totalDistanceKm: legs.reduce((total, leg) => total + leg.distanceKm, 0),
+    totalDurationMinutes: legs.reduce((total, leg) => total + leg.durationMinutes, 0)
+  };
+}
+
+// Straight-line legs between consecutive stops
+export function getStraightLineRoute(stops: Coordinates[], mode: TravelMode): RouteSummary {
+  const legs: RouteLeg[] = [];
+  for (let i = 1; i < stops.length; i++) {
+    const distanceKm = haversineDistance(stops[i - 1], stops[i]);
+    legs.push({
+      fromIndex: i - 1,
+      toIndex: i,
+      distanceKm,
+      durationMinutes: estimateTravelMinutes(distanceKm, mode)
+    });
+  }
+  return summarizeLegs(legs);
+}
+
+export function formatDistance(distanceKm: number): string {
+  return distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m` : `${distanceKm.toFixed(1)} km`;
+}
+
+export function formatDuration(minutes: number): string {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { Activity, ActivityStaff, StaffConflict, StaffRole } from "@/types/activity";
+import { User } from "@/types/user";
+import { activitiesOverlap } from "./activityUtils";
+
+type Schedule = Pick<Activity, "startDate" | "startTime" | "endDate" | "endTime">;
+
+// Pages a guide may open; everything else is for admins
+export const guideRoutes = ["/my-activities", "/my-reviews", "/profile"];
+
+// Pages a participant (role "user") may open: rating the trips they attended and their profile
+export const participantRoutes = ["/my-reviews", "/profile"];
+
+export function emptyStaff(): ActivityStaff {
+  return { leadGuideId: null, assistantIds: [], driverIds: [] };
+}
+
+// Guides and admins can be assigned to run activities
+export function canBeStaff(user: Pick<User, "role">): boolean {
+  return user.role === "guide" || user.role === "admin";
+}
+
+// Everyone assigned to the activity, once each
+export function getStaffIds(staff: ActivityStaff | null | undefined): string[] {
+  if (!staff) return [];
+  const ids = [staff.leadGuideId, ...staff.assistantIds, ...staff.driverIds].filter((id): id is string => !!id);
+  return Array.from(new Set(ids));
+}
+
+export function getStaffRole(staff: ActivityStaff | null | undefined, userId: string): StaffRole | null {
+  if (!staff) return null;
+  if (staff.leadGuideId === userId) return "lead";
+  if (staff.assistantIds.includes(userId)) return "assistant";
+  if (staff.driverIds.includes(userId)) return "driver";
+  return null;
+}
+
+// Problems with the assignment itself, such as one person holding two roles
+export function validateStaff(staff: ActivityStaff | null | undefined): string[] {
+  if (!staff) return [];
+  const ids = [staff.leadGuideId, ...staff.assistantIds, ...staff.driverIds].filter(Boolean);
+  return ids.length !== new Set(ids).size ? ["A staff member can only hold one role on an activity"] : [];
+}
+
+// Assigned staff already running one of the other activities while any of the schedules runs.
+// Archived activities no longer need their staff.
+export function findStaffConflicts(
+  staff: ActivityStaff | null | undefined,
+  schedules: Schedule[],
+  others: Activity[],
+  excludeIds: string[] = []
+): StaffConflict[] {
+  const staffIds = getStaffIds(staff);
+  const conflicts: StaffConflict[] = [];
+  
+  others
+    .filter(other => !excludeIds.includes(other.id) && other.status !== "archived")
+    .filter(other => schedules.some(schedule => activitiesOverlap(schedule, other)))
+    .forEach(other => {
+      getStaffIds(other.staff)
+        .filter(id => staffIds.includes(id))
+        .forEach(userId => conflicts.push({ userId, activity: other }));
+    });
+  
+  return conflicts;
+}
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { Tag } from "@/types/tag";
+
+// Lower-case, accent-free and hyphenated so "Hiking", "hiking " and "híking" share a slug.
+// Letters outside Latin (e.g. Arabic) are kept, without their diacritics.
+export function toTagSlug(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Split comma-separated input such as the legacy "eating , jezzine" into separate tags
+export function splitTagInput(input: string): string[] {
+  return input
+    .split(",")
+    .map(part => part.trim().replace(/\s+/g, " "))
+    .filter(part => toTagSlug(part) !== "");
+}
+
+// The managed tag a name refers to, by its own slug or one of its synonyms
+export function findTag(name: string, tags: Tag[]): Tag | undefined {
+  const slug = toTagSlug(name);
+  return tags.find(tag => tag.id === slug)
+    || tags.find(tag => tag.synonyms.some(synonym => toTagSlug(synonym) === slug));
+}
+
+// Canonical display name for a tag, or the trimmed input when it is a new tag
+export function resolveTagName(name: string, tags: Tag[]): string {
+  return findTag(name, tags)?.name || name.trim().replace(/\s+/g, " ");
+}
+
+// Split, resolve and de-duplicate a list of tags, keeping the first spelling of each
+export function normalizeTagList(names: string[], tags: Tag[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  
+  names.flatMap(splitTagInput).forEach(part => {
+    const name = resolveTagName(part, tags);
+    const slug = toTagSlug(name);
+    if (!seen.has(slug)) {
+      seen.add(slug);
+      result.push(name);
+    }
+  });
+  
+  return result;
+}
+
+// Tags whose name or a synonym starts with the typed text, most used first
+export function suggestTags(input: string, tags: Tag[], exclude: string[] = [], max = 8): Tag[] {
+  const slug = toTagSlug(input);
+  if (!slug) return [];
+  
+  const excluded = exclude.map(toTagSlug);
+  return tags
+    .filter(tag => !excluded.includes(tag.id))
+    .filter(tag => [tag.name, ...tag.synonyms].some(name => toTagSlug(name).startsWith(slug)))
+    .sort((a, b) => b.usageCount - a.usageCount || a.name.localeCompare(b.name))
+    .slice(0, max);
+}
+
+// How much each tag's usage count changes when an activity's tags go from previous to next
+export function getTagUsageChanges(previous: string[], next: string[]): Map<string, { name: string; delta: number }> {
+  const changes = new Map<string, { name: string; delta: number }>();
+  const previousSlugs = new Set(previous.map(toTagSlug));
+  const nextSlugs = new Set(next.map(toTagSlug));
+  
+  next.forEach(name => {
+    const slug = toTagSlug(name);
+    if (slug && !previousSlugs.has(slug)) changes.set(slug, { name, delta: 1 });
+  });
+  previous.forEach(name => {
+    const slug = toTagSlug(name);
+    if (slug && !nextSlugs.has(slug)) changes.set(slug, { name, delta: -1 });
+  });
+  
+  return changes;
+}
\ No newline at end of file